@@ -0,0 +1,45 @@
+import { createFileCache, FileCacheSnapshot } from '@/lib/analysisCache';
+import { ANALYZER_VERSION, FileMetrics } from '@/lib/codeAnalysis';
+import { typescriptAnalyzer } from '@/lib/languageAnalyzers';
+import { MAINTAINABILITY_LIMITS } from '@/lib/maintainability';
+
+jest.mock('@/lib/supabaseAdmin', () => ({ supabaseAdmin: {} }));
+
+const CONTENT = 'export const add = (a: number, b: number) => a + b;\n';
+
+function takeSnapshot(metrics: FileMetrics): FileCacheSnapshot {
+  const cache = createFileCache(null);
+  cache.store('src/add.ts', CONTENT, MAINTAINABILITY_LIMITS, metrics);
+  return cache.snapshot('abc123');
+}
+
+describe('File cache', () => {
+  const metrics = typescriptAnalyzer.analyze('add.ts', CONTENT);
+
+  it('should reuse results by content hash when no diff is known', () => {
+    const cache = createFileCache(takeSnapshot(metrics));
+
+    expect(cache.lookup('lib/renamed.ts', CONTENT, MAINTAINABILITY_LIMITS)).toEqual(metrics);
+    expect(cache.lookup('src/add.ts', `${CONTENT}// edited\n`, MAINTAINABILITY_LIMITS)).toBeNull();
+    // Issues depend on the limits, so a file measured against other limits is analyzed again
+    expect(cache.lookup('src/add.ts', CONTENT, { ...MAINTAINABILITY_LIMITS, parameters: 1 })).toBeNull();
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 2 });
+    expect(Object.keys(cache.snapshot('def456').files)).toEqual(['lib/renamed.ts']);
+  });
+
+  it('should trust the git diff for files it does not list', () => {
+    const unchanged = createFileCache(takeSnapshot(metrics), new Set(['src/other.ts']));
+    const changed = createFileCache(takeSnapshot(metrics), new Set(['src/add.ts']));
+
+    // The content is not hashed for files outside the diff
+    expect(unchanged.lookup('src/add.ts', 'not read', MAINTAINABILITY_LIMITS)).toEqual(metrics);
+    expect(changed.lookup('src/add.ts', 'export const add = 1;\n', MAINTAINABILITY_LIMITS)).toBeNull();
+  });
+
+  it('should drop snapshots taken by another analyzer version', () => {
+    const snapshot = { ...takeSnapshot(metrics), analyzerVersion: `${ANALYZER_VERSION}-old` };
+
+    expect(createFileCache(snapshot).lookup('src/add.ts', CONTENT, MAINTAINABILITY_LIMITS)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AnalysisConfigError,
+  collectFiles,
+  createFileRules,
+  loadRepositoryConfig,
+  parseAnalysisConfig,
+  resolveAnalysisConfig
+} from '@/lib/analysisConfig';
+import { analyzeCode } from '@/lib/codeAnalysis';
+import { DEFAULT_QUALITY_GATE } from '@/lib/delta';
+import { MAINTAINABILITY_LIMITS } from '@/lib/maintainability';
+
+function writeFiles(root: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+}
+
+describe('Analysis config', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should read a YAML or JSON config from the repository root', () => {
+    expect(loadRepositoryConfig(workDir)).toBeNull();
+
+    writeFiles(workDir, { '.t3kdet.json': JSON.stringify({ exclude: ['legacy/'], gitignore: false }) });
+    expect(loadRepositoryConfig(workDir)).toEqual({ exclude: ['legacy/'], gitignore: false });
+
+    writeFiles(workDir, {
+      '.t3kdet.yml': 'include:\n  - src/\ntests:\n  - e2e/\nthresholds:\n  - path: src/legacy/**\n    parameters: 8\n'
+    });
+    expect(loadRepositoryConfig(workDir)).toEqual({
+      include: ['src/'],
+      tests: ['e2e/'],
+      thresholds: [{ path: 'src/legacy/**', parameters: 8 }]
+    });
+  });
+
+  it('should reject invalid config files and settings', () => {
+    writeFiles(workDir, { '.t3kdet.yml': 'exclude: legacy/\nthreshold: []\n' });
+    expect(() => loadRepositoryConfig(workDir)).toThrow(AnalysisConfigError);
+    expect(() => loadRepositoryConfig(workDir)).toThrow(/Unknown analysis setting: threshold; exclude must be a list/);
+
+    writeFiles(workDir, { '.t3kdet.yml': 'include: [src/\n' });
+    expect(() => loadRepositoryConfig(workDir)).toThrow(/Could not read \.t3kdet\.yml/);
+
+    expect(parseAnalysisConfig({ gitignore: 'yes', thresholds: [{ path: '', depth: 2, parameters: 0 }] }).errors).toEqual([
+      'gitignore must be true or false',
+      'thresholds[0].path must be a glob pattern',
+      'thresholds[0].depth is not a known limit',
+      'thresholds[0].parameters must be a positive integer'
+    ]);
+    expect(parseAnalysisConfig([]).errors).toEqual(['analysis config must be an object']);
+    expect(parseAnalysisConfig({ gate: { maxScoreDrop: -1, maxIssues: 3 } }).errors).toEqual([
+      'gate.maxScoreDrop must be a non-negative number, or null to turn the rule off',
+      'gate.maxIssues is not a known rule; use one of maxFunctionComplexity, maxScoreDrop, maxNewDuplicates, maxNewSecurityFindings, maxWorsenedFiles'
+    ]);
+  });
+
+  it('should let the repository config override project settings', () => {
+    const config = resolveAnalysisConfig(
+      { include: ['lib/'], exclude: ['a/'], gitignore: false, thresholds: [{ path: 'a', parameters: 2 }], gate: { maxScoreDrop: 5 } },
+      null,
+      { include: ['src/'], exclude: ['b/'], thresholds: [{ path: 'a', parameters: 3 }], gate: { maxNewSecurityFindings: null }, ownership: true }
+    );
+
+    expect(config).toEqual({
+      include: ['src/'],
+      exclude: ['a/', 'b/'],
+      gitignore: false,
+      tests: [],
+      generated: [],
+      thresholds: [{ path: 'a', parameters: 2 }, { path: 'a', parameters: 3 }],
+      suppressions: [],
+      // Rules a layer leaves out keep their earlier limit
+      gate: { ...DEFAULT_QUALITY_GATE, maxScoreDrop: 5, maxNewSecurityFindings: null },
+      ownership: true
+    });
+  });
+
+  it('should skip default excludes, ignored files and paths outside the includes', () => {
+    writeFiles(workDir, {
+      'src/index.ts': '',
+      'src/app.min.js': '',
+      'src/cache/data.ts': '',
+      'src/local.ts': '',
+      'src/.gitignore': 'cache/\n',
+      '.gitignore': 'local.ts\n',
+      'node_modules/lib/index.js': '',
+      'vendor/keep/index.js': '',
+      'scripts/build.ts': '',
+      'README.md': ''
+    });
+    const extensions = ['.ts', '.js'];
+
+    expect(collectFiles(workDir, resolveAnalysisConfig(), extensions).sort()).toEqual(['scripts/build.ts', 'src/index.ts']);
+    expect(collectFiles(workDir, resolveAnalysisConfig({ gitignore: false, exclude: ['!vendor/'] }), extensions).sort())
+      .toEqual(['scripts/build.ts', 'src/cache/data.ts', 'src/index.ts', 'src/local.ts', 'vendor/keep/index.js']);
+    expect(collectFiles(workDir, resolveAnalysisConfig({ include: ['src/'] }), extensions)).toEqual(['src/index.ts']);
+  });
+
+  it('should classify test and generated files and apply the matching thresholds', () => {
+    const rules = createFileRules(resolveAnalysisConfig({
+      tests: ['e2e/', '!src/test/'],
+      thresholds: [{ path: 'src/legacy/', parameters: 8, nestingDepth: 6 }, { path: 'src/legacy/core.ts', parameters: 10 }]
+    }));
+
+    expect(rules.category('src/index.ts', '')).toBe('source');
+    expect(rules.category('src/index.test.ts', '')).toBe('test');
+    expect(rules.category('e2e/login.ts', '')).toBe('test');
+    expect(rules.category('pkg/store_test.go', '')).toBe('test');
+    expect(rules.category('src/test/helpers.ts', '')).toBe('source');
+    expect(rules.category('api/service.pb.go', '')).toBe('generated');
+    expect(rules.category('src/schema.ts', '// @generated by codegen\nexport type A = string;\n')).toBe('generated');
+
+    expect(rules.limits('src/index.ts')).toBe(MAINTAINABILITY_LIMITS);
+    expect(rules.limits('src/legacy/core.ts')).toEqual({ ...MAINTAINABILITY_LIMITS, parameters: 10, nestingDepth: 6 });
+  });
+
+  it('should score tests and generated code separately from the source', async () => {
+    const manyParameters = 'export function f(a: number, b: number, c: number, d: number, e: number, g: number) {\n  return a;\n}\n';
+    writeFiles(workDir, {
+      'src/index.ts': manyParameters,
+      'src/legacy/old.ts': manyParameters,
+      'src/index.test.ts': 'test(\'f\', () => {\n  expect(1).toBe(1);\n});\n',
+      'src/api.generated.ts': manyParameters,
+      '.t3kdet.yml': 'thresholds:\n  - path: src/legacy/\n    parameters: 6\n'
+    });
+
+    const results = await analyzeCode(workDir, { config: { exclude: ['dist/'] } });
+
+    expect(results.overview.totalFiles).toBe(2);
+    expect(results.maintainability.details.map(detail => [detail.file, detail.issues.length])).toEqual([
+      ['/src/index.ts', 1],
+      ['/src/legacy/old.ts', 0]
+    ]);
+    expect(results.overview.categories.test).toMatchObject({ files: 1, lines: 4 });
+    expect(results.overview.categories.generated).toMatchObject({ files: 1, functions: 1 });
+  });
+});
@@ -0,0 +1,261 @@
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getWorkspaceRoot, RepositoryAccessError, runAnalysisPipeline } from '@/lib/analysisPipeline';
+import * as codeAnalysis from '@/lib/codeAnalysis';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { saveAnalysisRun } from '@/lib/runs';
+import { deleteProjectArchive, downloadProjectArchive } from '@/lib/uploads';
+import { getAnalysisConfig } from '@/lib/projectSettings';
+
+jest.mock('@/lib/supabaseAdmin', () => {
+  const eq = jest.fn().mockResolvedValue({ error: null });
+  const update = jest.fn(() => ({ eq }));
+  return { supabaseAdmin: { from: jest.fn(() => ({ update })) } };
+});
+
+jest.mock('@/lib/runs', () => ({
+  saveAnalysisRun: jest.fn().mockResolvedValue({ id: 'run-1' })
+}));
+
+jest.mock('@/lib/uploads', () => ({
+  downloadProjectArchive: jest.fn(),
+  deleteProjectArchive: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('@/lib/scoringModels', () => ({
+  getScoringModel: jest.fn(async () => jest.requireActual('@/lib/scoring').DEFAULT_SCORING_MODEL)
+}));
+
+jest.mock('@/lib/projectSettings', () => ({
+  getAnalysisConfig: jest.fn(async () => null)
+}));
+
+// Snapshots are kept in memory in place of the storage bucket
+const cacheSnapshots = new Map<string, unknown>();
+jest.mock('@/lib/analysisCache', () => ({
+  ...jest.requireActual('@/lib/analysisCache'),
+  loadFileCacheSnapshot: jest.fn(async (projectId: string) => cacheSnapshots.get(projectId) ?? null),
+  saveFileCacheSnapshot: jest.fn(async (projectId: string, snapshot: unknown) => {
+    cacheSnapshots.set(projectId, snapshot);
+  })
+}));
+
+describe('Analysis pipeline', () => {
+  let repoPath: string;
+
+  beforeAll(() => {
+    // The local repository stands in for a remote; production clones are limited to https and ssh
+    process.env.GIT_ALLOW_PROTOCOL = 'file';
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-repo-'));
+    fs.writeFileSync(path.join(repoPath, 'index.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    execSync('git init -q && git add . && git -c user.name=test -c user.email=test@example.com commit -qm init', {
+      cwd: repoPath
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.GIT_ALLOW_PROTOCOL;
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Workspaces are named after the project with a unique suffix per run
+  function workspaces(projectId: string) {
+    const root = getWorkspaceRoot();
+    return fs.existsSync(root) ? fs.readdirSync(root).filter(name => name.startsWith(`analysis-${projectId}-`)) : [];
+  }
+
+  function lastUpdate() {
+    const from = supabaseAdmin.from as jest.Mock;
+    const update = from.mock.results[from.mock.results.length - 1].value.update as jest.Mock;
+    return update.mock.calls[update.mock.calls.length - 1][0];
+  }
+
+  it('should clone, analyze, save the run and remove the workspace', async () => {
+    (getAnalysisConfig as jest.Mock).mockResolvedValueOnce({ ownership: true });
+    const analyzeCode = jest.spyOn(codeAnalysis, 'analyzeCode');
+    const reportProgress = jest.fn().mockResolvedValue(undefined);
+    const report = await runAnalysisPipeline({
+      projectId: 'pipeline-ok',
+      source: { type: 'repository', provider: 'git', repoUrl: repoPath, accessToken: null },
+      jobId: 'job-1'
+    }, reportProgress);
+    const headSha = execSync('git rev-parse HEAD', { cwd: repoPath }).toString().trim();
+
+    expect(report.overview.totalFiles).toBe(1);
+    expect(report.overallScore).toBeGreaterThan(0);
+    expect(report.summary.totalFiles).toBe(1);
+    // Even a single file is analyzed on a thread, where the file timeout can stop it
+    expect(analyzeCode).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ minThreads: 1 }));
+    // The only commit has no parent to diff against, so it adds no churn
+    expect(report.history).toMatchObject({ commits: 0, hotspots: [] });
+    expect(report.ownership).toEqual({
+      codeowners: null,
+      files: [{ file: '/index.ts', owners: [], authors: [{ author: 'test@example.com', lines: 3 }] }]
+    });
+    expect(reportProgress).toHaveBeenCalledWith('ownership', 85);
+    expect(saveAnalysisRun).toHaveBeenCalledWith(expect.objectContaining({
+      projectId: 'pipeline-ok',
+      jobId: 'job-1',
+      commitSha: headSha,
+      results: report,
+      toolVersions: expect.objectContaining({ analyzer: expect.any(String), typescript: expect.any(String) })
+    }), supabaseAdmin);
+    expect(lastUpdate()).toMatchObject({ status: 'completed' });
+    expect(workspaces('pipeline-ok')).toEqual([]);
+  });
+
+  it('should mark the project failed and clean up when the repository is unreachable', async () => {
+    const missing = path.join(repoPath, 'does-not-exist');
+
+    await expect(
+      runAnalysisPipeline({
+        projectId: 'pipeline-missing',
+        source: { type: 'repository', provider: 'git', repoUrl: missing, accessToken: null }
+      })
+    ).rejects.toBeInstanceOf(RepositoryAccessError);
+
+    expect(saveAnalysisRun).not.toHaveBeenCalled();
+    expect(lastUpdate()).toMatchObject({ status: 'failed' });
+    expect(workspaces('pipeline-missing')).toEqual([]);
+  });
+
+  it('should extract and analyze an uploaded archive', async () => {
+    // Archivers usually wrap everything in one top-level folder, which becomes the root
+    const archivePath = path.join(os.tmpdir(), `pipeline-upload-${process.pid}.tar.gz`);
+    execSync(`tar czf "${archivePath}" -C "${path.dirname(repoPath)}" --exclude=.git "${path.basename(repoPath)}"`);
+    (downloadProjectArchive as jest.Mock).mockResolvedValue(fs.readFileSync(archivePath));
+    fs.rmSync(archivePath);
+
+    const report = await runAnalysisPipeline({
+      projectId: 'pipeline-upload',
+      source: { type: 'archive', storagePath: 'pipeline-upload/1.tar.gz' },
+      jobId: 'job-2'
+    });
+
+    expect(downloadProjectArchive).toHaveBeenCalledWith('pipeline-upload/1.tar.gz');
+    expect(report.complexity.details.map(detail => detail.file)).toEqual(['/index.ts']);
+    expect(report.history).toBeNull();
+    expect(report.ownership).toBeNull();
+    expect(saveAnalysisRun).toHaveBeenCalledWith(expect.objectContaining({ projectId: 'pipeline-upload', commitSha: null }), supabaseAdmin);
+    // Neither the stored upload nor its extracted tree outlive the run
+    expect(deleteProjectArchive).toHaveBeenCalledWith('pipeline-upload/1.tar.gz');
+    expect(workspaces('pipeline-upload')).toEqual([]);
+  });
+
+  it('should re-analyze only files changed since the cached run', async () => {
+    const cacheRepo = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-cache-'));
+    const commit = (message: string) => execSync(
+      `git add . && git -c user.name=test -c user.email=test@example.com commit -qm ${message}`,
+      { cwd: cacheRepo }
+    );
+    const shared = 'export function total(items: number[], factor: number) {\n  let sum = 0;\n  for (const item of items) {\n'
+      + '    if (item > 0) {\n      sum += item * factor;\n    } else {\n      sum -= item / factor;\n    }\n  }\n  return sum;\n}\n';
+    fs.writeFileSync(path.join(cacheRepo, 'a.ts'), shared);
+    fs.writeFileSync(path.join(cacheRepo, 'b.ts'), 'export const b = 1;\n');
+    execSync('git init -q', { cwd: cacheRepo });
+    commit('init');
+    const source = { type: 'repository' as const, provider: 'git' as const, repoUrl: cacheRepo, accessToken: null };
+
+    try {
+      await runAnalysisPipeline({ projectId: 'pipeline-cache', source });
+      expect(saveAnalysisRun).toHaveBeenLastCalledWith(expect.objectContaining({ cacheStats: { hits: 0, misses: 2 } }), supabaseAdmin);
+
+      // a.ts is unchanged, c.ts has the content of a.ts under a new name, b.ts is edited
+      fs.writeFileSync(path.join(cacheRepo, 'b.ts'), 'export const b = 2;\n');
+      fs.writeFileSync(path.join(cacheRepo, 'c.ts'), shared);
+      commit('next');
+      const report = await runAnalysisPipeline({ projectId: 'pipeline-cache', source });
+
+      expect(saveAnalysisRun).toHaveBeenLastCalledWith(expect.objectContaining({ cacheStats: { hits: 2, misses: 1 } }), supabaseAdmin);
+      // Clones between cached and freshly analyzed files are still found
+      expect(report.duplication.instances).toHaveLength(1);
+      expect(report.overview.totalFiles).toBe(3);
+      // Ownership is off unless the project or repository turns it on, so nothing is blamed
+      expect(report.history).toMatchObject({ commits: 1 });
+      expect(report.ownership).toBeNull();
+    } finally {
+      fs.rmSync(cacheRepo, { recursive: true, force: true });
+    }
+  });
+
+  it('should compare a pull request with its merge base and apply the base branch config', async () => {
+    const prRepo = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-pr-'));
+    const commit = (message: string) => execSync(
+      `git add . && git -c user.name=test -c user.email=test@example.com commit -qm ${message}`,
+      { cwd: prRepo }
+    );
+    const nested = [
+      'export function route(items: number[], mode: string) {',
+      '  for (const item of items) {',
+      '    if (item > 0) {',
+      '      for (let i = 0; i < item; i++) {',
+      '        if (mode === "a" && i % 2 === 0) {',
+      '          while (i < 3) { if (mode) { i++; } else { break; } }',
+      '        } else if (mode === "b" || i > 5) {',
+      '          if (i) { return i; }',
+      '        }',
+      '      }',
+      '    }',
+      '  }',
+      '  return 0;',
+      '}',
+      ''
+    ].join('\n');
+    execSync('git init -q -b main', { cwd: prRepo });
+    fs.writeFileSync(path.join(prRepo, 'index.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    // The base branch's config applies to both sides; the pull request turning the complexity rule off,
+    // excluding its new file and suppressing its finding has no effect
+    fs.writeFileSync(path.join(prRepo, '.t3kdet.yml'), 'gate:\n  maxNewDuplicates: 0\n');
+    commit('init');
+    const mergeBase = execSync('git rev-parse HEAD', { cwd: prRepo }).toString().trim();
+
+    execSync('git checkout -q -b feature', { cwd: prRepo });
+    fs.writeFileSync(path.join(prRepo, 'route.ts'), nested);
+    fs.writeFileSync(path.join(prRepo, 'run.ts'), 'export const run = (code: string) => eval(code);\n');
+    fs.writeFileSync(path.join(prRepo, '.t3kdet.yml'), [
+      'gate:',
+      '  maxFunctionComplexity: null',
+      'exclude:',
+      '  - route.ts',
+      'suppressions:',
+      '  - rule: dynamic-code',
+      '    path: run.ts',
+      ''
+    ].join('\n'));
+    commit('feature');
+    // The target branch moves on after the pull request branched off
+    execSync('git checkout -q main', { cwd: prRepo });
+    fs.writeFileSync(path.join(prRepo, 'later.ts'), 'export const later = true;\n');
+    commit('later');
+
+    try {
+      const report = await runAnalysisPipeline({
+        projectId: 'pipeline-pr',
+        source: { type: 'repository', provider: 'git', repoUrl: prRepo, accessToken: null, ref: 'feature', baseRef: 'main' }
+      });
+
+      expect(report.pullRequest).toMatchObject({
+        base: { ref: 'main', commitSha: mergeBase },
+        head: { ref: 'feature', commitSha: execSync('git rev-parse feature', { cwd: prRepo }).toString().trim() },
+        complexFunctions: [{ file: '/route.ts', name: 'route', baseCognitive: null }],
+        newSecurityFindings: [{ rule: 'dynamic-code', file: '/run.ts' }]
+      });
+      expect(report.pullRequest!.gate.checks.map(check => [check.rule, check.passed])).toEqual([
+        ['maxFunctionComplexity', false],
+        ['maxScoreDrop', expect.any(Boolean)],
+        ['maxNewDuplicates', true],
+        ['maxNewSecurityFindings', false]
+      ]);
+      expect(report.pullRequest!.gate.passed).toBe(false);
+      expect(workspaces('pipeline-pr')).toEqual([]);
+    } finally {
+      fs.rmSync(prRepo, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { runJob } from '@/lib/analysisWorker';
+import { runAnalysisPipeline } from '@/lib/analysisPipeline';
+import { AnalysisJob, finishJob, HEARTBEAT_INTERVAL_MS, JobCancelledError, touchJobHeartbeat, updateJobProgress } from '@/lib/jobs';
+
+jest.mock('@/lib/analysisPipeline', () => ({
+  runAnalysisPipeline: jest.fn()
+}));
+
+jest.mock('@/lib/jobs', () => {
+  const actual = jest.requireActual('@/lib/jobs');
+  return {
+    JobCancelledError: actual.JobCancelledError,
+    UPLOAD_PROVIDER: actual.UPLOAD_PROVIDER,
+    HEARTBEAT_INTERVAL_MS: actual.HEARTBEAT_INTERVAL_MS,
+    finishJob: jest.fn().mockResolvedValue(undefined),
+    touchJobHeartbeat: jest.fn().mockResolvedValue(undefined),
+    updateJobProgress: jest.fn().mockResolvedValue(undefined)
+  };
+});
+
+jest.mock('@/lib/supabaseAdmin', () => ({ supabaseAdmin: {} }));
+
+function createJob(overrides: Partial<AnalysisJob & { access_token: string | null }> = {}) {
+  return {
+    id: 'job-1',
+    project_id: 'project-1',
+    status: 'running' as const,
+    stage: 'queued' as const,
+    progress: 0,
+    attempts: 1,
+    repo_url: 'https://github.com/test/repo.git',
+    provider: 'github',
+    ref: null,
+    base_ref: null,
+    commit_sha: null,
+    cancel_requested: false,
+    error_message: null,
+    heartbeat_at: null,
+    started_at: null,
+    finished_at: null,
+    created_at: '2024-03-01T00:00:00Z',
+    updated_at: '2024-03-01T00:00:00Z',
+    access_token: 'token',
+    ...overrides
+  };
+}
+
+describe('Analysis worker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run the pipeline and report progress on the job', async () => {
+    (runAnalysisPipeline as jest.Mock).mockImplementation(async (request, reportProgress) => {
+      await reportProgress('clone', 5);
+      await reportProgress('metrics', 60);
+    });
+
+    await runJob(createJob());
+
+    expect(runAnalysisPipeline).toHaveBeenCalledWith(
+      {
+        projectId: 'project-1',
+        source: { type: 'repository', provider: 'github', repoUrl: 'https://github.com/test/repo.git', accessToken: 'token', ref: null, baseRef: null, commitSha: null },
+        jobId: 'job-1'
+      },
+      expect.any(Function)
+    );
+    expect(updateJobProgress).toHaveBeenCalledWith('job-1', 'clone', 5);
+    expect(updateJobProgress).toHaveBeenCalledWith('job-1', 'metrics', 60);
+    expect(finishJob).toHaveBeenCalledWith('job-1', 'completed');
+  });
+
+  it('should keep the heartbeat fresh while a long stage runs and stop once the job ends', async () => {
+    jest.useFakeTimers();
+    try {
+      let finishStage = () => {};
+      (runAnalysisPipeline as jest.Mock).mockImplementation(() => new Promise<void>(resolve => {
+        finishStage = resolve;
+      }));
+
+      const running = runJob(createJob());
+      jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+      expect(touchJobHeartbeat).toHaveBeenCalledTimes(3);
+      expect(touchJobHeartbeat).toHaveBeenCalledWith('job-1');
+
+      finishStage();
+      await running;
+      jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+      expect(touchJobHeartbeat).toHaveBeenCalledTimes(3);
+      expect(finishJob).toHaveBeenCalledWith('job-1', 'completed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should mark the job cancelled when a cancel is picked up', async () => {
+    (runAnalysisPipeline as jest.Mock).mockRejectedValue(new JobCancelledError('job-1'));
+
+    await runJob(createJob());
+
+    expect(finishJob).toHaveBeenCalledWith('job-1', 'cancelled', 'Analysis cancelled');
+  });
+
+  it('should fail jobs whose access token is gone', async () => {
+    await runJob(createJob({ access_token: null }));
+
+    expect(runAnalysisPipeline).not.toHaveBeenCalled();
+    expect(finishJob).toHaveBeenCalledWith('job-1', 'failed', expect.stringContaining('Access token'));
+  });
+
+  it('should analyze uploaded archives without an access token', async () => {
+    (runAnalysisPipeline as jest.Mock).mockResolvedValue(undefined);
+
+    await runJob(createJob({ provider: 'upload', repo_url: 'project-1/1700000000000.zip', access_token: null }));
+
+    expect(runAnalysisPipeline).toHaveBeenCalledWith(
+      { projectId: 'project-1', source: { type: 'archive', storagePath: 'project-1/1700000000000.zip' }, jobId: 'job-1' },
+      expect.any(Function)
+    );
+    expect(finishJob).toHaveBeenCalledWith('job-1', 'completed');
+  });
+
+  it('should clone plain Git remotes at the requested ref without an access token', async () => {
+    (runAnalysisPipeline as jest.Mock).mockResolvedValue(undefined);
+
+    await runJob(createJob({ provider: 'git', repo_url: 'https://git.example.com/team/repo.git', access_token: null, ref: 'v1.2.0' }));
+
+    expect(runAnalysisPipeline).toHaveBeenCalledWith(
+      {
+        projectId: 'project-1',
+        source: {
+          type: 'repository',
+          provider: 'git',
+          repoUrl: 'https://git.example.com/team/repo.git',
+          accessToken: null,
+          ref: 'v1.2.0',
+          baseRef: null,
+          commitSha: null
+        },
+        jobId: 'job-1'
+      },
+      expect.any(Function)
+    );
+  });
+});
@@ -1,5 +1,49 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { NextRequest } from 'next/server';
 import { POST } from '@/app/api/analyze/route';
+import { GET as getJob } from '@/app/api/jobs/[jobId]/route';
+import { POST as cancelJob } from '@/app/api/jobs/[jobId]/cancel/route';
+import { POST as retryJob } from '@/app/api/jobs/[jobId]/retry/route';
+import { POST as rescore } from '@/app/api/projects/[projectId]/rescore/route';
+import { GET as listRuns } from '@/app/api/projects/[projectId]/runs/route';
+import { GET as getRun } from '@/app/api/projects/[projectId]/runs/[runId]/route';
+import { GET as getSettings, PATCH as updateSettings } from '@/app/api/projects/[projectId]/settings/route';
+import { cancelAnalysisJob, enqueueAnalysisJob, getAnalysisJob, retryAnalysisJob } from '@/lib/jobs';
+import { processQueue } from '@/lib/analysisWorker';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import type { MemorySupabase } from './helpers/memorySupabase';
+
+jest.mock('@/lib/supabaseAdmin', () => {
+  const eq = jest.fn().mockResolvedValue({ error: null });
+  const update = jest.fn(() => ({ eq }));
+  return { supabaseAdmin: { from: jest.fn(() => ({ update })) } };
+});
+
+jest.mock('@/lib/jobs', () => ({
+  UPLOAD_PROVIDER: 'upload',
+  enqueueAnalysisJob: jest.fn().mockResolvedValue({ id: 'job-1', status: 'queued' }),
+  getAnalysisJob: jest.fn(),
+  cancelAnalysisJob: jest.fn(),
+  retryAnalysisJob: jest.fn()
+}));
+
+// Every request carries the session of whoever is signed in to this client
+jest.mock('@supabase/auth-helpers-nextjs', () => {
+  const session = jest.requireActual('./helpers/memorySupabase').createMemorySupabase();
+  return { ...jest.requireActual('@supabase/auth-helpers-nextjs'), createRouteHandlerClient: jest.fn(() => session) };
+});
+
+jest.mock('@/lib/analysisWorker', () => ({
+  processQueue: jest.fn().mockResolvedValue(undefined)
+}));
+
+const session = (createRouteHandlerClient as jest.Mock)() as MemorySupabase;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  session.tables.projects = [{ id: '123', user_id: 'user-1' }, { id: '456', user_id: 'user-2' }];
+  session.signIn('user-1');
+});
 
 describe('Analyze API', () => {
   it('should validate required fields', async () => {
@@ -18,6 +62,7 @@ describe('Analyze API', () => {
   it('should accept valid analysis request', async () => {
     const req = new NextRequest('http://localhost:3000/api/analyze', {
       method: 'POST',
+      headers: { Authorization: 'Bearer test-token' },
       body: JSON.stringify({
         projectId: '123',
         repoUrl: 'https://github.com/test/repo.git',
@@ -29,7 +74,183 @@ describe('Analyze API', () => {
     const response = await POST(req);
     const data = await response.json();
 
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(data.status).toBe('analyzing');
+    expect(data.jobId).toBe('job-1');
+    expect(enqueueAnalysisJob).toHaveBeenCalledWith({
+      projectId: '123',
+      repoUrl: 'https://github.com/test/repo.git',
+      provider: 'github',
+      accessToken: 'test-token',
+      ref: null,
+      baseRef: null
+    });
+    expect(processQueue).toHaveBeenCalled();
+  });
+
+  it('should queue plain Git repositories without a token', async () => {
+    const req = new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      body: JSON.stringify({
+        projectId: '123',
+        repoUrl: 'https://git.example.com/team/repo.git',
+        provider: 'git',
+        ref: 'feature/login',
+        baseRef: 'release/1.2'
+      }),
+    });
+
+    const response = await POST(req);
+
+    expect(response.status).toBe(202);
+    expect(enqueueAnalysisJob).toHaveBeenLastCalledWith({
+      projectId: '123',
+      repoUrl: 'https://git.example.com/team/repo.git',
+      provider: 'git',
+      accessToken: null,
+      ref: 'feature/login',
+      baseRef: 'release/1.2'
+    });
+  });
+
+  it('should reject refs that are not branch, tag or commit names', async () => {
+    const req = new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ projectId: '123', repoUrl: 'https://git.example.com/repo.git', provider: 'git', ref: '--upload-pack=x' }),
+    });
+
+    const response = await POST(req);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid ref');
+
+    const base = await POST(new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ projectId: '123', repoUrl: 'https://git.example.com/repo.git', provider: 'git', baseRef: 'main..' }),
+    }));
+    expect(base.status).toBe(400);
+    expect((await base.json()).error).toBe('Invalid base ref');
+  });
+
+  it('should reject unknown providers', async () => {
+    const req = new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-token' },
+      body: JSON.stringify({ projectId: '123', repoUrl: 'https://example.com/repo.git', provider: 'svn', accessToken: 'x' }),
+    });
+
+    const response = await POST(req);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Unsupported provider');
+  });
+
+  it('should require a session', async () => {
+    session.signIn(null);
+    const req = new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ projectId: '123', repoUrl: 'https://git.example.com/repo.git', provider: 'git' }),
+    });
+
+    const response = await POST(req);
+
+    expect(response.status).toBe(401);
+    expect(enqueueAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it('should not queue or mark projects of other users', async () => {
+    const req = new NextRequest('http://localhost:3000/api/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ projectId: '456', repoUrl: 'https://git.example.com/repo.git', provider: 'svn' }),
+    });
+
+    const response = await POST(req);
+
+    expect(response.status).toBe(404);
+    expect(enqueueAnalysisJob).not.toHaveBeenCalled();
+    // The unsupported provider is not recorded on the project either
+    expect(supabaseAdmin.from).not.toHaveBeenCalled();
+  });
+});
+
+describe('Job API', () => {
+  const params = { params: Promise.resolve({ jobId: 'job-1' }) };
+
+  function job(projectId: string) {
+    return { id: 'job-1', project_id: projectId, status: 'failed', provider: 'git' };
+  }
+
+  it('should return jobs of the caller\'s projects', async () => {
+    (getAnalysisJob as jest.Mock).mockResolvedValue(job('123'));
+
+    const response = await getJob(new NextRequest('http://localhost:3000/api/jobs/job-1'), params);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).project_id).toBe('123');
+  });
+
+  it('should hide jobs of other users\' projects', async () => {
+    (getAnalysisJob as jest.Mock).mockResolvedValue(job('456'));
+
+    const read = await getJob(new NextRequest('http://localhost:3000/api/jobs/job-1'), params);
+    const cancel = await cancelJob(new NextRequest('http://localhost:3000/api/jobs/job-1/cancel', { method: 'POST' }), params);
+    const retry = await retryJob(new NextRequest('http://localhost:3000/api/jobs/job-1/retry', { method: 'POST' }), params);
+
+    expect([read.status, cancel.status, retry.status]).toEqual([404, 404, 404]);
+    expect(cancelAnalysisJob).not.toHaveBeenCalled();
+    expect(retryAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it('should require a session', async () => {
+    session.signIn(null);
+    (getAnalysisJob as jest.Mock).mockResolvedValue(job('123'));
+
+    const response = await cancelJob(new NextRequest('http://localhost:3000/api/jobs/job-1/cancel', { method: 'POST' }), params);
+
+    expect(response.status).toBe(401);
+    expect(cancelAnalysisJob).not.toHaveBeenCalled();
+  });
+});
+
+describe('Run, settings and re-scoring API', () => {
+  const project = (projectId: string) => ({ params: Promise.resolve({ projectId }) });
+
+  beforeEach(() => {
+    session.tables.analysis_runs = [
+      { id: 'run-1', project_id: '123', created_at: '2024-05-01T00:00:00Z', overall_score: 80 },
+      { id: 'run-2', project_id: '456', created_at: '2024-05-01T00:00:00Z', overall_score: 40 }
+    ];
+  });
+
+  it('should read runs with the caller\'s session', async () => {
+    const response = await listRuns(new NextRequest('http://localhost:3000/api/projects/123/runs'), project('123'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).runs.map((run: { id: string }) => run.id)).toEqual(['run-1']);
+  });
+
+  it('should require a session', async () => {
+    session.signIn(null);
+
+    const response = await listRuns(new NextRequest('http://localhost:3000/api/projects/123/runs'), project('123'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should not read or change projects of other users', async () => {
+    const run = await getRun(new NextRequest('http://localhost:3000/api/projects/456/runs/run-2'), {
+      params: Promise.resolve({ projectId: '456', runId: 'run-2' })
+    });
+    const settings = await getSettings(new NextRequest('http://localhost:3000/api/projects/456/settings'), project('456'));
+    const update = await updateSettings(new NextRequest('http://localhost:3000/api/projects/456/settings', {
+      method: 'PATCH',
+      body: JSON.stringify({ runRetention: 1 })
+    }), project('456'));
+
+    const rescored = await rescore(new NextRequest('http://localhost:3000/api/projects/456/rescore', { method: 'POST' }), project('456'));
+
+    expect([run.status, settings.status, update.status, rescored.status]).toEqual([404, 404, 404, 404]);
+    expect(session.tables.analysis_runs).toHaveLength(2);
+    expect(session.tables.analysis_runs[1]).not.toHaveProperty('scoring_model_version');
   });
-}); 
\ No newline at end of file
+});
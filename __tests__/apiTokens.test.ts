@@ -0,0 +1,148 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { POST } from '@/app/api/projects/[projectId]/runs/route';
+import { GET as listTokens, POST as createToken } from '@/app/api/projects/[projectId]/tokens/route';
+import { DELETE as deleteToken } from '@/app/api/projects/[projectId]/tokens/[tokenId]/route';
+import { createProjectApiToken, verifyProjectApiToken } from '@/lib/apiTokens';
+import { analyzeCode } from '@/lib/codeAnalysis';
+import { supabase } from '@/lib/supabase';
+import type { MemorySupabase } from './helpers/memorySupabase';
+
+// Owners create tokens in their session; the upload route checks them and saves runs with the service role.
+// Both clients see the same tables here, and the test checks which one the upload used
+jest.mock('@/lib/supabase', () => ({
+  supabase: jest.requireActual('./helpers/memorySupabase').createMemorySupabase()
+}));
+jest.mock('@/lib/supabaseAdmin', () => ({
+  supabaseAdmin: { ...jest.requireMock('@/lib/supabase').supabase }
+}));
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  ...jest.requireActual('@supabase/auth-helpers-nextjs'),
+  createRouteHandlerClient: jest.fn(() => jest.requireMock('@/lib/supabase').supabase)
+}));
+
+const db = supabase as unknown as MemorySupabase;
+
+function upload(body: unknown, token?: string) {
+  return POST(new Request('http://localhost:3000/api/projects/p1/runs', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: JSON.stringify(body)
+  }), { params: Promise.resolve({ projectId: 'p1' }) });
+}
+
+describe('Project API tokens', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    Object.keys(db.tables).forEach(table => delete db.tables[table]);
+    db.tables.projects = [{ id: 'p1', user_id: 'u1', run_retention: 2 }, { id: 'p2', user_id: 'u2', run_retention: null }];
+    db.signIn('u1');
+  });
+
+  it('should let only the project owner create, list and delete tokens', async () => {
+    const project = (projectId: string) => ({ params: Promise.resolve({ projectId }) });
+    const create = (projectId: string) => createToken(new Request(`http://localhost:3000/api/projects/${projectId}/tokens`, {
+      method: 'POST',
+      body: JSON.stringify({ name: 'CI' })
+    }), project(projectId));
+
+    const created = await create('p1');
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+    expect((await (await listTokens(new Request('http://localhost:3000/api/projects/p1/tokens'), project('p1'))).json()).tokens)
+      .toEqual([expect.objectContaining({ id, name: 'CI' })]);
+
+    expect((await create('p2')).status).toBe(404);
+    expect((await listTokens(new Request('http://localhost:3000/api/projects/p2/tokens'), project('p2'))).status).toBe(404);
+
+    db.signIn('u2');
+    const deleted = await deleteToken(new Request(`http://localhost:3000/api/projects/p1/tokens/${id}`, { method: 'DELETE' }), {
+      params: Promise.resolve({ projectId: 'p1', tokenId: id })
+    });
+    expect(deleted.status).toBe(404);
+
+    db.signIn(null);
+    expect((await create('p1')).status).toBe(401);
+    expect(db.tables.project_api_tokens).toHaveLength(1);
+  });
+
+  it('should store only a hash and accept the token for its own project', async () => {
+    const created = await createProjectApiToken('p1', 'GitHub Actions');
+
+    expect(created.token).toMatch(/^t3k_[\w-]{43}$/);
+    expect(JSON.stringify(db.tables.project_api_tokens)).not.toContain(created.token);
+    expect(await verifyProjectApiToken('p1', created.token)).toBe(true);
+    expect(db.tables.project_api_tokens[0].last_used_at).toEqual(expect.any(String));
+
+    expect(await verifyProjectApiToken('p2', created.token)).toBe(false);
+    expect(await verifyProjectApiToken('p1', `${created.token}x`)).toBe(false);
+    expect(await verifyProjectApiToken('p1', 'not-a-token')).toBe(false);
+  });
+
+  it('should score and store runs uploaded with a valid token', async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-tokens-'));
+    fs.writeFileSync(path.join(workDir, 'index.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    const { token } = await createProjectApiToken('p1', 'CI');
+    const body = {
+      results: await analyzeCode(workDir, { threads: 0 }),
+      commitSha: 'a'.repeat(40),
+      branch: 'main',
+      startedAt: '2024-05-10T10:00:00.000Z',
+      finishedAt: '2024-05-10T10:00:05.000Z',
+      toolVersions: { analyzer: '1.2.0' }
+    };
+
+    try {
+      expect((await upload(body)).status).toBe(401);
+      expect((await upload(body, 't3k_guessed')).status).toBe(401);
+
+      const invalid = await upload({ ...body, results: { overview: {} }, commitSha: 'main' }, token);
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).details).toEqual([
+        'results must be the JSON output of the analyzer',
+        'commitSha must be a full commit SHA, or null'
+      ]);
+
+      // Fields that scoring and the dashboard compute with are checked before anything is scored
+      const { results } = body;
+      const malformed = await upload({
+        ...body,
+        results: {
+          ...results,
+          complexity: { ...results.complexity, score: 'high' },
+          security: { ...results.security, vulnerabilities: [{ rule: 'eval', file: '/index.ts', line: '1', message: 'eval' }] },
+          dependencies: { score: null }
+        },
+        toolVersions: { typescript: '5.4.5' }
+      }, token);
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).details).toEqual([
+        'results.complexity.score must be a number',
+        'results.dependencies must be null or have a numeric score',
+        'results.security.vulnerabilities[0] must have rule text, file text, message text, line number',
+        'toolVersions.analyzer must be the version of the analyzer that produced the results'
+      ]);
+      expect(db.tables.analysis_runs).toBeUndefined();
+
+      // CI requests carry no user session, which RLS would refuse on the anon client
+      const anon = jest.spyOn(supabase, 'from');
+      const response = await upload(body, token);
+      expect(response.status).toBe(201);
+      expect(anon).not.toHaveBeenCalled();
+      expect(db.tables.analysis_runs).toEqual([expect.objectContaining({
+        project_id: 'p1',
+        user_id: 'u1',
+        commit_sha: 'a'.repeat(40),
+        branch: 'main',
+        timings: { cloneMs: 0, analysisMs: 5000 },
+        tool_versions: { analyzer: '1.2.0' },
+        scoring_model_version: 1,
+        results: expect.objectContaining({ overallScore: expect.any(Number), pullRequest: null })
+      })]);
+      expect((await response.json()).run).toMatchObject({ id: db.tables.analysis_runs[0].id, project_id: 'p1' });
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { ArchiveError, DEFAULT_EXTRACTION_LIMITS, detectArchiveFormat, extractArchive } from '@/lib/archive';
+
+type ZipEntry = { name: string; data?: string | Buffer; symlink?: boolean; declaredSize?: number };
+
+// Minimal ZIP writer; CRCs are left at zero since extraction does not check them
+function buildZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data ?? '');
+    const compressed = zlib.deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.declaredSize ?? data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.symlink ? 3 << 8 : 0, 4);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.declaredSize ?? data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(entry.symlink ? (0o120777 << 16) >>> 0 : 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+type TarEntry = { name: string; data?: string; type?: string; link?: string };
+
+function buildTarGz(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  entries.forEach(entry => {
+    const data = Buffer.from(entry.data ?? '');
+    const header = Buffer.alloc(512);
+    header.write(entry.name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write(data.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write(entry.type ?? '0', 156);
+    header.write(entry.link ?? '', 157, 100);
+    header.write('ustar\0', 257);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  });
+
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+describe('Archive extraction', () => {
+  let destination: string;
+
+  beforeEach(() => {
+    destination = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(destination, { recursive: true, force: true });
+  });
+
+  it('should detect ZIP and gzip archives by their magic bytes', () => {
+    expect(detectArchiveFormat(buildZip([{ name: 'a.ts' }]))).toBe('zip');
+    expect(detectArchiveFormat(buildTarGz([{ name: 'a.ts' }]))).toBe('tar.gz');
+    expect(detectArchiveFormat(Buffer.from('plain text'))).toBeNull();
+  });
+
+  it('should extract ZIP files and skip symlinks', () => {
+    const result = extractArchive(buildZip([
+      { name: 'src/' },
+      { name: 'src/index.ts', data: 'export const a = 1;\n' },
+      { name: 'src/link.ts', data: '/etc/passwd', symlink: true }
+    ]), destination);
+
+    expect(result).toEqual({ files: 1, bytes: 20, skipped: ['src/link.ts (symlink)'] });
+    expect(fs.readFileSync(path.join(destination, 'src/index.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.existsSync(path.join(destination, 'src/link.ts'))).toBe(false);
+  });
+
+  it('should extract tar.gz files including long names and skip links', () => {
+    const longName = `${'nested/'.repeat(20)}file.ts`;
+    const result = extractArchive(buildTarGz([
+      { name: './pkg/', type: '5' },
+      { name: './pkg/index.ts', data: 'export {};\n' },
+      { name: '././@LongLink', type: 'L', data: `${longName}\0` },
+      { name: 'truncated', data: 'long' },
+      { name: 'pkg/evil', type: '2', link: '../../etc/passwd' }
+    ]), destination);
+
+    expect(result.files).toBe(2);
+    expect(result.skipped).toEqual(['pkg/evil (symlink)']);
+    expect(fs.readFileSync(path.join(destination, 'pkg/index.ts'), 'utf-8')).toBe('export {};\n');
+    expect(fs.readFileSync(path.join(destination, longName), 'utf-8')).toBe('long');
+  });
+
+  it('should reject entries that escape the destination', () => {
+    expect(() => extractArchive(buildZip([{ name: '../evil.ts', data: 'x' }]), destination))
+      .toThrow(ArchiveError);
+    expect(() => extractArchive(buildTarGz([{ name: 'a/../../evil.ts', data: 'x' }]), destination))
+      .toThrow(/outside the extraction directory/);
+    expect(() => extractArchive(buildZip([{ name: '/etc/evil', data: 'x' }]), destination))
+      .toThrow(/absolute path/);
+    expect(fs.existsSync(path.join(destination, '..', 'evil.ts'))).toBe(false);
+  });
+
+  it('should stop zip bombs and archives over the limits', () => {
+    const zeros = Buffer.alloc(1024 * 1024);
+
+    expect(() => extractArchive(buildZip([{ name: 'bomb.txt', data: zeros }]), destination))
+      .toThrow(/compression ratio/);
+    // A lying size header does not get past the capped inflate
+    expect(() => extractArchive(buildZip([{ name: 'liar.txt', data: zeros, declaredSize: 100 }]), destination, {
+      ...DEFAULT_EXTRACTION_LIMITS,
+      maxFileBytes: 1000
+    })).toThrow(/expands beyond the extraction limits/);
+    expect(() => extractArchive(buildTarGz([{ name: 'bomb.txt', data: zeros.toString() }]), destination))
+      .toThrow(/expands beyond the extraction limits/);
+    expect(() => extractArchive(buildTarGz([{ name: 'a.ts', data: 'a' }, { name: 'b.ts', data: 'b' }]), destination, {
+      ...DEFAULT_EXTRACTION_LIMITS,
+      maxFiles: 1
+    })).toThrow(/more than 1 files/);
+  });
+});
@@ -0,0 +1,172 @@
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API_TOKEN_ENV, CliIO, EXIT_CODES, parseCliArgs, runCli } from '@/lib/cli';
+
+const NESTED = [
+  'export function route(items: number[], mode: string) {',
+  '  for (const item of items) {',
+  '    if (item > 0) {',
+  '      for (let i = 0; i < item; i++) {',
+  '        if (mode === "a" && i % 2 === 0) {',
+  '          while (i < 3) { if (mode) { i++; } else { break; } }',
+  '        } else if (mode === "b" || i > 5) {',
+  '          if (i) { return i; }',
+  '        }',
+  '      }',
+  '    }',
+  '  }',
+  '  return 0;',
+  '}',
+  ''
+].join('\n');
+
+function createIO(env: Record<string, string> = {}, fetch: jest.Mock = jest.fn()) {
+  const io = { stdout: [] as string[], stderr: [] as string[] };
+  const cli: CliIO = {
+    stdout: text => io.stdout.push(text),
+    stderr: text => io.stderr.push(text),
+    env,
+    fetch
+  };
+  return { io, cli, fetch };
+}
+
+describe('Command-line analyzer', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    fs.writeFileSync(path.join(workDir, 'index.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should reject arguments it cannot run with', async () => {
+    expect(parseCliArgs(['src', '--format=json', '--threads', '0', '--base', 'main'])).toMatchObject({
+      directory: 'src',
+      format: 'json',
+      threads: 0,
+      base: 'main',
+      upload: null
+    });
+    expect(() => parseCliArgs(['--format', 'xml'])).toThrow('--format must be one of table, json');
+    expect(() => parseCliArgs(['--threads', '-1'])).toThrow('--threads must be a whole number');
+    expect(() => parseCliArgs(['--base', '--evil'])).toThrow('is not a valid branch name');
+    expect(() => parseCliArgs(['--upload', 'https://t3kdet.example.com'])).toThrow('--upload and --project are used together');
+    expect(() => parseCliArgs(['a', 'b'])).toThrow('Only one directory');
+
+    const { io, cli } = createIO();
+    expect(await runCli(['--sarif'], workDir, cli)).toBe(EXIT_CODES.error);
+    expect(io.stderr[0]).toContain('--sarif needs a value');
+    expect(io.stderr[0]).toContain('Usage: t3kdet');
+
+    // Without a token, the upload is refused before anything is analyzed
+    expect(await runCli(['--upload', 'https://t3kdet.example.com', '--project', 'p1'], workDir, cli)).toBe(EXIT_CODES.error);
+    expect(io.stderr[1]).toContain(API_TOKEN_ENV);
+    expect(io.stdout).toEqual([]);
+  });
+
+  it('should print JSON, write SARIF and JUnit reports and fail on gate violations', async () => {
+    fs.writeFileSync(path.join(workDir, 'run.ts'), 'export const run = (code: string) => eval(code);\n');
+    fs.writeFileSync(path.join(workDir, 'route.ts'), NESTED);
+    const { io, cli } = createIO();
+
+    const code = await runCli(['.', '--format', 'json', '--threads', '0', '--sarif', 'reports/t3kdet.sarif', '--junit', 'reports/junit.xml'], workDir, cli);
+
+    expect(code).toBe(EXIT_CODES.gateFailed);
+    const output = JSON.parse(io.stdout.join('\n'));
+    expect(output.report.overview.totalFiles).toBe(3);
+    // Without a base, everything counts as new and the rules that compare with one are skipped
+    expect(output.gate.checks.map((check: { rule: string; passed: boolean }) => [check.rule, check.passed])).toEqual([
+      ['maxFunctionComplexity', false],
+      ['maxNewSecurityFindings', false]
+    ]);
+
+    const sarif = JSON.parse(fs.readFileSync(path.join(workDir, 'reports', 't3kdet.sarif'), 'utf-8'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toContainEqual(expect.objectContaining({
+      ruleId: 'security/dynamic-code',
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'run.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 1 } } }]
+    }));
+
+    const junit = fs.readFileSync(path.join(workDir, 'reports', 'junit.xml'), 'utf-8');
+    expect(junit).toContain('<testsuites name="t3kdet" tests="2" failures="2">');
+    expect(junit).toContain('/route.ts:1 route has cognitive complexity');
+    expect(junit).toContain('/run.ts:1 dynamic-code (high)');
+  });
+
+  it('should pass when the repository config turns the failing rules off', async () => {
+    fs.writeFileSync(path.join(workDir, 'run.ts'), 'export const run = (code: string) => eval(code);\n');
+    fs.writeFileSync(path.join(workDir, '.t3kdet.yml'), 'gate:\n  maxNewSecurityFindings: 1\n');
+    const { io, cli } = createIO();
+
+    expect(await runCli([workDir, '--threads', '0'], '/', cli)).toBe(EXIT_CODES.passed);
+    expect(io.stdout[0]).toContain('Quality gate: passed');
+    expect(io.stdout[0]).toContain('pass  1 new security findings (at most 1 allowed)');
+
+    fs.writeFileSync(path.join(workDir, '.t3kdet.yml'), 'gate:\n  maxNewSecurityFindings: -1\n');
+    expect(await runCli([workDir, '--threads', '0'], '/', cli)).toBe(EXIT_CODES.error);
+    expect(io.stderr[0]).toContain('Invalid configuration');
+  });
+
+  it('should compare with the merge base of a local branch without fetching', async () => {
+    const commit = (message: string) => execSync(
+      `git add . && git -c user.name=test -c user.email=test@example.com commit -qm ${message}`,
+      { cwd: workDir }
+    );
+    execSync('git init -q -b main', { cwd: workDir });
+    fs.writeFileSync(path.join(workDir, 'run.ts'), 'export const run = (code: string) => eval(code);\n');
+    commit('init');
+    const mergeBase = execSync('git rev-parse HEAD', { cwd: workDir }).toString().trim();
+    execSync('git checkout -q -b feature', { cwd: workDir });
+    fs.writeFileSync(path.join(workDir, 'route.ts'), NESTED);
+    commit('feature');
+    const { io, cli } = createIO();
+
+    const code = await runCli(['--base', 'main', '--format', 'json', '--threads', '0'], workDir, cli);
+
+    expect(code).toBe(EXIT_CODES.gateFailed);
+    const { report, gate } = JSON.parse(io.stdout.join('\n'));
+    expect(report.pullRequest).toMatchObject({
+      base: { ref: 'main', commitSha: mergeBase },
+      head: { ref: 'feature' },
+      complexFunctions: [{ file: '/route.ts', name: 'route', baseCognitive: null }],
+      // The eval was already on main
+      newSecurityFindings: []
+    });
+    expect(gate.checks.find((check: { rule: string }) => check.rule === 'maxNewSecurityFindings').passed).toBe(true);
+    // The temporary worktree of the base is removed again
+    expect(execSync('git worktree list', { cwd: workDir }).toString().trim().split('\n')).toHaveLength(1);
+
+    expect(await runCli(['--base', 'unknown-branch'], workDir, cli)).toBe(EXIT_CODES.error);
+    expect(io.stderr[0]).toContain('unknown-branch has no history in common with HEAD');
+  });
+
+  it('should upload the run with the project API token', async () => {
+    const fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({ run: { id: 'run-1' } }), { status: 201 }));
+    const { io, cli } = createIO({ [API_TOKEN_ENV]: 't3k_secret' }, fetch);
+
+    const code = await runCli(['--threads', '0', '--upload', 'https://t3kdet.example.com/', '--project', 'p1'], workDir, cli);
+
+    expect(code).toBe(EXIT_CODES.passed);
+    expect(fetch).toHaveBeenCalledWith('https://t3kdet.example.com/api/projects/p1/runs', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer t3k_secret' }
+    }));
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ commitSha: null, branch: null, toolVersions: { analyzer: expect.any(String) } });
+    expect(body.results.overview.totalFiles).toBe(1);
+    expect(io.stderr).toEqual(['Uploaded the run to https://t3kdet.example.com/api/projects/p1/runs']);
+
+    fetch.mockResolvedValue(new Response(JSON.stringify({ error: 'Invalid API token', details: 'The token does not belong to this project' }), {
+      status: 401
+    }));
+    expect(await runCli(['--threads', '0', '--upload', 'https://t3kdet.example.com', '--project', 'p1'], workDir, cli)).toBe(EXIT_CODES.error);
+    expect(io.stderr[1]).toBe('Upload failed: Upload was refused with 401: The token does not belong to this project');
+  });
+});
@@ -6,6 +6,8 @@ describe('Code Analysis', () => {
   const sampleRepoPath = path.join(__dirname, 'fixtures', 'sample-repo');
   
   beforeAll(() => {
+    fs.mkdirSync(sampleRepoPath, { recursive: true });
+
     // Create sample files for testing
     const sampleFiles = {
       'simple.ts': `
@@ -35,13 +37,29 @@ describe('Code Analysis', () => {
         export default calculateComplexity;
       `,
       'duplicate.ts': `
-        export function helper(x: number): number {
-          return x * 2;
+        export function helper(values: number[], factor: number): number {
+          let total = 0;
+          for (const value of values) {
+            if (value > factor) {
+              total += value * factor;
+            } else {
+              total -= value / factor;
+            }
+          }
+          return total;
         }
       `,
       'duplicate2.ts': `
-        export function helperCopy(x: number): number {
-          return x * 2;
+        export function helperCopy(values: number[], factor: number): number {
+          let total = 0;
+          for (const value of values) {
+            if (value > factor) {
+              total += value * factor;
+            } else {
+              total -= value / factor;
+            }
+          }
+          return total;
         }
       `
     };
@@ -102,7 +120,7 @@ describe('Code Analysis', () => {
     fs.mkdirSync(emptyDir, { recursive: true });
 
     await expect(analyzeCode(emptyDir)).rejects.toThrow(
-      'No JavaScript/TypeScript files found'
+      'No supported source files found'
     );
 
     fs.rmdirSync(emptyDir);
@@ -114,5 +132,31 @@ describe('Code Analysis', () => {
 
     const results = await analyzeCode(sampleRepoPath);
     expect(results.complexity.details.length).toBe(4); // Should still analyze valid files
+    expect(results.skipped).toEqual([
+      { file: '/invalid.ts', reason: 'analysis-error', message: expect.stringContaining('Syntax error in /invalid.ts') }
+    ]);
+  });
+
+  it('should give the same results on worker threads', async () => {
+    const inline = await analyzeCode(sampleRepoPath, { threads: 0 });
+    const threaded = await analyzeCode(sampleRepoPath, { threads: 2 });
+
+    expect(threaded.complexity).toEqual(inline.complexity);
+    expect(threaded.maintainability).toEqual(inline.maintainability);
+    expect(threaded.duplication).toEqual(inline.duplication);
+    expect(threaded.skipped).toEqual(inline.skipped);
+  });
+
+  it('should skip files over the size cap', async () => {
+    const sizes = fs.readdirSync(sampleRepoPath)
+      .filter(name => name.endsWith('.ts'))
+      .map(name => ({ file: `/${name}`, size: fs.statSync(path.join(sampleRepoPath, name)).size }));
+    const cap = Math.max(...sizes.map(({ size }) => size)) - 1;
+
+    const results = await analyzeCode(sampleRepoPath, { maxFileBytes: cap });
+
+    expect(results.skipped.filter(({ reason }) => reason === 'too-large')).toEqual(
+      sizes.filter(({ size }) => size > cap).map(({ file }) => ({ file, reason: 'too-large', message: `larger than ${cap} bytes` }))
+    );
   });
 }); 
\ No newline at end of file
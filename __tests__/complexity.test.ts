@@ -0,0 +1,93 @@
+import { parseSource } from '@/lib/ast';
+import { calculateComplexity } from '@/lib/complexity';
+
+function analyze(code: string) {
+  return calculateComplexity(parseSource('sample.ts', code));
+}
+
+describe('Complexity', () => {
+  it('should report each function with its line range', () => {
+    const result = analyze(`
+function first() {
+  return 1;
+}
+
+const second = (x: number) => {
+  if (x > 0) {
+    return x;
+  }
+  return -x;
+};
+`.trim());
+
+    expect(result.functions).toEqual([
+      { name: 'first', startLine: 1, endLine: 3, cyclomatic: 1, cognitive: 0, nestingDepth: 0, deepestNestingLine: 0 },
+      { name: 'second', startLine: 5, endLine: 10, cyclomatic: 2, cognitive: 1, nestingDepth: 1, deepestNestingLine: 6 }
+    ]);
+  });
+
+  it('should count logical operators, ternaries, cases and catch clauses', () => {
+    const result = analyze(`
+function check(a: boolean, b: boolean, c: boolean, kind: string) {
+  try {
+    const flag = a && b && c ? 1 : 0;
+    switch (kind) {
+      case 'x':
+        return flag;
+      case 'y':
+        return a || b;
+      default:
+        return 0;
+    }
+  } catch (error) {
+    return -1;
+  }
+}
+`);
+    const [check] = result.functions;
+
+    // 1 + && + && + ?: + case + case + || + catch
+    expect(check.cyclomatic).toBe(8);
+    // ternary (+1), && run (+1), switch (+1), || (+1), catch (+1)
+    expect(check.cognitive).toBe(5);
+  });
+
+  it('should ignore keywords inside strings and comments', () => {
+    const result = analyze(`
+// if (a) { for (;;) {} }
+const text = 'while (true) { switch (x) {} }';
+`);
+
+    expect(result.cyclomatic).toBe(1);
+    expect(result.functions).toHaveLength(0);
+  });
+
+  it('should penalize nesting in cognitive complexity', () => {
+    const result = analyze(`
+function nested(items: number[][]) {
+  for (const row of items) {
+    for (const cell of row) {
+      if (cell > 0) {
+        console.log(cell);
+      } else if (cell < 0) {
+        console.log(-cell);
+      } else {
+        console.log(0);
+      }
+    }
+  }
+}
+`);
+    const [nested] = result.functions;
+
+    expect(nested.nestingDepth).toBe(3);
+    expect(nested.deepestNestingLine).toBe(5);
+    // for (+1), for (+2), if (+3), else if (+1), else (+1)
+    expect(nested.cognitive).toBe(8);
+    expect(result.rating).toBeGreaterThan(50);
+  });
+
+  it('should reject files that do not parse', () => {
+    expect(() => parseSource('broken.ts', 'this is not valid typescript')).toThrow('Syntax error');
+  });
+});
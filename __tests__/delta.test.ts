@@ -0,0 +1,99 @@
+import { buildPullRequestDelta, checkQualityGate, DEFAULT_QUALITY_GATE } from '@/lib/delta';
+import { AnalysisReport } from '@/lib/scoring';
+
+type FunctionInput = { name: string; cognitive: number; startLine?: number };
+type FileInput = { file: string; complexity: number; maintainability: number; duplication?: number; functions?: FunctionInput[] };
+type CloneInput = { first: string; second: string; lines: number; line?: number };
+type FindingInput = { rule: string; file: string; snippet: string; line?: number };
+
+function createReport(overallScore: number, debtRatio: number, files: FileInput[], clones: CloneInput[] = [], findings: FindingInput[] = []) {
+  return {
+    overview: { technicalDebtRatio: debtRatio },
+    complexity: {
+      details: files.map(f => ({
+        file: f.file,
+        complexity: f.complexity,
+        maintainability: f.maintainability,
+        functions: (f.functions || []).map(fn => ({ startLine: 1, ...fn }))
+      }))
+    },
+    duplication: {
+      instances: clones.map(clone => ({
+        first: { file: clone.first, startLine: clone.line ?? 1, endLine: (clone.line ?? 1) + clone.lines },
+        second: { file: clone.second, startLine: 1, endLine: 1 + clone.lines },
+        lines: clone.lines
+      })),
+      details: files.map(f => ({ file: f.file, percentage: f.duplication || 0 }))
+    },
+    maintainability: { details: files.map(f => ({ file: f.file, score: f.maintainability, issues: [] })) },
+    security: { vulnerabilities: findings.map(finding => ({ severity: 'high', line: 1, message: '', ...finding })) },
+    overallScore
+  } as unknown as AnalysisReport;
+}
+
+const REFS = { base: { ref: 'main', commitSha: 'sha-base' }, head: { ref: 'feature', commitSha: 'sha-head' } };
+
+describe('Pull request delta', () => {
+  const base = createReport(80, 4, [
+    { file: '/a.ts', complexity: 20, maintainability: 70, functions: [{ name: 'parse', cognitive: 18 }, { name: 'load', cognitive: 20 }] },
+    { file: '/b.ts', complexity: 30, maintainability: 60, duplication: 10 }
+  ], [{ first: '/a.ts', second: '/b.ts', lines: 12 }], [{ rule: 'dynamic-code', file: '/a.ts', snippet: 'eval(x)' }]);
+
+  it('should list what got worse and fail the rules it breaks', () => {
+    const head = createReport(76.5, 5.5, [
+      // parse is untouched and load got more complex
+      { file: '/a.ts', complexity: 25, maintainability: 70, functions: [{ name: 'parse', cognitive: 18 }, { name: 'load', cognitive: 22 }] },
+      // Simpler, so not worse
+      { file: '/b.ts', complexity: 20, maintainability: 65, duplication: 10 },
+      { file: '/c.ts', complexity: 40, maintainability: 50, functions: [{ name: 'route', cognitive: 16, startLine: 8 }, { name: 'small', cognitive: 3 }] }
+    ], [
+      // The same clone moved down, plus a new one
+      { first: '/a.ts', second: '/b.ts', lines: 12, line: 30 },
+      { first: '/c.ts', second: '/b.ts', lines: 8 }
+    ], [
+      { rule: 'dynamic-code', file: '/a.ts', snippet: 'eval(x)', line: 40 },
+      { rule: 'dynamic-code', file: '/a.ts', snippet: 'eval(x)', line: 50 }
+    ]);
+
+    const delta = buildPullRequestDelta(base, head, { ...DEFAULT_QUALITY_GATE, maxNewDuplicates: 1 }, REFS);
+
+    expect(delta).toMatchObject({ ...REFS, overallScore: { base: 80, head: 76.5, delta: -3.5 }, technicalDebtRatio: { delta: 1.5 } });
+    expect(delta.worsenedFiles.map(file => file.file)).toEqual(['/a.ts']);
+    expect(delta.complexFunctions).toEqual([
+      { file: '/a.ts', name: 'load', line: 1, cognitive: 22, baseCognitive: 20 },
+      { file: '/c.ts', name: 'route', line: 8, cognitive: 16, baseCognitive: null }
+    ]);
+    expect(delta.newDuplicates.map(clone => clone.first.file)).toEqual(['/c.ts']);
+    // The repeated finding is new, the moved one is not
+    expect(delta.newSecurityFindings.map(finding => finding.line)).toEqual([50]);
+    expect(delta.gate.checks.map(check => [check.rule, check.actual, check.passed])).toEqual([
+      ['maxFunctionComplexity', 22, false],
+      ['maxScoreDrop', 3.5, false],
+      ['maxNewDuplicates', 1, true],
+      ['maxNewSecurityFindings', 1, false]
+    ]);
+    expect(delta.gate.passed).toBe(false);
+  });
+
+  it('should pass when nothing got worse and skip rules turned off', () => {
+    const delta = buildPullRequestDelta(base, base, { ...DEFAULT_QUALITY_GATE, maxScoreDrop: null, maxWorsenedFiles: 0 }, REFS);
+
+    expect(delta.worsenedFiles).toEqual([]);
+    expect(delta.complexFunctions).toEqual([]);
+    expect(delta.gate.checks.map(check => check.rule)).toEqual(['maxFunctionComplexity', 'maxNewSecurityFindings', 'maxWorsenedFiles']);
+    expect(delta.gate.passed).toBe(true);
+  });
+
+  it('should count everything as new without a base and skip the rules that need one', () => {
+    const result = checkQualityGate(base, { ...DEFAULT_QUALITY_GATE, maxNewDuplicates: 0, maxWorsenedFiles: 0 });
+
+    expect(result.complexFunctions.map(fn => [fn.name, fn.baseCognitive])).toEqual([['parse', null], ['load', null]]);
+    expect(result.newDuplicates).toHaveLength(1);
+    expect(result.gate.checks.map(check => [check.rule, check.actual, check.passed])).toEqual([
+      ['maxFunctionComplexity', 20, false],
+      ['maxNewDuplicates', 1, false],
+      ['maxNewSecurityFindings', 1, false]
+    ]);
+    expect(checkQualityGate(base, { ...DEFAULT_QUALITY_GATE, maxFunctionComplexity: 20, maxNewSecurityFindings: 1 }).gate.passed).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveAnalysisConfig } from '@/lib/analysisConfig';
+import { analyzeDependencies, compareVersions, DependencyDatabase, loadDependencyDatabase } from '@/lib/dependencies';
+
+function writeFiles(root: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+}
+
+const MANIFEST = JSON.stringify({
+  name: 'app',
+  dependencies: { lodash: '^4.17.0', request: '*', shared: 'workspace:*' },
+  devDependencies: { jest: '^27.0.0' }
+});
+
+const DATABASE: DependencyDatabase = {
+  packages: {
+    lodash: { latest: '4.17.21', license: 'MIT' },
+    request: { latest: '2.88.2', license: 'Apache-2.0', deprecated: 'request has been deprecated' },
+    jest: { latest: '29.7.0', license: 'MIT' },
+    'left-pad': { latest: '1.3.0', license: 'WTFPL OR GPL-3.0' },
+    'copyleft-lib': { latest: '1.0.0', license: 'AGPL-3.0-only' }
+  },
+  advisories: [
+    { id: 'GHSA-1', package: 'lodash', severity: 'high', title: 'Prototype pollution', fixed: '4.17.21' },
+    { id: 'GHSA-2', package: 'jest', severity: 'critical', title: 'Not affected', introduced: '28.0.0', fixed: '28.1.0' }
+  ]
+};
+
+describe('Dependency analysis', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependencies-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should report nothing without a package.json', () => {
+    writeFiles(workDir, { 'src/index.ts': '' });
+    expect(analyzeDependencies(workDir, resolveAnalysisConfig())).toBeNull();
+  });
+
+  it('should read a package-lock.json and flag risky packages', () => {
+    writeFiles(workDir, {
+      'package.json': MANIFEST,
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app' },
+          'node_modules/lodash': { version: '4.17.15' },
+          'node_modules/request': { version: '2.88.2' },
+          'node_modules/jest': { version: '27.5.1' },
+          'node_modules/left-pad': { version: '1.3.0' },
+          'node_modules/copyleft-lib': { version: '1.0.0' },
+          'node_modules/jest/node_modules/left-pad': { version: '1.1.0' },
+          'node_modules/shared': { link: true, resolved: 'packages/shared' },
+          'packages/shared': { name: 'shared', version: '1.0.0' }
+        }
+      })
+    });
+
+    const report = analyzeDependencies(workDir, resolveAnalysisConfig(), DATABASE)!;
+
+    expect(report).toMatchObject({ manifests: ['/package.json'], lockfiles: ['/package-lock.json'], direct: 3, transitive: 2 });
+    expect(report.duplicates).toEqual([{ name: 'left-pad', versions: ['1.1.0', '1.3.0'] }]);
+    expect(report.packages.map(pkg => [pkg.name, pkg.installed, pkg.dev, pkg.lag])).toEqual([
+      ['jest', '27.5.1', true, { majors: 2, minors: 0, patches: 0 }],
+      ['lodash', '4.17.15', false, { majors: 0, minors: 0, patches: 6 }],
+      ['request', '2.88.2', false, { majors: 0, minors: 0, patches: 0 }]
+    ]);
+    expect(report.findings.map(finding => [finding.kind, finding.package, finding.severity])).toEqual([
+      ['outdated', 'jest', 'moderate'],
+      ['unpinned', 'request', 'low'],
+      ['duplicate', 'left-pad', 'low'],
+      ['vulnerable', 'lodash', 'high'],
+      ['deprecated', 'request', 'moderate'],
+      ['license', 'copyleft-lib', 'high']
+    ]);
+    // 100 - (5 + 1 + 1 + 10 + 5 + 10)
+    expect(report.score).toBe(68);
+  });
+
+  it('should read yarn and pnpm lockfiles in nested packages', () => {
+    writeFiles(workDir, {
+      'package.json': JSON.stringify({ name: 'root', private: true }),
+      'web/package.json': JSON.stringify({ dependencies: { lodash: '^4.17.0', '@scope/ui': '^2.0.0' } }),
+      'web/yarn.lock': [
+        '# yarn lockfile v1',
+        '',
+        '"@scope/ui@^2.0.0", "@scope/ui@^2.1.0":',
+        '  version "2.1.0"',
+        '',
+        'lodash@^4.17.0:',
+        '  version "4.17.21"',
+        ''
+      ].join('\n'),
+      'api/package.json': JSON.stringify({ dependencies: { lodash: '~4.17.10' } }),
+      'api/pnpm-lock.yaml': [
+        "lockfileVersion: '6.0'",
+        'packages:',
+        '  /lodash@4.17.10:',
+        '    resolution: {integrity: sha512-x}',
+        '  /@scope/ui@1.0.0(react@18.2.0):',
+        '    resolution: {integrity: sha512-y}',
+        ''
+      ].join('\n')
+    });
+
+    const report = analyzeDependencies(workDir, resolveAnalysisConfig(), DATABASE)!;
+
+    expect(report.lockfiles.sort()).toEqual(['/api/pnpm-lock.yaml', '/web/yarn.lock']);
+    expect(report.direct).toBe(2);
+    expect(report.duplicates).toEqual([
+      { name: '@scope/ui', versions: ['1.0.0', '2.1.0'] },
+      { name: 'lodash', versions: ['4.17.10', '4.17.21'] }
+    ]);
+    expect(report.packages.find(pkg => pkg.name === '@scope/ui')?.installed).toBe('2.1.0');
+    expect(report.findings.filter(finding => finding.kind === 'vulnerable').map(finding => finding.version)).toEqual(['4.17.10']);
+  });
+
+  it('should fall back to the declared ranges without a lockfile', () => {
+    writeFiles(workDir, { 'package.json': MANIFEST });
+
+    const report = analyzeDependencies(workDir, resolveAnalysisConfig(), DATABASE)!;
+
+    expect(report.transitive).toBeNull();
+    expect(report.packages.map(pkg => pkg.installed)).toEqual(['27.0.0', '4.17.0', null]);
+    expect(report.findings.map(finding => finding.kind)).toEqual(['outdated', 'unpinned', 'vulnerable', 'deprecated']);
+  });
+
+  it('should compare versions and load the database from disk', () => {
+    expect(['1.10.0', '1.2.0', '1.2.0-beta.2', '1.2.0-beta.10'].sort(compareVersions))
+      .toEqual(['1.2.0-beta.2', '1.2.0-beta.10', '1.2.0', '1.10.0']);
+
+    expect(loadDependencyDatabase(undefined)).toEqual({ packages: {}, advisories: [] });
+    writeFiles(workDir, { 'db.json': JSON.stringify(DATABASE), 'bad.json': '{"packages": {}}' });
+    expect(loadDependencyDatabase(path.join(workDir, 'db.json'))).toEqual(DATABASE);
+    expect(() => loadDependencyDatabase(path.join(workDir, 'bad.json'))).toThrow(/needs a packages object and an advisories list/);
+  });
+});
@@ -0,0 +1,102 @@
+import { parseSource } from '@/lib/ast';
+import { detectDuplicates } from '@/lib/duplication';
+
+function input(file: string, code: string) {
+  return { file, sourceFile: parseSource(file, code.trim()) };
+}
+
+describe('Duplication', () => {
+  const block = `
+export function total(items: number[], factor: number): number {
+  let sum = 0;
+  for (const item of items) {
+    if (item > 0) {
+      sum += item * factor;
+    } else {
+      sum -= item / factor;
+    }
+  }
+  return sum;
+}`.trim();
+
+  it('should report both locations of a renamed copy', () => {
+    const renamed = block.replace(/total/g, 'sumAll').replace(/item/g, 'entry');
+    const result = detectDuplicates([
+      input('a.ts', block),
+      input('b.ts', `const unrelated = 1;\n${renamed}`)
+    ]);
+
+    expect(result.instances).toHaveLength(1);
+    const [clone] = result.instances;
+    expect(clone.first).toEqual({ file: 'a.ts', startLine: 1, endLine: 11 });
+    expect(clone.second).toEqual({ file: 'b.ts', startLine: 2, endLine: 12 });
+    expect(clone.tokens).toBeGreaterThanOrEqual(50);
+    expect(clone.fragment).toContain('function total');
+
+    expect(result.details.find(d => d.file === 'a.ts')?.percentage).toBe(100);
+    expect(result.details.find(d => d.file === 'b.ts')?.duplicatedLines).toBe(11);
+    expect(result.percentage).toBe(95.65);
+  });
+
+  it('should ignore shared import lists and short fragments', () => {
+    const imports = "import { a, b, c, d, e } from './letters';\nimport { f, g, h } from './more';";
+    const result = detectDuplicates([
+      input('a.ts', `${imports}\nexport const x = a + b;`),
+      input('b.ts', `${imports}\nexport const y = c - d;`)
+    ]);
+
+    expect(result.instances).toHaveLength(0);
+    expect(result.percentage).toBe(0);
+  });
+
+  it('should find clones within a single file', () => {
+    const result = detectDuplicates([input('a.ts', `${block}\n${block.replace('total', 'again')}`)]);
+
+    expect(result.instances).toHaveLength(1);
+    expect(result.instances[0].first.file).toBe('a.ts');
+    expect(result.instances[0].second.startLine).toBe(12);
+  });
+
+  it('should not start clones inside case label runs or type member lists', () => {
+    const labels = Array.from({ length: 12 }, (_, i) => `    case ts.SyntaxKind.Kind${i}:`).join('\n');
+    const fields = Array.from({ length: 15 }, (_, i) => `  field${i}: string;`).join('\n');
+    const result = detectDuplicates([
+      input('a.ts', `export function isA(node: ts.Node) {\n  switch (node.kind) {\n    case ts.SyntaxKind.Block:\n      return node.pos;\n${labels}\n      return 1;\n  }\n}\ninterface A {\n${fields}\n}`),
+      input('b.ts', `export const isB = (kind: number) => {\n  let flag = 0;\n  switch (kind) {\n    case 1:\n      flag = compute(kind, 2);\n      break;\n${labels}\n      flag = 3;\n  }\n  return flag;\n};\ntype B = {\n${fields}\n};`)
+    ]);
+
+    expect(result.instances).toHaveLength(0);
+  });
+
+  it('should report a copy with a changed token as one clone', () => {
+    const scaled = (by: number) => `
+export function report(items: number[], factor: number): number {
+  let sum = 0;
+  for (const item of items) {
+    if (item > 0) {
+      sum += item * factor;
+    } else {
+      sum -= item / factor;
+    }
+  }
+  sum = sum * ${by}; let count = 0;
+  for (const item of items) {
+    if (item > factor) {
+      count += item * factor;
+    } else {
+      count -= item / factor;
+    }
+  }
+  while (count > sum) {
+    count -= factor;
+  }
+  return sum + count;
+}`;
+    const result = detectDuplicates([input('a.ts', scaled(2)), input('b.ts', scaled(3))]);
+
+    expect(result.instances).toHaveLength(1);
+    expect(result.instances[0].first).toEqual({ file: 'a.ts', startLine: 1, endLine: 22 });
+    expect(result.instances[0].second).toEqual({ file: 'b.ts', startLine: 1, endLine: 22 });
+    expect(result.instances[0].fragment).toContain('return sum + count;');
+  });
+});
@@ -0,0 +1,73 @@
+import { buildForecast, findGrowingFiles, forecastMetric } from '@/lib/forecast';
+import { RunFileComplexity, RunMetrics } from '@/lib/runs';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const origin = new Date('2024-01-01T00:00:00Z');
+
+function run(day: number, overallScore: number, complexity: number): RunMetrics {
+  return {
+    id: `run-${day}`,
+    commit_sha: null,
+    branch: 'main',
+    created_at: new Date(origin.getTime() + day * DAY_MS).toISOString(),
+    overall_score: overallScore,
+    complexity,
+    maintainability: 70,
+    duplication: 5
+  };
+}
+
+function history(day: number, files: Record<string, number>): RunFileComplexity {
+  return {
+    id: `run-${day}`,
+    created_at: new Date(origin.getTime() + day * DAY_MS).toISOString(),
+    files: Object.entries(files).map(([file, complexity]) => ({ file, complexity }))
+  };
+}
+
+describe('Forecasting', () => {
+  const now = new Date(origin.getTime() + 20 * DAY_MS);
+
+  test('projects a linear trend with a band around noisy data', () => {
+    // Complexity rises exactly one point per day
+    const runs = [run(0, 80, 20), run(10, 76, 30), run(20, 80, 40)];
+    const forecast = forecastMetric(runs, 'complexity', now)!;
+
+    expect(forecast.slopePerDay).toBe(1);
+    expect(forecast.current).toBe(40);
+    expect(forecast.projections.map(p => [p.days, p.value, p.lower, p.upper])).toEqual([
+      [30, 70, 70, 70],
+      [60, 100, 100, 100],
+      [90, 100, 100, 100]
+    ]);
+
+    const score = forecastMetric(runs, 'overall_score', now)!;
+    expect(score.slopePerDay).toBe(0);
+    expect(score.projections[0].value).toBeCloseTo(78.67, 2);
+    expect(score.projections[0].lower).toBeLessThan(score.projections[0].value);
+    // The band widens the further out the projection goes
+    const width = (p: { lower: number; upper: number }) => p.upper - p.lower;
+    expect(width(score.projections[2])).toBeGreaterThan(width(score.projections[0]));
+  });
+
+  test('needs at least three runs spread over time', () => {
+    expect(forecastMetric([run(0, 80, 20), run(10, 70, 30)], 'complexity', now)).toBeNull();
+    expect(forecastMetric([run(5, 80, 20), run(5, 70, 30), run(5, 60, 40)], 'complexity', now)).toBeNull();
+    expect(buildForecast([], [], now).metrics.complexity).toBeNull();
+  });
+
+  test('ranks files by how fast their complexity grows', () => {
+    const files = findGrowingFiles([
+      history(0, { '/a.ts': 10, '/b.ts': 50, '/c.ts': 5, '/gone.ts': 10 }),
+      history(10, { '/a.ts': 20, '/b.ts': 45, '/c.ts': 7, '/gone.ts': 90 }),
+      history(20, { '/a.ts': 30, '/b.ts': 40, '/c.ts': 9 })
+    ], now, 30);
+
+    expect(files).toEqual([
+      { file: '/a.ts', current: 30, slopePerDay: 1, projected: 60, runs: 3 },
+      { file: '/c.ts', current: 9, slopePerDay: 0.2, projected: 15, runs: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createGitProvider, ProviderError, RepositoryAccessError } from '@/lib/gitProviders';
+
+const GIT = 'git -c user.name=test -c user.email=test@example.com';
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status: 200, headers });
+}
+
+function githubRepo(id: number, fullName: string) {
+  return {
+    id,
+    name: fullName.split('/')[1],
+    full_name: fullName,
+    description: null,
+    clone_url: `https://github.com/${fullName}.git`,
+    html_url: `https://github.com/${fullName}`,
+    default_branch: 'main',
+    private: false
+  };
+}
+
+describe('Git providers', () => {
+  let workDir: string;
+  // A bare repository reached over file:// stands in for the remote host
+  let remoteUrl: string;
+  let firstCommit: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-provider-'));
+    const source = path.join(workDir, 'source');
+    fs.mkdirSync(source);
+    fs.writeFileSync(path.join(source, 'index.ts'), 'export const a = 1;\n');
+    execSync(`git init -q -b main && git add . && ${GIT} commit -qm init && git branch feature/login`, { cwd: source });
+    execSync(`${GIT} tag -a v1 -m v1`, { cwd: source });
+    firstCommit = execSync('git rev-parse HEAD', { cwd: source }).toString().trim();
+    fs.writeFileSync(path.join(source, 'next.ts'), 'export const b = 2;\n');
+    execSync(`git add . && ${GIT} commit -qm next`, { cwd: source });
+    execSync(`git clone -q --bare source remote.git`, { cwd: workDir });
+    remoteUrl = `file://${path.join(workDir, 'remote.git')}`;
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    process.env.GIT_ALLOW_PROTOCOL = 'file';
+  });
+
+  afterEach(() => {
+    delete process.env.GIT_ALLOW_PROTOCOL;
+    jest.restoreAllMocks();
+  });
+
+  it('should list branches and the default branch of a plain Git remote', async () => {
+    const branches = await createGitProvider({ provider: 'git', accessToken: null }).listBranches(remoteUrl);
+
+    expect(branches).toEqual({ branches: ['feature/login', 'main'], defaultBranch: 'main' });
+  });
+
+  it('should clone without writing the token into the checkout', async () => {
+    const destination = path.join(workDir, 'clone');
+    await createGitProvider({ provider: 'gitlab', accessToken: 'secret-token' }).clone(remoteUrl, destination);
+
+    expect(fs.readFileSync(path.join(destination, 'index.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.readFileSync(path.join(destination, '.git', 'config'), 'utf-8')).not.toContain('secret-token');
+  });
+
+  it('should fetch only the requested branch, tag or commit', async () => {
+    const provider = createGitProvider({ provider: 'git', accessToken: null });
+    const checkout = async (ref: string | null, name: string, commitSha?: string) => {
+      const destination = path.join(workDir, name);
+      await provider.clone(remoteUrl, destination, ref, commitSha);
+      const git = (command: string) => execSync(`git ${command}`, { cwd: destination }).toString().trim();
+      return { sha: git('rev-parse HEAD'), branch: git('rev-parse --abbrev-ref HEAD'), depth: git('rev-list --count HEAD') };
+    };
+
+    expect(await checkout(null, 'default')).toMatchObject({ branch: 'main', depth: '1' });
+    expect(await checkout('feature/login', 'branch')).toEqual({ sha: firstCommit, branch: 'feature/login', depth: '1' });
+    expect(await checkout('v1', 'tag')).toEqual({ sha: firstCommit, branch: 'HEAD', depth: '1' });
+    expect(await checkout(firstCommit, 'commit')).toEqual({ sha: firstCommit, branch: 'HEAD', depth: '1' });
+    // A push names its commit, which stays on its branch even after the branch moved on
+    expect(await checkout('main', 'pinned', firstCommit)).toEqual({ sha: firstCommit, branch: 'main', depth: '1' });
+
+    await expect(provider.clone(remoteUrl, path.join(workDir, 'short'), firstCommit.slice(0, 7)))
+      .rejects.toThrow(/full SHA/);
+    await expect(provider.clone(remoteUrl, path.join(workDir, 'unknown'), 'release/9'))
+      .rejects.toThrow(/No branch or tag named release\/9/);
+    await expect(provider.clone(remoteUrl, path.join(workDir, 'option'), '--upload-pack=touch'))
+      .rejects.toThrow(/Invalid branch, tag or commit/);
+  });
+
+  it('should list files changed since a commit missing from the shallow checkout', async () => {
+    const provider = createGitProvider({ provider: 'git', accessToken: null });
+    const destination = path.join(workDir, 'diff');
+    await provider.clone(remoteUrl, destination);
+
+    expect(await provider.listChangedFiles(remoteUrl, destination, firstCommit)).toEqual(['next.ts']);
+    await expect(provider.listChangedFiles(remoteUrl, destination, firstCommit.slice(0, 7))).rejects.toThrow(/full SHA/);
+  });
+
+  it('should report unreachable or disallowed remotes as access errors', async () => {
+    const provider = createGitProvider({ provider: 'git', accessToken: null });
+
+    await expect(provider.clone(`file://${path.join(workDir, 'missing.git')}`, path.join(workDir, 'missing')))
+      .rejects.toBeInstanceOf(RepositoryAccessError);
+    await expect(provider.listBranches('--upload-pack=touch /tmp/pwned')).rejects.toBeInstanceOf(RepositoryAccessError);
+
+    delete process.env.GIT_ALLOW_PROTOCOL;
+    await expect(provider.listBranches(remoteUrl)).rejects.toBeInstanceOf(RepositoryAccessError);
+  });
+
+  it('should page GitHub repositories and filter them by search', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce(jsonResponse([githubRepo(1, 'acme/api')], { link: '<https://api.github.com/user/repos?page=3>; rel="next"' }))
+      .mockResolvedValueOnce(jsonResponse([githubRepo(1, 'acme/api'), githubRepo(2, 'acme/web')], { link: '<x>; rel="next"' }))
+      .mockResolvedValueOnce(jsonResponse([githubRepo(3, 'me/web-tools')]));
+    const provider = createGitProvider({ provider: 'github', accessToken: 'token' });
+
+    const page = await provider.listRepositories({ page: 2, perPage: 1 });
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      'https://api.github.com/user/repos?per_page=1&page=2&sort=updated',
+      { headers: expect.objectContaining({ Authorization: 'Bearer token' }) }
+    );
+    expect(page).toMatchObject({ page: 2, perPage: 1, hasNextPage: true });
+    expect(page.repositories[0]).toMatchObject({ fullName: 'acme/api', cloneUrl: 'https://github.com/acme/api.git' });
+
+    const search = await provider.listRepositories({ search: 'WEB' });
+    expect(search.repositories.map(repo => repo.fullName)).toEqual(['acme/web', 'me/web-tools']);
+    expect(search.hasNextPage).toBe(false);
+  });
+
+  it('should list repositories from a self-hosted GitLab', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(jsonResponse([{
+      id: 7,
+      name: 'api',
+      path_with_namespace: 'team/api',
+      description: '',
+      http_url_to_repo: 'https://gitlab.example.com/team/api.git',
+      web_url: 'https://gitlab.example.com/team/api',
+      default_branch: 'develop',
+      visibility: 'internal'
+    }], { 'x-next-page': '' }));
+
+    const page = await createGitProvider({ provider: 'gitlab', accessToken: 'token', baseUrl: 'https://gitlab.example.com/' })
+      .listRepositories({ search: 'api' });
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.origin + url.pathname).toBe('https://gitlab.example.com/api/v4/projects');
+    expect(url.searchParams.get('search')).toBe('api');
+    expect(page).toEqual({
+      repositories: [{
+        id: '7',
+        name: 'api',
+        fullName: 'team/api',
+        description: null,
+        cloneUrl: 'https://gitlab.example.com/team/api.git',
+        webUrl: 'https://gitlab.example.com/team/api',
+        defaultBranch: 'develop',
+        private: true
+      }],
+      page: 1,
+      perPage: 30,
+      hasNextPage: false
+    });
+  });
+
+  it('should surface API failures with their status', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ message: 'Bad credentials' }), { status: 401 }));
+
+    await expect(createGitProvider({ provider: 'github', accessToken: 'expired' }).listRepositories())
+      .rejects.toMatchObject({ status: 401, message: expect.stringContaining('Bad credentials') });
+    await expect(createGitProvider({ provider: 'git', accessToken: null }).listRepositories())
+      .rejects.toBeInstanceOf(ProviderError);
+  });
+});
@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, unknown>;
+
+type Filter = (row: Row) => boolean;
+
+type QueryError = { code: string; message: string };
+
+type QueryResult = { data: unknown; error: QueryError | null };
+
+// Columns that must be unique together among the rows the condition holds for, like a partial unique index
+export type UniqueIndex = { columns: string[]; where?: Filter };
+
+export type MemorySupabase = {
+  tables: Record<string, Row[]>;
+  from: (table: string) => MemoryQuery;
+  // The next write to the table fails with this message, as if the database were unavailable
+  failNextWrite: (table: string, message: string) => void;
+  auth: { getUser: () => Promise<{ data: { user: { id: string } | null }; error: null }> };
+  // The user whose session requests carry from now on, or null for none
+  signIn: (userId: string | null) => void;
+};
+
+type MemoryQuery = {
+  select: (columns?: string) => MemoryQuery;
+  insert: (values: Row | Row[]) => MemoryQuery;
+  update: (values: Row) => MemoryQuery;
+  upsert: (values: Row | Row[], options?: { onConflict?: string }) => MemoryQuery;
+  delete: () => MemoryQuery;
+  eq: (column: string, value: unknown) => MemoryQuery;
+  neq: (column: string, value: unknown) => MemoryQuery;
+  in: (column: string, values: unknown[]) => MemoryQuery;
+  is: (column: string, value: unknown) => MemoryQuery;
+  lt: (column: string, value: unknown) => MemoryQuery;
+  order: (column: string, options?: { ascending?: boolean }) => MemoryQuery;
+  limit: (count: number) => MemoryQuery;
+  range: (from: number, to: number) => MemoryQuery;
+  single: () => Promise<QueryResult>;
+  maybeSingle: () => Promise<QueryResult>;
+  then: <T>(resolve: (result: QueryResult) => T, reject?: (error: unknown) => T) => Promise<T>;
+};
+
+// Just enough of the Supabase query builder for the server code under test, over rows kept in memory.
+// Rows get an id and created_at when inserted without them; unique indexes reject writes with Postgres' 23505.
+// Row level security is not modelled, so the same instance stands in for session and service-role clients
+export function createMemorySupabase(uniqueIndexes: Record<string, UniqueIndex[]> = {}): MemorySupabase {
+  const tables: Record<string, Row[]> = {};
+  const failures = new Map<string, string>();
+  let userId: string | null = null;
+
+  const rowsOf = (table: string) => (tables[table] ||= []);
+
+  const violates = (table: string, candidate: Row, ignore: Row[]) => (uniqueIndexes[table] || []).some(index => {
+    if (index.where && !index.where(candidate)) return false;
+    return rowsOf(table).some(row => !ignore.includes(row)
+      && (!index.where || index.where(row))
+      && index.columns.every(column => row[column] === candidate[column]));
+  });
+
+  const from = (table: string): MemoryQuery => {
+    const filters: Filter[] = [];
+    let action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+    let values: Row[] = [];
+    let conflictColumns: string[] = [];
+    let columns: string | null = null;
+    let ordering: { column: string; ascending: boolean } | null = null;
+    let offset = 0;
+    let limit: number | null = null;
+
+    const project = (row: Row) => {
+      if (!columns || columns.trim() === '*') return { ...row };
+      return Object.fromEntries(columns.split(',').map(column => column.trim()).map(column => [column, row[column] ?? null]));
+    };
+
+    const write = (): { rows: Row[]; error: QueryError | null } => {
+      const failure = failures.get(table);
+      if (failure) {
+        failures.delete(table);
+        return { rows: [], error: { code: 'XX000', message: failure } };
+      }
+
+      const rows = rowsOf(table);
+      if (action === 'delete') {
+        const removed = rows.filter(row => filters.every(filter => filter(row)));
+        tables[table] = rows.filter(row => !removed.includes(row));
+        return { rows: removed, error: null };
+      }
+
+      if (action === 'update') {
+        const matching = rows.filter(row => filters.every(filter => filter(row)));
+        if (matching.some(row => violates(table, { ...row, ...values[0] }, [row]))) {
+          return { rows: [], error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        matching.forEach(row => Object.assign(row, values[0]));
+        return { rows: matching, error: null };
+      }
+
+      const written: Row[] = [];
+      for (const value of values) {
+        const existing = action === 'upsert'
+          ? rows.find(row => conflictColumns.every(column => row[column] === value[column]))
+          : undefined;
+        if (existing) {
+          Object.assign(existing, value);
+          written.push(existing);
+          continue;
+        }
+        const row = { id: randomUUID(), created_at: new Date().toISOString(), ...value };
+        if (violates(table, row, [])) {
+          return { rows: [], error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        rows.push(row);
+        written.push(row);
+      }
+      return { rows: written, error: null };
+    };
+
+    const run = async (mode: 'many' | 'single' | 'maybeSingle'): Promise<QueryResult> => {
+      let rows: Row[];
+      if (action === 'select') {
+        rows = rowsOf(table).filter(row => filters.every(filter => filter(row)));
+      } else {
+        const result = write();
+        if (result.error) return { data: null, error: result.error };
+        // Writes only return rows when select() asks for them
+        rows = columns === null ? [] : result.rows;
+      }
+
+      if (ordering) {
+        const { column, ascending } = ordering;
+        rows = [...rows].sort((a, b) => (a[column] === b[column] ? 0 : (a[column] as string) < (b[column] as string) ? -1 : 1) * (ascending ? 1 : -1));
+      }
+      rows = rows.slice(offset, limit === null ? undefined : offset + limit);
+      const data = rows.map(project);
+
+      if (mode === 'many') return { data: action === 'select' || columns !== null ? data : null, error: null };
+      if (data.length > 1 || (mode === 'single' && data.length === 0)) {
+        return { data: null, error: { code: 'PGRST116', message: `Expected a single row, found ${data.length}` } };
+      }
+      return { data: data[0] ?? null, error: null };
+    };
+
+    const query: MemoryQuery = {
+      select: (selected = '*') => {
+        columns = selected;
+        return query;
+      },
+      insert: inserted => {
+        action = 'insert';
+        values = Array.isArray(inserted) ? inserted : [inserted];
+        return query;
+      },
+      update: changes => {
+        action = 'update';
+        values = [changes];
+        return query;
+      },
+      upsert: (upserted, options = {}) => {
+        action = 'upsert';
+        values = Array.isArray(upserted) ? upserted : [upserted];
+        conflictColumns = (options.onConflict || 'id').split(',').map(column => column.trim());
+        return query;
+      },
+      delete: () => {
+        action = 'delete';
+        return query;
+      },
+      eq: (column, value) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      neq: (column, value) => {
+        filters.push(row => row[column] !== value);
+        return query;
+      },
+      in: (column, list) => {
+        filters.push(row => list.includes(row[column]));
+        return query;
+      },
+      is: (column, value) => {
+        filters.push(row => (row[column] ?? null) === value);
+        return query;
+      },
+      lt: (column, value) => {
+        filters.push(row => (row[column] as string) < (value as string));
+        return query;
+      },
+      order: (column, options = {}) => {
+        ordering = { column, ascending: options.ascending !== false };
+        return query;
+      },
+      limit: count => {
+        limit = count;
+        return query;
+      },
+      range: (from, to) => {
+        offset = from;
+        limit = to - from + 1;
+        return query;
+      },
+      single: () => run('single'),
+      maybeSingle: () => run('maybeSingle'),
+      then: (resolve, reject) => run('many').then(resolve, reject)
+    };
+    return query;
+  };
+
+  return {
+    tables,
+    from,
+    failNextWrite: (table, message) => {
+      failures.set(table, message);
+    },
+    auth: {
+      getUser: async () => ({ data: { user: userId ? { id: userId } : null }, error: null })
+    },
+    signIn: id => {
+      userId = id;
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createGitProvider } from '@/lib/gitProviders';
+import { buildHistoryReport, readHistory } from '@/lib/history';
+
+// Commits with fixed dates so the history window can be placed between them
+function commit(cwd: string, files: Record<string, string>, date: string, author = 'ana') {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(cwd, name)), { recursive: true });
+    fs.writeFileSync(path.join(cwd, name), content);
+  }
+  execSync(`git add . && git -c user.name=${author} -c user.email=${author}@example.com commit -qm "${date}"`, {
+    cwd,
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+  });
+}
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n') + '\n';
+
+describe('Commit history', () => {
+  let workDir: string;
+  let remoteUrl: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+    const source = path.join(workDir, 'source');
+    fs.mkdirSync(source);
+    execSync('git init -q -b main', { cwd: source });
+    commit(source, { 'src/app.ts': lines(10), 'src/util.ts': lines(5), 'README.md': lines(3) }, '2024-01-01T00:00:00Z');
+    commit(source, { 'src/app.ts': lines(12) }, '2024-02-01T00:00:00Z');
+    commit(source, { 'src/app.ts': lines(12, 'changed'), 'logo.png': Buffer.from([0, 1, 2]).toString() }, '2024-03-01T00:00:00Z', 'ben');
+    commit(source, { 'src/util.ts': lines(6) }, '2024-04-01T00:00:00Z', 'cy');
+    execSync('git clone -q --bare source remote.git', { cwd: workDir });
+    remoteUrl = `file://${path.join(workDir, 'remote.git')}`;
+    process.env.GIT_ALLOW_PROTOCOL = 'file';
+  });
+
+  afterAll(() => {
+    delete process.env.GIT_ALLOW_PROTOCOL;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should deepen a shallow clone and count churn, commits and authors per file', async () => {
+    const provider = createGitProvider({ provider: 'git', accessToken: null });
+    const checkout = path.join(workDir, 'clone');
+    await provider.clone(remoteUrl, checkout);
+
+    const since = new Date('2024-01-15T00:00:00Z');
+    await provider.fetchHistory(remoteUrl, checkout, since);
+    const history = await readHistory(checkout, since);
+
+    expect(history).toMatchObject({ since: '2024-01-15T00:00:00.000Z', commits: 3, authors: 3 });
+    expect(history.files).toEqual([
+      // 2 lines added, then all 12 replaced
+      { file: '/src/app.ts', commits: 2, churn: 26, authors: 2, lastChanged: '2024-03-01T00:00:00.000Z' },
+      { file: '/src/util.ts', commits: 1, churn: 1, authors: 1, lastChanged: '2024-04-01T00:00:00.000Z' },
+      // Binary files change without line counts
+      { file: '/logo.png', commits: 1, churn: 0, authors: 1, lastChanged: '2024-03-01T00:00:00.000Z' }
+    ]);
+
+    // Nothing was committed after the last commit; the shallow clone leaves no history rather than failing
+    const later = new Date('2025-01-01T00:00:00Z');
+    const idle = path.join(workDir, 'idle');
+    await provider.clone(remoteUrl, idle);
+    await provider.fetchHistory(remoteUrl, idle, later);
+    expect(await readHistory(idle, later)).toMatchObject({ commits: 0, files: [] });
+  });
+
+  it('should rank files that are both complex and frequently changed', () => {
+    const history = {
+      since: '2024-01-01T00:00:00.000Z',
+      commits: 20,
+      authors: 4,
+      files: [
+        { file: '/src/config.ts', commits: 20, churn: 40, authors: 3, lastChanged: '2024-06-01T00:00:00Z' },
+        { file: '/src/engine.ts', commits: 10, churn: 900, authors: 2, lastChanged: '2024-05-01T00:00:00Z' },
+        { file: '/docs/guide.md', commits: 15, churn: 300, authors: 4, lastChanged: '2024-05-01T00:00:00Z' },
+        { file: '/src/legacy.ts', commits: 1, churn: 5, authors: 1, lastChanged: '2024-01-02T00:00:00Z' }
+      ]
+    };
+
+    const report = buildHistoryReport(history, [
+      { file: '/src/config.ts', cognitive: 0 },
+      { file: '/src/engine.ts', cognitive: 40 },
+      { file: '/src/legacy.ts', cognitive: 80 },
+      { file: '/src/new.ts', cognitive: 10 }
+    ]);
+
+    // Only analyzed files are kept; files without complexity cannot be hotspots
+    expect(report.files.map(file => file.file)).toEqual(['/src/config.ts', '/src/engine.ts', '/src/legacy.ts']);
+    expect(report.hotspots.map(hotspot => [hotspot.file, hotspot.complexity, hotspot.score])).toEqual([
+      ['/src/engine.ts', 40, 25],
+      ['/src/legacy.ts', 80, 5]
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+import { POST } from '@/app/api/projects/[projectId]/runs/[runId]/imports/route';
+import { mergeImportedIssues, parseIssueReport } from '@/lib/issueImport';
+import { getAnalysisRun, updateAnalysisRunResults } from '@/lib/runs';
+import { buildAnalysisReport, DEFAULT_SCORING_MODEL } from '@/lib/scoring';
+import { AnalysisResult } from '@/lib/codeAnalysis';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('@/lib/runs', () => ({
+  getAnalysisRun: jest.fn(),
+  updateAnalysisRunResults: jest.fn().mockResolvedValue(undefined)
+}));
+
+const KNOWN_FILES = ['/src/app.ts', '/src/lib/db.ts'];
+
+const ESLINT_REPORT = [
+  {
+    filePath: '/home/ci/build/repo/src/app.ts',
+    messages: [
+      { ruleId: 'no-unused-vars', severity: 2, message: "'x' is assigned a value but never used.", line: 3, column: 7 },
+      { ruleId: 'prefer-const', severity: 1, message: "'y' is never reassigned.", line: 8, column: 5 }
+    ]
+  },
+  {
+    filePath: '/home/ci/build/repo/scripts/seed.js',
+    messages: [{ ruleId: null, fatal: true, severity: 2, message: 'Parsing error: Unexpected token', line: 1 }]
+  },
+  { filePath: '/home/ci/build/repo/src/lib/db.ts', messages: [] }
+];
+
+const SARIF_REPORT = {
+  version: '2.1.0',
+  runs: [
+    {
+      tool: {
+        driver: {
+          name: 'CodeQL',
+          rules: [
+            { id: 'js/sql-injection', properties: { 'security-severity': '8.8' } },
+            { id: 'js/unused-local-variable', defaultConfiguration: { level: 'note' } }
+          ]
+        }
+      },
+      results: [
+        {
+          ruleId: 'js/sql-injection',
+          ruleIndex: 0,
+          level: 'error',
+          message: { text: 'This query depends on a user-provided value.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'src/lib/db.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 12 } } }]
+        },
+        {
+          ruleId: 'js/unused-local-variable',
+          message: { text: 'Unused variable x.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///work/src/app.ts' }, region: { startLine: 3 } } }]
+        }
+      ]
+    },
+    { tool: { driver: { name: 'Semgrep' } }, results: [] }
+  ]
+};
+
+const SONAR_REPORT = {
+  total: 2,
+  issues: [
+    { rule: 'typescript:S1854', severity: 'MAJOR', component: 'my-app:src/app.ts', line: 3, message: 'Remove this useless assignment.', effort: '15min' },
+    { rule: 'typescript:S3776', impacts: [{ softwareQuality: 'MAINTAINABILITY', severity: 'HIGH' }], component: 'my-app:src/lib/db.ts', textRange: { startLine: 20 }, message: 'Refactor this function.', effort: '1h 5min' }
+  ]
+};
+
+function createReport(): ReturnType<typeof buildAnalysisReport> {
+  const detail = (file: string) => ({
+    file,
+    language: 'typescript' as const,
+    score: 80,
+    logicalLines: 50,
+    halstead: { distinctOperators: 0, distinctOperands: 0, totalOperators: 0, totalOperands: 0, volume: 0, difficulty: 0, effort: 0 },
+    issues: []
+  });
+  const results = {
+    overview: { totalFiles: 2, totalLines: 100, totalFunctions: 0, technicalDebtRatio: 0, languages: [], categories: {} },
+    complexity: { score: 10, details: KNOWN_FILES.map(file => ({ file, functions: [] })) },
+    duplication: { percentage: 0, instances: [], details: [] },
+    maintainability: { score: 80, details: KNOWN_FILES.map(detail) },
+    dependencies: null,
+    security: { vulnerabilities: [], suppressed: 0 },
+    importedIssues: [],
+    history: null,
+    ownership: null,
+    pullRequest: null,
+    skipped: []
+  } as unknown as AnalysisResult;
+  return buildAnalysisReport(results);
+}
+
+describe('Issue import', () => {
+  it('should read ESLint output and map absolute paths onto the analyzed files', () => {
+    const { tools, issues } = parseIssueReport('eslint', ESLINT_REPORT, KNOWN_FILES);
+
+    expect(tools).toEqual(['ESLint']);
+    expect(issues.map(issue => [issue.rule, issue.severity, issue.file, issue.line])).toEqual([
+      ['no-unused-vars', 'moderate', '/src/app.ts', 3],
+      ['prefer-const', 'low', '/src/app.ts', 8],
+      ['parse-error', 'high', '/scripts/seed.js', 1]
+    ]);
+    expect(issues[0]).toMatchObject({ tool: 'ESLint', format: 'eslint', message: "'x' is assigned a value but never used." });
+  });
+
+  it('should read SARIF runs with security severities and the tool of each run', () => {
+    const { tools, issues } = parseIssueReport('sarif', SARIF_REPORT, KNOWN_FILES);
+
+    expect(tools).toEqual(['CodeQL', 'Semgrep']);
+    expect(issues.map(issue => [issue.tool, issue.rule, issue.severity, issue.file, issue.line])).toEqual([
+      ['CodeQL', 'js/sql-injection', 'high', '/src/lib/db.ts', 12],
+      ['CodeQL', 'js/unused-local-variable', 'low', '/src/app.ts', 3]
+    ]);
+  });
+
+  it('should read SonarQube issue exports with their effort', () => {
+    const { issues } = parseIssueReport('sonarqube', SONAR_REPORT, KNOWN_FILES);
+
+    expect(issues.map(issue => [issue.rule, issue.severity, issue.file, issue.line, issue.minutes])).toEqual([
+      ['typescript:S1854', 'moderate', '/src/app.ts', 3, 15],
+      ['typescript:S3776', 'high', '/src/lib/db.ts', 20, 65]
+    ]);
+  });
+
+  it('should reject reports in the wrong shape', () => {
+    expect(() => parseIssueReport('eslint', { results: [] }, KNOWN_FILES)).toThrow('ESLint report must be the array written by --format json');
+    expect(() => parseIssueReport('sarif', { runs: [{ results: [] }] }, KNOWN_FILES)).toThrow('SARIF run 0 needs tool.driver.name');
+    expect(() => parseIssueReport('sonarqube', [], KNOWN_FILES)).toThrow('SonarQube report needs an issues array');
+  });
+
+  it('should replace earlier imports from the same tool and count them as debt', () => {
+    const sonar = mergeImportedIssues(createReport(), parseIssueReport('sonarqube', SONAR_REPORT, KNOWN_FILES), DEFAULT_SCORING_MODEL);
+    const merged = mergeImportedIssues(sonar, parseIssueReport('eslint', ESLINT_REPORT, KNOWN_FILES), DEFAULT_SCORING_MODEL);
+
+    // SonarQube's own 15 + 65 minutes; ESLint 10 + 5 + 30 by severity
+    expect(merged.remediation.byKind['imported-issue']).toBe(125);
+    // 125 minutes against 100 logical lines at 30 minutes each
+    expect(merged.overview.technicalDebtRatio).toBe(4.17);
+
+    const cleaned = mergeImportedIssues(merged, parseIssueReport('eslint', [], KNOWN_FILES), DEFAULT_SCORING_MODEL);
+    expect(cleaned.importedIssues.map(issue => issue.tool)).toEqual(['SonarQube', 'SonarQube']);
+    expect(cleaned.remediation.byKind['imported-issue']).toBe(80);
+  });
+
+  it('should lower the maintainability of the files imported issues are in and re-score the run', () => {
+    const report = createReport();
+    expect(report.overallScore).toBe(89);
+
+    const merged = mergeImportedIssues(report, parseIssueReport('eslint', ESLINT_REPORT, KNOWN_FILES), { ...DEFAULT_SCORING_MODEL, version: 3 });
+
+    // 5 + 1 points off /src/app.ts, averaged over both files; the issue in the unanalyzed seed.js only adds debt
+    expect(merged.maintainability.score).toBe(80);
+    expect(merged.summary.maintainabilityIndex).toBe('77.00');
+    expect(merged.overallScore).toBe(88);
+    expect(merged.scoringModelVersion).toBe(3);
+
+    // A file's index stops at 0, however many issues it has
+    const flooded = mergeImportedIssues(report, {
+      tools: ['CodeQL'],
+      issues: Array.from({ length: 10 }, (_, line) => ({
+        rule: 'js/sql-injection', severity: 'critical' as const, file: '/src/lib/db.ts', line, message: 'Injection', tool: 'CodeQL', format: 'sarif' as const
+      }))
+    }, DEFAULT_SCORING_MODEL);
+    expect(flooded.summary.maintainabilityIndex).toBe('40.00');
+  });
+
+  it('should store imported issues on the run', async () => {
+    const params = Promise.resolve({ projectId: 'p1', runId: 'r1' });
+    (getAnalysisRun as jest.Mock).mockResolvedValueOnce({ id: 'r1', scoring_model_version: 0, results: createReport() });
+
+    const response = await POST(new Request('http://localhost/api/projects/p1/runs/r1/imports', {
+      method: 'POST',
+      body: JSON.stringify({ format: 'sarif', report: SARIF_REPORT })
+    }), { params });
+
+    expect(response.status).toBe(200);
+    // 10 points off /src/lib/db.ts and 1 off /src/app.ts take the maintainability metric from 80 to 74.5
+    expect(await response.json()).toEqual({
+      imported: 2,
+      tools: ['CodeQL', 'Semgrep'],
+      overallScore: 87,
+      technicalDebtRatio: 1.17,
+      remediationMinutes: 35
+    });
+    expect(updateAnalysisRunResults).toHaveBeenCalledWith('r1', expect.objectContaining({
+      overallScore: 87,
+      scoringModelVersion: 0,
+      importedIssues: [expect.objectContaining({ tool: 'CodeQL' }), expect.objectContaining({ tool: 'CodeQL' })]
+    }));
+
+    const invalid = await POST(new Request('http://localhost/api/projects/p1/runs/r1/imports', {
+      method: 'POST',
+      body: JSON.stringify({ format: 'checkstyle', report: {} })
+    }), { params });
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyzeCode } from '@/lib/codeAnalysis';
+import { goAnalyzer, javaAnalyzer, pythonAnalyzer } from '@/lib/languageAnalyzers';
+
+describe('Language analyzers', () => {
+  it('should measure Python functions, methods and comprehensions', () => {
+    const result = pythonAnalyzer.analyze('parser.py', `
+import os
+
+
+class Parser(Base):
+    def __init__(self, source, *, strict=False):
+        self.source = source
+
+    def parse(self, items, a, b, c, d, e):
+        total = 0
+        for item in items:
+            if item > 10 and item < 100:
+                total += item
+            elif item < 0:
+                total -= item
+            else:
+                total = [x for x in items if x] if total else 0
+        return total
+
+
+def outer(value, fallback):
+    def inner(x):
+        while x:
+            x -= 1
+        return x
+    match value:
+        case 1:
+            return inner(value)
+        case _:
+            return fallback
+`.trim());
+
+    expect(result.complexity.functions).toEqual([
+      { name: 'Parser.__init__', startLine: 5, endLine: 6, cyclomatic: 1, cognitive: 0, nestingDepth: 0, deepestNestingLine: 0 },
+      // for, if, and, elif, else, then a comprehension for and if plus a conditional expression two levels deep
+      { name: 'Parser.parse', startLine: 8, endLine: 17, cyclomatic: 8, cognitive: 15, nestingDepth: 3, deepestNestingLine: 16 },
+      { name: 'outer', startLine: 20, endLine: 29, cyclomatic: 2, cognitive: 1, nestingDepth: 1, deepestNestingLine: 25 },
+      { name: 'inner', startLine: 21, endLine: 24, cyclomatic: 2, cognitive: 1, nestingDepth: 1, deepestNestingLine: 22 }
+    ]);
+    // self is not a parameter; the other six are
+    expect(result.maintainability.issues).toEqual([
+      { rule: 'parameter-count', message: 'function Parser.parse has 6 parameters', line: 8 }
+    ]);
+  });
+
+  it('should measure Go functions, methods and function literals', () => {
+    const result = goAnalyzer.analyze('server.go', `
+package main
+
+import (
+\t"fmt"
+)
+
+type Server struct {
+\taddr string
+}
+
+func (s *Server) Start(retries int) error {
+\tfor i := 0; i < retries; i++ {
+\t\tif err := s.listen(); err != nil && s.ready {
+\t\t\tcontinue
+\t\t}
+\t}
+\thandler := func(w string) {
+\t\tfmt.Println(w)
+\t}
+\thandler("if for")
+\treturn nil
+}
+
+func Map[T any](xs []T, f func(T) T) []T {
+\tswitch len(xs) {
+\tcase 0:
+\t\treturn nil
+\tdefault:
+\t\treturn xs
+\t}
+}
+`.trim());
+
+    expect(result.complexity.functions).toEqual([
+      { name: 'Server.Start', startLine: 11, endLine: 22, cyclomatic: 4, cognitive: 4, nestingDepth: 2, deepestNestingLine: 13 },
+      { name: 'handler', startLine: 17, endLine: 19, cyclomatic: 1, cognitive: 0, nestingDepth: 0, deepestNestingLine: 0 },
+      { name: 'Map', startLine: 24, endLine: 31, cyclomatic: 2, cognitive: 1, nestingDepth: 1, deepestNestingLine: 25 }
+    ]);
+    expect(result.maintainability.logicalLines).toBeGreaterThan(0);
+  });
+
+  it('should measure Java methods, constructors and anonymous classes', () => {
+    const result = javaAnalyzer.analyze('Orders.java', `
+package com.example;
+
+public class Orders {
+    private final Map<String, List<?>> cache = new HashMap<>();
+
+    public Orders(Map<String, Integer> prices, int limit) {
+        this.limit = limit;
+    }
+
+    public int total(List<Order> orders) throws IOException {
+        int sum = 0;
+        do {
+            for (Order o : orders) {
+                sum += o.isPaid() ? o.amount() : 0;
+            }
+        } while (sum < 0);
+        try {
+            Runnable r = new Runnable() {
+                public void run() {
+                    if (sum > 1) { System.out.println("while"); }
+                }
+            };
+        } catch (IllegalStateException e) {
+            return -1;
+        }
+        return sum;
+    }
+
+    abstract void skip();
+}
+`.trim());
+
+    expect(result.complexity.functions).toEqual([
+      { name: 'Orders.constructor', startLine: 6, endLine: 8, cyclomatic: 1, cognitive: 0, nestingDepth: 0, deepestNestingLine: 0 },
+      // The while of a do-while and the ? of a wildcard type are not decisions
+      { name: 'Orders.total', startLine: 10, endLine: 27, cyclomatic: 5, cognitive: 7, nestingDepth: 3, deepestNestingLine: 14 },
+      { name: 'Runnable.run', startLine: 19, endLine: 21, cyclomatic: 2, cognitive: 1, nestingDepth: 1, deepestNestingLine: 20 }
+    ]);
+    expect(result.complexity.cyclomatic).toBe(6);
+  });
+
+  it('should skip files that do not tokenize', () => {
+    expect(() => pythonAnalyzer.analyze('bad.py', 'def f():\n        return 1\n    return 2\n'))
+      .toThrow(/bad\.py at line 3: unindent/);
+    expect(() => goAnalyzer.analyze('bad.go', 'func f() {\n\treturn "x\n}\n')).toThrow(/unterminated string/);
+    expect(() => javaAnalyzer.analyze('Bad.java', 'class Bad {\n  void f() {\n}\n')).toThrow(/unexpected end of file/);
+  });
+
+  describe('in a mixed project', () => {
+    let projectDir: string;
+
+    beforeAll(() => {
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'languages-'));
+      const pythonBlock = `
+def total(items, factor):
+    result = 0
+    for item in items:
+        if item > 0:
+            result += item * factor
+        elif item < 0:
+            result -= item / factor
+        else:
+            result += 1
+    while result > 100:
+        result = result / 2
+    return result
+`;
+      fs.writeFileSync(path.join(projectDir, 'a.py'), pythonBlock);
+      fs.writeFileSync(path.join(projectDir, 'b.py'), pythonBlock.replace(/total/g, 'sum_all').replace(/item/g, 'entry'));
+      fs.writeFileSync(path.join(projectDir, 'main.go'), 'package main\n\nfunc main() {\n\tprintln("hi")\n}\n');
+      fs.writeFileSync(path.join(projectDir, 'index.ts'), 'export const add = (a: number, b: number) => a + b;\n');
+      fs.writeFileSync(path.join(projectDir, 'notes.md'), '# not code\n');
+    });
+
+    afterAll(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it('should tag every file with its language and break results down per language', async () => {
+      const results = await analyzeCode(projectDir);
+
+      expect(results.complexity.details.map(d => [path.basename(d.file), d.language]).sort()).toEqual([
+        ['a.py', 'python'],
+        ['b.py', 'python'],
+        ['index.ts', 'typescript'],
+        ['main.go', 'go']
+      ]);
+      expect(results.maintainability.details.every(d => d.language)).toBe(true);
+      expect(results.duplication.instances).toHaveLength(1);
+      expect(results.duplication.instances[0].files.map(file => path.basename(file))).toEqual(['a.py', 'b.py']);
+
+      expect(results.overview.languages.map(l => l.language)).toEqual(['python', 'go', 'typescript']);
+      expect(results.overview.languages[0]).toMatchObject({ files: 2, functions: 2, lines: 28 });
+      expect(results.overview.languages[0].duplication).toBeGreaterThan(0);
+      expect(results.overview.languages[1]).toMatchObject({ language: 'go', files: 1, functions: 1, duplication: 0 });
+    });
+
+    it('should accept a custom set of analyzers', async () => {
+      const results = await analyzeCode(projectDir, { analyzers: [goAnalyzer] });
+
+      expect(results.overview.totalFiles).toBe(1);
+      expect(results.overview.languages.map(l => l.language)).toEqual(['go']);
+    });
+  });
+});
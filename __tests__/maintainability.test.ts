@@ -0,0 +1,60 @@
+import { parseSource } from '@/lib/ast';
+import { calculateComplexity } from '@/lib/complexity';
+import { calculateMaintainability, maintainabilityIndex } from '@/lib/maintainability';
+
+function analyze(code: string) {
+  const sourceFile = parseSource('sample.ts', code.trim());
+  return calculateMaintainability(sourceFile, calculateComplexity(sourceFile));
+}
+
+describe('Maintainability', () => {
+  it('should compute the normalized Maintainability Index', () => {
+    // 171 - 5.2 ln(100) - 0.23 * 5 - 16.2 ln(20) = 97.37, rescaled by 100 / 171
+    expect(maintainabilityIndex(100, 5, 20)).toBe(56.94);
+    expect(maintainabilityIndex(0, 1, 0)).toBe(99.87);
+    expect(maintainabilityIndex(1e9, 200, 5000)).toBe(0);
+  });
+
+  it('should not reward comments', () => {
+    const code = 'export const double = (x: number) => x * 2;';
+    const commented = `// one\n// two\n// three\n${code}`;
+
+    expect(analyze(commented).score).toBe(analyze(code).score);
+  });
+
+  it('should count Halstead operators and operands', () => {
+    const result = analyze('const total = price * quantity + price;');
+
+    // operators: const = * +   operands: total price quantity
+    expect(result.halstead.distinctOperators).toBe(4);
+    expect(result.halstead.distinctOperands).toBe(3);
+    expect(result.halstead.totalOperands).toBe(4);
+    expect(result.logicalLines).toBe(1);
+  });
+
+  it('should report issues with line numbers', () => {
+    const result = analyze(`
+const ok = 1;
+
+function configure(a: number, b: number, c: number, d: number, e: number, f: number) {
+  if (a) {
+    if (b) {
+      if (c) {
+        if (d) {
+          if (e) {
+            return f;
+          }
+        }
+      }
+    }
+  }
+  return 0;
+}
+`);
+
+    expect(result.issues).toEqual([
+      { rule: 'parameter-count', message: 'function configure has 6 parameters', line: 3 },
+      { rule: 'nesting-depth', message: 'nesting depth 5 at line 8 in function configure', line: 8 }
+    ]);
+  });
+});
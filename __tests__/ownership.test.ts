@@ -0,0 +1,165 @@
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GET } from '@/app/api/projects/[projectId]/ownership/route';
+import { createGitProvider } from '@/lib/gitProviders';
+import { readOwnership } from '@/lib/history';
+import { buildOwnershipReport, calculateBusFactor, matchCodeowners, parseCodeowners, RepositoryOwnership } from '@/lib/ownership';
+import { getLatestAnalysisRun } from '@/lib/runs';
+import { AnalysisResult } from '@/lib/codeAnalysis';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('@/lib/runs', () => ({
+  getLatestAnalysisRun: jest.fn()
+}));
+
+function commit(cwd: string, files: Record<string, string>, author: string) {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(cwd, name)), { recursive: true });
+    fs.writeFileSync(path.join(cwd, name), content);
+  }
+  execSync(`git add . && git -c user.name=${author} -c user.email=${author}@example.com commit -qm ${author}`, { cwd });
+}
+
+const OWNERSHIP: RepositoryOwnership = {
+  codeowners: '/.github/CODEOWNERS',
+  files: [
+    { file: '/src/api/users.ts', owners: ['@acme/backend'], authors: [{ author: 'ana@example.com', lines: 60 }, { author: 'ben@example.com', lines: 40 }] },
+    { file: '/src/api/orders.ts', owners: ['@acme/backend', '@acme/billing'], authors: [{ author: 'ana@example.com', lines: 100 }] },
+    { file: '/src/ui/button.tsx', owners: [], authors: [{ author: 'cy@example.com', lines: 30 }, { author: 'ana@example.com', lines: 20 }] }
+  ]
+};
+
+function createResults(): AnalysisResult {
+  const files = OWNERSHIP.files.map(entry => entry.file);
+  return {
+    complexity: { score: 50, details: files.map((file, index) => ({ file, complexity: [40, 80, 10][index] })) },
+    maintainability: { score: 70, details: files.map((file, index) => ({ file, score: [60, 40, 90][index], logicalLines: 100 })) },
+    remediation: {
+      totalMinutes: 180,
+      // 30 minutes per logical line
+      developmentMinutes: 9000,
+      debtRatio: 2,
+      byFile: [{ file: '/src/api/orders.ts', minutes: 120 }, { file: '/src/api/users.ts', minutes: 45 }, { file: '/src/ui/button.tsx', minutes: 15 }]
+    },
+    ownership: OWNERSHIP
+  } as unknown as AnalysisResult;
+}
+
+describe('Code ownership', () => {
+  it('should match CODEOWNERS rules with the last match winning', () => {
+    const rules = parseCodeowners([
+      '# Default owners',
+      '*       @acme/core',
+      '',
+      '[Backend]',
+      '/src/api/ @acme/backend admin@example.com # APIs',
+      '*.md',
+      '/src/api/legacy/** @acme/legacy'
+    ].join('\n'));
+
+    expect(rules).toEqual([
+      { pattern: '*', owners: ['@acme/core'] },
+      { pattern: '/src/api/', owners: ['@acme/backend', 'admin@example.com'] },
+      { pattern: '*.md', owners: [] },
+      { pattern: '/src/api/legacy/**', owners: ['@acme/legacy'] }
+    ]);
+    expect(matchCodeowners(rules, '/src/index.ts')).toEqual(['@acme/core']);
+    expect(matchCodeowners(rules, '/src/api/users.ts')).toEqual(['@acme/backend', 'admin@example.com']);
+    expect(matchCodeowners(rules, '/src/api/legacy/v1.ts')).toEqual(['@acme/legacy']);
+    // A rule without owners leaves matching files unowned
+    expect(matchCodeowners(rules, '/docs/README.md')).toEqual([]);
+  });
+
+  it('should count the fewest authors holding more than half of the lines', () => {
+    expect(calculateBusFactor([])).toBe(0);
+    expect(calculateBusFactor([{ author: 'a', lines: 60 }, { author: 'b', lines: 40 }])).toBe(1);
+    expect(calculateBusFactor([{ author: 'a', lines: 50 }, { author: 'b', lines: 50 }])).toBe(2);
+    expect(calculateBusFactor([{ author: 'a', lines: 10 }, { author: 'b', lines: 30 }, { author: 'c', lines: 30 }, { author: 'd', lines: 30 }])).toBe(2);
+  });
+
+  it('should blame the analyzed files of a full clone and apply CODEOWNERS', async () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ownership-'));
+    process.env.GIT_ALLOW_PROTOCOL = 'file';
+    try {
+      const source = path.join(workDir, 'source');
+      fs.mkdirSync(source);
+      execSync('git init -q -b main', { cwd: source });
+      commit(source, { 'src/app.ts': 'a\nb\nc\n', '.github/CODEOWNERS': '/src/app.ts @acme/web\n' }, 'ana');
+      commit(source, { 'src/app.ts': 'a\nB\nc\nd\n', 'lib/util.ts': 'x\n' }, 'ben');
+
+      // Blame needs every commit; a shallow clone would credit all lines to its oldest commit
+      const provider = createGitProvider({ provider: 'git', accessToken: null });
+      const checkout = path.join(workDir, 'clone');
+      await provider.clone(`file://${source}`, checkout);
+      await provider.fetchHistory(`file://${source}`, checkout);
+
+      expect(await readOwnership(checkout, ['/src/app.ts', '/lib/util.ts'])).toEqual({
+        codeowners: '/.github/CODEOWNERS',
+        files: [
+          { file: '/src/app.ts', owners: ['@acme/web'], authors: [{ author: 'ana@example.com', lines: 2 }, { author: 'ben@example.com', lines: 2 }] },
+          { file: '/lib/util.ts', owners: [], authors: [{ author: 'ben@example.com', lines: 1 }] }
+        ]
+      });
+
+      // Past the file cap, files are left out; progress counts the files that were blamed
+      const progress: Array<[number, number]> = [];
+      const capped = await readOwnership(checkout, ['/lib/util.ts', '/src/app.ts'], {
+        maxFiles: 1,
+        concurrency: 2,
+        onProgress: (processed, total) => progress.push([processed, total])
+      });
+      expect(capped.files.map(entry => entry.file)).toEqual(['/lib/util.ts']);
+      expect(progress).toEqual([[1, 1]]);
+    } finally {
+      delete process.env.GIT_ALLOW_PROTOCOL;
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should roll debt up by owner and bus factor up by directory', () => {
+    const report = buildOwnershipReport(createResults())!;
+
+    expect(report.owners).toEqual([
+      { owner: '@acme/backend', source: 'codeowners', files: 2, logicalLines: 200, remediationMinutes: 165, debtRatio: 2.75, complexity: 60, maintainability: 50 },
+      { owner: '@acme/billing', source: 'codeowners', files: 1, logicalLines: 100, remediationMinutes: 120, debtRatio: 4, complexity: 80, maintainability: 40 },
+      // No CODEOWNERS rule, so the file belongs to the author of most of its lines
+      { owner: 'cy@example.com', source: 'blame', files: 1, logicalLines: 100, remediationMinutes: 15, debtRatio: 0.5, complexity: 10, maintainability: 90 }
+    ]);
+    expect(report.directories.map(directory => [directory.path, directory.files, directory.busFactor])).toEqual([
+      ['/', 3, 1],
+      ['/src', 3, 1],
+      ['/src/api', 2, 1],
+      ['/src/ui', 1, 1]
+    ]);
+    expect(report.directories[0].topAuthors).toEqual([
+      { author: 'ana@example.com', share: 72 },
+      { author: 'ben@example.com', share: 16 },
+      { author: 'cy@example.com', share: 12 }
+    ]);
+
+    const filtered = buildOwnershipReport(createResults(), { owner: '@acme/billing', path: 'src/api/' })!;
+    expect(filtered.files.map(file => file.file)).toEqual(['/src/api/orders.ts']);
+    expect(filtered.owners.map(owner => owner.owner)).toEqual(['@acme/backend', '@acme/billing']);
+
+    expect(buildOwnershipReport({ ...createResults(), ownership: null })).toBeNull();
+  });
+
+  it('should serve the filtered report of the latest run', async () => {
+    const params = Promise.resolve({ projectId: 'p1' });
+    (getLatestAnalysisRun as jest.Mock).mockResolvedValueOnce({ id: 'r1', results: createResults() });
+
+    const response = await GET(new Request('http://localhost/api/projects/p1/ownership?path=/src/ui'), { params });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.runId).toBe('r1');
+    expect(body.ownership.files.map((file: { file: string }) => file.file)).toEqual(['/src/ui/button.tsx']);
+
+    (getLatestAnalysisRun as jest.Mock).mockResolvedValueOnce({ id: 'r2', results: { ...createResults(), ownership: null } });
+    const missing = await GET(new Request('http://localhost/api/projects/p1/ownership'), { params });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,85 @@
+import { estimateRemediation } from '@/lib/remediation';
+import { AnalysisResult } from '@/lib/codeAnalysis';
+import { FunctionComplexity } from '@/lib/complexity';
+
+function fn(name: string, cognitive: number, startLine: number): FunctionComplexity {
+  return { name, startLine, endLine: startLine + 10, cyclomatic: 1, cognitive, nestingDepth: 0, deepestNestingLine: startLine };
+}
+
+describe('Remediation estimate', () => {
+  const results = {
+    complexity: {
+      score: 40,
+      details: [
+        { file: '/a.ts', language: 'typescript', complexity: 60, maintainability: 50, cyclomatic: 20, cognitive: 30, maxNestingDepth: 3, functions: [fn('parse', 25, 4), fn('small', 3, 30)] },
+        { file: '/b.ts', language: 'typescript', complexity: 10, maintainability: 80, cyclomatic: 2, cognitive: 1, maxNestingDepth: 1, functions: [] }
+      ]
+    },
+    duplication: {
+      percentage: 10,
+      instances: [{
+        files: ['/a.ts', '/b.ts'],
+        first: { file: '/a.ts', startLine: 40, endLine: 49 },
+        second: { file: '/b.ts', startLine: 5, endLine: 14 },
+        lines: 10,
+        tokens: 80,
+        fragment: ''
+      }],
+      details: []
+    },
+    maintainability: {
+      score: 65,
+      details: [
+        {
+          file: '/a.ts',
+          language: 'typescript',
+          score: 50,
+          logicalLines: 60,
+          halstead: { distinctOperators: 0, distinctOperands: 0, totalOperators: 0, totalOperands: 0, volume: 0, difficulty: 0, effort: 0 },
+          issues: [
+            { rule: 'parameter-count', message: 'function parse has 7 parameters', line: 4 },
+            { rule: 'function-complexity', message: 'function parse has cyclomatic complexity 16', line: 4 }
+          ]
+        },
+        {
+          file: '/b.ts',
+          language: 'typescript',
+          score: 80,
+          logicalLines: 40,
+          halstead: { distinctOperators: 0, distinctOperands: 0, totalOperators: 0, totalOperands: 0, volume: 0, difficulty: 0, effort: 0 },
+          issues: []
+        }
+      ]
+    }
+  } as Pick<AnalysisResult, 'complexity' | 'duplication' | 'maintainability'>;
+
+  it('should price each finding and total them', () => {
+    const estimate = estimateRemediation(results);
+
+    // parse: 5 + (25 - 15); clone: 10 + 10 * 0.5; parameter-count: 20; function-complexity is not counted twice
+    expect(estimate.byKind).toEqual({
+      'function-complexity': 15,
+      'duplicate-block': 15,
+      'maintainability-issue': 20,
+      'imported-issue': 0
+    });
+    expect(estimate.totalMinutes).toBe(50);
+    expect(estimate.items.map(item => [item.kind, item.file, item.line])).toEqual([
+      ['maintainability-issue', '/a.ts', 4],
+      ['function-complexity', '/a.ts', 4],
+      ['duplicate-block', '/b.ts', 5]
+    ]);
+    expect(estimate.byFile).toEqual([
+      { file: '/a.ts', minutes: 35 },
+      { file: '/b.ts', minutes: 15 }
+    ]);
+  });
+
+  it('should relate remediation time to development time', () => {
+    const estimate = estimateRemediation(results);
+
+    // 100 logical lines at 30 minutes each
+    expect(estimate.developmentMinutes).toBe(3000);
+    expect(estimate.debtRatio).toBe(1.67);
+  });
+});
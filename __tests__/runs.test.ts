@@ -0,0 +1,93 @@
+import { AnalysisRun, diffAnalysisRuns } from '@/lib/runs';
+import { AnalysisReport } from '@/lib/scoring';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+type FileInput = { file: string; complexity: number; maintainability: number; duplication: number; issues: number };
+
+function createRun(id: string, overallScore: number, files: FileInput[], clones = 0): AnalysisRun {
+  const results = {
+    overview: { totalFiles: files.length, totalLines: 100, totalFunctions: 10 },
+    complexity: {
+      score: 30,
+      details: files.map(f => ({
+        file: f.file,
+        complexity: f.complexity,
+        maintainability: f.maintainability,
+        cyclomatic: 1,
+        cognitive: 0,
+        maxNestingDepth: 0,
+        functions: []
+      }))
+    },
+    duplication: {
+      percentage: clones * 2,
+      instances: Array.from({ length: clones }, () => ({})),
+      details: files.map(f => ({ file: f.file, duplicatedLines: 0, totalLines: 10, percentage: f.duplication }))
+    },
+    maintainability: {
+      score: 70,
+      details: files.map(f => ({
+        file: f.file,
+        score: f.maintainability,
+        issues: Array.from({ length: f.issues }, () => ({ rule: 'parameter-count', message: '', line: 1 }))
+      }))
+    },
+    overallScore
+  } as unknown as AnalysisReport;
+
+  return {
+    id,
+    project_id: 'project-1',
+    user_id: 'user-1',
+    job_id: null,
+    ref: null,
+    commit_sha: `sha-${id}`,
+    branch: 'main',
+    started_at: '2024-03-01T00:00:00Z',
+    finished_at: '2024-03-01T00:01:00Z',
+    duration_ms: 60000,
+    timings: { cloneMs: 1000, analysisMs: 59000 },
+    tool_versions: { analyzer: '1.0.0' },
+    cache_hits: null,
+    cache_misses: null,
+    overall_score: overallScore,
+    scoring_model_version: 0,
+    results,
+    created_at: '2024-03-01T00:01:00Z'
+  };
+}
+
+describe('Analysis runs', () => {
+  it('should diff scores and per-file metrics between two runs', () => {
+    const base = createRun('base', 70, [
+      { file: '/a.ts', complexity: 40, maintainability: 60, duplication: 0, issues: 1 },
+      { file: '/b.ts', complexity: 10, maintainability: 90, duplication: 0, issues: 0 },
+      { file: '/old.ts', complexity: 10, maintainability: 90, duplication: 0, issues: 0 }
+    ], 1);
+    const head = createRun('head', 65.5, [
+      { file: '/a.ts', complexity: 55, maintainability: 52.25, duplication: 20, issues: 2 },
+      { file: '/b.ts', complexity: 10, maintainability: 90, duplication: 0, issues: 0 },
+      { file: '/new.ts', complexity: 5, maintainability: 95, duplication: 0, issues: 0 }
+    ], 3);
+
+    const diff = diffAnalysisRuns(base, head);
+
+    expect(diff.base.commit_sha).toBe('sha-base');
+    expect(diff.head.id).toBe('head');
+    expect(diff.overallScore).toEqual({ base: 70, head: 65.5, delta: -4.5 });
+    expect(diff.clones).toEqual({ base: 1, head: 3, delta: 2 });
+    expect(diff.files).toEqual([
+      {
+        file: '/a.ts',
+        status: 'changed',
+        complexity: { base: 40, head: 55, delta: 15 },
+        maintainability: { base: 60, head: 52.25, delta: -7.75 },
+        duplication: { base: 0, head: 20, delta: 20 },
+        issues: { base: 1, head: 2, delta: 1 }
+      },
+      { file: '/new.ts', status: 'added' },
+      { file: '/old.ts', status: 'removed' }
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import { AnalysisResult } from '@/lib/codeAnalysis';
+import {
+  BUILT_IN_SCORING_MODELS,
+  buildAnalysisReport,
+  calculateOverallScore,
+  countCriticalIssues,
+  DEFAULT_SCORING_MODEL,
+  generateAnalysisSummary,
+  getHealthStatus,
+  normalizeMetric,
+  ScoringModel
+} from '@/lib/scoring';
+import { getScoringModelVersion, parseScoringModel } from '@/lib/scoringModels';
+import { createMemorySupabase } from './helpers/memorySupabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const EMPTY_FILE_SET = { files: 0, lines: 0, functions: 0, complexity: 0, maintainability: 0, duplication: 0 };
+
+function createResult(
+  overrides: { complexity?: number; maintainability?: number; duplication?: number; dependencies?: number } = {}
+): AnalysisResult {
+  return {
+    overview: {
+      totalFiles: 2,
+      totalLines: 120,
+      totalFunctions: 6,
+      technicalDebtRatio: 0,
+      languages: [],
+      categories: { test: EMPTY_FILE_SET, generated: EMPTY_FILE_SET }
+    },
+    complexity: {
+      score: overrides.complexity ?? 20,
+      details: []
+    },
+    duplication: {
+      percentage: overrides.duplication ?? 10,
+      instances: [],
+      details: []
+    },
+    maintainability: {
+      score: overrides.maintainability ?? 80,
+      details: [
+        {
+          file: '/a.ts',
+          language: 'typescript',
+          score: 80,
+          logicalLines: 40,
+          halstead: { distinctOperators: 0, distinctOperands: 0, totalOperators: 0, totalOperands: 0, volume: 0, difficulty: 0, effort: 0 },
+          issues: [{ rule: 'parameter-count', message: 'function setup has 7 parameters', line: 12 }]
+        },
+        {
+          file: '/b.ts',
+          language: 'typescript',
+          score: 80,
+          logicalLines: 40,
+          halstead: { distinctOperators: 0, distinctOperands: 0, totalOperators: 0, totalOperands: 0, volume: 0, difficulty: 0, effort: 0 },
+          issues: []
+        }
+      ]
+    },
+    remediation: {
+      totalMinutes: 0,
+      developmentMinutes: 0,
+      debtRatio: 0,
+      byKind: { 'function-complexity': 0, 'duplicate-block': 0, 'maintainability-issue': 0, 'imported-issue': 0 },
+      byFile: [],
+      items: []
+    },
+    dependencies: overrides.dependencies === undefined ? null : {
+      score: overrides.dependencies,
+      manifests: ['/package.json'],
+      lockfiles: [],
+      direct: 0,
+      transitive: null,
+      duplicates: [],
+      packages: [],
+      findings: []
+    },
+    security: { vulnerabilities: [], suppressed: 0 },
+    importedIssues: [],
+    history: null,
+    ownership: null,
+    pullRequest: null,
+    skipped: []
+  };
+}
+
+describe('Scoring', () => {
+  it('should weight inverted complexity, maintainability and inverted duplication', () => {
+    // 80 * 0.3 + 80 * 0.4 + 90 * 0.3
+    expect(calculateOverallScore(createResult())).toBe(83);
+    expect(calculateOverallScore(createResult({ complexity: 100, maintainability: 0, duplication: 100 }))).toBe(0);
+  });
+
+  it('should weight the dependency score only when there is one', () => {
+    // (80 * 0.3 + 80 * 0.4 + 90 * 0.3 + 40 * 0.2) / 1.2
+    expect(calculateOverallScore(createResult({ dependencies: 40 }))).toBe(76);
+    expect(calculateOverallScore(createResult())).toBe(83);
+    // The first built-in model keeps the scores it gave before dependencies were analyzed
+    expect(calculateOverallScore(createResult({ dependencies: 40 }), BUILT_IN_SCORING_MODELS[0])).toBe(83);
+    expect(buildAnalysisReport(createResult({ dependencies: 40 })).recommendations[0])
+      .toBe('Upgrade or replace vulnerable, deprecated and outdated dependencies, and pin open-ended version ranges');
+    expect(buildAnalysisReport(createResult({ dependencies: 90 })).recommendations).not.toContain(
+      'Upgrade or replace vulnerable, deprecated and outdated dependencies, and pin open-ended version ranges'
+    );
+  });
+
+  it('should map scores to health bands', () => {
+    expect(getHealthStatus(80)).toBe('Excellent');
+    expect(getHealthStatus(70)).toBe('Good');
+    expect(getHealthStatus(50)).toBe('Fair');
+    expect(getHealthStatus(49)).toBe('Needs Improvement');
+  });
+
+  it('should count files with maintainability issues', () => {
+    expect(countCriticalIssues(createResult())).toBe(1);
+  });
+
+  it('should summarize the analysis', () => {
+    expect(generateAnalysisSummary(createResult())).toEqual({
+      totalFiles: 0,
+      averageComplexity: '20.00',
+      maintainabilityIndex: '80.00',
+      codeduplication: '10.00%',
+      criticalIssues: 1,
+      healthStatus: 'Excellent'
+    });
+  });
+
+  it('should build a report with file level recommendations', () => {
+    const report = buildAnalysisReport(createResult({ complexity: 75, duplication: 20 }));
+
+    expect(report.overallScore).toBe(64);
+    expect(report.recommendations).toEqual([
+      'Consider breaking down complex functions into smaller, more manageable pieces',
+      'Reduce code duplication by extracting common functionality into shared components or utilities',
+      'Improve maintainability in /a.ts:12: function setup has 7 parameters'
+    ]);
+  });
+
+  it('should score with a custom model and record its version', () => {
+    const model: ScoringModel = {
+      version: 3,
+      weights: { complexity: 1, maintainability: 0, duplication: 1, dependencies: 0 },
+      normalization: {
+        complexity: { curve: 'linear', best: 10, worst: 30 },
+        maintainability: { curve: 'linear', best: 100, worst: 0 },
+        duplication: { curve: 'exponential', best: 0, worst: 20 },
+        dependencies: { curve: 'linear', best: 100, worst: 0 }
+      },
+      thresholds: { complexity: 15, maintainability: 0, duplication: 50, dependencies: 0 },
+      bands: [{ min: 0, label: 'Red' }, { min: 40, label: 'Green' }]
+    };
+
+    // Complexity 20 is halfway to worst (50), duplication 10 is halfway on a strict curve (24.03)
+    const report = buildAnalysisReport(createResult(), model);
+    expect(report.overallScore).toBe(37);
+    expect(report.summary.healthStatus).toBe('Red');
+    expect(report.scoringModelVersion).toBe(3);
+    expect(report.recommendations[0]).toBe('Consider breaking down complex functions into smaller, more manageable pieces');
+    expect(buildAnalysisReport(createResult()).scoringModelVersion).toBe(1);
+  });
+
+  it('should shape normalization with curves', () => {
+    const curve = { best: 100, worst: 0 };
+    expect(normalizeMetric(50, { curve: 'linear', ...curve })).toBe(50);
+    expect(normalizeMetric(50, { curve: 'logarithmic', ...curve })).toBeCloseTo(74.04, 2);
+    expect(normalizeMetric(50, { curve: 'exponential', ...curve })).toBeCloseTo(24.03, 2);
+    expect(normalizeMetric(150, { curve: 'linear', ...curve })).toBe(100);
+  });
+
+  it('should validate scoring models', () => {
+    const { version, builtIn, ...model } = DEFAULT_SCORING_MODEL;
+    expect([version, builtIn]).toEqual([1, true]);
+    expect(parseScoringModel(model)).toEqual({ model, errors: [] });
+
+    // Models saved before dependency scoring keep their scores
+    const weights: Partial<ScoringModel['weights']> = { ...model.weights };
+    delete weights.dependencies;
+    expect(parseScoringModel({ ...model, weights }).model?.weights).toEqual({ ...weights, dependencies: 0 });
+
+    const { model: invalid, errors } = parseScoringModel({
+      ...model,
+      weights: { complexity: 0, maintainability: 0, duplication: 0 },
+      normalization: { ...model.normalization, duplication: { curve: 'cubic', best: 0, worst: 100 } },
+      bands: []
+    });
+    expect(invalid).toBeNull();
+    expect(errors).toEqual([
+      expect.stringContaining('normalization.duplication'),
+      'bands must be a non-empty array',
+      'weights must not all be zero'
+    ]);
+  });
+
+  it('should find the model a run was scored with among saved and built-in models', async () => {
+    const db = createMemorySupabase();
+    const client = db as unknown as SupabaseClient;
+    const { version: _version, builtIn: _builtIn, ...weighting } = DEFAULT_SCORING_MODEL;
+
+    expect(await getScoringModelVersion('p1', 0, client)).toBe(BUILT_IN_SCORING_MODELS[0]);
+    expect(await getScoringModelVersion('p1', 1, client)).toBe(BUILT_IN_SCORING_MODELS[1]);
+    await expect(getScoringModelVersion('p1', 2, client)).rejects.toThrow('Model not found');
+
+    // Saved before the second built-in model shipped
+    db.tables.scoring_models = [{ project_id: 'p1', version: 1, model: { ...weighting, weights: { ...weighting.weights, complexity: 1 } } }];
+    expect(await getScoringModelVersion('p1', 1, client)).toMatchObject({ version: 1, weights: { complexity: 1 } });
+    expect(await getScoringModelVersion('p1', 0, client)).toBe(BUILT_IN_SCORING_MODELS[0]);
+  });
+});
@@ -0,0 +1,43 @@
+import { filterByDateRange, findMetricJumps } from '@/lib/trends';
+import { RunMetrics } from '@/lib/runs';
+
+function run(id: string, createdAt: string, metrics: Partial<RunMetrics> = {}): RunMetrics {
+  return {
+    id,
+    commit_sha: `${id}sha`,
+    branch: 'main',
+    created_at: createdAt,
+    overall_score: 80,
+    complexity: 20,
+    maintainability: 70,
+    duplication: 5,
+    ...metrics
+  };
+}
+
+describe('Trends', () => {
+  const runs = [
+    run('a', '2024-03-01T10:00:00Z'),
+    run('b', '2024-03-05T10:00:00Z', { overall_score: 65, complexity: 35 }),
+    run('c', '2024-03-09T23:30:00Z', { overall_score: 70, complexity: 35 })
+  ];
+
+  test('filters runs by an inclusive date range', () => {
+    expect(filterByDateRange(runs, '2024-03-05').map(r => r.id)).toEqual(['b', 'c']);
+    expect(filterByDateRange(runs, undefined, '2024-03-05').map(r => r.id)).toEqual(['a', 'b']);
+    // A bare end date covers the whole day
+    expect(filterByDateRange(runs, '2024-03-02', '2024-03-09').map(r => r.id)).toEqual(['b', 'c']);
+    expect(filterByDateRange(runs)).toHaveLength(3);
+  });
+
+  test('annotates runs where a metric moved past the threshold', () => {
+    const jumps = findMetricJumps(runs, 10);
+
+    expect(jumps).toEqual([
+      expect.objectContaining({ runId: 'b', metric: 'overall_score', previous: 80, value: 65, delta: -15 }),
+      expect.objectContaining({ runId: 'b', metric: 'complexity', previous: 20, value: 35, delta: 15 })
+    ]);
+    expect(findMetricJumps(runs, 20)).toEqual([]);
+    expect(findMetricJumps(runs, 10, ['maintainability'])).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { POST } from '@/app/api/projects/[projectId]/upload/route';
+import { enqueueAnalysisJob } from '@/lib/jobs';
+import { storeProjectArchive } from '@/lib/uploads';
+import type { MemorySupabase } from './helpers/memorySupabase';
+
+jest.mock('@/lib/supabaseAdmin', () => {
+  const eq = jest.fn().mockResolvedValue({ error: null });
+  const update = jest.fn(() => ({ eq }));
+  return { supabaseAdmin: { from: jest.fn(() => ({ update })) } };
+});
+
+jest.mock('@/lib/jobs', () => ({
+  UPLOAD_PROVIDER: 'upload',
+  enqueueAnalysisJob: jest.fn().mockResolvedValue({ id: 'job-1', status: 'queued' })
+}));
+
+// A small limit, so the test bodies can go over it
+jest.mock('@/lib/archive', () => ({
+  ...jest.requireActual('@/lib/archive'),
+  MAX_ARCHIVE_BYTES: 64
+}));
+
+// Storage reads the whole stream, like the real upload does
+jest.mock('@/lib/uploads', () => ({
+  ...jest.requireActual('@/lib/uploads'),
+  storeProjectArchive: jest.fn(async (_projectId: string, archive: ReadableStream<Uint8Array>) => {
+    await new Response(archive).arrayBuffer();
+    return 'project-1/1700000000000.zip';
+  })
+}));
+
+// Every request carries the session of whoever is signed in to this client
+jest.mock('@supabase/auth-helpers-nextjs', () => {
+  const session = jest.requireActual('./helpers/memorySupabase').createMemorySupabase();
+  return { ...jest.requireActual('@supabase/auth-helpers-nextjs'), createRouteHandlerClient: jest.fn(() => session) };
+});
+
+jest.mock('@/lib/analysisWorker', () => ({
+  processQueue: jest.fn().mockResolvedValue(undefined)
+}));
+
+const ZIP_HEADER = [0x50, 0x4b, 0x03, 0x04];
+
+const session = (createRouteHandlerClient as jest.Mock)() as MemorySupabase;
+
+function upload(body: BodyInit | null, headers: Record<string, string> = {}, projectId = 'project-1') {
+  // Streamed bodies need half duplex, which the RequestInit type does not list yet
+  const request = new Request(`http://localhost:3000/api/projects/${projectId}/upload`, {
+    method: 'POST',
+    headers,
+    body,
+    duplex: 'half'
+  } as RequestInit & { duplex: 'half' });
+  return POST(request, { params: Promise.resolve({ projectId }) });
+}
+
+// A body sent in chunks without a Content-Length, as chunked transfer encoding does
+function chunked(...chunks: number[][]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new Uint8Array(chunk)));
+      controller.close();
+    }
+  });
+}
+
+describe('Upload API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    session.tables.projects = [{ id: 'project-1', user_id: 'user-1' }, { id: 'project-2', user_id: 'user-2' }];
+    session.signIn('user-1');
+  });
+
+  it('should only store archives for the project\'s owner', async () => {
+    const other = await upload(Buffer.from(ZIP_HEADER), {}, 'project-2');
+    session.signIn(null);
+    const anonymous = await upload(Buffer.from(ZIP_HEADER));
+
+    expect([other.status, anonymous.status]).toEqual([404, 401]);
+    expect(storeProjectArchive).not.toHaveBeenCalled();
+  });
+
+  it('should require an archive', async () => {
+    const response = await upload(null);
+
+    expect(response.status).toBe(400);
+    expect(storeProjectArchive).not.toHaveBeenCalled();
+  });
+
+  it('should reject files that are not ZIP or tar.gz archives', async () => {
+    const response = await upload(Buffer.from('not an archive'));
+
+    expect(response.status).toBe(415);
+    expect(storeProjectArchive).not.toHaveBeenCalled();
+  });
+
+  it('should refuse archives over the limit by their Content-Length or while they stream', async () => {
+    const announced = await upload(Buffer.alloc(65), { 'Content-Length': '65' });
+    expect(announced.status).toBe(413);
+    expect(storeProjectArchive).not.toHaveBeenCalled();
+
+    const response = await upload(chunked(ZIP_HEADER, new Array(40).fill(0), new Array(40).fill(0)));
+    expect(response.status).toBe(413);
+    expect(enqueueAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it('should stream the archive to storage and queue an upload job', async () => {
+    const response = await upload(chunked(ZIP_HEADER.slice(0, 2), ZIP_HEADER.slice(2), [0, 0]));
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data).toEqual({ status: 'analyzing', projectId: 'project-1', jobId: 'job-1' });
+    expect(storeProjectArchive).toHaveBeenCalledWith('project-1', expect.any(ReadableStream), 'zip');
+    expect(enqueueAnalysisJob).toHaveBeenCalledWith({
+      projectId: 'project-1',
+      repoUrl: 'project-1/1700000000000.zip',
+      provider: 'upload',
+      accessToken: null
+    });
+  });
+});
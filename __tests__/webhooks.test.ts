@@ -0,0 +1,252 @@
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { POST } from '@/app/api/webhooks/[provider]/route';
+import { processQueue } from '@/lib/analysisWorker';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { parseWebhookEvent } from '@/lib/webhooks';
+import type { MemorySupabase } from './helpers/memorySupabase';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// Deliveries are processed with the service role; accepted ids are unique, as the partial index makes them in the database
+jest.mock('@/lib/supabaseAdmin', () => ({
+  supabaseAdmin: jest.requireActual('./helpers/memorySupabase').createMemorySupabase({
+    webhook_deliveries: [{ columns: ['provider', 'delivery_id'], where: (row: Record<string, unknown>) => row.accepted === true }]
+  })
+}));
+
+jest.mock('@/lib/analysisWorker', () => ({
+  processQueue: jest.fn().mockResolvedValue(undefined)
+}));
+
+const db = supabaseAdmin as unknown as MemorySupabase;
+
+const SECRET = 'a-long-webhook-secret';
+
+function payload(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'webhooks', `${name}.json`), 'utf-8');
+}
+
+function githubDelivery(event: string, body: string, deliveryId: string, secret = SECRET) {
+  return POST(new Request('http://localhost:3000/api/webhooks/github', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': event,
+      'X-GitHub-Delivery': deliveryId,
+      'X-Hub-Signature-256': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+    },
+    body
+  }), { params: Promise.resolve({ provider: 'github' }) });
+}
+
+function gitlabDelivery(event: string, body: string, deliveryId: string, token = SECRET) {
+  return POST(new Request('http://localhost:3000/api/webhooks/gitlab', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Gitlab-Event': event, 'Idempotency-Key': deliveryId, 'X-Gitlab-Token': token },
+    body
+  }), { params: Promise.resolve({ provider: 'gitlab' }) });
+}
+
+describe('Webhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(db.tables).forEach(table => delete db.tables[table]);
+    db.tables.projects = [
+      { id: 'p1', user_id: 'u1', provider: 'github', git_url: 'https://github.com/acme/billing.git', status: 'completed' },
+      // Another user's project for the same repository, with its own secret
+      { id: 'p2', user_id: 'u2', provider: 'github', git_url: 'https://github.com/acme/billing', status: 'completed' },
+      { id: 'p3', user_id: 'u1', provider: 'gitlab', git_url: 'https://gitlab.example.com/acme/inventory.git', status: 'completed' },
+      // Without a webhook secret, deliveries for this project are not accepted
+      { id: 'p4', user_id: 'u1', provider: 'github', git_url: 'https://github.com/acme/website.git', status: 'completed' }
+    ];
+    db.tables.project_webhooks = [
+      { project_id: 'p1', secret: SECRET, access_token: 'ghp_token' },
+      { project_id: 'p2', secret: 'someone-elses-secret', access_token: null },
+      { project_id: 'p3', secret: SECRET, access_token: 'glpat-token' }
+    ];
+  });
+
+  it('should read the commit, branches and repository URLs from recorded payloads', () => {
+    expect(parseWebhookEvent('github', 'push', JSON.parse(payload('github-push')))).toEqual({
+      kind: 'push',
+      repoUrls: ['https://github.com/acme/billing.git', 'https://github.com/acme/billing', 'git@github.com:acme/billing.git'],
+      commitSha: '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+      branch: 'main',
+      baseRef: null
+    });
+    expect(parseWebhookEvent('github', 'pull_request', JSON.parse(payload('github-pull_request')))).toMatchObject({
+      kind: 'pull_request',
+      commitSha: 'c48f2f8d2a1a3f9c4b6e0f0b7a3c1d2e5f6a7b8c',
+      branch: 'feature/credit-notes',
+      baseRef: 'main'
+    });
+    expect(parseWebhookEvent('gitlab', 'Push Hook', JSON.parse(payload('gitlab-push')))).toMatchObject({
+      kind: 'push',
+      repoUrls: ['https://gitlab.example.com/acme/inventory.git', 'https://gitlab.example.com/acme/inventory', 'git@gitlab.example.com:acme/inventory.git'],
+      commitSha: 'da1560886d4f094c3e6c9ef40349f7d38b5d27d7',
+      branch: 'develop'
+    });
+    expect(parseWebhookEvent('gitlab', 'Merge Request Hook', JSON.parse(payload('gitlab-merge_request')))).toMatchObject({
+      kind: 'pull_request',
+      commitSha: 'b83d6e391c22777fca1ed3012fce84f633d7fed0',
+      branch: 'feature/batch-reorders',
+      baseRef: 'main'
+    });
+  });
+
+  it('should ignore events that do not change code', () => {
+    const push = JSON.parse(payload('github-push'));
+    expect(parseWebhookEvent('github', 'push', { ...push, deleted: true, after: '0'.repeat(40) })).toEqual({
+      ignored: 'Branch was deleted',
+      // Kept so the delivery can be verified and logged for the repository's projects
+      repoUrls: ['https://github.com/acme/billing.git', 'https://github.com/acme/billing', 'git@github.com:acme/billing.git']
+    });
+    expect(parseWebhookEvent('github', 'push', { ...push, ref: 'refs/tags/v1.0.0' })).toMatchObject({ ignored: 'Only pushes to branches are analyzed' });
+    expect(parseWebhookEvent('github', 'pull_request', { ...JSON.parse(payload('github-pull_request')), action: 'labeled' }))
+      .toMatchObject({ ignored: 'Pull request labeled does not change its code' });
+    expect(parseWebhookEvent('github', 'ping', {})).toEqual({ ignored: 'Unsupported event ping', repoUrls: [] });
+    expect(parseWebhookEvent('github', 'push', { ...push, after: 'not-a-sha' })).toMatchObject({ rejected: 'Payload has no commit SHA (not-a-sha)' });
+
+    // An update without oldrev changed the description, not the commits
+    const mergeRequest = JSON.parse(payload('gitlab-merge_request'));
+    delete mergeRequest.object_attributes.oldrev;
+    expect(parseWebhookEvent('gitlab', 'Merge Request Hook', mergeRequest)).toMatchObject({ ignored: 'Merge request update does not change its code' });
+    expect(parseWebhookEvent('gitlab', 'Push Hook', { ...JSON.parse(payload('gitlab-push')), checkout_sha: null }))
+      .toMatchObject({ ignored: 'Branch was deleted' });
+  });
+
+  it('should queue a signed GitHub push once and log the retry as a duplicate', async () => {
+    const body = payload('github-push');
+
+    const response = await githubDelivery('push', body, 'delivery-1');
+
+    expect(response.status).toBe(202);
+    const jobs = db.tables.analysis_jobs;
+    expect(jobs).toHaveLength(1);
+    expect(await response.json()).toEqual({ status: 'queued', jobIds: [jobs[0].id] });
+    expect(jobs[0]).toMatchObject({
+      project_id: 'p1',
+      repo_url: 'https://github.com/acme/billing.git',
+      provider: 'github',
+      access_token: 'ghp_token',
+      // The branch is cloned at the pushed commit, so the run records both
+      ref: 'main',
+      commit_sha: '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+      base_ref: null
+    });
+    expect(db.tables.projects.find(project => project.id === 'p1')!.status).toBe('analyzing');
+    expect(db.tables.projects.find(project => project.id === 'p2')!.status).toBe('completed');
+    expect(processQueue).toHaveBeenCalled();
+
+    const retry = await githubDelivery('push', body, 'delivery-1');
+
+    expect(retry.status).toBe(200);
+    expect(await retry.json()).toEqual({ status: 'duplicate' });
+    expect(db.tables.analysis_jobs).toHaveLength(1);
+    expect(db.tables.webhook_deliveries.map(delivery => [delivery.delivery_id, delivery.status, delivery.project_ids, delivery.accepted])).toEqual([
+      ['delivery-1', 'queued', ['p1'], true],
+      ['delivery-1', 'duplicate', ['p1'], false]
+    ]);
+  });
+
+  it('should reject deliveries whose signature matches no project', async () => {
+    const body = payload('github-pull_request');
+
+    const forged = await githubDelivery('pull_request', body, 'delivery-2', 'guessed-secret');
+    // A signature over other bytes does not match either
+    const tampered = await POST(new Request('http://localhost:3000/api/webhooks/github', {
+      method: 'POST',
+      headers: {
+        'X-GitHub-Event': 'pull_request',
+        'X-GitHub-Delivery': 'delivery-3',
+        'X-Hub-Signature-256': `sha256=${createHmac('sha256', SECRET).update(body).digest('hex')}`
+      },
+      body: body.replace('"synchronize"', '"opened"')
+    }), { params: Promise.resolve({ provider: 'github' }) });
+
+    expect(forged.status).toBe(401);
+    expect(tampered.status).toBe(401);
+    expect(db.tables.analysis_jobs).toBeUndefined();
+    // Nothing unsigned is written, so the log cannot be filled by anyone who knows the URL
+    expect(db.tables.webhook_deliveries).toBeUndefined();
+
+    // The rejected id was not taken, so the genuine delivery still goes through
+    const genuine = await githubDelivery('pull_request', body, 'delivery-2');
+    expect(genuine.status).toBe(202);
+    expect(db.tables.analysis_jobs).toEqual([expect.objectContaining({
+      project_id: 'p1',
+      provider: 'github',
+      ref: 'c48f2f8d2a1a3f9c4b6e0f0b7a3c1d2e5f6a7b8c',
+      commit_sha: null,
+      base_ref: 'main'
+    })]);
+    expect(db.tables.webhook_deliveries.map(delivery => [delivery.delivery_id, delivery.status])).toEqual([['delivery-2', 'queued']]);
+  });
+
+  it('should queue GitLab merge requests and let a failed delivery be retried', async () => {
+    db.failNextWrite('analysis_jobs', 'database is down');
+    const body = payload('gitlab-merge_request');
+
+    const failed = await gitlabDelivery('Merge Request Hook', body, 'mr-1');
+    expect(failed.status).toBe(500);
+    expect((await failed.json()).details).toContain('database is down');
+
+    const retried = await gitlabDelivery('Merge Request Hook', body, 'mr-1');
+    expect(retried.status).toBe(202);
+    expect(db.tables.analysis_jobs).toEqual([expect.objectContaining({
+      project_id: 'p3',
+      provider: 'gitlab',
+      access_token: 'glpat-token',
+      ref: 'b83d6e391c22777fca1ed3012fce84f633d7fed0',
+      base_ref: 'main'
+    })]);
+    expect(db.tables.webhook_deliveries.map(delivery => [delivery.status, delivery.accepted])).toEqual([['failed', false], ['queued', true]]);
+
+    expect((await gitlabDelivery('Merge Request Hook', body, 'mr-2', 'wrong-token')).status).toBe(401);
+  });
+
+  it('should clone public repositories anonymously when the webhook has no token', async () => {
+    db.tables.project_webhooks = [{ project_id: 'p2', secret: SECRET, access_token: null }];
+
+    expect((await githubDelivery('push', payload('github-push'), 'delivery-4')).status).toBe(202);
+    expect(db.tables.analysis_jobs).toEqual([expect.objectContaining({ project_id: 'p2', provider: 'git', access_token: null })]);
+  });
+
+  it('should log signed deliveries that are ignored or rejected', async () => {
+    const push = JSON.parse(payload('github-push'));
+
+    const deleted = await githubDelivery('push', JSON.stringify({ ...push, deleted: true }), 'delivery-5');
+    const malformed = await githubDelivery('push', JSON.stringify({ ...push, after: 'not-a-sha' }), 'delivery-6');
+
+    expect(deleted.status).toBe(202);
+    expect(await deleted.json()).toEqual({ status: 'ignored', reason: 'Branch was deleted' });
+    expect(malformed.status).toBe(400);
+    expect(db.tables.analysis_jobs).toBeUndefined();
+    expect(db.tables.webhook_deliveries.map(delivery => [delivery.delivery_id, delivery.status, delivery.message, delivery.project_ids])).toEqual([
+      ['delivery-5', 'ignored', 'Branch was deleted', ['p1']],
+      ['delivery-6', 'rejected', 'Payload has no commit SHA (not-a-sha)', ['p1']]
+    ]);
+  });
+
+  it('should not record requests that are unsigned, malformed or not for a known project', async () => {
+    db.tables.project_webhooks = [];
+
+    const ping = await githubDelivery('ping', '{"zen":"Keep it logically awesome."}', 'ping-1');
+    const unknown = await gitlabDelivery('Push Hook', payload('gitlab-push'), 'push-1');
+    const unsigned = await POST(new Request('http://localhost:3000/api/webhooks/github', { method: 'POST', body: '{}' }), {
+      params: Promise.resolve({ provider: 'github' })
+    });
+    const unsupported = await POST(new Request('http://localhost:3000/api/webhooks/bitbucket', { method: 'POST', body: '{}' }), {
+      params: Promise.resolve({ provider: 'bitbucket' })
+    });
+
+    expect(ping.status).toBe(202);
+    expect(unknown.status).toBe(202);
+    expect(await unknown.json()).toEqual({ status: 'ignored', reason: 'No project with a webhook secret uses this repository' });
+    expect(unsigned.status).toBe(400);
+    expect(unsupported.status).toBe(404);
+    expect(db.tables.webhook_deliveries).toBeUndefined();
+  });
+});
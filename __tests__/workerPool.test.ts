@@ -0,0 +1,90 @@
+import os from 'os';
+import { Worker } from 'worker_threads';
+import type { FileTask, FileTaskResult } from '@/lib/analysisThread';
+import { MAINTAINABILITY_LIMITS } from '@/lib/maintainability';
+import { createModuleWorker } from '@/lib/moduleLoader';
+import { createWorkerPool, TaskTimeoutError } from '@/lib/workerPool';
+
+// Doubles numbers, hangs on 'hang', fails on anything else and exits on 'exit'
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', ({ id, task }) => {
+  if (task === 'hang') return;
+  if (task === 'exit') process.exit(3);
+  if (typeof task !== 'number') return parentPort.postMessage({ id, error: 'not a number: ' + task });
+  parentPort.postMessage({ id, result: task * 2 });
+});
+`;
+
+describe('Worker pool', () => {
+  let created: number;
+  const createWorker = () => {
+    created++;
+    return new Worker(WORKER_SOURCE, { eval: true });
+  };
+
+  beforeEach(() => {
+    created = 0;
+  });
+
+  it('should run tasks on a bounded number of threads', async () => {
+    const pool = createWorkerPool<number, number>(createWorker, 2, 5000);
+
+    try {
+      expect(await Promise.all([1, 2, 3, 4, 5].map(pool.run))).toEqual([2, 4, 6, 8, 10]);
+      expect(created).toBe(2);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should replace threads that time out or die and keep going', async () => {
+    const pool = createWorkerPool<number | string, number>(createWorker, 1, 500);
+
+    try {
+      const results = await Promise.allSettled([pool.run('hang'), pool.run('exit'), pool.run('x'), pool.run(4)]);
+
+      expect(results[0]).toMatchObject({ status: 'rejected', reason: expect.any(TaskTimeoutError) });
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('Worker exited with code 3') });
+      expect(results[2]).toMatchObject({ status: 'rejected', reason: new Error('not a number: x') });
+      expect(results[3]).toEqual({ status: 'fulfilled', value: 8 });
+      // The failed task kept its thread; the other two cost one each
+      expect(created).toBe(3);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should reject queued tasks when closed', async () => {
+    const pool = createWorkerPool<string, number>(createWorker, 1, 5000);
+    const outcomes = Promise.allSettled([pool.run('hang'), pool.run('hang')]);
+
+    await pool.close();
+
+    expect(await outcomes).toEqual([
+      { status: 'rejected', reason: new Error('Worker pool is closed') },
+      { status: 'rejected', reason: new Error('Worker pool is closed') }
+    ]);
+    await expect(pool.run('hang')).rejects.toThrow('Worker pool is closed');
+  });
+
+  it('should load module threads from any working directory', async () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    const pool = createWorkerPool<FileTask, FileTaskResult>(() => createModuleWorker('lib/analysisThread'), 1, 30000);
+
+    try {
+      const { language, metrics } = await pool.run({
+        fileName: 'add.ts',
+        extension: '.ts',
+        content: 'export function add(a: number, b: number) {\n  return a + b;\n}\n',
+        limits: MAINTAINABILITY_LIMITS
+      });
+      expect(language).toBe('typescript');
+      expect(metrics.complexity.functions.map(fn => fn.name)).toEqual(['add']);
+    } finally {
+      process.chdir(cwd);
+      await pool.close();
+    }
+  });
+});
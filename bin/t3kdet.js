@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+// Command-line analyzer for CI pipelines; see `t3kdet --help`.
+// The sources are loaded the way analysis threads load them, through src/lib/moduleLoader.js.
+const { loadModule } = require('../src/lib/moduleLoader');
+
+// The analyzer logs its progress; on stderr it stays out of the table or JSON on stdout
+console.log = console.error;
+console.info = console.error;
+console.warn = console.error;
+
+loadModule('lib/cli')
+  .runCli(process.argv.slice(2), process.cwd())
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 2;
+  });
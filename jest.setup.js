@@ -1,2 +1,7 @@
 const { config } = require('dotenv');
-config({ path: '.env.test' }); 
\ No newline at end of file
+config({ path: '.env.test' });
+
+// The Supabase client refuses to load without these; tests mock it where it matters
+process.env.NEXT_PUBLIC_SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://localhost:54321';
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'test-anon-key';
+process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'test-service-role-key';
@@ -1,7 +1,14 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  webpack: (config, { isServer }) => {
+    // Analysis threads start from the loader's file on disk, so it is required from there rather than bundled
+    if (isServer) {
+      config.externals.push({ "@/lib/moduleLoader": `commonjs ${path.join(__dirname, "src/lib/moduleLoader.js")}` });
+    }
+    return config;
+  }
 };
 
 export default nextConfig;
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { cancelAnalysisJob, getAnalysisJob } from '@/lib/jobs';
+import { getRequestSession, ownsProject, unauthorized } from '@/lib/supabaseSession';
+
+export async function POST(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  try {
+    // Jobs are read with the service role, so the caller must own the job's project
+    const session = await getRequestSession();
+    if (!session) {
+      return unauthorized();
+    }
+
+    const existing = await getAnalysisJob(jobId);
+    if (!existing || !(await ownsProject(session, existing.project_id))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const job = await cancelAnalysisJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Failed to cancel analysis job:', error);
+    return NextResponse.json({
+      error: 'Failed to cancel analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { updateProjectStatus } from '@/lib/analysisPipeline';
+import { processQueue } from '@/lib/analysisWorker';
+import { getAnalysisJob, retryAnalysisJob, UPLOAD_PROVIDER } from '@/lib/jobs';
+import { getRequestSession, ownsProject, unauthorized } from '@/lib/supabaseSession';
+
+export async function POST(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  const authHeader = request.headers.get('Authorization');
+  // Deploy keys span several lines, so they come in the JSON body rather than the header
+  const body = await request.json().catch(() => null);
+  const accessToken = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : typeof body?.accessToken === 'string' && body.accessToken ? body.accessToken : null;
+
+  try {
+    // Jobs are read with the service role, so the caller must own the job's project
+    const session = await getRequestSession();
+    if (!session) {
+      return unauthorized();
+    }
+
+    const existing = await getAnalysisJob(jobId);
+    if (!existing || !(await ownsProject(session, existing.project_id))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // The stored token is discarded when a job finishes, so hosted repository retries bring a fresh one
+    if (!accessToken && existing.provider !== UPLOAD_PROVIDER && existing.provider !== 'git') {
+      return NextResponse.json({
+        error: 'Invalid authorization header',
+        details: 'Authorization header must start with Bearer'
+      }, { status: 401 });
+    }
+
+    if (existing.status !== 'failed' && existing.status !== 'cancelled') {
+      return NextResponse.json({
+        error: 'Job cannot be retried',
+        details: `Only failed or cancelled jobs can be retried (job is ${existing.status})`
+      }, { status: 409 });
+    }
+
+    const job = await retryAnalysisJob(jobId, accessToken);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    await updateProjectStatus(job.project_id, 'analyzing');
+    processQueue().catch(error => console.error('Analysis worker failed:', error));
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Failed to retry analysis job:', error);
+    return NextResponse.json({
+      error: 'Failed to retry analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
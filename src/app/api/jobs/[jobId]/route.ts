@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisJob } from '@/lib/jobs';
+import { getRequestSession, ownsProject, unauthorized } from '@/lib/supabaseSession';
+
+export async function GET(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  try {
+    // Jobs are read with the service role, so the caller must own the job's project
+    const session = await getRequestSession();
+    if (!session) {
+      return unauthorized();
+    }
+
+    const job = await getAnalysisJob(jobId);
+    if (!job || !(await ownsProject(session, job.project_id))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Failed to load analysis job:', error);
+    return NextResponse.json({
+      error: 'Failed to load analysis job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
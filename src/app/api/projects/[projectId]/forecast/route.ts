@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getProjectForecast } from '@/lib/forecast';
+
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  try {
+    const forecast = await getProjectForecast(projectId);
+    return NextResponse.json({ forecast });
+  } catch (error) {
+    console.error('Failed to build forecast:', error);
+    return NextResponse.json({
+      error: 'Failed to build forecast',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
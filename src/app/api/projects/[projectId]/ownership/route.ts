@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getLatestAnalysisRun } from '@/lib/runs';
+import { buildOwnershipReport } from '@/lib/ownership';
+
+// Ownership of the latest run, optionally narrowed with ?owner=@org/team and ?path=/src/lib
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const run = await getLatestAnalysisRun(projectId);
+    if (!run) {
+      return NextResponse.json({ error: 'Project has not been analyzed yet' }, { status: 404 });
+    }
+
+    const ownership = buildOwnershipReport(run.results, {
+      owner: searchParams.get('owner') || undefined,
+      path: searchParams.get('path') || undefined
+    });
+    if (!ownership) {
+      return NextResponse.json({ error: 'The latest run has no ownership data; only repositories with ownership turned on in the analysis settings are blamed' }, { status: 404 });
+    }
+
+    return NextResponse.json({ runId: run.id, ownership });
+  } catch (error) {
+    console.error('Failed to build ownership report:', error);
+    return NextResponse.json({
+      error: 'Failed to build ownership report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { rescoreAnalysisRuns } from '@/lib/runs';
+import { getScoringModel } from '@/lib/scoringModels';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+// Applies the project's current scoring model to every stored run
+export async function POST(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const model = await getScoringModel(projectId, session.client);
+    const rescored = await rescoreAnalysisRuns(projectId, model, session.client);
+    return NextResponse.json({ rescored, scoringModelVersion: model.version });
+  } catch (error) {
+    console.error('Failed to re-score analysis runs:', error);
+    return NextResponse.json({
+      error: 'Failed to re-score analysis runs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisRun, updateAnalysisRunResults } from '@/lib/runs';
+import { IMPORT_FORMATS, ImportFormat, IssueImportError, mergeImportedIssues, parseIssueReport } from '@/lib/issueImport';
+import { getScoringModelVersion } from '@/lib/scoringModels';
+
+// Adds the findings of ESLint, a SARIF producer such as CodeQL, or SonarQube to a stored run.
+// Body: { format: 'eslint' | 'sarif' | 'sonarqube', report: <the tool's JSON output> }
+export async function POST(request: Request, { params }: { params: Promise<{ projectId: string; runId: string }> }) {
+  const { projectId, runId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'The request body could not be parsed as JSON'
+    }, { status: 400 });
+  }
+
+  const format = body?.format as ImportFormat;
+  if (!IMPORT_FORMATS.includes(format) || body.report === undefined) {
+    return NextResponse.json({
+      error: 'Missing required fields',
+      details: `format must be one of ${IMPORT_FORMATS.join(', ')} and report must hold the tool's output`
+    }, { status: 400 });
+  }
+
+  try {
+    const run = await getAnalysisRun(projectId, runId);
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const imported = parseIssueReport(format, body.report, run.results.complexity.details.map(detail => detail.file));
+    const results = mergeImportedIssues(run.results, imported, await getScoringModelVersion(projectId, run.scoring_model_version));
+    await updateAnalysisRunResults(run.id, results);
+
+    console.log(`Imported ${imported.issues.length} issue(s) from ${imported.tools.join(', ')} into run ${run.id}`);
+    return NextResponse.json({
+      imported: imported.issues.length,
+      tools: imported.tools,
+      overallScore: results.overallScore,
+      technicalDebtRatio: results.overview.technicalDebtRatio,
+      remediationMinutes: results.remediation.totalMinutes
+    });
+  } catch (error) {
+    if (error instanceof IssueImportError) {
+      return NextResponse.json({ error: 'Invalid report', details: error.message }, { status: 400 });
+    }
+
+    console.error('Failed to import issues:', error);
+    return NextResponse.json({
+      error: 'Failed to import issues',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisRun } from '@/lib/runs';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string; runId: string }> }) {
+  const { projectId, runId } = await params;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const run = await getAnalysisRun(projectId, runId, session.client);
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Failed to load analysis run:', error);
+    return NextResponse.json({
+      error: 'Failed to load analysis run',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
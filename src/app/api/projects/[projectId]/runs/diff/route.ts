@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { diffAnalysisRuns, getAnalysisRun } from '@/lib/runs';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+// GET ?base=<runId>&head=<runId>
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const baseId = searchParams.get('base');
+  const headId = searchParams.get('head');
+
+  if (!baseId || !headId) {
+    return NextResponse.json({
+      error: 'Missing required parameters',
+      details: 'Both base and head run ids are required'
+    }, { status: 400 });
+  }
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const [base, head] = await Promise.all([
+      getAnalysisRun(projectId, baseId, session.client),
+      getAnalysisRun(projectId, headId, session.client)
+    ]);
+
+    if (!base || !head) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(diffAnalysisRuns(base, head));
+  } catch (error) {
+    console.error('Failed to diff analysis runs:', error);
+    return NextResponse.json({
+      error: 'Failed to diff analysis runs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { listAnalysisRuns, parseRunUpload, saveAnalysisRun } from '@/lib/runs';
+import { readBearerToken, verifyProjectApiToken } from '@/lib/apiTokens';
+import { buildAnalysisReport } from '@/lib/scoring';
+import { getScoringModel } from '@/lib/scoringModels';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+  const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const runs = await listAnalysisRuns(projectId, limit, session.client);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Failed to list analysis runs:', error);
+    return NextResponse.json({
+      error: 'Failed to list analysis runs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Stores a run analyzed elsewhere, e.g. by the command-line analyzer in CI; authorized with a project API token
+export async function POST(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  const token = readBearerToken(request.headers);
+  if (!token) {
+    return NextResponse.json({
+      error: 'Missing API token',
+      details: 'Send a project API token as Authorization: Bearer <token>'
+    }, { status: 401 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'The request body could not be parsed as JSON'
+    }, { status: 400 });
+  }
+
+  try {
+    if (!await verifyProjectApiToken(projectId, token)) {
+      return NextResponse.json({
+        error: 'Invalid API token',
+        details: 'The token does not belong to this project or was deleted'
+      }, { status: 401 });
+    }
+
+    const { upload, errors } = parseRunUpload(body);
+    if (!upload) {
+      return NextResponse.json({ error: 'Invalid run', details: errors }, { status: 400 });
+    }
+
+    // Scored here rather than trusted, so uploaded runs compare with the project's other runs.
+    // The token stands in for a user session, so the project is read and written with the service role
+    const results = buildAnalysisReport(upload.results, await getScoringModel(projectId, supabaseAdmin));
+    const run = await saveAnalysisRun({ projectId, ...upload, results }, supabaseAdmin);
+
+    console.log(`Stored uploaded run ${run.id} for project ${projectId}`);
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to store uploaded run:', error);
+    return NextResponse.json({
+      error: 'Failed to store uploaded run',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
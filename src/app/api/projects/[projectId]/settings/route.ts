@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getProjectSettings, parseProjectSettings, updateProjectSettings } from '@/lib/projectSettings';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const settings = await getProjectSettings(projectId, session.client);
+    if (!settings) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('Failed to load project settings:', error);
+    return NextResponse.json({
+      error: 'Failed to load project settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'The request body could not be parsed as JSON'
+    }, { status: 400 });
+  }
+
+  const { settings, errors } = parseProjectSettings(body);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid settings', details: errors }, { status: 400 });
+  }
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const updated = await updateProjectSettings(projectId, settings, session.client);
+    if (!updated) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Failed to update project settings:', error);
+    return NextResponse.json({
+      error: 'Failed to update project settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { deleteProjectApiToken } from '@/lib/apiTokens';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ projectId: string; tokenId: string }> }) {
+  const { projectId, tokenId } = await params;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    if (!await deleteProjectApiToken(projectId, tokenId, session.client)) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: tokenId });
+  } catch (error) {
+    console.error('Failed to delete API token:', error);
+    return NextResponse.json({
+      error: 'Failed to delete API token',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { createProjectApiToken, listProjectApiTokens, MAX_TOKEN_NAME_LENGTH } from '@/lib/apiTokens';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+
+export async function GET(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const tokens = await listProjectApiTokens(projectId, session.client);
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('Failed to list API tokens:', error);
+    return NextResponse.json({
+      error: 'Failed to list API tokens',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Body: { name }; the response holds the token, which cannot be read again
+export async function POST(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'The request body could not be parsed as JSON'
+    }, { status: 400 });
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+    return NextResponse.json({
+      error: 'Invalid token name',
+      details: `name must be 1 to ${MAX_TOKEN_NAME_LENGTH} characters, e.g. the CI pipeline that uses it`
+    }, { status: 400 });
+  }
+
+  try {
+    const session = await requireProjectOwner(projectId);
+    if (session instanceof NextResponse) return session;
+
+    const token = await createProjectApiToken(projectId, name, session.client);
+    return NextResponse.json(token, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create API token:', error);
+    return NextResponse.json({
+      error: 'Failed to create API token',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { updateProjectStatus } from '@/lib/analysisPipeline';
+import { processQueue } from '@/lib/analysisWorker';
+import { MAX_ARCHIVE_BYTES } from '@/lib/archive';
+import { enqueueAnalysisJob, UPLOAD_PROVIDER } from '@/lib/jobs';
+import { requireProjectOwner } from '@/lib/supabaseSession';
+import { openArchiveUpload, storeProjectArchive } from '@/lib/uploads';
+
+// Accepts the archive as the raw request body, which is streamed to storage rather than held in memory
+export async function POST(request: Request, { params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  // Archives are stored with the service role, so nothing is read from the body until the caller is known to own the project
+  let session;
+  try {
+    session = await requireProjectOwner(projectId);
+  } catch (error) {
+    console.error('Failed to load project:', error);
+    return NextResponse.json({
+      error: 'Failed to load project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+  if (session instanceof NextResponse) return session;
+
+  // Oversized uploads that announce their size are refused before the body is read
+  const contentLength = Number(request.headers.get('Content-Length'));
+  if (contentLength > MAX_ARCHIVE_BYTES) {
+    return archiveTooLarge();
+  }
+
+  if (!request.body) {
+    return NextResponse.json({
+      error: 'Missing archive',
+      details: 'Send the archive as the request body'
+    }, { status: 400 });
+  }
+
+  const upload = await openArchiveUpload(request.body, MAX_ARCHIVE_BYTES);
+  if (!upload.format) {
+    await upload.stream.cancel();
+    return NextResponse.json({
+      error: 'Unsupported archive format',
+      details: 'Upload a ZIP or tar.gz archive'
+    }, { status: 415 });
+  }
+
+  let storagePath;
+  try {
+    storagePath = await storeProjectArchive(projectId, upload.stream, upload.format);
+  } catch (error) {
+    // Bodies without a Content-Length are cut off once they pass the limit
+    if (upload.exceeded()) {
+      return archiveTooLarge();
+    }
+    console.error('Failed to store uploaded archive:', error);
+    await updateProjectStatus(projectId, 'failed', 'Failed to store uploaded archive');
+    return NextResponse.json({
+      error: 'Failed to store uploaded archive',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+
+  try {
+    const job = await enqueueAnalysisJob({
+      projectId,
+      repoUrl: storagePath,
+      provider: UPLOAD_PROVIDER,
+      accessToken: null
+    });
+
+    await updateProjectStatus(projectId, 'analyzing');
+    processQueue().catch(error => console.error('Analysis worker failed:', error));
+
+    return NextResponse.json({ status: 'analyzing', projectId, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to queue uploaded archive:', error);
+    await updateProjectStatus(projectId, 'failed', 'Failed to queue uploaded archive');
+    return NextResponse.json({
+      error: 'Failed to queue uploaded archive',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+function archiveTooLarge() {
+  return NextResponse.json({
+    error: 'Archive too large',
+    details: `Archives may be at most ${MAX_ARCHIVE_BYTES / (1024 * 1024)} MB`
+  }, { status: 413 });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { createGitProvider, isProviderType, RepositoryAccessError } from '@/lib/gitProviders';
+
+// Lists a repository's branches; POST so deploy keys can travel in the body
+export async function POST(request: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  if (!isProviderType(provider)) {
+    return NextResponse.json({ error: 'Unknown provider', details: `Unsupported provider ${provider}` }, { status: 404 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'The request body could not be parsed as JSON'
+    }, { status: 400 });
+  }
+
+  const { repoUrl, accessToken } = body ?? {};
+  if (typeof repoUrl !== 'string' || !repoUrl) {
+    return NextResponse.json({ error: 'Missing required fields', details: { missingFields: ['repoUrl'] } }, { status: 400 });
+  }
+
+  try {
+    const branches = await createGitProvider({
+      provider,
+      accessToken: typeof accessToken === 'string' && accessToken ? accessToken : null
+    }).listBranches(repoUrl);
+
+    return NextResponse.json(branches);
+  } catch (error) {
+    console.error('Failed to list branches:', error);
+    return NextResponse.json({
+      error: 'Failed to list branches',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: error instanceof RepositoryAccessError ? 403 : 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { createGitProvider, isProviderType, ProviderError } from '@/lib/gitProviders';
+
+// Lists the repositories the caller's token can see: ?page=&perPage=&search=&baseUrl=
+export async function GET(request: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  if (!isProviderType(provider)) {
+    return NextResponse.json({ error: 'Unknown provider', details: `Unsupported provider ${provider}` }, { status: 404 });
+  }
+
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return NextResponse.json({
+      error: 'Invalid authorization header',
+      details: 'Authorization header must start with Bearer'
+    }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const baseUrl = searchParams.get('baseUrl') || undefined;
+  if (baseUrl && !baseUrl.startsWith('https://')) {
+    return NextResponse.json({ error: 'Invalid base URL', details: 'Self-hosted base URLs must use https' }, { status: 400 });
+  }
+
+  try {
+    const page = await createGitProvider({
+      provider,
+      accessToken: authHeader.slice('Bearer '.length),
+      baseUrl
+    }).listRepositories({
+      page: Number(searchParams.get('page')) || undefined,
+      perPage: Number(searchParams.get('perPage')) || undefined,
+      search: searchParams.get('search') || undefined
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Failed to list repositories:', error);
+    return NextResponse.json({
+      error: 'Failed to list repositories',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: error instanceof ProviderError ? error.status : 500 });
+  }
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { updateProjectStatus } from '@/lib/analysisPipeline';
+import { processQueue } from '@/lib/analysisWorker';
+import { enqueueAnalysisJob } from '@/lib/jobs';
+import {
+  claimWebhookDelivery,
+  findWebhookProjects,
+  isWebhookProvider,
+  logWebhookDelivery,
+  parseWebhookEvent,
+  readDeliveryHeaders,
+  updateWebhookDelivery,
+  verifyWebhookSignature,
+  WebhookDelivery
+} from '@/lib/webhooks';
+
+// Push and pull/merge request events from GitHub and GitLab. Deliveries are verified before anything is recorded:
+// those signed with a project's secret are written to its delivery log, including events that are ignored or rejected.
+// Anyone can reach this route, so deliveries for no project or with a wrong signature are only logged to the console
+export async function POST(request: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  if (!isWebhookProvider(provider)) {
+    return NextResponse.json({
+      error: 'Unsupported provider',
+      details: 'Webhooks are accepted from github and gitlab'
+    }, { status: 404 });
+  }
+
+  // The signature covers the exact bytes sent, so the body is read as text before parsing
+  const body = await request.text();
+  const { deliveryId, event } = readDeliveryHeaders(provider, request.headers);
+
+  if (!deliveryId || !event) {
+    return NextResponse.json({
+      error: 'Missing webhook headers',
+      details: provider === 'github'
+        ? 'X-GitHub-Delivery and X-GitHub-Event are required'
+        : 'X-Gitlab-Event and Idempotency-Key or X-Gitlab-Event-UUID are required'
+    }, { status: 400 });
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({
+      error: 'Invalid JSON in request body',
+      details: 'Webhooks must be sent with the application/json content type'
+    }, { status: 400 });
+  }
+
+  const parsed = parseWebhookEvent(provider, event, payload);
+
+  let deliveryLogId: string | null = null;
+  const jobIds: string[] = [];
+  try {
+    const projects = await findWebhookProjects(parsed.repoUrls);
+    if (projects.length === 0) {
+      const reason = 'No project with a webhook secret uses this repository';
+      console.log(`Ignored ${provider} delivery ${deliveryId}: ${reason}`);
+      return NextResponse.json({ status: 'ignored', reason }, { status: 202 });
+    }
+
+    // Each project has its own secret; only the projects whose secret signed the delivery are analyzed
+    const verified = projects.filter(project => verifyWebhookSignature(provider, request.headers, body, project.secret));
+    if (verified.length === 0) {
+      console.warn(`Rejected ${provider} delivery ${deliveryId} for ${parsed.repoUrls[0]}: signature does not match`);
+      return NextResponse.json({
+        error: 'Invalid signature',
+        details: 'The webhook secret does not match the one set in the project settings'
+      }, { status: 401 });
+    }
+
+    const delivery: WebhookDelivery = {
+      provider,
+      deliveryId,
+      event,
+      repoUrl: parsed.repoUrls[0],
+      status: 'processing',
+      message: null,
+      projectIds: verified.map(project => project.id),
+      jobIds: []
+    };
+
+    if ('ignored' in parsed) {
+      console.log(`Ignored ${provider} delivery ${deliveryId}: ${parsed.ignored}`);
+      await logWebhookDelivery({ ...delivery, status: 'ignored', message: parsed.ignored });
+      return NextResponse.json({ status: 'ignored', reason: parsed.ignored }, { status: 202 });
+    }
+    if ('rejected' in parsed) {
+      console.warn(`Rejected ${provider} delivery ${deliveryId}: ${parsed.rejected}`);
+      await logWebhookDelivery({ ...delivery, status: 'rejected', message: parsed.rejected });
+      return NextResponse.json({ error: 'Invalid payload', details: parsed.rejected }, { status: 400 });
+    }
+
+    deliveryLogId = await claimWebhookDelivery(delivery);
+    if (!deliveryLogId) {
+      await logWebhookDelivery({ ...delivery, status: 'duplicate', message: 'Delivery was already processed' });
+      return NextResponse.json({ status: 'duplicate' });
+    }
+
+    for (const project of verified) {
+      const job = await enqueueAnalysisJob({
+        projectId: project.id,
+        repoUrl: project.git_url,
+        // Without a token the repository is cloned anonymously, which works for public repositories
+        provider: project.access_token ? project.provider : 'git',
+        accessToken: project.access_token,
+        // Pushes are cloned from their branch at the pushed commit. The head branch of a pull request
+        // may live in a fork, so pull requests are cloned by commit, which the base repository serves too
+        ...(parsed.kind === 'push'
+          ? { ref: parsed.branch, commitSha: parsed.commitSha }
+          : { ref: parsed.commitSha }),
+        baseRef: parsed.baseRef
+      });
+      jobIds.push(job.id);
+      await updateProjectStatus(project.id, 'analyzing');
+    }
+
+    const message = `Queued ${parsed.kind === 'push' ? 'push to' : 'pull request from'} ${parsed.branch} at ${parsed.commitSha.slice(0, 7)}`;
+    await updateWebhookDelivery(deliveryLogId, { status: 'queued', message, jobIds });
+    processQueue().catch(error => console.error('Analysis worker failed:', error));
+
+    return NextResponse.json({ status: 'queued', jobIds }, { status: 202 });
+  } catch (error) {
+    // A server error makes the sender retry the delivery later
+    console.error('Failed to process webhook:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (deliveryLogId) {
+      await updateWebhookDelivery(deliveryLogId, { status: 'failed', message, jobIds });
+    }
+    return NextResponse.json({
+      error: 'Failed to process webhook',
+      details: message
+    }, { status: 500 });
+  }
+}
@@ -1,55 +1,145 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
+import { getLatestAnalysisRun, listRunMetrics } from '@/lib/runs';
+import type { AnalysisRun, RunMetrics } from '@/lib/runs';
+import type { AnalysisJob } from '@/lib/jobs';
+import { getProjectForecast } from '@/lib/forecast';
+import type { ProjectForecast } from '@/lib/forecast';
+import type { RemediationKind } from '@/lib/remediation';
+import type { Language, SkipReason } from '@/lib/codeAnalysis';
+import type { FileCategory } from '@/lib/analysisConfig';
+import type { DependencyFindingKind, Severity, VersionLag } from '@/lib/dependencies';
+import type { Hotspot } from '@/lib/history';
+import { buildOwnershipReport } from '@/lib/ownership';
+import {
+  DEFAULT_JUMP_THRESHOLD,
+  filterByDateRange,
+  findMetricJumps,
+  TREND_METRICS,
+  TrendMetric
+} from '@/lib/trends';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/use-toast';
-import { Loader2, ArrowLeft, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { TrendChart } from '@/components/trend-chart';
+import { Loader2, ArrowLeft, ArrowDown, ArrowUp, AlertTriangle, CheckCircle, Settings, XCircle } from 'lucide-react';
 
 type Project = {
-  id: number;
+  id: string;
   name: string;
   full_name: string;
   description: string | null;
   html_url: string;
-  git_url: string;
-  default_branch: string;
+  git_url: string | null;
+  default_branch: string | null;
   user_id: string;
-  provider: 'github' | 'gitlab' | 'email';
-  status: 'pending_analysis' | 'analyzing' | 'completed' | 'failed';
+  provider: 'github' | 'gitlab' | 'git' | 'email';
+  status: 'pending' | 'analyzing' | 'completed' | 'failed';
+  error_message: string | null;
+  hourly_rate: number | null;
+  currency: string | null;
   created_at: string;
 };
 
-type AnalysisResult = {
-  code_quality: {
-    score: number;
-    issues: Array<{
-      severity: 'low' | 'medium' | 'high';
-      message: string;
-      file: string;
-      line: number;
-    }>;
-  };
-  security: {
-    vulnerabilities: Array<{
-      severity: 'low' | 'medium' | 'high' | 'critical';
-      description: string;
-      location: string;
-    }>;
-  };
-  performance: {
-    score: number;
-    suggestions: string[];
-  };
+const REMEDIATION_LABELS: Record<RemediationKind, string> = {
+  'function-complexity': 'Excess complexity',
+  'duplicate-block': 'Duplicated blocks',
+  'maintainability-issue': 'Maintainability issues',
+  'imported-issue': 'Imported issues'
+};
+
+const CATEGORY_LABELS: Record<Exclude<FileCategory, 'source'>, string> = {
+  test: 'Tests',
+  generated: 'Generated code'
+};
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  'too-large': 'Too large',
+  unreadable: 'Unreadable',
+  timeout: 'Timed out',
+  'analysis-error': 'Could not be analyzed'
 };
 
+const FINDING_LABELS: Record<DependencyFindingKind, string> = {
+  vulnerable: 'Vulnerable',
+  deprecated: 'Deprecated',
+  license: 'License',
+  unpinned: 'Unpinned',
+  duplicate: 'Duplicate',
+  outdated: 'Outdated'
+};
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  critical: 'bg-red-500/20 text-red-400',
+  high: 'bg-orange-500/20 text-orange-400',
+  moderate: 'bg-yellow-500/20 text-yellow-400',
+  low: 'bg-gray-500/20 text-gray-400'
+};
+
+const LANGUAGE_LABELS: Record<Language, string> = {
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  python: 'Python',
+  go: 'Go',
+  java: 'Java'
+};
+
+type HotspotSortKey = keyof Hotspot;
+
+const HOTSPOT_COLUMNS: Array<{ key: HotspotSortKey; label: string }> = [
+  { key: 'file', label: 'File' },
+  { key: 'score', label: 'Hotspot' },
+  { key: 'commits', label: 'Commits' },
+  { key: 'churn', label: 'Churn' },
+  { key: 'authors', label: 'Authors' },
+  { key: 'complexity', label: 'Complexity' },
+  { key: 'lastChanged', label: 'Last changed' }
+];
+
+function sortHotspots(hotspots: Hotspot[], key: HotspotSortKey, descending: boolean) {
+  return [...hotspots].sort((a, b) => {
+    const order = typeof a[key] === 'number'
+      ? (a[key] as number) - (b[key] as number)
+      : String(a[key]).localeCompare(String(b[key]));
+    return descending ? -order : order;
+  });
+}
+
+function formatLag(lag: VersionLag | null) {
+  if (!lag) return '—';
+  if (lag.majors > 0) return `${lag.majors} major`;
+  if (lag.minors > 0) return `${lag.minors} minor`;
+  if (lag.patches > 0) return `${lag.patches} patch`;
+  return 'Up to date';
+}
+
+function formatHours(minutes: number) {
+  return `${(minutes / 60).toFixed(1)} h`;
+}
+
 export default function ProjectAnalysis() {
   const router = useRouter();
-  const { projectId } = useParams();
+  const { projectId } = useParams<{ projectId: string }>();
   const { toast } = useToast();
   const [project, setProject] = useState<Project | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [latestRun, setLatestRun] = useState<AnalysisRun | null>(null);
+  const [runMetrics, setRunMetrics] = useState<RunMetrics[]>([]);
+  const [forecast, setForecast] = useState<ProjectForecast | null>(null);
+  const [visibleMetrics, setVisibleMetrics] = useState<TrendMetric[]>(Object.keys(TREND_METRICS) as TrendMetric[]);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [jumpThreshold, setJumpThreshold] = useState(DEFAULT_JUMP_THRESHOLD);
+  const [branchFilter, setBranchFilter] = useState('');
+  const [analysisRef, setAnalysisRef] = useState('');
+  const [gitCredential, setGitCredential] = useState('');
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [ownershipPath, setOwnershipPath] = useState('');
+  const [hotspotSort, setHotspotSort] = useState<{ key: HotspotSortKey; descending: boolean }>({ key: 'score', descending: true });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -80,23 +170,21 @@ export default function ProjectAnalysis() {
         }
 
         setProject(project);
+        setAnalysisRef(current => current || project.default_branch || '');
 
-        // Fetch analysis results if project is completed
-        if (project.status === 'completed') {
-          const { data: analysis, error: analysisError } = await supabase
-            .from('analysis_results')
-            .select('*')
-            .eq('project_id', projectId)
-            .single();
-
-          if (!analysisError && analysis) {
-            setAnalysisResult(analysis.results);
-          }
-        }
-      } catch (error: any) {
+        // Earlier runs stay viewable while a re-analysis is in progress or after it failed
+        const [run, metrics, projectForecast] = await Promise.all([
+          getLatestAnalysisRun(projectId),
+          listRunMetrics(projectId),
+          getProjectForecast(projectId)
+        ]);
+        setLatestRun(run);
+        setRunMetrics(metrics);
+        setForecast(projectForecast);
+      } catch (error) {
         toast({
           title: "Error",
-          description: error.message,
+          description: error instanceof Error ? error.message : 'Failed to load project',
           variant: "destructive",
         });
       } finally {
@@ -105,7 +193,89 @@ export default function ProjectAnalysis() {
     }
 
     fetchProjectDetails();
-  }, [projectId, router, toast]);
+  }, [projectId, router, toast, reloadKey]);
+
+  const branches = useMemo(
+    () => Array.from(new Set(runMetrics.map(run => run.branch).filter((branch): branch is string => Boolean(branch)))).sort(),
+    [runMetrics]
+  );
+  const trendPoints = useMemo(
+    () => filterByDateRange(
+      branchFilter ? runMetrics.filter(run => run.branch === branchFilter) : runMetrics,
+      dateFrom || undefined,
+      dateTo || undefined
+    ),
+    [runMetrics, branchFilter, dateFrom, dateTo]
+  );
+  const annotations = useMemo(
+    () => findMetricJumps(trendPoints, jumpThreshold, visibleMetrics),
+    [trendPoints, jumpThreshold, visibleMetrics]
+  );
+
+  // Queues a new analysis of the project's repository at the chosen branch, tag or commit
+  const handleReanalyze = async () => {
+    if (!project?.git_url) return;
+    setReanalyzing(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = project.provider === 'git' ? gitCredential.trim() || null : session?.provider_token;
+      if (!accessToken && project.provider !== 'git') {
+        throw new Error('Please sign in again to refresh your repository access');
+      }
+
+      const response = await fetch('/api/analyze', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(project.provider !== 'git' ? { 'Authorization': `Bearer ${accessToken}` } : {})
+        },
+        body: JSON.stringify({
+          projectId,
+          repoUrl: project.git_url,
+          provider: project.provider,
+          accessToken,
+          ref: analysisRef.trim() || null
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(typeof data.details === 'string' ? data.details : data.error || 'Failed to start analysis');
+      }
+
+      setProject({ ...project, status: 'analyzing', error_message: null });
+      let job: AnalysisJob;
+      do {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const jobResponse = await fetch(`/api/jobs/${data.jobId}`);
+        if (!jobResponse.ok) throw new Error('Failed to fetch analysis progress');
+        job = await jobResponse.json();
+      } while (job.status === 'queued' || job.status === 'running');
+
+      toast({
+        title: job.status === 'completed' ? "Analysis Complete" : "Analysis Failed",
+        description: job.status === 'completed'
+          ? `Analyzed ${analysisRef.trim() || 'the default branch'}.`
+          : job.error_message || `Analysis ${job.status}`,
+        variant: job.status === 'completed' ? "default" : "destructive",
+      });
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to start analysis',
+        variant: "destructive",
+      });
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  const toggleMetric = (metric: TrendMetric) => {
+    setVisibleMetrics(current =>
+      current.includes(metric) ? current.filter(m => m !== metric) : [...current, metric]
+    );
+  };
 
   if (loading) {
     return (
@@ -117,6 +287,31 @@ export default function ProjectAnalysis() {
 
   if (!project) return null;
 
+  const results = latestRun?.results;
+  const remediation = results?.remediation;
+  const formatCost = (minutes: number) => new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: project.currency || 'USD',
+    maximumFractionDigits: 0
+  }).format((minutes / 60) * (project.hourly_rate ?? 50));
+  // Owners are listed from the whole repository so the filters cannot hide each other's options
+  const allOwners = results ? buildOwnershipReport(results)?.owners.map(owner => owner.owner) ?? [] : [];
+  const ownership = results
+    ? buildOwnershipReport(results, { owner: ownerFilter || undefined, path: ownershipPath.trim() || undefined })
+    : null;
+  // Findings imported from other tools carry their own severity; runs stored before imports existed have none
+  const issues: Array<{ rule: string; message: string; file: string; line: number; tool?: string; severity?: Severity }> = results
+    ? [
+      ...results.maintainability.details.flatMap(detail => detail.issues.map(issue => ({ ...issue, file: detail.file }))),
+      ...(results.importedIssues || [])
+    ]
+    : [];
+  const categories = results?.overview.categories
+    ? (Object.keys(CATEGORY_LABELS) as Array<keyof typeof CATEGORY_LABELS>)
+      .map(category => ({ label: CATEGORY_LABELS[category], summary: results.overview.categories[category] }))
+      .filter(({ summary }) => summary.files > 0)
+    : [];
+
   return (
     <div className="min-h-screen bg-[#0A0A0B] text-white">
       <nav className="fixed top-0 w-full z-50 bg-[#0A0A0B]/80 backdrop-blur-md border-b border-gray-800">
@@ -137,14 +332,22 @@ export default function ProjectAnalysis() {
               project.status === 'failed' ? 'bg-red-500/20 text-red-400' :
               'bg-yellow-500/20 text-yellow-400'
             }`}>
-              {project.status.charAt(0).toUpperCase() + project.status.slice(1).replace('_', ' ')}
+              {project.status.charAt(0).toUpperCase() + project.status.slice(1)}
             </span>
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white ml-auto"
+              onClick={() => router.push(`/dashboard/${projectId}/settings`)}
+            >
+              <Settings className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
           </div>
         </div>
       </nav>
 
-      <main className="pt-24 pb-16 container mx-auto px-4">
-        {project.status === 'pending_analysis' && (
+      <main className="pt-24 pb-16 container mx-auto px-4 space-y-8">
+        {project.status === 'pending' && (
           <div className="p-6 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
             <div className="flex items-center space-x-3">
               <Loader2 className="h-5 w-5 text-yellow-500 animate-spin" />
@@ -166,112 +369,827 @@ export default function ProjectAnalysis() {
           <div className="p-6 bg-red-500/10 border border-red-500/20 rounded-lg">
             <div className="flex items-center space-x-3">
               <XCircle className="h-5 w-5 text-red-500" />
-              <p className="text-red-400">Analysis failed. Please try reimporting the project.</p>
+              <p className="text-red-400">
+                Analysis failed{project.error_message ? `: ${project.error_message}` : ''}. Please try reimporting the project.
+              </p>
             </div>
           </div>
         )}
 
-        {project.status === 'completed' && analysisResult && (
+        {project.git_url && project.provider !== 'email' && (
+          <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4">Analyze</h2>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="text-sm text-gray-400">
+                Branch, tag or commit
+                <Input
+                  list="analysis-refs"
+                  placeholder={project.default_branch || 'Default branch'}
+                  value={analysisRef}
+                  onChange={(e) => setAnalysisRef(e.target.value)}
+                  className="mt-1 w-72 border-gray-700"
+                />
+                <datalist id="analysis-refs">
+                  {branches.map(branch => <option key={branch} value={branch} />)}
+                </datalist>
+              </label>
+              {project.provider === 'git' && (
+                <label className="text-sm text-gray-400">
+                  Access token or deploy key
+                  <textarea
+                    value={gitCredential}
+                    onChange={(e) => setGitCredential(e.target.value)}
+                    rows={1}
+                    className="mt-1 block w-72 rounded-md border border-gray-700 bg-transparent px-3 py-2 text-sm font-mono"
+                  />
+                </label>
+              )}
+              <Button
+                className="bg-[#00FF94] text-black hover:bg-[#00FF94]/90"
+                onClick={handleReanalyze}
+                disabled={reanalyzing || project.status === 'analyzing'}
+              >
+                {reanalyzing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Re-analyze
+              </Button>
+            </div>
+          </section>
+        )}
+
+        {latestRun && results && (
           <div className="space-y-8">
-            {/* Code Quality Section */}
+            {/* Overview Section */}
             <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
-              <h2 className="text-xl font-semibold mb-4">Code Quality Analysis</h2>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold">Code Health</h2>
+                <span className="text-sm text-gray-400">
+                  Last analyzed {new Date(latestRun.created_at).toLocaleString()}
+                  {(latestRun.branch || latestRun.ref) && ` on ${latestRun.branch || latestRun.ref}`}
+                  {latestRun.commit_sha && ` at ${latestRun.commit_sha.slice(0, 7)}`}
+                  {latestRun.cache_hits !== null && latestRun.cache_hits > 0 &&
+                    ` · ${latestRun.cache_hits} of ${latestRun.cache_hits + (latestRun.cache_misses ?? 0)} files from cache`}
+                </span>
+              </div>
               <div className="flex items-center space-x-4 mb-6">
-                <div className="text-4xl font-bold text-green-400">{analysisResult.code_quality.score}%</div>
-                <div className="text-sm text-gray-400">Overall Code Quality Score</div>
+                <div className="text-4xl font-bold text-green-400">{results.overallScore}</div>
+                <div className="text-sm text-gray-400">
+                  Overall Score · {results.summary.healthStatus}
+                  <div className="text-xs text-gray-500">
+                    {latestRun.scoring_model_version ? `Scoring model v${latestRun.scoring_model_version}` : 'Default scoring model'}
+                  </div>
+                </div>
               </div>
-              
-              {analysisResult.code_quality.issues.length > 0 ? (
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Issues Found</h3>
-                  {analysisResult.code_quality.issues.map((issue, index) => (
-                    <div key={index} className="p-4 bg-gray-800/50 rounded border border-gray-700">
-                      <div className="flex items-start justify-between">
-                        <div>
-                          <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                            issue.severity === 'high' ? 'bg-red-500/20 text-red-400' :
-                            issue.severity === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
-                            'bg-blue-500/20 text-blue-400'
-                          }`}>
-                            {issue.severity.toUpperCase()}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                  <div className="text-sm text-gray-400">Files</div>
+                  <div className="text-2xl font-semibold">{results.overview.totalFiles}</div>
+                  <div className="text-xs text-gray-500">{results.overview.totalLines} lines · {results.overview.totalFunctions} functions</div>
+                </div>
+                <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                  <div className="text-sm text-gray-400">Complexity</div>
+                  <div className="text-2xl font-semibold">{results.summary.averageComplexity}</div>
+                </div>
+                <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                  <div className="text-sm text-gray-400">Maintainability</div>
+                  <div className="text-2xl font-semibold">{results.summary.maintainabilityIndex}</div>
+                </div>
+                <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                  <div className="text-sm text-gray-400">Duplication</div>
+                  <div className="text-2xl font-semibold">{results.summary.codeduplication}</div>
+                  <div className="text-xs text-gray-500">{results.duplication.instances.length} clones</div>
+                </div>
+              </div>
+            </section>
+
+            {/* Pull Request Section; only runs given a base ref are compared with one */}
+            {results.pullRequest && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold">Pull Request</h2>
+                  <span className="text-sm text-gray-400">
+                    {results.pullRequest.head.ref || 'Default branch'} against {results.pullRequest.base.ref} at {results.pullRequest.base.commitSha.slice(0, 7)}
+                  </span>
+                </div>
+                <div className={`flex items-center space-x-2 mb-4 ${results.pullRequest.gate.passed ? 'text-green-400' : 'text-red-400'}`}>
+                  {results.pullRequest.gate.passed ? <CheckCircle className="h-5 w-5" /> : <XCircle className="h-5 w-5" />}
+                  <span>Quality gate {results.pullRequest.gate.passed ? 'passed' : 'failed'}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Overall Score</div>
+                    <div className="text-2xl font-semibold">
+                      {results.pullRequest.overallScore.delta > 0 ? '+' : ''}{results.pullRequest.overallScore.delta}
+                    </div>
+                    <div className="text-xs text-gray-500">{results.pullRequest.overallScore.base} → {results.pullRequest.overallScore.head}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Debt Ratio</div>
+                    <div className="text-2xl font-semibold">
+                      {results.pullRequest.technicalDebtRatio.delta > 0 ? '+' : ''}{results.pullRequest.technicalDebtRatio.delta}%
+                    </div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">New Duplicates</div>
+                    <div className="text-2xl font-semibold">{results.pullRequest.newDuplicates.length}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">New Security Findings</div>
+                    <div className="text-2xl font-semibold">{results.pullRequest.newSecurityFindings.length}</div>
+                  </div>
+                </div>
+                {results.pullRequest.gate.checks.length > 0 && (
+                  <ul className="space-y-1 text-sm mb-6">
+                    {results.pullRequest.gate.checks.map(check => (
+                      <li key={check.rule} className={`flex items-center space-x-2 ${check.passed ? 'text-gray-400' : 'text-red-400'}`}>
+                        {check.passed ? <CheckCircle className="h-4 w-4 text-green-400" /> : <XCircle className="h-4 w-4" />}
+                        <span>{check.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {results.pullRequest.worsenedFiles.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-medium mb-2">Files That Got Worse</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-2 font-medium">File</th>
+                          <th className="py-2 font-medium">Complexity</th>
+                          <th className="py-2 font-medium">Maintainability</th>
+                          <th className="py-2 font-medium">Duplication</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.pullRequest.worsenedFiles.map(file => (
+                          <tr key={file.file} className="border-t border-gray-800">
+                            <td className="py-2 font-mono">{file.file}</td>
+                            <td className="py-2">{file.complexity!.base} → {file.complexity!.head}</td>
+                            <td className="py-2">{file.maintainability!.base} → {file.maintainability!.head}</td>
+                            <td className="py-2">{file.duplication!.base}% → {file.duplication!.head}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {results.pullRequest.complexFunctions.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium mb-2">Complex Functions</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-2 font-medium">Function</th>
+                          <th className="py-2 font-medium">Location</th>
+                          <th className="py-2 font-medium">Cognitive Complexity</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.pullRequest.complexFunctions.map(fn => (
+                          <tr key={`${fn.file}:${fn.name}:${fn.line}`} className="border-t border-gray-800">
+                            <td className="py-2 font-mono">{fn.name}</td>
+                            <td className="py-2 font-mono">{fn.file}:{fn.line}</td>
+                            <td className="py-2">{fn.baseCognitive === null ? `${fn.cognitive} (new)` : `${fn.baseCognitive} → ${fn.cognitive}`}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {(results.pullRequest.newDuplicates.length > 0 || results.pullRequest.newSecurityFindings.length > 0) && (
+                  <div className="mt-6">
+                    <h3 className="text-lg font-medium mb-2">New Findings</h3>
+                    <ul className="space-y-1 text-sm">
+                      {results.pullRequest.newSecurityFindings.map(finding => (
+                        <li key={`${finding.file}:${finding.line}:${finding.rule}`}>
+                          <span className={`inline-block px-2 py-0.5 mr-2 rounded text-xs font-medium capitalize ${SEVERITY_STYLES[finding.severity]}`}>
+                            {finding.severity}
                           </span>
-                          <p className="mt-2">{issue.message}</p>
-                          <p className="text-sm text-gray-400 mt-1">{issue.file}:{issue.line}</p>
-                        </div>
+                          <span className="font-mono">{finding.rule}</span>
+                          <span className="text-gray-400"> at {finding.file}:{finding.line}</span>
+                        </li>
+                      ))}
+                      {results.pullRequest.newDuplicates.map((instance, index) => (
+                        <li key={index}>
+                          {instance.lines} lines duplicated
+                          <span className="text-gray-400"> in {instance.first.file}:{instance.first.startLine} and {instance.second.file}:{instance.second.startLine}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Languages Section; runs stored before multi-language analysis have no breakdown */}
+            {results.overview.languages?.length > 0 && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Languages</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="py-2 font-medium">Language</th>
+                      <th className="py-2 font-medium">Files</th>
+                      <th className="py-2 font-medium">Lines</th>
+                      <th className="py-2 font-medium">Functions</th>
+                      <th className="py-2 font-medium">Complexity</th>
+                      <th className="py-2 font-medium">Maintainability</th>
+                      <th className="py-2 font-medium">Duplication</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.overview.languages.map(language => (
+                      <tr key={language.language} className="border-t border-gray-800">
+                        <td className="py-2">{LANGUAGE_LABELS[language.language] ?? language.language}</td>
+                        <td className="py-2">{language.files}</td>
+                        <td className="py-2">{language.lines}</td>
+                        <td className="py-2">{language.functions}</td>
+                        <td className="py-2">{language.complexity}</td>
+                        <td className="py-2">{language.maintainability}</td>
+                        <td className="py-2">{language.duplication.toFixed(2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {/* Test and generated code are scored apart from the figures above; older runs mixed them in */}
+            {categories.length > 0 && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Scored Separately</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="py-2 font-medium">Files</th>
+                      <th className="py-2 font-medium">Count</th>
+                      <th className="py-2 font-medium">Lines</th>
+                      <th className="py-2 font-medium">Functions</th>
+                      <th className="py-2 font-medium">Complexity</th>
+                      <th className="py-2 font-medium">Maintainability</th>
+                      <th className="py-2 font-medium">Duplication</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {categories.map(({ label, summary }) => (
+                      <tr key={label} className="border-t border-gray-800">
+                        <td className="py-2">{label}</td>
+                        <td className="py-2">{summary.files}</td>
+                        <td className="py-2">{summary.lines}</td>
+                        <td className="py-2">{summary.functions}</td>
+                        <td className="py-2">{summary.complexity}</td>
+                        <td className="py-2">{summary.maintainability}</td>
+                        <td className="py-2">{summary.duplication.toFixed(2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {/* Remediation Section; runs stored before effort estimates existed have none */}
+            {remediation && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Technical Debt</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Remediation effort</div>
+                    <div className="text-2xl font-semibold">{formatHours(remediation.totalMinutes)}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Estimated cost</div>
+                    <div className="text-2xl font-semibold">{formatCost(remediation.totalMinutes)}</div>
+                    <div className="text-xs text-gray-500">at {project.hourly_rate ?? 50} {project.currency || 'USD'} per hour</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Debt ratio</div>
+                    <div className="text-2xl font-semibold">{remediation.debtRatio.toFixed(2)}%</div>
+                    <div className="text-xs text-gray-500">of {formatHours(remediation.developmentMinutes)} estimated development time</div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-medium">By Finding Type</h3>
+                    {(Object.keys(REMEDIATION_LABELS) as RemediationKind[]).map(kind => (
+                      <div key={kind} className="flex justify-between text-sm">
+                        <span className="text-gray-400">{REMEDIATION_LABELS[kind]}</span>
+                        <span>{formatHours(remediation.byKind[kind])} · {formatCost(remediation.byKind[kind])}</span>
                       </div>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-medium">Costliest Files</h3>
+                    {remediation.byFile.slice(0, 5).map(file => (
+                      <div key={file.file} className="flex justify-between text-sm">
+                        <span className="text-gray-400 truncate mr-4">{file.file}</span>
+                        <span>{formatHours(file.minutes)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </section>
+            )}
+
+            {/* Trends Section */}
+            <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+              <h2 className="text-xl font-semibold mb-4">Trends</h2>
+              <div className="flex flex-wrap items-end gap-4 mb-6">
+                <label className="text-sm text-gray-400">
+                  From
+                  <Input type="date" value={dateFrom} max={dateTo || undefined} onChange={(e) => setDateFrom(e.target.value)} className="mt-1 border-gray-700" />
+                </label>
+                <label className="text-sm text-gray-400">
+                  To
+                  <Input type="date" value={dateTo} min={dateFrom || undefined} onChange={(e) => setDateTo(e.target.value)} className="mt-1 border-gray-700" />
+                </label>
+                <label className="text-sm text-gray-400">
+                  Annotate jumps over
+                  <Input
+                    type="number"
+                    min={1}
+                    value={jumpThreshold}
+                    onChange={(e) => setJumpThreshold(Number(e.target.value) || DEFAULT_JUMP_THRESHOLD)}
+                    className="mt-1 w-24 border-gray-700"
+                  />
+                </label>
+                {branches.length > 1 && (
+                  <label className="text-sm text-gray-400">
+                    Branch
+                    <select
+                      value={branchFilter}
+                      onChange={(e) => setBranchFilter(e.target.value)}
+                      className="mt-1 block h-9 rounded-md border border-gray-700 bg-transparent px-2 text-sm"
+                    >
+                      <option value="" className="bg-gray-900">All branches</option>
+                      {branches.map(branch => (
+                        <option key={branch} value={branch} className="bg-gray-900">{branch}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {(dateFrom || dateTo) && (
+                  <Button variant="ghost" className="text-gray-400 hover:text-white" onClick={() => { setDateFrom(''); setDateTo(''); }}>
+                    Clear range
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(Object.keys(TREND_METRICS) as TrendMetric[]).map(metric => (
+                  <button
+                    key={metric}
+                    onClick={() => toggleMetric(metric)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                      visibleMetrics.includes(metric) ? 'border-gray-600' : 'border-gray-800 opacity-40'
+                    }`}
+                    style={{ color: TREND_METRICS[metric].color }}
+                  >
+                    {TREND_METRICS[metric].label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Projections start from the latest run, so they only make sense without an end date */}
+              <TrendChart
+                points={trendPoints}
+                metrics={visibleMetrics}
+                annotations={annotations}
+                forecast={dateTo || branchFilter ? null : forecast}
+              />
+
+              {annotations.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="text-lg font-medium">Notable Changes</h3>
+                  {annotations.map(annotation => (
+                    <div key={`${annotation.runId}-${annotation.metric}`} className="flex items-center space-x-3 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+                      <span className="text-gray-400">{new Date(annotation.date).toLocaleDateString()}</span>
+                      {annotation.commitSha && <code className="text-gray-500">{annotation.commitSha.slice(0, 7)}</code>}
+                      <span>
+                        {TREND_METRICS[annotation.metric].label} {annotation.delta > 0 ? 'rose' : 'fell'} from {annotation.previous.toFixed(1)} to {annotation.value.toFixed(1)}
+                      </span>
                     </div>
                   ))}
                 </div>
-              ) : (
-                <div className="text-center text-gray-400 py-4">
-                  No code quality issues found
-                </div>
               )}
             </section>
 
-            {/* Security Section */}
+            {/* Forecast Section */}
+            {forecast && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Forecast</h2>
+                {Object.values(forecast.metrics).some(Boolean) ? (
+                  <div className="space-y-6">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-2 font-medium">Metric</th>
+                          <th className="py-2 font-medium">Now</th>
+                          {forecast.horizons.map(days => (
+                            <th key={days} className="py-2 font-medium">In {days} days</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(Object.keys(TREND_METRICS) as TrendMetric[]).map(metric => {
+                          const projection = forecast.metrics[metric];
+                          if (!projection) return null;
+                          return (
+                            <tr key={metric} className="border-t border-gray-800">
+                              <td className="py-2" style={{ color: TREND_METRICS[metric].color }}>{TREND_METRICS[metric].label}</td>
+                              <td className="py-2">{projection.current.toFixed(1)}</td>
+                              {projection.projections.map(point => (
+                                <td key={point.days} className="py-2">
+                                  {point.value.toFixed(1)}
+                                  <span className="text-gray-500 text-xs ml-1">({point.lower.toFixed(0)}–{point.upper.toFixed(0)})</span>
+                                </td>
+                              ))}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+
+                    {forecast.growingFiles.length > 0 && (
+                      <div className="space-y-2">
+                        <h3 className="text-lg font-medium">Fastest Growing Complexity</h3>
+                        {forecast.growingFiles.map(file => (
+                          <div key={file.file} className="flex items-center justify-between p-3 bg-gray-800/50 rounded border border-gray-700 text-sm">
+                            <span>{file.file}</span>
+                            <span className="text-gray-400">
+                              {file.current.toFixed(1)} now · +{(file.slopePerDay * 30).toFixed(1)} per month · {file.projected.toFixed(1)} in {Math.max(...forecast.horizons)} days
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center text-gray-400 py-4">
+                    At least three analysis runs are needed for a forecast
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Issues Section */}
             <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
-              <h2 className="text-xl font-semibold mb-4">Security Analysis</h2>
-              {analysisResult.security.vulnerabilities.length > 0 ? (
+              <h2 className="text-xl font-semibold mb-4">Issues</h2>
+              {issues.length > 0 ? (
                 <div className="space-y-4">
-                  {analysisResult.security.vulnerabilities.map((vuln, index) => (
+                  {issues.map((issue, index) => (
                     <div key={index} className="p-4 bg-gray-800/50 rounded border border-gray-700">
-                      <div className="flex items-start space-x-4">
-                        <AlertTriangle className={`h-5 w-5 flex-shrink-0 ${
-                          vuln.severity === 'critical' ? 'text-red-500' :
-                          vuln.severity === 'high' ? 'text-orange-500' :
-                          vuln.severity === 'medium' ? 'text-yellow-500' :
-                          'text-blue-500'
-                        }`} />
-                        <div>
-                          <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                            vuln.severity === 'critical' ? 'bg-red-500/20 text-red-400' :
-                            vuln.severity === 'high' ? 'bg-orange-500/20 text-orange-400' :
-                            vuln.severity === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
-                            'bg-blue-500/20 text-blue-400'
-                          }`}>
-                            {vuln.severity.toUpperCase()}
-                          </span>
-                          <p className="mt-2">{vuln.description}</p>
-                          <p className="text-sm text-gray-400 mt-1">{vuln.location}</p>
-                        </div>
-                      </div>
+                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${SEVERITY_STYLES[issue.severity ?? 'moderate']}`}>
+                        {issue.rule}
+                      </span>
+                      {issue.tool && <span className="ml-2 text-xs text-gray-500">{issue.tool}</span>}
+                      <p className="mt-2">{issue.message}</p>
+                      <p className="text-sm text-gray-400 mt-1">{issue.file}:{issue.line}</p>
                     </div>
                   ))}
                 </div>
               ) : (
                 <div className="flex items-center justify-center space-x-2 text-green-400 py-4">
                   <CheckCircle className="h-5 w-5" />
-                  <span>No security vulnerabilities found</span>
+                  <span>No issues found</span>
                 </div>
               )}
             </section>
 
-            {/* Performance Section */}
+            {/* Duplication Section */}
             <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
-              <h2 className="text-xl font-semibold mb-4">Performance Analysis</h2>
-              <div className="flex items-center space-x-4 mb-6">
-                <div className="text-4xl font-bold text-green-400">{analysisResult.performance.score}%</div>
-                <div className="text-sm text-gray-400">Performance Score</div>
-              </div>
-              
-              {analysisResult.performance.suggestions.length > 0 && (
+              <h2 className="text-xl font-semibold mb-4">Duplicated Code</h2>
+              {results.duplication.instances.length > 0 ? (
                 <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Optimization Suggestions</h3>
-                  <ul className="space-y-2">
-                    {analysisResult.performance.suggestions.map((suggestion, index) => (
-                      <li key={index} className="flex items-start space-x-2">
-                        <span className="text-gray-400">•</span>
-                        <span>{suggestion}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {results.duplication.instances.map((instance, index) => (
+                    <div key={index} className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                      <p>{instance.lines} lines duplicated</p>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {instance.first.file}:{instance.first.startLine}-{instance.first.endLine} and {instance.second.file}:{instance.second.startLine}-{instance.second.endLine}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex items-center justify-center space-x-2 text-green-400 py-4">
+                  <CheckCircle className="h-5 w-5" />
+                  <span>No duplicated code found</span>
                 </div>
               )}
             </section>
+
+            {/* Hotspots Section; only repositories have history, and older runs did not read it */}
+            {results.history && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold">Hotspots</h2>
+                  <span className="text-sm text-gray-400">
+                    {results.history.commits} commits by {results.history.authors} authors since {new Date(results.history.since).toLocaleDateString()}
+                  </span>
+                </div>
+                {results.history.hotspots.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        {HOTSPOT_COLUMNS.map(column => (
+                          <th key={column.key} className="py-2 font-medium">
+                            <button
+                              type="button"
+                              className="inline-flex items-center gap-1 hover:text-white"
+                              onClick={() => setHotspotSort(current => ({
+                                key: column.key,
+                                // Numbers start with the largest, file names from A
+                                descending: current.key === column.key ? !current.descending : column.key !== 'file'
+                              }))}
+                            >
+                              {column.label}
+                              {hotspotSort.key === column.key && (hotspotSort.descending
+                                ? <ArrowDown className="h-3 w-3" />
+                                : <ArrowUp className="h-3 w-3" />)}
+                            </button>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sortHotspots(results.history.hotspots, hotspotSort.key, hotspotSort.descending).map(hotspot => (
+                        <tr key={hotspot.file} className="border-t border-gray-800">
+                          <td className="py-2 font-mono">{hotspot.file}</td>
+                          <td className="py-2">{hotspot.score}</td>
+                          <td className="py-2">{hotspot.commits}</td>
+                          <td className="py-2">{hotspot.churn}</td>
+                          <td className="py-2">{hotspot.authors}</td>
+                          <td className="py-2">{hotspot.complexity}</td>
+                          <td className="py-2">{new Date(hotspot.lastChanged).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="flex items-center justify-center space-x-2 text-green-400 py-4">
+                    <CheckCircle className="h-5 w-5" />
+                    <span>No complex files changed in this period</span>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Ownership Section; only repositories with ownership turned on are blamed */}
+            {ownership && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold">Ownership</h2>
+                  <span className="text-sm text-gray-400">
+                    {ownership.codeowners ? `Owners from ${ownership.codeowners}` : 'No CODEOWNERS file; files belong to their main author'}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-end gap-4 mb-6">
+                  <label className="text-sm text-gray-400">
+                    Owner
+                    <select
+                      value={ownerFilter}
+                      onChange={(e) => setOwnerFilter(e.target.value)}
+                      className="mt-1 block h-9 rounded-md border border-gray-700 bg-transparent px-2 text-sm"
+                    >
+                      <option value="" className="bg-gray-900">All owners</option>
+                      {allOwners.map(owner => (
+                        <option key={owner} value={owner} className="bg-gray-900">{owner}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-400">
+                    Directory
+                    <Input
+                      value={ownershipPath}
+                      onChange={(e) => setOwnershipPath(e.target.value)}
+                      placeholder="/src/lib"
+                      className="mt-1 w-56 border-gray-700"
+                    />
+                  </label>
+                </div>
+                {ownership.files.length > 0 ? (
+                  <>
+                    <h3 className="text-lg font-medium mb-2">Debt by Owner</h3>
+                    <table className="w-full text-sm mb-6">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-2 font-medium">Owner</th>
+                          <th className="py-2 font-medium">Files</th>
+                          <th className="py-2 font-medium">Remediation</th>
+                          <th className="py-2 font-medium">Debt ratio</th>
+                          <th className="py-2 font-medium">Complexity</th>
+                          <th className="py-2 font-medium">Maintainability</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ownership.owners.map(owner => (
+                          <tr key={owner.owner} className="border-t border-gray-800">
+                            <td className="py-2 font-mono">
+                              {owner.owner}
+                              {owner.source === 'blame' && <span className="ml-2 text-xs text-gray-500">author</span>}
+                            </td>
+                            <td className="py-2">{owner.files}</td>
+                            <td className="py-2">{formatHours(owner.remediationMinutes)} · {formatCost(owner.remediationMinutes)}</td>
+                            <td className="py-2">{owner.debtRatio.toFixed(2)}%</td>
+                            <td className="py-2">{owner.complexity}</td>
+                            <td className="py-2">{owner.maintainability}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <h3 className="text-lg font-medium mb-2">Bus Factor by Directory</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-2 font-medium">Directory</th>
+                          <th className="py-2 font-medium">Files</th>
+                          <th className="py-2 font-medium">Bus factor</th>
+                          <th className="py-2 font-medium">Main authors</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ownership.directories.map(directory => (
+                          <tr key={directory.path} className="border-t border-gray-800">
+                            <td className="py-2 font-mono">{directory.path}</td>
+                            <td className="py-2">{directory.files}</td>
+                            <td className={`py-2 ${directory.busFactor <= 1 ? 'text-red-400' : ''}`}>{directory.busFactor}</td>
+                            <td className="py-2 text-gray-400">
+                              {directory.topAuthors.map(author => `${author.author} (${author.share}%)`).join(', ')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                ) : (
+                  <p className="text-gray-400">No files match these filters</p>
+                )}
+              </section>
+            )}
+
+            {/* Dependencies Section; missing for repositories without a package.json and for older runs */}
+            {results.dependencies && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Dependencies</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Dependency health</div>
+                    <div className="text-2xl font-semibold">{results.dependencies.score}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Direct</div>
+                    <div className="text-2xl font-semibold">{results.dependencies.direct}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Transitive</div>
+                    <div className="text-2xl font-semibold">{results.dependencies.transitive ?? 'No lockfile'}</div>
+                  </div>
+                  <div className="p-4 bg-gray-800/50 rounded border border-gray-700">
+                    <div className="text-sm text-gray-400">Duplicated packages</div>
+                    <div className="text-2xl font-semibold">{results.dependencies.duplicates.length}</div>
+                  </div>
+                </div>
+                {results.dependencies.findings.length > 0 && (
+                  <table className="w-full text-sm mb-6">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="py-2 font-medium">Finding</th>
+                        <th className="py-2 font-medium">Severity</th>
+                        <th className="py-2 font-medium">Package</th>
+                        <th className="py-2 font-medium">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.dependencies.findings.map((finding, index) => (
+                        <tr key={index} className="border-t border-gray-800">
+                          <td className="py-2">{FINDING_LABELS[finding.kind] ?? finding.kind}</td>
+                          <td className="py-2 capitalize">{finding.severity}</td>
+                          <td className="py-2 font-mono">{finding.version ? `${finding.package}@${finding.version}` : finding.package}</td>
+                          <td className="py-2 text-gray-400">{finding.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="py-2 font-medium">Package</th>
+                      <th className="py-2 font-medium">Range</th>
+                      <th className="py-2 font-medium">Installed</th>
+                      <th className="py-2 font-medium">Latest</th>
+                      <th className="py-2 font-medium">Behind</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.dependencies.packages.map(pkg => (
+                      <tr key={pkg.name} className="border-t border-gray-800">
+                        <td className="py-2 font-mono">
+                          {pkg.name}
+                          {pkg.dev && <span className="ml-2 text-xs text-gray-500">dev</span>}
+                        </td>
+                        <td className="py-2 font-mono text-gray-400">{pkg.range}</td>
+                        <td className="py-2">{pkg.installed ?? '—'}</td>
+                        <td className="py-2">{pkg.latest ?? '—'}</td>
+                        <td className="py-2">{formatLag(pkg.lag)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {/* Security Section; runs stored before the security scan have none */}
+            {results.security && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold">Security</h2>
+                  {results.security.suppressed > 0 && (
+                    <span className="text-sm text-gray-400">{results.security.suppressed} suppressed</span>
+                  )}
+                </div>
+                {results.security.vulnerabilities.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="py-2 font-medium">Severity</th>
+                        <th className="py-2 font-medium">Rule</th>
+                        <th className="py-2 font-medium">Location</th>
+                        <th className="py-2 font-medium">Code</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.security.vulnerabilities.map(vulnerability => (
+                        <tr key={`${vulnerability.file}:${vulnerability.line}:${vulnerability.rule}`} className="border-t border-gray-800 align-top">
+                          <td className="py-2">
+                            <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${SEVERITY_STYLES[vulnerability.severity]}`}>
+                              {vulnerability.severity}
+                            </span>
+                          </td>
+                          <td className="py-2">
+                            <div className="font-mono">{vulnerability.rule}</div>
+                            <div className="text-gray-400">{vulnerability.message}</div>
+                          </td>
+                          <td className="py-2 font-mono">{vulnerability.file}:{vulnerability.line}</td>
+                          <td className="py-2 font-mono text-gray-400 break-all">{vulnerability.snippet}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="flex items-center justify-center space-x-2 text-green-400 py-4">
+                    <CheckCircle className="h-5 w-5" />
+                    <span>No security findings</span>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Skipped Files Section; runs stored before skip tracking have no list */}
+            {results.skipped?.length > 0 && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Skipped Files</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="py-2 font-medium">File</th>
+                      <th className="py-2 font-medium">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.skipped.map(skipped => (
+                      <tr key={skipped.file} className="border-t border-gray-800">
+                        <td className="py-2 font-mono">{skipped.file}</td>
+                        <td className="py-2 text-gray-400">
+                          {SKIP_REASON_LABELS[skipped.reason] ?? skipped.reason}: {skipped.message}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {/* Recommendations Section */}
+            {results.recommendations.length > 0 && (
+              <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <h2 className="text-xl font-semibold mb-4">Recommendations</h2>
+                <ul className="space-y-2">
+                  {results.recommendations.map((recommendation, index) => (
+                    <li key={index} className="flex items-start space-x-2">
+                      <span className="text-gray-400">•</span>
+                      <span>{recommendation}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
           </div>
         )}
+
+        {!latestRun && project.status === 'completed' && (
+          <div className="text-center text-gray-400 py-12">No analysis runs recorded for this project yet</div>
+        )}
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
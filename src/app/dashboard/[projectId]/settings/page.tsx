@@ -0,0 +1,805 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import type { ProjectSettings } from '@/lib/projectSettings';
+import type { ProjectWebhookStatus, ProjectWebhookUpdate } from '@/lib/webhooks';
+import type { ProjectApiToken } from '@/lib/apiTokens';
+import type { AnalysisConfigInput, PathThreshold } from '@/lib/analysisConfig';
+import type { MaintainabilityLimits } from '@/lib/maintainability';
+import { SCORE_METRICS } from '@/lib/scoring';
+import { SECURITY_RULE_IDS } from '@/lib/security';
+import type { SecuritySuppression } from '@/lib/security';
+import { DEFAULT_QUALITY_GATE, QUALITY_GATE_RULES } from '@/lib/delta';
+import type { QualityGate } from '@/lib/delta';
+import type { HealthBand, NormalizationCurve, ScoreMetric, ScoringModel } from '@/lib/scoring';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowLeft, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const METRIC_LABELS: Record<ScoreMetric, string> = {
+  complexity: 'Complexity',
+  maintainability: 'Maintainability',
+  duplication: 'Duplication %',
+  dependencies: 'Dependency health'
+};
+
+const PATTERN_FIELDS = [
+  { key: 'include', label: 'Include', hint: 'Only these paths are analyzed; leave empty for everything' },
+  { key: 'exclude', label: 'Exclude', hint: 'Added to node_modules, vendor, build output and minified files' },
+  { key: 'tests', label: 'Test files', hint: 'Added to the usual test folders and *.test.* / *_test.* names' },
+  { key: 'generated', label: 'Generated files', hint: 'Added to generated folders and files with a generated header' }
+] as const;
+
+type PatternField = (typeof PATTERN_FIELDS)[number]['key'];
+
+const LIMIT_LABELS: Record<keyof MaintainabilityLimits, string> = {
+  parameters: 'Parameters',
+  nestingDepth: 'Nesting',
+  functionLogicalLines: 'Function lines',
+  functionCyclomatic: 'Function cyclomatic',
+  fileLogicalLines: 'File lines'
+};
+
+const LIMIT_KEYS = Object.keys(LIMIT_LABELS) as Array<keyof MaintainabilityLimits>;
+
+const GATE_LABELS: Record<keyof QualityGate, string> = {
+  maxFunctionComplexity: 'Cognitive complexity of new or changed functions',
+  maxScoreDrop: 'Overall score drop (points)',
+  maxNewDuplicates: 'New duplicated blocks',
+  maxNewSecurityFindings: 'New security findings',
+  maxWorsenedFiles: 'Files that got worse'
+};
+
+// 32 random bytes as hex, for pasting into the repository's webhook settings
+function generateSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Patterns are edited one per line
+function toPatternText(config: AnalysisConfigInput): Record<PatternField, string> {
+  return {
+    include: (config.include || []).join('\n'),
+    exclude: (config.exclude || []).join('\n'),
+    tests: (config.tests || []).join('\n'),
+    generated: (config.generated || []).join('\n')
+  };
+}
+
+function toPatternList(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export default function ProjectSettingsPage() {
+  const router = useRouter();
+  const { projectId } = useParams<{ projectId: string }>();
+  const { toast } = useToast();
+  const [runRetention, setRunRetention] = useState(50);
+  const [hourlyRate, setHourlyRate] = useState(50);
+  const [currency, setCurrency] = useState('USD');
+  const [model, setModel] = useState<ScoringModel | null>(null);
+  const [savedModel, setSavedModel] = useState<ScoringModel | null>(null);
+  const [patterns, setPatterns] = useState<Record<PatternField, string>>(toPatternText({}));
+  const [gitignore, setGitignore] = useState(true);
+  const [ownership, setOwnership] = useState(false);
+  const [thresholds, setThresholds] = useState<PathThreshold[]>([]);
+  const [suppressions, setSuppressions] = useState<SecuritySuppression[]>([]);
+  const [gate, setGate] = useState<Partial<QualityGate>>({});
+  const [webhook, setWebhook] = useState<ProjectWebhookStatus>({ enabled: false, hasAccessToken: false });
+  // Stored secrets are never sent back, so these only hold a replacement being typed in
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [webhookToken, setWebhookToken] = useState('');
+  const [removeWebhook, setRemoveWebhook] = useState(false);
+  const [apiTokens, setApiTokens] = useState<ProjectApiToken[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  // Only shown until the page is left; the server keeps a hash
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          router.push('/auth/signin');
+          return;
+        }
+
+        const response = await fetch(`/api/projects/${projectId}/settings`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || 'Failed to load settings');
+        }
+
+        const settings = data as ProjectSettings;
+        setRunRetention(settings.runRetention);
+        setHourlyRate(settings.hourlyRate);
+        setCurrency(settings.currency);
+        setModel(settings.scoringModel);
+        setSavedModel(settings.scoringModel);
+        applyAnalysisConfig(settings.analysisConfig);
+        setWebhook(settings.webhook);
+
+        const tokensResponse = await fetch(`/api/projects/${projectId}/tokens`);
+        const tokensData = await tokensResponse.json();
+        if (!tokensResponse.ok) {
+          throw new Error(tokensData.details || tokensData.error || 'Failed to load API tokens');
+        }
+        setApiTokens(tokensData.tokens);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : 'Failed to load settings',
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSettings();
+  }, [projectId, router, toast]);
+
+  const applyAnalysisConfig = (config: AnalysisConfigInput) => {
+    setPatterns(toPatternText(config));
+    setGitignore(config.gitignore ?? true);
+    setOwnership(config.ownership ?? false);
+    setThresholds(config.thresholds || []);
+    setSuppressions(config.suppressions || []);
+    setGate(config.gate || {});
+  };
+
+  const updateThreshold = (index: number, changes: Partial<PathThreshold>) => {
+    setThresholds(current => current.map((threshold, i) => (i === index ? { ...threshold, ...changes } : threshold)));
+  };
+
+  const updateLimit = (index: number, limit: keyof MaintainabilityLimits, value: string) => {
+    setThresholds(current => current.map((threshold, i) => {
+      if (i !== index) return threshold;
+      // A blank limit falls back to the default
+      const next = { ...threshold };
+      delete next[limit];
+      return value === '' ? next : { ...next, [limit]: Number(value) };
+    }));
+  };
+
+  // A blank limit falls back to the default; unchecking a rule stores null, which turns it off
+  const updateGate = (rule: keyof QualityGate, value: string | null) => {
+    setGate(current => {
+      const next = { ...current };
+      delete next[rule];
+      if (value === null) return { ...next, [rule]: null };
+      return value === '' ? next : { ...next, [rule]: Number(value) };
+    });
+  };
+
+  const updateSuppression = (index: number, changes: Partial<SecuritySuppression>) => {
+    setSuppressions(current => current.map((suppression, i) => {
+      if (i !== index) return suppression;
+      const next = { ...suppression, ...changes };
+      // A blank path applies the suppression to every file
+      if (!next.path) delete next.path;
+      return next;
+    }));
+  };
+
+  const updateMetric = <K extends 'weights' | 'thresholds'>(field: K, metric: ScoreMetric, value: number) => {
+    setModel(current => current && { ...current, [field]: { ...current[field], [metric]: value } });
+  };
+
+  const updateNormalization = (metric: ScoreMetric, changes: Partial<ScoringModel['normalization'][ScoreMetric]>) => {
+    setModel(current => current && {
+      ...current,
+      normalization: { ...current.normalization, [metric]: { ...current.normalization[metric], ...changes } }
+    });
+  };
+
+  const updateBand = (index: number, changes: Partial<HealthBand>) => {
+    setModel(current => current && {
+      ...current,
+      bands: current.bands.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    });
+  };
+
+  const handleSave = async () => {
+    if (!model) return;
+    setSaving(true);
+
+    try {
+      const { version, ...scoringModel } = model;
+      // Every saved model gets a new version, so an unchanged one is not sent
+      const modelChanged = JSON.stringify(model) !== JSON.stringify(savedModel);
+      const analysisConfig: AnalysisConfigInput = {
+        include: toPatternList(patterns.include),
+        exclude: toPatternList(patterns.exclude),
+        tests: toPatternList(patterns.tests),
+        generated: toPatternList(patterns.generated),
+        gitignore,
+        ownership,
+        thresholds,
+        suppressions,
+        gate
+      };
+      // Left out unless a new secret was entered or removal was asked for, so saving keeps the current webhook
+      const webhookUpdate: ProjectWebhookUpdate | null | undefined = removeWebhook
+        ? null
+        : webhookSecret ? { secret: webhookSecret, accessToken: webhookToken.trim() || null } : undefined;
+      const response = await fetch(`/api/projects/${projectId}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          runRetention,
+          hourlyRate,
+          currency,
+          analysisConfig,
+          ...(webhookUpdate !== undefined ? { webhook: webhookUpdate } : {}),
+          ...(modelChanged ? { scoringModel } : {})
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.details) ? data.details.join('; ') : data.details;
+        throw new Error(details || data.error || 'Failed to save settings');
+      }
+
+      const settings = data as ProjectSettings;
+      setRunRetention(settings.runRetention);
+      setHourlyRate(settings.hourlyRate);
+      setCurrency(settings.currency);
+      setModel(settings.scoringModel);
+      setSavedModel(settings.scoringModel);
+      applyAnalysisConfig(settings.analysisConfig);
+      setWebhook(settings.webhook);
+      setWebhookSecret('');
+      setWebhookToken('');
+      setRemoveWebhook(false);
+      toast({
+        title: "Settings saved",
+        description: settings.scoringModel.version !== version
+          ? `Scoring model v${settings.scoringModel.version} saved. Re-score stored runs to apply it to history.`
+          : 'Project settings updated.',
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRescore = async () => {
+    setRescoring(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/rescore`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to re-score runs');
+      }
+
+      toast({
+        title: "Runs re-scored",
+        description: `${data.rescored} run(s) re-scored with model v${data.scoringModelVersion}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to re-score runs',
+        variant: "destructive",
+      });
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  const handleCreateToken = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: tokenName })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to create API token');
+      }
+
+      const { token, ...created } = data;
+      setApiTokens(current => [created as ProjectApiToken, ...current]);
+      setCreatedToken(token);
+      setTokenName('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to create API token',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteToken = async (tokenId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/tokens/${tokenId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to delete API token');
+      }
+
+      setApiTokens(current => current.filter(token => token.id !== tokenId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to delete API token',
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0A0A0B] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-[#00FF94]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0A0A0B] text-white">
+      <nav className="fixed top-0 w-full z-50 bg-[#0A0A0B]/80 backdrop-blur-md border-b border-gray-800">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white"
+              onClick={() => router.push(`/dashboard/${projectId}`)}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Project
+            </Button>
+            <h1 className="text-xl font-semibold">Project Settings</h1>
+          </div>
+        </div>
+      </nav>
+
+      <main className="pt-24 pb-16 container mx-auto px-4 space-y-8">
+        <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+          <h2 className="text-xl font-semibold mb-4">History</h2>
+          <label className="text-sm text-gray-400">
+            Analysis runs to keep
+            <Input
+              type="number"
+              min={1}
+              value={runRetention}
+              onChange={(e) => setRunRetention(Number(e.target.value))}
+              className="mt-1 w-32 border-gray-700"
+            />
+          </label>
+        </section>
+
+        <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+          <h2 className="text-xl font-semibold mb-4">Remediation Cost</h2>
+          <div className="flex flex-wrap gap-4">
+            <label className="text-sm text-gray-400">
+              Hourly rate
+              <Input
+                type="number"
+                min={0}
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(Number(e.target.value))}
+                className="mt-1 w-32 border-gray-700"
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Currency
+              <Input
+                value={currency}
+                maxLength={3}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                className="mt-1 w-24 border-gray-700"
+              />
+            </label>
+          </div>
+        </section>
+
+        <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Webhook</h2>
+            <span className="text-sm text-gray-400">
+              {webhook.enabled
+                ? `Enabled${webhook.hasAccessToken ? ', cloning with a token' : ', cloning anonymously'}`
+                : 'Not set up'}
+            </span>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            Analyzes every push and pull request. Point a push and pull request webhook at
+            <span className="font-mono text-gray-300"> /api/webhooks/github </span>
+            or a push and merge request webhook at
+            <span className="font-mono text-gray-300"> /api/webhooks/gitlab </span>
+            on this site, with the same secret as below.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-400">
+              {webhook.enabled ? 'New secret' : 'Secret'}
+              <div className="flex items-center space-x-2 mt-1">
+                <Input
+                  value={webhookSecret}
+                  onChange={(e) => setWebhookSecret(e.target.value)}
+                  className="w-96 font-mono border-gray-700"
+                />
+                <Button variant="outline" className="border-gray-700" onClick={() => setWebhookSecret(generateSecret())}>
+                  Generate
+                </Button>
+              </div>
+            </label>
+            <label className="text-sm text-gray-400">
+              Access token
+              <Input
+                type="password"
+                value={webhookToken}
+                placeholder="Only for private repositories"
+                onChange={(e) => setWebhookToken(e.target.value)}
+                className="mt-1 w-64 border-gray-700"
+              />
+            </label>
+            {webhook.enabled && (
+              <label className="flex items-center space-x-2 text-sm text-gray-400 pb-2">
+                <input type="checkbox" checked={removeWebhook} onChange={(e) => setRemoveWebhook(e.target.checked)} />
+                <span>Remove webhook</span>
+              </label>
+            )}
+          </div>
+        </section>
+
+        <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg">
+          <h2 className="text-xl font-semibold mb-4">API Tokens</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            Lets the command-line analyzer upload runs from CI. Run
+            <span className="font-mono text-gray-300"> t3kdet --upload &lt;this site&gt; --project {projectId} </span>
+            with the token in the T3KDET_TOKEN environment variable.
+          </p>
+          {createdToken && (
+            <div className="mb-4 p-3 rounded-md border border-[#00FF94]/40 bg-[#00FF94]/5 text-sm">
+              <p className="text-gray-300 mb-1">Copy the token now; it is not shown again.</p>
+              <p className="font-mono text-white break-all">{createdToken}</p>
+            </div>
+          )}
+          {apiTokens.length > 0 && (
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="pb-2 font-normal">Name</th>
+                  <th className="pb-2 font-normal">Created</th>
+                  <th className="pb-2 font-normal">Last used</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {apiTokens.map(token => (
+                  <tr key={token.id} className="border-t border-gray-800">
+                    <td className="py-2">{token.name}</td>
+                    <td className="py-2 text-gray-400">{new Date(token.created_at).toLocaleDateString()}</td>
+                    <td className="py-2 text-gray-400">
+                      {token.last_used_at ? new Date(token.last_used_at).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        className="text-gray-400 hover:text-red-400"
+                        onClick={() => handleDeleteToken(token.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="flex items-end space-x-2">
+            <label className="text-sm text-gray-400">
+              Name
+              <Input
+                value={tokenName}
+                placeholder="e.g. GitHub Actions"
+                onChange={(e) => setTokenName(e.target.value)}
+                className="mt-1 w-64 border-gray-700"
+              />
+            </label>
+            <Button variant="outline" className="border-gray-700" disabled={!tokenName.trim()} onClick={handleCreateToken}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create token
+            </Button>
+          </div>
+        </section>
+
+        <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold">Analysis Scope</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Gitignore-style patterns, one per line. A .t3kdet.yml in the repository root overrides these settings.
+              Test and generated files are scored separately from the rest of the code.
+            </p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {PATTERN_FIELDS.map(field => (
+              <label key={field.key} className="text-sm text-gray-400">
+                {field.label}
+                <textarea
+                  value={patterns[field.key]}
+                  onChange={(e) => setPatterns({ ...patterns, [field.key]: e.target.value })}
+                  rows={4}
+                  spellCheck={false}
+                  className="mt-1 w-full rounded-md border border-gray-700 bg-transparent px-3 py-2 font-mono text-sm text-white"
+                />
+                <span className="text-xs text-gray-500">{field.hint}</span>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <input type="checkbox" checked={gitignore} onChange={(e) => setGitignore(e.target.checked)} />
+            <span>Skip files listed in .gitignore</span>
+          </label>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <input type="checkbox" checked={ownership} onChange={(e) => setOwnership(e.target.checked)} />
+            <span>Report code ownership from git blame (fetches the full history, which slows down large repositories)</span>
+          </label>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Path Thresholds</h3>
+            <p className="text-sm text-gray-400">Maintainability limits for matching paths; later rows win, blank cells keep the default.</p>
+            {thresholds.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="py-2 font-medium">Path</th>
+                    {LIMIT_KEYS.map(limit => (
+                      <th key={limit} className="py-2 font-medium">{LIMIT_LABELS[limit]}</th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {thresholds.map((threshold, index) => (
+                    <tr key={index} className="border-t border-gray-800">
+                      <td className="py-2 pr-2">
+                        <Input value={threshold.path} onChange={(e) => updateThreshold(index, { path: e.target.value })}
+                          className="w-48 border-gray-700 font-mono" />
+                      </td>
+                      {LIMIT_KEYS.map(limit => (
+                        <td key={limit} className="py-2 pr-2">
+                          <Input type="number" min={1} value={threshold[limit] ?? ''}
+                            onChange={(e) => updateLimit(index, limit, e.target.value)} className="w-24 border-gray-700" />
+                        </td>
+                      ))}
+                      <td className="py-2">
+                        <Button
+                          variant="ghost"
+                          className="text-gray-400 hover:text-red-400"
+                          onClick={() => setThresholds(thresholds.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white"
+              onClick={() => setThresholds([...thresholds, { path: '' }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add threshold
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Security Suppressions</h3>
+            <p className="text-sm text-gray-400">
+              Security rules to ignore for matching paths, or everywhere when the path is blank. A single line can be
+              silenced with a t3kdet-ignore comment.
+            </p>
+            {suppressions.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="py-2 font-medium">Rule</th>
+                    <th className="py-2 font-medium">Path</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppressions.map((suppression, index) => (
+                    <tr key={index} className="border-t border-gray-800">
+                      <td className="py-2 pr-2">
+                        <select
+                          value={suppression.rule}
+                          onChange={(e) => updateSuppression(index, { rule: e.target.value })}
+                          className="h-9 rounded-md border border-gray-700 bg-transparent px-2 text-sm font-mono"
+                        >
+                          <option value="*" className="bg-gray-900">All rules</option>
+                          {SECURITY_RULE_IDS.map(rule => (
+                            <option key={rule} value={rule} className="bg-gray-900">{rule}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Input value={suppression.path ?? ''} onChange={(e) => updateSuppression(index, { path: e.target.value })}
+                          placeholder="All files" className="w-64 border-gray-700 font-mono" />
+                      </td>
+                      <td className="py-2">
+                        <Button
+                          variant="ghost"
+                          className="text-gray-400 hover:text-red-400"
+                          onClick={() => setSuppressions(suppressions.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white"
+              onClick={() => setSuppressions([...suppressions, { rule: SECURITY_RULE_IDS[0] }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add suppression
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Pull Request Gate</h3>
+            <p className="text-sm text-gray-400">
+              Limits a pull request analysis is checked against, compared with its merge base. Blank fields keep the default.
+            </p>
+            <table className="w-full text-sm">
+              <tbody>
+                {QUALITY_GATE_RULES.map(rule => {
+                  const limit = rule in gate ? gate[rule] : DEFAULT_QUALITY_GATE[rule];
+                  return (
+                    <tr key={rule} className="border-t border-gray-800">
+                      <td className="py-2 pr-2">
+                        <label className="flex items-center space-x-2 text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={limit !== null}
+                            onChange={(e) => updateGate(rule, e.target.checked ? String(DEFAULT_QUALITY_GATE[rule] ?? 0) : null)}
+                          />
+                          <span>{GATE_LABELS[rule]}</span>
+                        </label>
+                      </td>
+                      <td className="py-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          disabled={limit === null}
+                          value={gate[rule] ?? ''}
+                          placeholder={limit === null ? 'Off' : String(DEFAULT_QUALITY_GATE[rule] ?? '')}
+                          onChange={(e) => updateGate(rule, e.target.value)}
+                          className="w-24 border-gray-700"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {model && (
+          <section className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Scoring Model</h2>
+              <span className="text-sm text-gray-400">
+                {model.builtIn ? 'Built-in default' : `Version ${model.version}`}
+              </span>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2 font-medium">Metric</th>
+                  <th className="py-2 font-medium">Weight</th>
+                  <th className="py-2 font-medium">Curve</th>
+                  <th className="py-2 font-medium">Best</th>
+                  <th className="py-2 font-medium">Worst</th>
+                  <th className="py-2 font-medium">Recommend past</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SCORE_METRICS.map(metric => (
+                  <tr key={metric} className="border-t border-gray-800">
+                    <td className="py-2">{METRIC_LABELS[metric]}</td>
+                    <td className="py-2 pr-2">
+                      <Input type="number" min={0} step={0.1} value={model.weights[metric]}
+                        onChange={(e) => updateMetric('weights', metric, Number(e.target.value))} className="w-24 border-gray-700" />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <select
+                        value={model.normalization[metric].curve}
+                        onChange={(e) => updateNormalization(metric, { curve: e.target.value as NormalizationCurve })}
+                        className="h-9 rounded-md border border-gray-700 bg-transparent px-2 text-sm"
+                      >
+                        <option value="linear" className="bg-gray-900">Linear</option>
+                        <option value="logarithmic" className="bg-gray-900">Logarithmic (forgiving)</option>
+                        <option value="exponential" className="bg-gray-900">Exponential (strict)</option>
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <Input type="number" value={model.normalization[metric].best}
+                        onChange={(e) => updateNormalization(metric, { best: Number(e.target.value) })} className="w-24 border-gray-700" />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <Input type="number" value={model.normalization[metric].worst}
+                        onChange={(e) => updateNormalization(metric, { worst: Number(e.target.value) })} className="w-24 border-gray-700" />
+                    </td>
+                    <td className="py-2">
+                      <Input type="number" value={model.thresholds[metric]}
+                        onChange={(e) => updateMetric('thresholds', metric, Number(e.target.value))} className="w-24 border-gray-700" />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Health Bands</h3>
+              {model.bands.map((band, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-400">From</span>
+                  <Input type="number" min={0} max={100} value={band.min}
+                    onChange={(e) => updateBand(index, { min: Number(e.target.value) })} className="w-24 border-gray-700" />
+                  <Input value={band.label} onChange={(e) => updateBand(index, { label: e.target.value })} className="w-64 border-gray-700" />
+                  <Button
+                    variant="ghost"
+                    className="text-gray-400 hover:text-red-400"
+                    disabled={model.bands.length === 1}
+                    onClick={() => setModel({ ...model, bands: model.bands.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                className="text-gray-400 hover:text-white"
+                onClick={() => setModel({ ...model, bands: [...model.bands, { min: 0, label: 'New band' }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add band
+              </Button>
+            </div>
+          </section>
+        )}
+
+        <div className="flex items-center space-x-4">
+          <Button className="bg-[#00FF94] text-black hover:bg-[#00FF94]/90" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Settings
+          </Button>
+          <Button variant="outline" className="border-gray-700" onClick={handleRescore} disabled={rescoring}>
+            {rescoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Re-score Stored Runs
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
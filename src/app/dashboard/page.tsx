@@ -7,6 +7,8 @@ import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { Input } from '@/components/ui/input';
+import type { AnalysisJob } from '@/lib/jobs';
+import type { ProviderRepository, ProviderType } from '@/lib/gitProviders';
 
 type AuthProvider = 'github' | 'gitlab' | 'email';
 
@@ -17,7 +19,7 @@ type Project = {
   full_name?: string;
   description?: string;
   status: 'pending' | 'analyzing' | 'completed' | 'failed';
-  provider: AuthProvider;
+  provider: AuthProvider | ProviderType;
   git_url?: string;
   html_url?: string;
   default_branch?: string;
@@ -28,11 +30,10 @@ type Project = {
   analyzed_at?: string | null;
 };
 
-type GithubRepo = {
-  id: number;
-  name: string;
-  full_name: string;
-  description: string | null;
+// OAuth scopes needed to list and clone repositories for each hosted provider
+const PROVIDER_SCOPES: Record<'github' | 'gitlab', string> = {
+  github: 'repo read:user',
+  gitlab: 'read_api read_repository'
 };
 
 type PostgrestError = {
@@ -58,10 +59,19 @@ export default function Dashboard() {
   const [uploadLoading, setUploadLoading] = useState(false);
   const [projects, setProjects] = useState<Project[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [githubRepos, setGithubRepos] = useState<GithubRepo[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<GithubRepo | null>(null);
+  const [repositories, setRepositories] = useState<ProviderRepository[]>([]);
+  const [repoSearch, setRepoSearch] = useState('');
+  const [repoPage, setRepoPage] = useState(1);
+  const [hasMoreRepos, setHasMoreRepos] = useState(false);
+  const [selectedRepo, setSelectedRepo] = useState<ProviderRepository | null>(null);
   const [showRepoList, setShowRepoList] = useState(false);
+  const [repoBranches, setRepoBranches] = useState<string[]>([]);
+  const [repoRef, setRepoRef] = useState('');
+  const [gitUrl, setGitUrl] = useState('');
+  const [gitRef, setGitRef] = useState('');
+  const [gitCredential, setGitCredential] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [activeJob, setActiveJob] = useState<AnalysisJob | null>(null);
 
   useEffect(() => {
     async function initializeDashboard() {
@@ -98,57 +108,90 @@ export default function Dashboard() {
     initializeDashboard();
   }, [router, toast]);
 
-  const fetchGithubRepos = async () => {
+  const reconnectProvider = async (provider: 'github' | 'gitlab') => {
+    // Re-authenticate to get fresh token with proper scopes
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: `${window.location.origin}/dashboard`,
+        scopes: PROVIDER_SCOPES[provider]
+      }
+    });
+    if (error) throw error;
+  };
+
+  const fetchRepositories = async (page = 1, search = repoSearch) => {
+    if (authProvider !== 'github' && authProvider !== 'gitlab') return;
+
+    setImportLoading(true);
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session?.provider_token) {
-        // Re-authenticate to get fresh token with proper scopes
-        const { error } = await supabase.auth.signInWithOAuth({
-          provider: 'github',
-          options: {
-            redirectTo: `${process.env.NEXT_PUBLIC_SITE_URL}/dashboard`,
-            scopes: 'repo read:user'
-          }
-        });
-        if (error) throw error;
+        await reconnectProvider(authProvider);
         return;
       }
 
-      const response = await fetch('https://api.github.com/user/repos?per_page=100&sort=updated', {
-        headers: {
-          'Authorization': `Bearer ${session.provider_token}`,
-          'Accept': 'application/vnd.github.v3+json'
-        },
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) params.set('search', search);
+      // Self-hosted GitLab instances are configured per deployment
+      if (authProvider === 'gitlab' && process.env.NEXT_PUBLIC_GITLAB_URL) {
+        params.set('baseUrl', process.env.NEXT_PUBLIC_GITLAB_URL);
+      }
+
+      const response = await fetch(`/api/providers/${authProvider}/repositories?${params}`, {
+        headers: { 'Authorization': `Bearer ${session.provider_token}` }
       });
+      const data = await response.json();
 
+      if (response.status === 401) {
+        await reconnectProvider(authProvider);
+        return;
+      }
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to fetch repositories');
+        throw new Error(data.details || data.error || 'Failed to fetch repositories');
       }
-      
-      const repos = await response.json();
-      setGithubRepos(repos);
+
+      setRepositories(prev => (page === 1 ? data.repositories : [...prev, ...data.repositories]));
+      setRepoPage(page);
+      setHasMoreRepos(data.hasNextPage);
       setShowRepoList(true);
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: "Error",
-        description: error.message || "Failed to fetch repositories",
+        description: error instanceof Error ? error.message : "Failed to fetch repositories",
         variant: "destructive",
       });
-      // If token is invalid, trigger re-authentication
-      if (error.message?.includes('401')) {
-        await supabase.auth.signInWithOAuth({
-          provider: 'github',
-          options: {
-            redirectTo: `${process.env.NEXT_PUBLIC_SITE_URL}/dashboard`,
-            scopes: 'repo read:user'
-          }
-        });
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const selectRepository = async (repo: ProviderRepository) => {
+    setSelectedRepo(repo);
+    setShowRepoList(false);
+    setRepoRef(repo.defaultBranch || '');
+    setRepoBranches([]);
+
+    // The branch list only feeds suggestions, so failures are logged rather than shown
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch(`/api/providers/${authProvider}/branches`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repoUrl: repo.cloneUrl, accessToken: session?.provider_token })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load branches');
       }
+      setRepoBranches(data.branches);
+    } catch (error) {
+      console.error('Failed to load branches:', error);
     }
   };
 
-  const handleRepositoryImport = async (repoUrl: string) => {
+  // ref is a branch, tag or full commit SHA; empty analyzes the default branch
+  const handleRepositoryImport = async (provider: ProviderType, repoUrl: string, ref: string, defaultBranch?: string | null) => {
     setIsAnalyzing(true);
     let projectId: string | null = null;
 
@@ -156,8 +199,8 @@ export default function Dashboard() {
       console.log('Starting repository import with URL:', repoUrl);
 
       // Validate repository URL
-      if (!repoUrl.startsWith('https://github.com/')) {
-        throw new Error('Invalid repository URL. Please provide a valid GitHub repository URL.');
+      if (!/^(https:\/\/|ssh:\/\/|[\w.-]+@[\w.-]+:)/.test(repoUrl)) {
+        throw new Error('Invalid repository URL. Please provide an HTTPS or SSH Git URL.');
       }
 
       // Check if user is authenticated
@@ -173,38 +216,32 @@ export default function Dashboard() {
         return;
       }
 
-      // Get GitHub token from session
-      const githubToken = session.provider_token;
-      console.log('GitHub token:', githubToken ? 'Present' : 'Missing');
-      
-      if (!githubToken) {
+      // Hosted providers clone with the OAuth token; plain Git uses the optional deploy key or token
+      const accessToken = provider === 'git' ? gitCredential.trim() || null : session.provider_token;
+      console.log('Access token:', accessToken ? 'Present' : 'Missing');
+
+      if (!accessToken && provider !== 'git') {
         toast({
-          title: "GitHub Token Missing",
-          description: "Please reconnect your GitHub account",
+          title: "Access Token Missing",
+          description: `Please reconnect your ${provider === 'github' ? 'GitHub' : 'GitLab'} account`,
           variant: "destructive"
         });
-        
-        // Trigger GitHub re-authentication
-        await supabase.auth.signInWithOAuth({
-          provider: 'github',
-          options: {
-            redirectTo: `${window.location.origin}/dashboard`,
-            scopes: 'repo read:user'
-          }
-        });
+
+        await reconnectProvider(provider);
         return;
       }
 
       // Extract repository name from URL
-      const repoName = repoUrl.split('/').pop()?.replace('.git', '') || '';
+      const repoName = repoUrl.split(/[/:]/).pop()?.replace(/\.git$/, '') || '';
       console.log('Repository name:', repoName);
 
       // Create project in database with minimal required fields
       console.log('Creating project with data:', {
         name: repoName,
         git_url: repoUrl,
+        default_branch: defaultBranch || null,
         user_id: session.user.id,
-        provider: 'github',
+        provider,
         status: 'analyzing'
       });
 
@@ -229,8 +266,9 @@ export default function Dashboard() {
         .insert({
           name: repoName,
           git_url: repoUrl,
+          default_branch: defaultBranch || null,
           user_id: user.id,
-          provider: 'github',
+          provider,
           status: 'analyzing'
         })
         .select()
@@ -287,20 +325,21 @@ export default function Dashboard() {
       console.log('Starting analysis with data:', {
         projectId: project.id,
         repoUrl,
-        provider: 'github'
+        provider
       });
 
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${githubToken}`
+          ...(accessToken && provider !== 'git' ? { 'Authorization': `Bearer ${accessToken}` } : {})
         },
         body: JSON.stringify({
           projectId: project.id,
           repoUrl,
-          provider: 'github',
-          accessToken: githubToken
+          provider,
+          accessToken,
+          ref: ref.trim() || null
         })
       });
 
@@ -328,20 +367,13 @@ export default function Dashboard() {
           })
           .eq('id', project.id);
         
-        if (response.status === 401) {
+        if (response.status === 401 && provider !== 'git') {
           toast({
             title: "Authentication Failed",
-            description: "GitHub authentication failed. Please reconnect your GitHub account",
+            description: "Authentication failed. Please reconnect your account",
             variant: "destructive"
           });
-          // Trigger GitHub re-authentication
-          await supabase.auth.signInWithOAuth({
-            provider: 'github',
-            options: {
-              redirectTo: `${window.location.origin}/dashboard`,
-              scopes: 'repo read:user'
-            }
-          });
+          await reconnectProvider(provider);
         } else if (response.status === 404) {
           toast({
             title: "Repository Not Found",
@@ -367,58 +399,27 @@ export default function Dashboard() {
 
       console.log('Analysis API response:', responseData);
 
-      // Poll for analysis completion with better error handling
-      const maxAttempts = 30; // 5 minutes with 10-second intervals
-      let attempts = 0;
-      
-      while (attempts < maxAttempts) {
-        console.log(`Polling attempt ${attempts + 1}/${maxAttempts} for project ${project.id}`);
-        
-        const { data: updatedProject, error: fetchError } = await supabase
-          .from('projects')
-          .select('*')
-          .eq('id', project.id)
-          .single();
-
-        if (fetchError) {
-          console.error('Error fetching project status:', fetchError);
-          continue;
-        }
+      // Follow the background job until it finishes
+      const finalJob = await waitForJob(responseData.jobId);
 
-        console.log('Project status update:', {
-          id: updatedProject?.id,
-          status: updatedProject?.status,
-          analyzed_at: updatedProject?.analyzed_at,
-          error_message: updatedProject?.error_message
+      if (finalJob.status === 'completed') {
+        toast({
+          title: "Analysis Complete",
+          description: "Repository analysis completed successfully!",
+          variant: "default"
+        });
+        router.refresh();
+      } else if (finalJob.status === 'failed') {
+        toast({
+          title: "Analysis Failed",
+          description: finalJob.error_message || 'Unknown error occurred during analysis',
+          variant: "destructive"
+        });
+      } else if (finalJob.status === 'cancelled') {
+        toast({
+          title: "Analysis Cancelled",
+          description: "The analysis was cancelled before it finished",
         });
-
-        if (!updatedProject) {
-          throw new Error('Project not found during status check');
-        }
-
-        if (updatedProject.status === 'completed') {
-          toast({
-            title: "Analysis Complete",
-            description: "Repository analysis completed successfully!",
-            variant: "default"
-          });
-          router.refresh();
-          break;
-        } else if (updatedProject.status === 'failed') {
-          toast({
-            title: "Analysis Failed",
-            description: updatedProject.error_message || 'Unknown error occurred during analysis',
-            variant: "destructive"
-          });
-          break;
-        }
-
-        await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-        attempts++;
-      }
-
-      if (attempts >= maxAttempts) {
-        throw new Error('Analysis timed out');
       }
 
     } catch (error: unknown) {
@@ -475,6 +476,84 @@ export default function Dashboard() {
     }
   };
 
+  const fetchJob = async (jobId: string): Promise<AnalysisJob> => {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch analysis progress');
+    }
+    return response.json();
+  };
+
+  const waitForJob = async (jobId: string): Promise<AnalysisJob> => {
+    let job = await fetchJob(jobId);
+    setActiveJob(job);
+
+    while (job.status === 'queued' || job.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      job = await fetchJob(jobId);
+      setActiveJob(job);
+    }
+
+    return job;
+  };
+
+  const handleCancelJob = async () => {
+    if (!activeJob) return;
+
+    const response = await fetch(`/api/jobs/${activeJob.id}/cancel`, { method: 'POST' });
+    if (!response.ok) {
+      toast({
+        title: "Error",
+        description: "Failed to cancel the analysis",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetryJob = async () => {
+    if (!activeJob) return;
+
+    setIsAnalyzing(true);
+    try {
+      // Uploaded archives are still in storage and plain Git remotes reuse the form's credential
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (activeJob.provider === 'github' || activeJob.provider === 'gitlab') {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.provider_token) {
+          throw new Error('Please reconnect your account');
+        }
+        headers['Authorization'] = `Bearer ${session.provider_token}`;
+      }
+
+      const response = await fetch(`/api/jobs/${activeJob.id}/retry`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(activeJob.provider === 'git' ? { accessToken: gitCredential.trim() || null } : {})
+      });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.details || responseData.error || 'Failed to retry the analysis');
+      }
+
+      const finalJob = await waitForJob(activeJob.id);
+      if (finalJob.status === 'completed') {
+        toast({
+          title: "Analysis Complete",
+          description: "Repository analysis completed successfully!",
+        });
+        router.refresh();
+      }
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to retry the analysis',
+        variant: "destructive",
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const handleFileUpload = async (file: File) => {
     setUploadLoading(true);
     try {
@@ -487,7 +566,7 @@ export default function Dashboard() {
         .insert([
           {
             user_id: session.user.id,
-            name: file.name.replace('.zip', ''),
+            name: file.name.replace(/\.(zip|tar\.gz|tgz)$/, ''),
             status: 'pending',
             provider: 'email',
           }
@@ -502,10 +581,37 @@ export default function Dashboard() {
         setProjects(prev => [project, ...prev]);
       }
 
+      const response = await fetch(`/api/projects/${project.id}/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file
+      });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.details || responseData.error || 'Failed to upload the archive');
+      }
+
       toast({
         title: "Project Uploaded",
-        description: "Your project has been uploaded and is queued for analysis.",
+        description: "Your project has been uploaded and is being analyzed.",
       });
+
+      setUploadLoading(false);
+      setIsAnalyzing(true);
+      const finalJob = await waitForJob(responseData.jobId);
+      if (finalJob.status === 'completed') {
+        toast({
+          title: "Analysis Complete",
+          description: "Project analysis completed successfully!",
+        });
+        router.refresh();
+      } else if (finalJob.status === 'failed') {
+        toast({
+          title: "Analysis Failed",
+          description: finalJob.error_message || 'Unknown error occurred during analysis',
+          variant: "destructive"
+        });
+      }
     } catch (error: any) {
       toast({
         title: "Error",
@@ -514,6 +620,7 @@ export default function Dashboard() {
       });
     } finally {
       setUploadLoading(false);
+      setIsAnalyzing(false);
     }
   };
 
@@ -561,12 +668,12 @@ export default function Dashboard() {
                     className="bg-gradient-to-r from-[#00FF94] to-[#00B3FF] text-black hover:opacity-90 w-full"
                     onClick={() => {
                       if (selectedRepo) {
-                        handleRepositoryImport(`https://github.com/${selectedRepo.full_name}.git`);
+                        handleRepositoryImport(authProvider, selectedRepo.cloneUrl, repoRef, selectedRepo.defaultBranch);
                       } else {
-                        fetchGithubRepos();
+                        fetchRepositories();
                       }
                     }}
-                    disabled={importLoading}
+                    disabled={importLoading || isAnalyzing}
                   >
                     {importLoading ? (
                       <>
@@ -579,52 +686,120 @@ export default function Dashboard() {
                       `Connect ${authProvider.charAt(0).toUpperCase() + authProvider.slice(1)} Repository`
                     )}
                   </Button>
-                  {showRepoList && githubRepos.length > 0 && (
-                    <div className="absolute z-50 w-full mt-2 bg-gray-900 border border-gray-700 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-                      {githubRepos.map((repo) => (
+                  {showRepoList && (
+                    <div className="absolute z-50 w-full mt-2 bg-gray-900 border border-gray-700 rounded-lg shadow-lg max-h-72 overflow-y-auto">
+                      <form
+                        className="p-2 border-b border-gray-800"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          fetchRepositories(1, repoSearch);
+                        }}
+                      >
+                        <Input
+                          placeholder="Search repositories"
+                          value={repoSearch}
+                          onChange={(e) => setRepoSearch(e.target.value)}
+                          className="border-gray-700"
+                        />
+                      </form>
+                      {repositories.length === 0 && (
+                        <div className="px-4 py-2 text-sm text-gray-400">No repositories found</div>
+                      )}
+                      {repositories.map((repo) => (
                         <button
                           key={repo.id}
                           className="w-full px-4 py-2 text-left hover:bg-gray-800 focus:outline-none focus:bg-gray-800"
-                          onClick={() => {
-                            setSelectedRepo(repo);
-                            setShowRepoList(false);
-                          }}
+                          onClick={() => selectRepository(repo)}
                         >
-                          <div className="font-medium">{repo.name}</div>
+                          <div className="font-medium">{repo.fullName}</div>
                           {repo.description && (
                             <div className="text-sm text-gray-400 truncate">{repo.description}</div>
                           )}
                         </button>
                       ))}
+                      {hasMoreRepos && (
+                        <button
+                          className="w-full px-4 py-2 text-sm text-[#00FF94] hover:bg-gray-800"
+                          onClick={() => fetchRepositories(repoPage + 1)}
+                          disabled={importLoading}
+                        >
+                          Load more
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
                 {selectedRepo && (
                   <div className="mt-4 p-3 bg-gray-800/50 rounded-lg">
-                    <div className="font-medium">{selectedRepo.name}</div>
+                    <div className="font-medium">{selectedRepo.fullName}</div>
                     {selectedRepo.description && (
                       <div className="text-sm text-gray-400">{selectedRepo.description}</div>
                     )}
+                    <label className="block mt-3 text-sm text-gray-400">
+                      Branch, tag or commit
+                      <Input
+                        list="repo-branches"
+                        placeholder={selectedRepo.defaultBranch || 'Default branch'}
+                        value={repoRef}
+                        onChange={(e) => setRepoRef(e.target.value)}
+                        className="mt-1 border-gray-700"
+                      />
+                      <datalist id="repo-branches">
+                        {repoBranches.map(branch => <option key={branch} value={branch} />)}
+                      </datalist>
+                    </label>
                   </div>
                 )}
               </div>
             )}
 
             <div className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg backdrop-blur-sm">
-              <h2 className="text-xl font-semibold mb-4">Upload Project ZIP</h2>
-              <p className="text-gray-400 mb-4">Upload your project as a ZIP file for analysis.</p>
+              <h2 className="text-xl font-semibold mb-4">Import from Git URL</h2>
+              <p className="text-gray-400 mb-4">Analyze any Git repository over HTTPS or SSH.</p>
+              <Input
+                placeholder="https://git.example.com/team/repo.git or git@host:team/repo.git"
+                value={gitUrl}
+                onChange={(e) => setGitUrl(e.target.value)}
+                className="mb-3 border-gray-700"
+              />
+              <textarea
+                placeholder="Optional: access token, or SSH deploy key for SSH URLs"
+                value={gitCredential}
+                onChange={(e) => setGitCredential(e.target.value)}
+                rows={3}
+                className="mb-3 w-full rounded-md border border-gray-700 bg-transparent px-3 py-2 text-sm font-mono"
+              />
+              <Input
+                placeholder="Branch, tag or commit (default branch if empty)"
+                value={gitRef}
+                onChange={(e) => setGitRef(e.target.value)}
+                className="mb-4 border-gray-700"
+              />
+              <Button
+                className="bg-gradient-to-r from-[#00FF94] to-[#00B3FF] text-black hover:opacity-90 w-full"
+                onClick={() => handleRepositoryImport('git', gitUrl.trim(), gitRef)}
+                disabled={!gitUrl.trim() || isAnalyzing}
+              >
+                Analyze Repository
+              </Button>
+            </div>
+
+            <div className="p-6 bg-gray-900/50 border border-gray-800 rounded-lg backdrop-blur-sm">
+              <h2 className="text-xl font-semibold mb-4">Upload Project Archive</h2>
+              <p className="text-gray-400 mb-4">Upload your project as a ZIP or tar.gz file for analysis.</p>
               <Input
                 type="file"
-                accept=".zip"
+                accept=".zip,.tar.gz,.tgz"
                 className="mb-4"
+                disabled={uploadLoading || isAnalyzing}
                 onChange={async (e) => {
                   const file = e.target.files?.[0];
                   if (!file) return;
 
-                  if (!file.name.endsWith('.zip')) {
+                  if (!/\.(zip|tar\.gz|tgz)$/.test(file.name)) {
                     toast({
                       title: "Invalid File",
-                      description: "Please upload a ZIP file",
+                      description: "Please upload a ZIP or tar.gz file",
                       variant: "destructive",
                     });
                     return;
@@ -635,6 +810,54 @@ export default function Dashboard() {
                 }}
               />
             </div>
+
+            {activeJob && (
+              <div className="md:col-span-2 p-4 bg-gray-900/50 border border-gray-800 rounded-lg">
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="text-gray-300">
+                    {activeJob.status === 'running' || activeJob.status === 'queued'
+                      ? `${activeJob.stage.charAt(0).toUpperCase() + activeJob.stage.slice(1)}...`
+                      : activeJob.status.charAt(0).toUpperCase() + activeJob.status.slice(1)}
+                  </span>
+                  <span className="text-gray-400">{activeJob.progress}%</span>
+                </div>
+                <div className="h-2 w-full bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all duration-500 ${
+                      activeJob.status === 'failed' ? 'bg-red-500' :
+                      activeJob.status === 'cancelled' ? 'bg-gray-500' :
+                      'bg-gradient-to-r from-[#00FF94] to-[#00B3FF]'
+                    }`}
+                    style={{ width: `${activeJob.progress}%` }}
+                  />
+                </div>
+                {activeJob.error_message && activeJob.status === 'failed' && (
+                  <p className="mt-2 text-sm text-red-400">{activeJob.error_message}</p>
+                )}
+                <div className="mt-3 flex space-x-2">
+                  {(activeJob.status === 'queued' || activeJob.status === 'running') && (
+                    <Button
+                      variant="outline"
+                      className="text-sm border-gray-700"
+                      onClick={handleCancelJob}
+                      disabled={activeJob.cancel_requested}
+                    >
+                      {activeJob.cancel_requested ? 'Cancelling...' : 'Cancel'}
+                    </Button>
+                  )}
+                  {(activeJob.status === 'failed' || activeJob.status === 'cancelled') && (
+                    <Button
+                      variant="outline"
+                      className="text-sm border-gray-700"
+                      onClick={handleRetryJob}
+                      disabled={isAnalyzing}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="mt-12 p-6 bg-gray-900/50 border border-gray-800 rounded-lg backdrop-blur-sm">
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { RunMetrics } from '@/lib/runs';
+import { ProjectForecast } from '@/lib/forecast';
+import { TREND_METRICS, TrendAnnotation, TrendMetric } from '@/lib/trends';
+
+type TrendChartProps = {
+  points: RunMetrics[];
+  metrics: TrendMetric[];
+  annotations: TrendAnnotation[];
+  forecast?: ProjectForecast | null;
+};
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+export function TrendChart({ points, metrics, annotations, forecast }: TrendChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  if (points.length === 0) {
+    return <div className="text-center text-gray-400 py-12">No analysis runs in this date range</div>;
+  }
+
+  const times = points.map(point => new Date(point.created_at).getTime());
+  const projectionTimes = forecast
+    ? Object.values(forecast.metrics).flatMap(m => m?.projections.map(p => new Date(p.date).getTime()) || [])
+    : [];
+  const start = Math.min(...times);
+  const end = Math.max(...times, ...projectionTimes);
+  const span = end - start;
+
+  // A single run, or runs at the same instant, sit in the middle of the plot
+  const xAt = (time: number) =>
+    PADDING.left + (span === 0 ? PLOT_WIDTH / 2 : ((time - start) / span) * PLOT_WIDTH);
+  const x = (index: number) => xAt(times[index]);
+  const y = (value: number) =>
+    PADDING.top + PLOT_HEIGHT - (Math.max(0, Math.min(100, value)) / 100) * PLOT_HEIGHT;
+
+  const annotatedRuns = new Map<string, TrendAnnotation[]>();
+  annotations
+    .filter(annotation => metrics.includes(annotation.metric))
+    .forEach(annotation => {
+      annotatedRuns.set(annotation.runId, [...(annotatedRuns.get(annotation.runId) || []), annotation]);
+    });
+
+  const hoveredPoint = hovered !== null ? points[hovered] : null;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+        {[0, 25, 50, 75, 100].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#1F2937" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6B7280">
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6B7280">
+          {formatDate(points[0].created_at)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6B7280">
+          {formatDate(new Date(end).toISOString())}
+        </text>
+
+        {points.map((point, index) => annotatedRuns.has(point.id) && (
+          <line
+            key={`annotation-${point.id}`}
+            x1={x(index)}
+            x2={x(index)}
+            y1={PADDING.top}
+            y2={PADDING.top + PLOT_HEIGHT}
+            stroke="#FACC15"
+            strokeDasharray="4 4"
+            strokeOpacity={0.6}
+          />
+        ))}
+
+        {/* Projections continue from the last run as a dotted line inside their confidence band */}
+        {forecast && metrics.map(metric => {
+          const projection = forecast.metrics[metric];
+          if (!projection) return null;
+
+          const last = points.length - 1;
+          const origin = `${x(last)},${y(points[last][metric])}`;
+          const ahead = projection.projections.map(p => ({ x: xAt(new Date(p.date).getTime()), ...p }));
+          const band = [
+            origin,
+            ...ahead.map(p => `${p.x},${y(p.upper)}`),
+            ...ahead.slice().reverse().map(p => `${p.x},${y(p.lower)}`)
+          ].join(' ');
+
+          return (
+            <g key={`forecast-${metric}`}>
+              <polygon points={band} fill={TREND_METRICS[metric].color} fillOpacity={0.08} />
+              <polyline
+                fill="none"
+                stroke={TREND_METRICS[metric].color}
+                strokeWidth={2}
+                strokeDasharray="2 6"
+                strokeLinecap="round"
+                points={[origin, ...ahead.map(p => `${p.x},${y(p.value)}`)].join(' ')}
+              />
+            </g>
+          );
+        })}
+
+        {metrics.map(metric => (
+          <g key={metric}>
+            <polyline
+              fill="none"
+              stroke={TREND_METRICS[metric].color}
+              strokeWidth={2}
+              points={points.map((point, index) => `${x(index)},${y(point[metric])}`).join(' ')}
+            />
+            {points.map((point, index) => (
+              <circle
+                key={point.id}
+                cx={x(index)}
+                cy={y(point[metric])}
+                r={hovered === index ? 5 : 3}
+                fill={TREND_METRICS[metric].color}
+              />
+            ))}
+          </g>
+        ))}
+
+        {/* Invisible hover targets centred on each run */}
+        {points.map((point, index) => {
+          const left = index === 0 ? PADDING.left : (x(index - 1) + x(index)) / 2;
+          const right = index === points.length - 1 ? Math.min(x(index) + 20, WIDTH - PADDING.right) : (x(index) + x(index + 1)) / 2;
+          return (
+            <rect
+              key={`hover-${point.id}`}
+              x={left}
+              y={PADDING.top}
+              width={Math.max(right - left, 1)}
+              height={PLOT_HEIGHT}
+              fill="transparent"
+              onMouseEnter={() => setHovered(index)}
+            />
+          );
+        })}
+      </svg>
+
+      {hoveredPoint && hovered !== null && (
+        <div
+          className="absolute top-2 pointer-events-none p-3 bg-gray-900 border border-gray-700 rounded-lg text-sm shadow-lg min-w-[200px]"
+          style={x(hovered) > WIDTH / 2
+            ? { right: `${100 - (x(hovered) / WIDTH) * 100 + 2}%` }
+            : { left: `${(x(hovered) / WIDTH) * 100 + 2}%` }}
+        >
+          <div className="font-medium">{new Date(hoveredPoint.created_at).toLocaleString()}</div>
+          <div className="text-gray-400 text-xs mb-2">
+            {hoveredPoint.commit_sha ? hoveredPoint.commit_sha.slice(0, 7) : 'unknown commit'}
+            {hoveredPoint.branch && ` on ${hoveredPoint.branch}`}
+          </div>
+          {(Object.keys(TREND_METRICS) as TrendMetric[]).map(metric => (
+            <div key={metric} className="flex justify-between space-x-4">
+              <span style={{ color: TREND_METRICS[metric].color }}>{TREND_METRICS[metric].label}</span>
+              <span>{hoveredPoint[metric].toFixed(1)}</span>
+            </div>
+          ))}
+          {annotatedRuns.get(hoveredPoint.id)?.map(annotation => (
+            <div key={annotation.metric} className="mt-2 text-yellow-400 text-xs">
+              {TREND_METRICS[annotation.metric].label} {annotation.delta > 0 ? '+' : ''}{annotation.delta.toFixed(1)} since previous run
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString();
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { ANALYZER_VERSION } from '@/lib/codeAnalysis';
+import type { FileMetrics } from '@/lib/codeAnalysis';
+import { MaintainabilityLimits } from '@/lib/maintainability';
+
+// Private bucket holding one snapshot of per-file results per project
+export const CACHE_BUCKET = 'analysis-cache';
+
+export type CachedFile = {
+  // SHA-256 of the file content
+  hash: string;
+  // Limits the metrics were measured against, serialized
+  limits: string;
+  metrics: FileMetrics;
+};
+
+export type FileCacheSnapshot = {
+  analyzerVersion: string;
+  // Commit the snapshot was taken at; later runs diff against it
+  commitSha: string | null;
+  files: Record<string, CachedFile>;
+};
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+};
+
+export type FileCache = {
+  // Metrics from an earlier run for this content and limits, or null when the file must be analyzed
+  lookup: (file: string, content: string, limits: MaintainabilityLimits) => FileMetrics | null;
+  store: (file: string, content: string, limits: MaintainabilityLimits, metrics: FileMetrics) => void;
+  stats: () => CacheStats;
+  // Entries for the files seen in this run only, so deleted files drop out
+  snapshot: (commitSha: string | null) => FileCacheSnapshot;
+};
+
+// changedFiles comes from a git diff against the snapshot's commit; files outside it are reused without hashing.
+// Without a diff, or for changed files, entries are matched by content hash, which also catches renames and reverts.
+export function createFileCache(previous: FileCacheSnapshot | null, changedFiles: Set<string> | null = null): FileCache {
+  // Metrics change meaning between analyzer versions, so older snapshots are dropped wholesale
+  const cached = previous?.analyzerVersion === ANALYZER_VERSION ? previous.files : {};
+  const byContent = new Map(Object.values(cached).map(entry => [`${entry.limits}:${entry.hash}`, entry]));
+  const current: Record<string, CachedFile> = {};
+  const stats: CacheStats = { hits: 0, misses: 0 };
+
+  return {
+    lookup(file, content, limits) {
+      const limitsKey = JSON.stringify(limits);
+      const entry = cached[file];
+
+      const unchanged = changedFiles && entry && entry.limits === limitsKey && !changedFiles.has(file)
+        ? entry
+        : byContent.get(`${limitsKey}:${hashContent(content)}`);
+
+      if (!unchanged) {
+        stats.misses++;
+        return null;
+      }
+
+      stats.hits++;
+      current[file] = unchanged;
+      return unchanged.metrics;
+    },
+    store(file, content, limits, metrics) {
+      current[file] = { hash: hashContent(content), limits: JSON.stringify(limits), metrics };
+    },
+    stats: () => ({ ...stats }),
+    snapshot: commitSha => ({ analyzerVersion: ANALYZER_VERSION, commitSha, files: { ...current } })
+  };
+}
+
+// A missing or unreadable snapshot only means a cold run, so failures are logged rather than thrown
+export async function loadFileCacheSnapshot(projectId: string): Promise<FileCacheSnapshot | null> {
+  try {
+    const { data, error } = await supabaseAdmin.storage.from(CACHE_BUCKET).download(cachePath(projectId));
+    if (error || !data) return null;
+
+    return JSON.parse(gunzipSync(Buffer.from(await data.arrayBuffer())).toString('utf-8')) as FileCacheSnapshot;
+  } catch (error) {
+    console.warn('Could not load analysis cache:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function saveFileCacheSnapshot(projectId: string, snapshot: FileCacheSnapshot) {
+  const { error } = await supabaseAdmin.storage
+    .from(CACHE_BUCKET)
+    .upload(cachePath(projectId), gzipSync(JSON.stringify(snapshot)), { contentType: 'application/gzip', upsert: true });
+
+  if (error) {
+    console.warn('Could not save analysis cache:', error.message);
+  }
+}
+
+function cachePath(projectId: string): string {
+  return `${projectId}/files.json.gz`;
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
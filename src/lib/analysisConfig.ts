@@ -0,0 +1,345 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import ignore, { Ignore } from 'ignore';
+import { parse as parseYaml } from 'yaml';
+import { MAINTAINABILITY_LIMITS, MaintainabilityLimits } from '@/lib/maintainability';
+import { SECURITY_RULE_IDS, SecuritySuppression } from '@/lib/security';
+import { DEFAULT_QUALITY_GATE, QUALITY_GATE_RULES, QualityGate } from '@/lib/delta';
+
+// Maintainability limits that apply to files matching a gitignore-style pattern
+export type PathThreshold = { path: string } & Partial<MaintainabilityLimits>;
+
+export type AnalysisConfig = {
+  // When non-empty, only files matching one of these patterns are analyzed
+  include: string[];
+  exclude: string[];
+  gitignore: boolean;
+  // Added to the built-in test and generated patterns; a leading ! removes a match
+  tests: string[];
+  generated: string[];
+  // Applied in order, so later entries win for files matched by several
+  thresholds: PathThreshold[];
+  // Security rules silenced for matching paths, on top of inline t3kdet-ignore comments
+  suppressions: SecuritySuppression[];
+  // Rules pull request analyses must pass
+  gate: QualityGate;
+  // Credits lines to their authors with git blame, which needs the repository's whole history fetched
+  ownership: boolean;
+};
+
+// Gate rules are set one by one, so a layer only overrides the rules it names
+export type AnalysisConfigInput = Partial<Omit<AnalysisConfig, 'gate'>> & { gate?: Partial<QualityGate> };
+
+export type FileCategory = 'source' | 'test' | 'generated';
+
+// Looked up in the repository root, first match wins
+export const CONFIG_FILE_NAMES = ['.t3kdet.yml', '.t3kdet.yaml', '.t3kdet.json'];
+
+// Always excluded unless a pattern in the config negates them
+export const DEFAULT_EXCLUDES = [
+  'node_modules/',
+  'bower_components/',
+  'vendor/',
+  'dist/',
+  'build/',
+  'out/',
+  'target/',
+  'coverage/',
+  '__pycache__/',
+  'venv/',
+  '*.min.js',
+  '*.bundle.js'
+];
+
+export const DEFAULT_TESTS = [
+  '__tests__/',
+  'test/',
+  'tests/',
+  'spec/',
+  '*.test.*',
+  '*.spec.*',
+  '*_test.go',
+  'test_*.py',
+  '*_test.py',
+  '*Test.java',
+  '*Tests.java'
+];
+
+export const DEFAULT_GENERATED = ['generated/', '__generated__/', '*.generated.*', '*.pb.go', '*_pb2.py'];
+
+// Header comments code generators leave in their output
+const GENERATED_MARKER = /@generated\b|Code generated .* DO NOT EDIT|<auto-generated/;
+const MARKER_LINES = 5;
+
+const PATTERN_KEYS = ['include', 'exclude', 'tests', 'generated'] as const;
+const LIMIT_KEYS = Object.keys(MAINTAINABILITY_LIMITS) as Array<keyof MaintainabilityLimits>;
+
+export class AnalysisConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisConfigError';
+  }
+}
+
+// Returns the recognised settings from a config file or request body, or the reasons it was rejected
+export function parseAnalysisConfig(input: unknown): { config: AnalysisConfigInput; errors: string[] } {
+  const config: AnalysisConfigInput = {};
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { config, errors: ['analysis config must be an object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  for (const key of Object.keys(body)) {
+    if (![...PATTERN_KEYS, 'gitignore', 'thresholds', 'suppressions', 'gate', 'ownership'].includes(key)) {
+      errors.push(`Unknown analysis setting: ${key}`);
+    }
+  }
+
+  for (const key of PATTERN_KEYS) {
+    if (body[key] === undefined) continue;
+    const patterns = readPatterns(body[key]);
+    if (patterns) {
+      config[key] = patterns;
+    } else {
+      errors.push(`${key} must be a list of glob patterns`);
+    }
+  }
+
+  if (body.gitignore !== undefined) {
+    if (typeof body.gitignore !== 'boolean') {
+      errors.push('gitignore must be true or false');
+    } else {
+      config.gitignore = body.gitignore;
+    }
+  }
+
+  if (body.ownership !== undefined) {
+    if (typeof body.ownership !== 'boolean') {
+      errors.push('ownership must be true or false');
+    } else {
+      config.ownership = body.ownership;
+    }
+  }
+
+  if (body.thresholds !== undefined) {
+    if (!Array.isArray(body.thresholds)) {
+      errors.push('thresholds must be a list');
+    } else {
+      const thresholds = body.thresholds.map((entry, index) => readThreshold(entry, `thresholds[${index}]`, errors));
+      if (thresholds.every(Boolean)) {
+        config.thresholds = thresholds as PathThreshold[];
+      }
+    }
+  }
+
+  if (body.suppressions !== undefined) {
+    if (!Array.isArray(body.suppressions)) {
+      errors.push('suppressions must be a list');
+    } else {
+      const suppressions = body.suppressions.map((entry, index) => readSuppression(entry, `suppressions[${index}]`, errors));
+      if (suppressions.every(Boolean)) {
+        config.suppressions = suppressions as SecuritySuppression[];
+      }
+    }
+  }
+
+  if (body.gate !== undefined) {
+    const gate = readGate(body.gate, errors);
+    if (gate) {
+      config.gate = gate;
+    }
+  }
+
+  return { config, errors };
+}
+
+// Reads the repository's own config file; a file that is present but invalid fails the run
+export function loadRepositoryConfig(root: string): AnalysisConfigInput | null {
+  const name = CONFIG_FILE_NAMES.find(candidate => existsSync(join(root, candidate)));
+  if (!name) return null;
+
+  let input: unknown;
+  try {
+    const text = readFileSync(join(root, name), 'utf-8');
+    input = extname(name) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new AnalysisConfigError(`Could not read ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // An empty YAML file parses to null and means "use the defaults"
+  const { config, errors } = parseAnalysisConfig(input ?? {});
+  if (errors.length > 0) {
+    throw new AnalysisConfigError(`Invalid ${name}: ${errors.join('; ')}`);
+  }
+
+  console.log(`Using analysis config from ${name}`);
+  return config;
+}
+
+// Combines config layers, later ones taking precedence; exclude patterns, thresholds and suppressions accumulate, gate rules merge
+export function resolveAnalysisConfig(...layers: Array<AnalysisConfigInput | null | undefined>): AnalysisConfig {
+  return layers.reduce<AnalysisConfig>((config, layer) => layer ? {
+    include: layer.include ?? config.include,
+    exclude: [...config.exclude, ...(layer.exclude ?? [])],
+    gitignore: layer.gitignore ?? config.gitignore,
+    tests: [...config.tests, ...(layer.tests ?? [])],
+    generated: [...config.generated, ...(layer.generated ?? [])],
+    thresholds: [...config.thresholds, ...(layer.thresholds ?? [])],
+    suppressions: [...config.suppressions, ...(layer.suppressions ?? [])],
+    gate: { ...config.gate, ...layer.gate },
+    ownership: layer.ownership ?? config.ownership
+  } : config, {
+    include: [],
+    exclude: [],
+    gitignore: true,
+    tests: [],
+    generated: [],
+    thresholds: [],
+    suppressions: [],
+    gate: DEFAULT_QUALITY_GATE,
+    ownership: false
+  });
+}
+
+// Lists the files to analyze as root-relative posix paths
+export function collectFiles(root: string, config: AnalysisConfig, extensions: string[]): string[] {
+  const excluded = ignore().add(DEFAULT_EXCLUDES).add(config.exclude);
+  const included = config.include.length > 0 ? ignore().add(config.include) : null;
+  const files: string[] = [];
+
+  // Each .gitignore only applies below the directory it sits in
+  const walk = (dir: string, gitignores: Array<{ base: string; rules: Ignore }>) => {
+    const absolute = join(root, dir);
+    let entries;
+    try {
+      entries = readdirSync(absolute, { withFileTypes: true });
+    } catch (error) {
+      console.error('Error reading directory:', error);
+      return;
+    }
+
+    const scoped = config.gitignore && entries.some(entry => entry.isFile() && entry.name === '.gitignore')
+      ? [...gitignores, { base: dir ? `${dir}/` : '', rules: ignore().add(readFileSync(join(absolute, '.gitignore'), 'utf-8')) }]
+      : gitignores;
+    const isIgnored = (path: string) =>
+      excluded.ignores(path) || scoped.some(({ base, rules }) => rules.ignores(path.slice(base.length)));
+
+    for (const entry of entries) {
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !isIgnored(`${path}/`)) {
+          walk(path, scoped);
+        }
+      } else if (entry.isFile() && extensions.includes(extname(entry.name)) && !isIgnored(path)) {
+        if (!included || included.ignores(path)) {
+          files.push(path);
+        }
+      }
+    }
+  };
+
+  walk('', []);
+  return files;
+}
+
+// Per-file decisions that depend on the config: how a file is scored and which limits it is held to
+export function createFileRules(config: AnalysisConfig) {
+  const tests = ignore().add(DEFAULT_TESTS).add(config.tests);
+  const generated = ignore().add(DEFAULT_GENERATED).add(config.generated);
+  const thresholds = config.thresholds.map(({ path, ...limits }) => ({ matcher: ignore().add(path), limits }));
+
+  return {
+    category(file: string, content: string): FileCategory {
+      if (generated.ignores(file) || GENERATED_MARKER.test(content.split('\n', MARKER_LINES).join('\n'))) {
+        return 'generated';
+      }
+      return tests.ignores(file) ? 'test' : 'source';
+    },
+    limits(file: string): MaintainabilityLimits {
+      return thresholds.reduce<MaintainabilityLimits>(
+        (limits, threshold) => threshold.matcher.ignores(file) ? { ...limits, ...threshold.limits } : limits,
+        MAINTAINABILITY_LIMITS
+      );
+    }
+  };
+}
+
+function readPatterns(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  if (!value.every(pattern => typeof pattern === 'string' && pattern.trim() !== '')) return null;
+  return value.map(pattern => pattern.trim());
+}
+
+function readThreshold(entry: unknown, label: string, errors: string[]): PathThreshold | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    errors.push(`${label} must be an object`);
+    return null;
+  }
+
+  const body = entry as Record<string, unknown>;
+  const startingErrors = errors.length;
+
+  if (typeof body.path !== 'string' || body.path.trim() === '') {
+    errors.push(`${label}.path must be a glob pattern`);
+  }
+
+  const threshold: PathThreshold = { path: String(body.path).trim() };
+  for (const [key, value] of Object.entries(body)) {
+    if (key === 'path') continue;
+    if (!LIMIT_KEYS.includes(key as keyof MaintainabilityLimits)) {
+      errors.push(`${label}.${key} is not a known limit`);
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      errors.push(`${label}.${key} must be a positive integer`);
+    } else {
+      threshold[key as keyof MaintainabilityLimits] = value;
+    }
+  }
+
+  return errors.length === startingErrors ? threshold : null;
+}
+
+function readSuppression(entry: unknown, label: string, errors: string[]): SecuritySuppression | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    errors.push(`${label} must be an object`);
+    return null;
+  }
+
+  const { rule, path, ...rest } = entry as Record<string, unknown>;
+  const startingErrors = errors.length;
+
+  if (typeof rule !== 'string' || (rule !== '*' && !SECURITY_RULE_IDS.includes(rule))) {
+    errors.push(`${label}.rule must be * or one of ${SECURITY_RULE_IDS.join(', ')}`);
+  }
+  if (path !== undefined && (typeof path !== 'string' || path.trim() === '')) {
+    errors.push(`${label}.path must be a glob pattern`);
+  }
+  Object.keys(rest).forEach(key => errors.push(`${label}.${key} is not a known setting`));
+
+  if (errors.length > startingErrors) return null;
+  return path === undefined ? { rule: rule as string } : { rule: rule as string, path: (path as string).trim() };
+}
+
+function readGate(value: unknown, errors: string[]): Partial<QualityGate> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('gate must be an object');
+    return null;
+  }
+
+  const gate: Partial<QualityGate> = {};
+  const startingErrors = errors.length;
+  for (const [key, limit] of Object.entries(value)) {
+    if (!QUALITY_GATE_RULES.includes(key as keyof QualityGate)) {
+      errors.push(`gate.${key} is not a known rule; use one of ${QUALITY_GATE_RULES.join(', ')}`);
+    } else if (limit !== null && (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0)) {
+      errors.push(`gate.${key} must be a non-negative number, or null to turn the rule off`);
+    } else {
+      gate[key as keyof QualityGate] = limit;
+    }
+  }
+
+  return errors.length === startingErrors ? gate : null;
+}
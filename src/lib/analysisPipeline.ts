@@ -0,0 +1,399 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as fs from 'fs';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import ts from 'typescript';
+import { AnalysisOptions, analyzeCode, ANALYZER_VERSION } from '@/lib/codeAnalysis';
+import { AnalysisReport, buildAnalysisReport, DEFAULT_SCORING_MODEL, ScoringModel } from '@/lib/scoring';
+import { AnalysisConfigInput, loadRepositoryConfig, resolveAnalysisConfig } from '@/lib/analysisConfig';
+import { buildPullRequestDelta, PullRequestDelta } from '@/lib/delta';
+import { saveAnalysisRun } from '@/lib/runs';
+import { getScoringModel } from '@/lib/scoringModels';
+import { getAnalysisConfig } from '@/lib/projectSettings';
+import { createFileCache, FileCache, loadFileCacheSnapshot, saveFileCacheSnapshot } from '@/lib/analysisCache';
+import { extractArchive } from '@/lib/archive';
+import { deleteProjectArchive, downloadProjectArchive } from '@/lib/uploads';
+import { createGitProvider, ProviderType, RepositoryAccessError } from '@/lib/gitProviders';
+import type { RepositoryOwnership } from '@/lib/ownership';
+import { CommitHistory, historyStart, readHistory, readOwnership } from '@/lib/history';
+
+const execAsync = promisify(exec);
+
+export type ProjectStatus = 'pending' | 'analyzing' | 'completed' | 'failed';
+
+export type PipelineStage = 'clone' | 'extract' | 'scan' | 'metrics' | 'ownership' | 'baseline' | 'persist';
+
+// Awaited at every stage boundary; throwing from it aborts the run
+export type ProgressReporter = (stage: PipelineStage, percent: number) => Promise<void>;
+
+// Where the code comes from: a repository to clone or an uploaded archive in storage; baseRef makes it a pull request
+export type AnalysisSource =
+  | {
+    type: 'repository';
+    provider: ProviderType;
+    repoUrl: string;
+    accessToken: string | null;
+    ref?: string | null;
+    baseRef?: string | null;
+    commitSha?: string | null;
+  }
+  | { type: 'archive'; storagePath: string };
+
+export type AnalysisRequest = {
+  projectId: string;
+  source: AnalysisSource;
+  jobId?: string;
+};
+
+export { RepositoryAccessError };
+
+export function getWorkspaceRoot(): string {
+  return path.join(process.cwd(), 'tmp').replace(/\\/g, '/');
+}
+
+// Fetches, analyzes and stores a project; the workspace is always removed afterwards.
+// It runs in the worker, without a user session, so it reads and writes with the service role
+export async function runAnalysisPipeline(
+  { projectId, source, jobId }: AnalysisRequest,
+  reportProgress: ProgressReporter = async () => {}
+): Promise<AnalysisReport> {
+  // Every run gets its own directory, so a job requeued while its first attempt still runs cannot share it
+  const analysisDir = createWorkspace(projectId);
+  const baseDir = `${analysisDir}-base`;
+
+  const startedAt = new Date();
+
+  try {
+    let codeDir = analysisDir;
+    if (source.type === 'archive') {
+      await reportProgress('extract', 5);
+      codeDir = await extractUpload(source.storagePath, analysisDir);
+    } else {
+      await reportProgress('clone', 5);
+      await createGitProvider({ provider: source.provider, accessToken: source.accessToken })
+        .clone(source.repoUrl, analysisDir, source.ref, source.commitSha);
+    }
+    const scoringModel = await getScoringModel(projectId, supabaseAdmin);
+    const config = await getAnalysisConfig(projectId, supabaseAdmin);
+    // A pull request is analyzed with its base branch's config file, for the head as well as the base,
+    // so it cannot loosen the gate, scope or suppressions it is checked against
+    const baseline = source.type === 'repository' && source.baseRef
+      ? { ref: source.baseRef, commitSha: await checkoutMergeBase(source, source.baseRef, codeDir, baseDir) }
+      : null;
+    const repositoryConfig = loadRepositoryConfig(baseline ? baseDir : codeDir);
+    // The repository's config file can turn ownership on, so it is read before the history is fetched
+    const ownership = source.type === 'repository' && resolveAnalysisConfig(config, repositoryConfig).ownership;
+    const history = await loadHistory(source, codeDir, ownership);
+    const fetchedAt = Date.now();
+
+    await reportProgress('scan', 30);
+    const cache = await openFileCache(projectId, source, codeDir);
+    let lastPercent = 30;
+    let pendingProgress = Promise.resolve();
+    const analyzed = await analyzeRepository(codeDir, {
+      config,
+      repositoryConfig,
+      cache,
+      history,
+      onProgress: ({ stage, processed, total }) => {
+        if (stage !== 'metrics') return;
+        // Per-file updates are throttled to 5% steps and chained so they land in order
+        const percent = 40 + Math.floor((processed / total) * 40);
+        if (percent - lastPercent >= 5) {
+          lastPercent = percent;
+          pendingProgress = pendingProgress.then(() => reportProgress('metrics', percent)).catch(() => {});
+        }
+      }
+    }, scoringModel);
+    await pendingProgress;
+    let report = analyzed;
+    if (ownership && history) {
+      await reportProgress('ownership', 80);
+      report = { ...analyzed, ownership: await loadOwnership(codeDir, analyzed, reportProgress) };
+    }
+
+    const checkout = await readCheckout(codeDir);
+    // Taken before the baseline, whose files would otherwise count as cache misses of this run
+    const cacheStats = cache.stats();
+    if (source.type === 'repository' && baseline) {
+      await reportProgress('baseline', 85);
+      report.pullRequest = await analyzeBaseline(source, baseline, report, checkout.commitSha, {
+        baseDir, config, repositoryConfig, cache, scoringModel
+      });
+    }
+
+    const analyzedAt = Date.now();
+
+    await reportProgress('persist', 90);
+
+    console.log(`Reused ${cacheStats.hits} cached file results, analyzed ${cacheStats.misses} files`);
+
+    // Each run is kept as its own snapshot so history and trends survive re-analysis
+    await saveAnalysisRun({
+      projectId,
+      jobId,
+      ref: source.type === 'repository' ? source.ref || null : null,
+      ...checkout,
+      startedAt,
+      finishedAt: new Date(),
+      timings: {
+        cloneMs: fetchedAt - startedAt.getTime(),
+        analysisMs: analyzedAt - fetchedAt
+      },
+      toolVersions: await getToolVersions(),
+      cacheStats,
+      results: report
+    }, supabaseAdmin);
+    await saveFileCacheSnapshot(projectId, cache.snapshot(checkout.commitSha));
+
+    const { error: updateError } = await supabaseAdmin
+      .from('projects')
+      .update({
+        status: 'completed',
+        error_message: null,
+        analyzed_at: new Date().toISOString()
+      })
+      .eq('id', projectId);
+
+    if (updateError) {
+      throw new Error(`Failed to update analysis results: ${updateError.message}`);
+    }
+
+    // The results are stored, so the upload is no longer needed; failed runs keep it for a retry
+    if (source.type === 'archive') {
+      await deleteProjectArchive(source.storagePath).catch(error => console.warn('Failed to delete the uploaded archive:', error));
+    }
+
+    console.log('Analysis results saved successfully');
+    return report;
+  } catch (error) {
+    console.error(`Analysis failed for project ${projectId}:`, error);
+    await updateProjectStatus(projectId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    throw error;
+  } finally {
+    try {
+      for (const dir of [analysisDir, baseDir]) {
+        if (fs.existsSync(dir)) {
+          fs.rmSync(dir, { recursive: true, force: true });
+          console.log('Cleaned up repository path', dir);
+        }
+      }
+    } catch (cleanupError) {
+      console.error('Failed to cleanup repository:', cleanupError);
+    }
+  }
+}
+
+// Analyzes an already checked out repository and adds the overall score, summary and recommendations
+export async function analyzeRepository(
+  repoPath: string,
+  options: AnalysisOptions = {},
+  scoringModel: ScoringModel = DEFAULT_SCORING_MODEL
+): Promise<AnalysisReport> {
+  console.log(`Starting analysis in path ${repoPath}`);
+
+  if (!fs.existsSync(repoPath)) {
+    throw new Error(`Repository path ${repoPath} does not exist`);
+  }
+
+  if (fs.readdirSync(repoPath).length === 0) {
+    throw new Error('Repository is empty');
+  }
+
+  // A file that never finishes parsing can only be stopped on a thread, and would otherwise hang the worker
+  const analysisResults = await analyzeCode(repoPath, { minThreads: 1, ...options });
+  const report = buildAnalysisReport(analysisResults, scoringModel);
+  console.log('Overall score:', report.overallScore);
+
+  return report;
+}
+
+// Called by the worker and by routes that have checked the caller owns the project
+export async function updateProjectStatus(projectId: string, status: ProjectStatus, errorMessage?: string) {
+  try {
+    const { error } = await supabaseAdmin
+      .from('projects')
+      .update({
+        status,
+        error_message: errorMessage || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', projectId);
+
+    if (error) {
+      console.error('Failed to update project status:', error);
+    }
+  } catch (error) {
+    console.error('Error updating project status:', error);
+  }
+}
+
+// Per-file results of the last run; for repositories, a git diff against its commit says which files may have changed
+async function openFileCache(projectId: string, source: AnalysisSource, codeDir: string): Promise<FileCache> {
+  const previous = await loadFileCacheSnapshot(projectId);
+  if (!previous?.commitSha || source.type !== 'repository') {
+    return createFileCache(previous);
+  }
+
+  try {
+    const changed = await createGitProvider({ provider: source.provider, accessToken: source.accessToken })
+      .listChangedFiles(source.repoUrl, codeDir, previous.commitSha);
+    console.log(`${changed.length} files changed since ${previous.commitSha.slice(0, 7)}`);
+    return createFileCache(previous, new Set(changed));
+  } catch (error) {
+    // Force-pushed or pruned commits cannot be fetched; content hashes still find unchanged files
+    console.warn('Could not diff against the cached commit:', error instanceof Error ? error.message : error);
+    return createFileCache(previous);
+  }
+}
+
+// Clones are shallow; churn only needs the commits in its window, blame needs the whole history
+async function loadHistory(source: AnalysisSource, codeDir: string, ownership: boolean): Promise<CommitHistory | null> {
+  if (source.type !== 'repository') {
+    return null;
+  }
+
+  const since = historyStart();
+  try {
+    await createGitProvider({ provider: source.provider, accessToken: source.accessToken })
+      .fetchHistory(source.repoUrl, codeDir, ownership ? null : since);
+    const history = await readHistory(codeDir, since);
+    console.log(`Read ${history.commits} commits by ${history.authors} authors since ${history.since}`);
+    return history;
+  } catch (error) {
+    // Hotspots are left out rather than failing the run
+    console.warn('Could not read the commit history:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Only analyzed source files are blamed, so ownership lines up with the debt it is rolled up with;
+// files with the most debt go first, so they are the ones kept when the file cap is reached
+async function loadOwnership(codeDir: string, report: AnalysisReport, reportProgress: ProgressReporter): Promise<RepositoryOwnership | null> {
+  const minutes = new Map(report.remediation.byFile.map(entry => [entry.file, entry.minutes]));
+  const files = report.complexity.details
+    .map(detail => detail.file)
+    .sort((a, b) => (minutes.get(b) || 0) - (minutes.get(a) || 0));
+
+  let lastPercent = 80;
+  let pendingProgress = Promise.resolve();
+  try {
+    const ownership = await readOwnership(codeDir, files, {
+      onProgress: (processed, total) => {
+        const percent = 80 + Math.floor((processed / total) * 5);
+        if (percent > lastPercent) {
+          lastPercent = percent;
+          pendingProgress = pendingProgress.then(() => reportProgress('ownership', percent)).catch(() => {});
+        }
+      }
+    });
+    console.log(`Blamed ${ownership.files.length} files${ownership.codeowners ? `, owners from ${ownership.codeowners}` : ''}`);
+    return ownership;
+  } catch (error) {
+    console.warn('Could not read file ownership:', error instanceof Error ? error.message : error);
+    return null;
+  } finally {
+    await pendingProgress;
+  }
+}
+
+// Checks out where the pull request branched off and returns its commit
+async function checkoutMergeBase(
+  source: Extract<AnalysisSource, { type: 'repository' }>,
+  baseRef: string,
+  codeDir: string,
+  baseDir: string
+): Promise<string> {
+  // Left behind if an earlier run died before its cleanup; git will not check out into it
+  fs.rmSync(baseDir, { recursive: true, force: true });
+  const commitSha = await createGitProvider({ provider: source.provider, accessToken: source.accessToken })
+    .checkoutMergeBase(source.repoUrl, codeDir, baseRef, baseDir);
+  console.log(`Checked out the merge base ${commitSha.slice(0, 7)} with ${baseRef}`);
+  return commitSha;
+}
+
+// Analyzes the merge base and compares the head with it
+async function analyzeBaseline(
+  source: Extract<AnalysisSource, { type: 'repository' }>,
+  baseline: PullRequestDelta['base'],
+  head: AnalysisReport,
+  headSha: string | null,
+  { baseDir, config, repositoryConfig, cache, scoringModel }: {
+    baseDir: string;
+    config: AnalysisConfigInput | null;
+    repositoryConfig: AnalysisConfigInput | null;
+    cache: FileCache;
+    scoringModel: ScoringModel;
+  }
+): Promise<PullRequestDelta> {
+  // Changed files are known relative to the last run, not the merge base, so only content hashes are trusted
+  const base = await analyzeRepository(baseDir, {
+    config,
+    repositoryConfig,
+    cache: createFileCache(cache.snapshot(null))
+  }, scoringModel);
+
+  const { gate } = resolveAnalysisConfig(config, repositoryConfig);
+  return buildPullRequestDelta(base, head, gate, {
+    base: baseline,
+    head: { ref: source.ref || null, commitSha: headSha }
+  });
+}
+
+// Commit and branch of the clone, so a run can be tied back to the code it measured
+async function readCheckout(repoPath: string): Promise<{ commitSha: string | null; branch: string | null }> {
+  // Without this, git would report on whatever repository happens to contain the workspace
+  if (!fs.existsSync(path.join(repoPath, '.git'))) {
+    return { commitSha: null, branch: null };
+  }
+
+  try {
+    const { stdout: sha } = await execAsync('git rev-parse HEAD', { cwd: repoPath });
+    const { stdout: branch } = await execAsync('git rev-parse --abbrev-ref HEAD', { cwd: repoPath });
+    return { commitSha: sha.trim(), branch: branch.trim() === 'HEAD' ? null : branch.trim() };
+  } catch (error) {
+    console.warn('Could not read commit information:', error);
+    return { commitSha: null, branch: null };
+  }
+}
+
+async function getToolVersions(): Promise<Record<string, string>> {
+  const versions: Record<string, string> = {
+    analyzer: ANALYZER_VERSION,
+    typescript: ts.version,
+    node: process.version
+  };
+
+  try {
+    const { stdout } = await execAsync('git --version');
+    versions.git = stdout.trim().replace(/^git version /, '');
+  } catch {
+    // git is required to clone, so this only happens for runs on local checkouts
+  }
+
+  return versions;
+}
+
+function createWorkspace(projectId: string): string {
+  fs.mkdirSync(getWorkspaceRoot(), { recursive: true });
+  const analysisDir = fs.mkdtempSync(path.join(getWorkspaceRoot(), `analysis-${projectId}-`)).replace(/\\/g, '/');
+  console.log('Created analysis directory:', analysisDir);
+  return analysisDir;
+}
+
+// Extracts an uploaded archive; a single top-level folder, as most archivers create, becomes the root
+async function extractUpload(storagePath: string, analysisDir: string): Promise<string> {
+  const archive = await downloadProjectArchive(storagePath);
+  const { files, bytes, skipped } = extractArchive(archive, analysisDir);
+  console.log(`Extracted ${files} files (${bytes} bytes) from ${storagePath}`);
+  if (skipped.length > 0) {
+    console.warn('Skipped archive entries:', skipped);
+  }
+
+  const entries = fs.readdirSync(analysisDir, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return path.join(analysisDir, entries[0].name).replace(/\\/g, '/');
+  }
+  return analysisDir;
+}
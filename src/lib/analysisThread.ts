@@ -0,0 +1,35 @@
+import { parentPort } from 'worker_threads';
+import { FileMetrics, Language, LANGUAGE_ANALYZERS } from '@/lib/codeAnalysis';
+import { MaintainabilityLimits } from '@/lib/maintainability';
+import type { WorkerReply, WorkerRequest } from '@/lib/workerPool';
+
+// One file to measure with the built-in analyzers
+export type FileTask = {
+  fileName: string;
+  extension: string;
+  content: string;
+  limits: MaintainabilityLimits;
+};
+
+export type FileTaskResult = {
+  language: Language;
+  metrics: FileMetrics;
+};
+
+const analyzers = new Map(LANGUAGE_ANALYZERS.flatMap(analyzer =>
+  Object.entries(analyzer.extensions).map(([extension, language]) => [extension, { analyzer, language }] as const)
+));
+
+parentPort?.on('message', ({ id, task }: WorkerRequest<FileTask>) => {
+  let reply: WorkerReply<FileTaskResult>;
+  try {
+    const entry = analyzers.get(task.extension);
+    if (!entry) {
+      throw new Error(`No analyzer for ${task.extension} files`);
+    }
+    reply = { id, result: { language: entry.language, metrics: entry.analyzer.analyze(task.fileName, task.content, task.limits) } };
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,110 @@
+import { AnalysisSource, runAnalysisPipeline } from '@/lib/analysisPipeline';
+import {
+  AnalysisJob,
+  claimNextJob,
+  finishJob,
+  HEARTBEAT_INTERVAL_MS,
+  JobCancelledError,
+  requeueStaleJobs,
+  touchJobHeartbeat,
+  updateJobProgress,
+  UPLOAD_PROVIDER
+} from '@/lib/jobs';
+import { isProviderType } from '@/lib/gitProviders';
+
+// How often an idle worker checks for jobs queued by other server instances
+const POLL_INTERVAL_MS = 30 * 1000;
+
+let draining: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+// Runs queued jobs one at a time until the queue is empty; concurrent calls share one drain
+export function processQueue(): Promise<void> {
+  if (!draining) {
+    draining = drainQueue().finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+}
+
+// Called once per server process: recovers jobs orphaned by a restart and starts polling
+export async function startAnalysisWorker() {
+  if (pollTimer) return;
+
+  const requeued = await requeueStaleJobs();
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} stale analysis job(s)`);
+  }
+
+  pollTimer = setInterval(() => {
+    requeueStaleJobs()
+      .then(() => processQueue())
+      .catch(error => console.error('Analysis worker poll failed:', error));
+  }, POLL_INTERVAL_MS);
+  pollTimer.unref?.();
+
+  processQueue().catch(error => console.error('Analysis worker failed:', error));
+}
+
+async function drainQueue() {
+  for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+    await runJob(job);
+  }
+}
+
+export async function runJob(job: AnalysisJob & { access_token: string | null }) {
+  console.log(`Running analysis job ${job.id} for project ${job.project_id} (attempt ${job.attempts})`);
+
+  // Progress updates also refresh the heartbeat, but a single clone, file or blame can outlast STALE_JOB_MS
+  const heartbeat = setInterval(() => {
+    touchJobHeartbeat(job.id).catch(error => console.error('Failed to refresh job heartbeat:', error));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  try {
+    await runAnalysisPipeline(
+      { projectId: job.project_id, source: getJobSource(job), jobId: job.id },
+      (stage, percent) => updateJobProgress(job.id, stage, percent)
+    );
+
+    await finishJob(job.id, 'completed');
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      console.log(`Analysis job ${job.id} cancelled`);
+      await finishJob(job.id, 'cancelled', 'Analysis cancelled');
+      return;
+    }
+
+    console.error(`Analysis job ${job.id} failed:`, error);
+    await finishJob(job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Upload jobs keep the archive's storage path where repository jobs keep the clone URL
+function getJobSource(job: AnalysisJob & { access_token: string | null }): AnalysisSource {
+  if (job.provider === UPLOAD_PROVIDER) {
+    return { type: 'archive', storagePath: job.repo_url };
+  }
+
+  if (!isProviderType(job.provider)) {
+    throw new Error(`Unsupported repository provider ${job.provider}`);
+  }
+
+  // Plain Git remotes may be public, everything else clones with the user's token
+  if (!job.access_token && job.provider !== 'git') {
+    throw new Error('Access token is no longer available; retry the job to supply a new one');
+  }
+
+  return {
+    type: 'repository',
+    provider: job.provider,
+    repoUrl: job.repo_url,
+    accessToken: job.access_token,
+    ref: job.ref,
+    baseRef: job.base_ref,
+    commitSha: job.commit_sha
+  };
+}
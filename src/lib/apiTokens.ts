@@ -0,0 +1,111 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Lets CI jobs upload runs to one project; the token itself is only shown when it is created
+export type ProjectApiToken = {
+  id: string;
+  project_id: string;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type NewProjectApiToken = ProjectApiToken & {
+  token: string;
+};
+
+// Makes leaked tokens easy to recognise in logs and secret scanners
+export const API_TOKEN_PREFIX = 't3k_';
+
+export const MAX_TOKEN_NAME_LENGTH = 100;
+
+const TOKEN_COLUMNS = 'id, project_id, name, created_at, last_used_at';
+
+export async function createProjectApiToken(
+  projectId: string,
+  name: string,
+  client: SupabaseClient = supabase
+): Promise<NewProjectApiToken> {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const { data, error } = await client
+    .from('project_api_tokens')
+    .insert({ project_id: projectId, name, token_hash: hashToken(token) })
+    .select(TOKEN_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create API token: ${error?.message || 'No data returned'}`);
+  }
+
+  return { ...data, token };
+}
+
+export async function listProjectApiTokens(projectId: string, client: SupabaseClient = supabase): Promise<ProjectApiToken[]> {
+  const { data, error } = await client
+    .from('project_api_tokens')
+    .select(TOKEN_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list API tokens: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Returns false when the project has no such token
+export async function deleteProjectApiToken(projectId: string, tokenId: string, client: SupabaseClient = supabase): Promise<boolean> {
+  const { data, error } = await client
+    .from('project_api_tokens')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('id', tokenId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete API token: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+// Only hashes are stored, so a token is checked by looking up the hash of what was sent.
+// CI requests have no user session for RLS to check, so the lookup runs with the service role
+export async function verifyProjectApiToken(projectId: string, token: string): Promise<boolean> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('project_api_tokens')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to verify API token: ${error.message}`);
+  }
+  if (!data) return false;
+
+  const { error: updateError } = await supabaseAdmin
+    .from('project_api_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  if (updateError) {
+    console.error('Failed to record API token use:', updateError);
+  }
+  return true;
+}
+
+export function readBearerToken(headers: Headers): string | null {
+  const match = (headers.get('Authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Tokens are long and random, so an unsalted hash cannot be reversed by guessing
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
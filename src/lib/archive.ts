@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export type ExtractionLimits = {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  // Uncompressed to compressed size; anything above this is treated as a zip bomb
+  maxCompressionRatio: number;
+};
+
+export type ExtractionResult = {
+  files: number;
+  bytes: number;
+  // Entries that were deliberately not extracted, such as symlinks
+  skipped: string[];
+};
+
+export const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+export const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+  maxFiles: 20000,
+  maxFileBytes: 20 * 1024 * 1024,
+  maxTotalBytes: 500 * 1024 * 1024,
+  maxCompressionRatio: 200
+};
+
+// Raised for archives that are malformed, unsupported or unsafe to extract
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export function detectArchiveFormat(header: Buffer): ArchiveFormat | null {
+  if (header.length >= 4 && header.readUInt32LE(0) === 0x04034b50) return 'zip';
+  // Empty archives start with the end of central directory record
+  if (header.length >= 4 && header.readUInt32LE(0) === 0x06054b50) return 'zip';
+  if (header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b) return 'tar.gz';
+  return null;
+}
+
+export function extractArchive(
+  archive: Buffer,
+  destination: string,
+  limits: ExtractionLimits = DEFAULT_EXTRACTION_LIMITS
+): ExtractionResult {
+  const format = detectArchiveFormat(archive);
+  if (!format) {
+    throw new ArchiveError('Unsupported archive format; upload a ZIP or tar.gz file');
+  }
+
+  const writer = createWriter(path.resolve(destination), limits);
+  if (format === 'zip') {
+    extractZip(archive, writer, limits);
+  } else {
+    extractTarGz(archive, writer, limits);
+  }
+
+  return writer.result;
+}
+
+type EntryWriter = {
+  file: (name: string, data: Buffer) => void;
+  directory: (name: string) => void;
+  skip: (name: string, reason: string) => void;
+  remainingBytes: () => number;
+  result: ExtractionResult;
+};
+
+function createWriter(root: string, limits: ExtractionLimits): EntryWriter {
+  const result: ExtractionResult = { files: 0, bytes: 0, skipped: [] };
+  fs.mkdirSync(root, { recursive: true });
+
+  return {
+    file(name, data) {
+      const target = resolveEntryPath(root, name);
+      if (!target) return;
+
+      result.files++;
+      result.bytes += data.length;
+      if (result.files > limits.maxFiles) {
+        throw new ArchiveError(`Archive contains more than ${limits.maxFiles} files`);
+      }
+      if (data.length > limits.maxFileBytes) {
+        throw new ArchiveError(`${name} is larger than ${limits.maxFileBytes} bytes`);
+      }
+      if (result.bytes > limits.maxTotalBytes) {
+        throw new ArchiveError(`Archive expands to more than ${limits.maxTotalBytes} bytes`);
+      }
+
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      // Permissions from the archive are ignored; nothing extracted is executable
+      fs.writeFileSync(target, data, { mode: 0o644 });
+    },
+    directory(name) {
+      const target = resolveEntryPath(root, name);
+      if (target) fs.mkdirSync(target, { recursive: true });
+    },
+    skip(name, reason) {
+      result.skipped.push(`${name} (${reason})`);
+    },
+    remainingBytes: () => limits.maxTotalBytes - result.bytes,
+    result
+  };
+}
+
+// Rejects absolute paths and any entry that would land outside the extraction root (zip-slip)
+function resolveEntryPath(root: string, name: string): string | null {
+  const normalized = name.replace(/\\/g, '/');
+  if (normalized.includes('\0')) {
+    throw new ArchiveError(`Invalid entry name ${JSON.stringify(name)}`);
+  }
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw new ArchiveError(`Entry ${name} has an absolute path`);
+  }
+
+  const target = path.resolve(root, normalized);
+  if (target === root) return null;
+  if (!target.startsWith(root + path.sep)) {
+    throw new ArchiveError(`Entry ${name} points outside the extraction directory`);
+  }
+
+  return target;
+}
+
+function extractZip(archive: Buffer, writer: EntryWriter, limits: ExtractionLimits) {
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ArchiveError('ZIP64 archives are not supported');
+  }
+  if (entryCount > limits.maxFiles) {
+    throw new ArchiveError(`Archive contains more than ${limits.maxFiles} entries`);
+  }
+
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new ArchiveError('Corrupt ZIP central directory');
+    }
+
+    const madeBy = archive.readUInt16LE(offset + 4);
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const externalAttributes = archive.readUInt32LE(offset + 38);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Unix file type lives in the high bits of the external attributes
+    const unixMode = madeBy >> 8 === 3 ? externalAttributes >>> 16 : 0;
+    if ((unixMode & 0o170000) === 0o120000) {
+      writer.skip(name, 'symlink');
+      continue;
+    }
+    if (name.endsWith('/')) {
+      writer.directory(name);
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new ArchiveError(`${name} is encrypted`);
+    }
+    if (compressedSize > 0 && size / compressedSize > limits.maxCompressionRatio) {
+      throw new ArchiveError(`${name} has a suspicious compression ratio`);
+    }
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new ArchiveError(`Corrupt ZIP entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      // Declared sizes can lie, so inflation itself is capped as well
+      data = inflate(() => zlib.inflateRawSync(compressed, {
+        maxOutputLength: Math.max(1, Math.min(limits.maxFileBytes, writer.remainingBytes()) + 1)
+      }), name);
+    } else {
+      throw new ArchiveError(`${name} uses unsupported compression method ${method}`);
+    }
+
+    if (data.length !== size) {
+      throw new ArchiveError(`${name} does not match its declared size`);
+    }
+    writer.file(name, data);
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === 0x06054b50) return offset;
+  }
+  throw new ArchiveError('Corrupt ZIP archive: end of central directory not found');
+}
+
+function extractTarGz(archive: Buffer, writer: EntryWriter, limits: ExtractionLimits) {
+  // Headers and padding add up to about 1 KB per entry on top of the content
+  const maxTarBytes = Math.min(
+    limits.maxTotalBytes + (limits.maxFiles + 2) * 1024,
+    archive.length * limits.maxCompressionRatio
+  );
+  const tar = inflate(() => zlib.gunzipSync(archive, { maxOutputLength: Math.max(1, maxTarBytes) }), 'archive');
+
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readTarNumber(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readTarString(header.subarray(345, 500));
+    const baseName = readTarString(header.subarray(0, 100));
+    const name = (longName ?? (prefix ? `${prefix}/${baseName}` : baseName)).replace(/^\.\//, '');
+    const dataStart = offset + 512;
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (data.length < size) {
+      throw new ArchiveError('Corrupt tar archive: entry data is truncated');
+    }
+
+    // GNU long names and pax headers describe the entry that follows
+    if (type === 'L') {
+      longName = readTarString(data);
+      continue;
+    }
+    if (type === 'x') {
+      longName = readPaxPath(data) ?? longName;
+      continue;
+    }
+    longName = null;
+
+    if (type === '0' || type === '7') {
+      writer.file(name, Buffer.from(data));
+    } else if (type === '5') {
+      writer.directory(name);
+    } else if (type === '1' || type === '2') {
+      writer.skip(name, type === '2' ? 'symlink' : 'hard link');
+    } else if (type !== 'g') {
+      writer.skip(name, `unsupported entry type ${type}`);
+    }
+  }
+}
+
+function readTarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+function readTarNumber(field: Buffer): number {
+  // Sizes above 8 GB use base-256 with the high bit set; nothing that large is accepted anyway
+  if (field[0] & 0x80) {
+    throw new ArchiveError('Tar entry is too large');
+  }
+  const value = parseInt(readTarString(field).trim() || '0', 8);
+  if (Number.isNaN(value)) {
+    throw new ArchiveError('Corrupt tar header');
+  }
+  return value;
+}
+
+function readPaxPath(data: Buffer): string | null {
+  // Records look like "<length> <key>=<value>\n"
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function inflate(run: () => Buffer, name: string): Buffer {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof RangeError || (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new ArchiveError(`${name} expands beyond the extraction limits`);
+    }
+    throw new ArchiveError(`Failed to decompress ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
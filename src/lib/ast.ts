@@ -0,0 +1,90 @@
+import ts from 'typescript';
+import { extname } from 'path';
+
+// parseDiagnostics is populated by createSourceFile but not part of the public typings
+type ParsedSourceFile = ts.SourceFile & {
+  parseDiagnostics?: ts.DiagnosticWithLocation[];
+};
+
+export function parseSource(fileName: string, content: string): ts.SourceFile {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  ) as ParsedSourceFile;
+
+  const diagnostics = sourceFile.parseDiagnostics || [];
+  if (diagnostics.length > 0) {
+    const first = diagnostics[0];
+    const message = ts.flattenDiagnosticMessageText(first.messageText, '\n');
+    throw new Error(`Syntax error in ${fileName} at line ${getLine(sourceFile, first.start)}: ${message}`);
+  }
+
+  return sourceFile;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (extname(fileName)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+// 1-based line number of a position in the file
+export function getLine(sourceFile: ts.SourceFile, pos: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+}
+
+export function isFunctionNode(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node);
+}
+
+export function getFunctionName(node: ts.FunctionLikeDeclaration): string {
+  const ownName = node.name && ts.isIdentifier(node.name) ? node.name.text : undefined;
+  const className = ts.isClassLike(node.parent) && node.parent.name ? node.parent.name.text : undefined;
+
+  if (ts.isConstructorDeclaration(node)) {
+    return className ? `${className}.constructor` : 'constructor';
+  }
+
+  if (ownName) {
+    return className ? `${className}.${ownName}` : ownName;
+  }
+
+  if (node.name) {
+    return node.name.getText();
+  }
+
+  // Anonymous functions take the name of whatever they are assigned to
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+    return parent.name.getText();
+  }
+  if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    return parent.left.getText();
+  }
+  if (ts.isExportAssignment(parent)) {
+    return 'default';
+  }
+
+  return '<anonymous>';
+}
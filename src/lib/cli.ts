@@ -0,0 +1,410 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import { analyzeCode, ANALYZER_VERSION } from '@/lib/codeAnalysis';
+import { AnalysisConfigError, loadRepositoryConfig, resolveAnalysisConfig } from '@/lib/analysisConfig';
+import { buildPullRequestDelta, checkQualityGate, GateFindings, PullRequestDelta, QualityGate } from '@/lib/delta';
+import { isValidRef } from '@/lib/gitProviders';
+import { buildJunitReport, buildSarifLog } from '@/lib/reportFormats';
+import { AnalysisReport, buildAnalysisReport } from '@/lib/scoring';
+
+const execFileAsync = promisify(execFile);
+
+export type OutputFormat = 'table' | 'json';
+
+export type CliOptions = {
+  directory: string;
+  format: OutputFormat;
+  sarif: string | null;
+  junit: string | null;
+  // Branch or commit to compare with; its merge base with HEAD is analyzed from the local repository
+  base: string | null;
+  threads?: number;
+  // Site to upload the run to, e.g. https://t3kdet.example.com
+  upload: string | null;
+  project: string | null;
+  help: boolean;
+};
+
+export type CliIO = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+  // Only used to upload; analysis never touches the network
+  fetch: typeof fetch;
+};
+
+// Raised for arguments the CLI cannot run with; the usage is printed along with the message
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+// 1 is kept for a failed gate, so CI can tell it apart from the analyzer not running at all
+export const EXIT_CODES = {
+  passed: 0,
+  gateFailed: 1,
+  error: 2
+} as const;
+
+// The project API token is read from the environment, where CI keeps secrets, rather than from an argument
+export const API_TOKEN_ENV = 'T3KDET_TOKEN';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json'];
+
+export const USAGE = `Usage: t3kdet [directory] [options]
+
+Analyzes a directory and checks it against the quality gate in its .t3kdet.yml.
+Exits with 0 when the gate passes, 1 when it fails and 2 on errors.
+
+Options:
+  --format <table|json>   Output printed to stdout (default: table)
+  --sarif <file>          Write findings as SARIF 2.1.0
+  --junit <file>          Write the gate checks as JUnit XML
+  --base <ref>            Compare with the merge base of HEAD and this branch or commit
+  --threads <count>       Analysis threads; 0 analyzes on the main thread
+  --upload <url>          Upload the run to this site; needs --project and ${API_TOKEN_ENV}
+  --project <id>          Project to upload the run to
+  -h, --help              Show this help`;
+
+const DEFAULT_IO: CliIO = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  env: process.env,
+  fetch: (input, init) => fetch(input, init)
+};
+
+// Options that take a value, with the field they set
+const VALUE_OPTIONS: Record<string, 'format' | 'sarif' | 'junit' | 'base' | 'threads' | 'upload' | 'project'> = {
+  '--format': 'format',
+  '--sarif': 'sarif',
+  '--junit': 'junit',
+  '--base': 'base',
+  '--threads': 'threads',
+  '--upload': 'upload',
+  '--project': 'project'
+};
+
+// Failed checks list at most this many entries in the table; reports list them all
+const TABLE_DETAIL_LIMIT = 10;
+
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    directory: '.',
+    format: 'table',
+    sarif: null,
+    junit: null,
+    base: null,
+    upload: null,
+    project: null,
+    help: false
+  };
+  let directory: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+
+    // Both --format json and --format=json are accepted
+    const [name, inline] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, null];
+    const field = VALUE_OPTIONS[name];
+    if (!field) {
+      if (arg.startsWith('-')) throw new CliUsageError(`Unknown option ${arg}`);
+      if (directory !== null) throw new CliUsageError(`Only one directory can be analyzed, got ${directory} and ${arg}`);
+      directory = arg;
+      continue;
+    }
+
+    const value = inline ?? args[++i];
+    if (value === undefined || value === '') {
+      throw new CliUsageError(`${name} needs a value`);
+    }
+
+    if (field === 'format') {
+      if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        throw new CliUsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+      }
+      options.format = value as OutputFormat;
+    } else if (field === 'threads') {
+      const threads = Number(value);
+      if (!Number.isInteger(threads) || threads < 0) {
+        throw new CliUsageError('--threads must be a whole number, or 0 to analyze on the main thread');
+      }
+      options.threads = threads;
+    } else {
+      options[field] = value;
+    }
+  }
+
+  if (options.base !== null && !isValidRef(options.base)) {
+    throw new CliUsageError(`--base ${options.base} is not a valid branch name or commit`);
+  }
+  if ((options.upload === null) !== (options.project === null)) {
+    throw new CliUsageError('--upload and --project are used together');
+  }
+  if (options.upload !== null && !/^https?:\/\//.test(options.upload)) {
+    throw new CliUsageError('--upload must be an http or https URL');
+  }
+
+  return { ...options, directory: directory ?? '.' };
+}
+
+// Runs the CLI and returns its exit code; relative paths in the arguments are taken from cwd
+export async function runCli(args: string[], cwd: string, io: CliIO = DEFAULT_IO): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    io.stderr(`${error.message}\n\n${USAGE}`);
+    return EXIT_CODES.error;
+  }
+
+  if (options.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.passed;
+  }
+
+  const token = io.env[API_TOKEN_ENV];
+  if (options.upload && !token) {
+    io.stderr(`${API_TOKEN_ENV} must hold a project API token to upload; create one in the project settings`);
+    return EXIT_CODES.error;
+  }
+
+  const directory = path.resolve(cwd, options.directory);
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    io.stderr(`${directory} is not a directory`);
+    return EXIT_CODES.error;
+  }
+
+  try {
+    const startedAt = new Date();
+    const report = buildAnalysisReport(await analyzeCode(directory, { threads: options.threads }));
+    const finishedAt = new Date();
+
+    let findings: GateFindings;
+    if (options.base) {
+      report.pullRequest = await analyzeMergeBase(directory, options.base, report, options.threads);
+      findings = report.pullRequest;
+    } else {
+      findings = checkQualityGate(report, resolveAnalysisConfig(loadRepositoryConfig(directory)).gate);
+    }
+    const details = describeFindings(findings, report.pullRequest);
+
+    if (options.format === 'json') {
+      io.stdout(JSON.stringify({ gate: findings.gate, report }, null, 2));
+    } else {
+      io.stdout(formatTable(directory, report, findings, details));
+    }
+
+    if (options.sarif) {
+      writeReport(path.resolve(cwd, options.sarif), JSON.stringify(buildSarifLog(report), null, 2));
+    }
+    if (options.junit) {
+      writeReport(path.resolve(cwd, options.junit), buildJunitReport(findings.gate, details));
+    }
+
+    if (options.upload && options.project) {
+      try {
+        const url = await uploadRun(options.upload, options.project, token!, report, { directory, startedAt, finishedAt }, io);
+        io.stderr(`Uploaded the run to ${url}`);
+      } catch (error) {
+        io.stderr(`Upload failed: ${error instanceof Error ? error.message : String(error)}`);
+        return EXIT_CODES.error;
+      }
+    }
+
+    return findings.gate.passed ? EXIT_CODES.passed : EXIT_CODES.gateFailed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr(error instanceof AnalysisConfigError ? `Invalid configuration: ${message}` : `Analysis failed: ${message}`);
+    return EXIT_CODES.error;
+  }
+}
+
+// Analyzes the merge base in a temporary worktree; nothing is fetched, so the base must already be in the clone
+async function analyzeMergeBase(directory: string, baseRef: string, head: AnalysisReport, threads?: number): Promise<PullRequestDelta> {
+  const git = (...args: string[]) => execFileAsync('git', args, { cwd: directory });
+
+  let root: string;
+  try {
+    root = (await git('rev-parse', '--show-toplevel')).stdout.trim();
+  } catch {
+    throw new Error(`--base needs a git repository, and ${directory} is not in one`);
+  }
+
+  // CI checkouts often only have the remote-tracking branch
+  let commitSha: string | null = null;
+  for (const candidate of [baseRef, `origin/${baseRef}`]) {
+    try {
+      commitSha = (await git('merge-base', 'HEAD', candidate)).stdout.trim();
+      break;
+    } catch {
+      // Tried as a remote-tracking branch next
+    }
+  }
+  if (!commitSha) {
+    throw new Error(`${baseRef} has no history in common with HEAD; fetch it, with enough history to reach the merge base, before analyzing`);
+  }
+
+  const headSha = (await git('rev-parse', 'HEAD')).stdout.trim();
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 't3kdet-base-'));
+  const worktree = path.join(workspace, 'base');
+  try {
+    await git('worktree', 'add', '--detach', worktree, commitSha);
+    // The same subdirectory of the repository is analyzed at the base
+    const baseDir = path.join(worktree, path.relative(root, fs.realpathSync(directory)));
+    const base = fs.existsSync(baseDir)
+      ? buildAnalysisReport(await analyzeCode(baseDir, { threads }))
+      : emptyReport(head);
+
+    // The base branch's own settings apply, so a change cannot loosen the gate it is checked against
+    const { gate } = resolveAnalysisConfig(fs.existsSync(baseDir) ? loadRepositoryConfig(baseDir) : null);
+    return buildPullRequestDelta(base, head, gate, {
+      base: { ref: baseRef, commitSha },
+      head: { ref: await readBranch(directory), commitSha: headSha }
+    });
+  } finally {
+    await git('worktree', 'remove', '--force', worktree).catch(() => {});
+    fs.rmSync(workspace, { recursive: true, force: true });
+  }
+}
+
+// A directory the base does not have yet compares as if it were empty
+function emptyReport(head: AnalysisReport): AnalysisReport {
+  return {
+    ...head,
+    overview: { ...head.overview, technicalDebtRatio: 0 },
+    complexity: { ...head.complexity, details: [] },
+    duplication: { ...head.duplication, instances: [], details: [] },
+    maintainability: { ...head.maintainability, details: [] },
+    security: { vulnerabilities: [], suppressed: 0 },
+    overallScore: 100
+  };
+}
+
+async function readBranch(directory: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: directory });
+    // A detached checkout, as CI usually makes, has no branch
+    return stdout.trim() === 'HEAD' ? null : stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+async function readCommit(directory: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: directory });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+// Entries behind each failed rule, for the table and the JUnit report
+function describeFindings(findings: GateFindings, delta: PullRequestDelta | null): Partial<Record<keyof QualityGate, string[]>> {
+  return {
+    maxFunctionComplexity: findings.complexFunctions.map(fn =>
+      `${fn.file}:${fn.line} ${fn.name} has cognitive complexity ${fn.cognitive}${fn.baseCognitive !== null ? `, up from ${fn.baseCognitive}` : ''}`),
+    maxNewDuplicates: findings.newDuplicates.map(clone =>
+      `${clone.first.file}:${clone.first.startLine} duplicates ${clone.lines} lines of ${clone.second.file}:${clone.second.startLine}`),
+    maxNewSecurityFindings: findings.newSecurityFindings.map(finding =>
+      `${finding.file}:${finding.line} ${finding.rule} (${finding.severity}): ${finding.message}`),
+    ...(delta ? {
+      maxScoreDrop: [`Overall score went from ${delta.overallScore.base} at ${delta.base.ref} to ${delta.overallScore.head}`],
+      maxWorsenedFiles: delta.worsenedFiles.map(file => file.file)
+    } : {})
+  };
+}
+
+function formatTable(
+  directory: string,
+  report: AnalysisReport,
+  findings: GateFindings,
+  details: Partial<Record<keyof QualityGate, string[]>>
+): string {
+  const rows: Array<[string, string]> = [
+    ['Overall score', `${report.overallScore} (${report.summary.healthStatus})`],
+    ['Files', String(report.overview.totalFiles)],
+    ['Lines', String(report.overview.totalLines)],
+    ['Technical debt ratio', `${report.overview.technicalDebtRatio}%`],
+    ['Remediation', `${Math.round(report.remediation.totalMinutes / 60 * 10) / 10} hours`],
+    ['Complexity', String(report.complexity.score)],
+    ['Maintainability', String(report.maintainability.score)],
+    ['Duplication', `${report.duplication.percentage}% in ${report.duplication.instances.length} blocks`],
+    ['Security findings', String(report.security.vulnerabilities.length)]
+  ];
+  if (report.pullRequest) {
+    const { base, overallScore } = report.pullRequest;
+    rows.push([`Compared with ${base.ref}`, `${base.commitSha.slice(0, 7)}, score ${overallScore.delta >= 0 ? '+' : ''}${overallScore.delta}`]);
+  }
+
+  const width = Math.max(...rows.map(([label]) => label.length));
+  const lines = [
+    `t3kdet ${ANALYZER_VERSION}: ${directory}`,
+    '',
+    ...rows.map(([label, value]) => `  ${label.padEnd(width)}  ${value}`),
+    '',
+    `Quality gate: ${findings.gate.passed ? 'passed' : 'FAILED'}`
+  ];
+
+  findings.gate.checks.forEach(check => {
+    lines.push(`  ${check.passed ? 'pass' : 'FAIL'}  ${check.message}`);
+    if (check.passed) return;
+    const entries = details[check.rule] || [];
+    entries.slice(0, TABLE_DETAIL_LIMIT).forEach(entry => lines.push(`          ${entry}`));
+    if (entries.length > TABLE_DETAIL_LIMIT) {
+      lines.push(`          and ${entries.length - TABLE_DETAIL_LIMIT} more`);
+    }
+  });
+  if (findings.gate.checks.length === 0) {
+    lines.push('  Every rule is turned off');
+  }
+
+  return lines.join('\n');
+}
+
+function writeReport(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+// Sends the report along with the commit; the server scores it again with the project's model
+async function uploadRun(
+  site: string,
+  projectId: string,
+  token: string,
+  report: AnalysisReport,
+  { directory, startedAt, finishedAt }: { directory: string; startedAt: Date; finishedAt: Date },
+  io: CliIO
+): Promise<string> {
+  const url = `${site.replace(/\/+$/, '')}/api/projects/${encodeURIComponent(projectId)}/runs`;
+  const response = await io.fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify({
+      results: report,
+      commitSha: await readCommit(directory),
+      branch: await readBranch(directory),
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      toolVersions: { analyzer: ANALYZER_VERSION, typescript: ts.version, node: process.version }
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    const details = Array.isArray(body?.details) ? body.details.join('; ') : body?.details;
+    throw new Error(`Upload was refused with ${response.status}: ${details || body?.error || response.statusText}`);
+  }
+  return url;
+}
@@ -1,81 +1,316 @@
-import { readFileSync, readdirSync, statSync } from 'fs';
+import { createReadStream } from 'fs';
+import { availableParallelism } from 'os';
 import { join, extname } from 'path';
+import { FileComplexity, FunctionComplexity } from '@/lib/complexity';
+import { CloneToken, detectDuplicates, DuplicationResult } from '@/lib/duplication';
+import { analyzeDependencies, DependencyDatabase, DependencyReport, loadDependencyDatabase } from '@/lib/dependencies';
+import { FileMaintainability, HalsteadMetrics, MaintainabilityIssue, MaintainabilityLimits } from '@/lib/maintainability';
+import {
+  AnalysisConfigInput,
+  collectFiles,
+  createFileRules,
+  FileCategory,
+  loadRepositoryConfig,
+  resolveAnalysisConfig
+} from '@/lib/analysisConfig';
+import { goAnalyzer, javaAnalyzer, pythonAnalyzer, typescriptAnalyzer } from '@/lib/languageAnalyzers';
+import { estimateRemediation, RemediationEstimate } from '@/lib/remediation';
+import { createSecurityScanner, SecurityReport } from '@/lib/security';
+import { buildHistoryReport, CommitHistory, HistoryReport } from '@/lib/history';
+import { mapConcurrently } from '@/lib/concurrency';
+import type { FileCache } from '@/lib/analysisCache';
+import type { FileTask, FileTaskResult } from '@/lib/analysisThread';
+import type { ImportedIssue } from '@/lib/issueImport';
+import type { RepositoryOwnership } from '@/lib/ownership';
+import type { PullRequestDelta } from '@/lib/delta';
+import { createModuleWorker } from '@/lib/moduleLoader';
+import { createWorkerPool, TaskTimeoutError } from '@/lib/workerPool';
 
-type AnalysisResult = {
+// Bumped whenever a metric changes meaning, so runs from different versions are not compared blindly
+export const ANALYZER_VERSION = '1.3.0';
+
+export type Language = 'typescript' | 'javascript' | 'python' | 'go' | 'java';
+
+export type FileMetrics = {
+  complexity: FileComplexity;
+  maintainability: FileMaintainability;
+  // Normalized tokens for clone detection
+  tokens: CloneToken[];
+};
+
+// Plug-in point for a language: claims file extensions and measures one file at a time
+export type LanguageAnalyzer = {
+  extensions: Record<string, Language>;
+  // Throws for files that do not parse; those files are skipped
+  analyze: (fileName: string, content: string, limits?: MaintainabilityLimits) => FileMetrics;
+};
+
+export const LANGUAGE_ANALYZERS: LanguageAnalyzer[] = [typescriptAnalyzer, pythonAnalyzer, goAnalyzer, javaAnalyzer];
+
+export type FileSetSummary = {
+  files: number;
+  lines: number;
+  functions: number;
+  // Averages over the language's files, on the same scales as the project scores
+  complexity: number;
+  maintainability: number;
+  duplication: number;
+};
+
+export type LanguageSummary = FileSetSummary & { language: Language };
+
+export type AnalysisResult = {
+  overview: {
+    totalFiles: number;
+    totalLines: number;
+    totalFunctions: number;
+    // Remediation time as a percentage of estimated development time
+    technicalDebtRatio: number;
+    // Largest language first
+    languages: LanguageSummary[];
+    // Tests and generated code are scored on their own and left out of everything else
+    categories: Record<Exclude<FileCategory, 'source'>, FileSetSummary>;
+  };
   complexity: {
     score: number;
     details: Array<{
       file: string;
+      language: Language;
       complexity: number;
       maintainability: number;
+      cyclomatic: number;
+      cognitive: number;
+      maxNestingDepth: number;
+      functions: FunctionComplexity[];
     }>;
   };
-  duplication: {
-    percentage: number;
-    instances: Array<{
-      files: string[];
-      lines: number;
-      fragment: string;
-    }>;
-  };
+  duplication: DuplicationResult;
   maintainability: {
     score: number;
     details: Array<{
       file: string;
+      language: Language;
       score: number;
-      issues: string[];
+      logicalLines: number;
+      halstead: HalsteadMetrics;
+      issues: MaintainabilityIssue[];
     }>;
   };
+  remediation: RemediationEstimate;
+  // Null when the repository has no package.json
+  dependencies: DependencyReport | null;
+  // Covers every file read, including tests, generated code and files whose metrics failed
+  security: SecurityReport;
+  // Findings of other tools, imported into a stored run afterwards
+  importedIssues: ImportedIssue[];
+  // Churn and hotspots from the git log; null for uploads and when history could not be read
+  history: HistoryReport | null;
+  // Blame and CODEOWNERS per file, added by the pipeline for repositories
+  ownership: RepositoryOwnership | null;
+  // Changes against the merge base, added by the pipeline when a base ref is given
+  pullRequest: PullRequestDelta | null;
+  // Files that were found but left out, in the order they were found
+  skipped: SkippedFile[];
+};
+
+export type SkipReason = 'too-large' | 'unreadable' | 'timeout' | 'analysis-error';
+
+export type SkippedFile = {
+  file: string;
+  reason: SkipReason;
+  message: string;
 };
 
-export async function analyzeCode(projectPath: string): Promise<AnalysisResult> {
+export type AnalysisProgress = {
+  stage: 'scan' | 'metrics';
+  processed: number;
+  total: number;
+};
+
+export type AnalysisOptions = {
+  onProgress?: (progress: AnalysisProgress) => void;
+  analyzers?: LanguageAnalyzer[];
+  // Project settings; a config file in the repository overrides them
+  config?: AnalysisConfigInput | null;
+  // Used instead of the config file in the analyzed directory, e.g. the base branch's for a pull request
+  repositoryConfig?: AnalysisConfigInput | null;
+  // Per-file results from earlier runs; duplication and totals are always recomputed over every file
+  cache?: FileCache;
+  // Analysis threads; 0 analyzes on the calling thread. Defaults by repository size and CPU count
+  threads?: number;
+  // Raises the default, e.g. to 1 so the file timeout applies however small the repository is
+  minThreads?: number;
+  maxFileBytes?: number;
+  // Only enforced on threads, where a stuck file can be stopped
+  fileTimeoutMs?: number;
+  // Defaults to the database at DEPENDENCY_DB_PATH
+  dependencyDatabase?: DependencyDatabase;
+  // Commits of the checkout, combined with complexity into hotspots
+  history?: CommitHistory | null;
+};
+
+// Larger files are nearly always generated or vendored and can take minutes to parse
+export const MAX_FILE_BYTES = 1024 * 1024;
+export const FILE_TIMEOUT_MS = 30 * 1000;
+
+// Smaller repositories are analyzed faster than threads can start
+const FILES_PER_THREAD = 50;
+const MAX_THREADS = 4;
+// Files read ahead per thread, so threads are not left waiting on the disk
+const READS_PER_THREAD = 2;
+
+export async function analyzeCode(projectPath: string, options: AnalysisOptions = {}): Promise<AnalysisResult> {
   try {
     console.log('Starting code analysis for:', projectPath);
     
-    // Get all files
-    const files = getAllFiles(projectPath, ['.ts', '.tsx', '.js', '.jsx']);
+    const analyzers = options.analyzers ?? LANGUAGE_ANALYZERS;
+    const analyzerByExtension = new Map(analyzers.flatMap((analyzer, index) =>
+      Object.entries(analyzer.extensions).map(([extension, language]) => [extension, { analyzer, language, group: String(index) }] as const)
+    ));
+
+    const repositoryConfig = options.repositoryConfig === undefined ? loadRepositoryConfig(projectPath) : options.repositoryConfig;
+    const config = resolveAnalysisConfig(options.config, repositoryConfig);
+    const rules = createFileRules(config);
+    const scanner = createSecurityScanner(config.suppressions);
+
+    const files = collectFiles(projectPath, config, [...analyzerByExtension.keys()]);
     console.log(`Found ${files.length} files to analyze`);
+    options.onProgress?.({ stage: 'scan', processed: files.length, total: files.length });
+
+    // Built-in analyzers run on a thread pool; custom ones are functions that cannot be sent to a thread
+    const threads = options.analyzers ? 0 : options.threads ?? Math.max(options.minThreads ?? 0, defaultThreadCount(files.length));
+    const pool = threads > 0
+      ? createWorkerPool<FileTask, FileTaskResult>(() => createModuleWorker('lib/analysisThread'), threads, options.fileTimeoutMs ?? FILE_TIMEOUT_MS)
+      : null;
+    const maxFileBytes = options.maxFileBytes ?? MAX_FILE_BYTES;
+    const skipped: SkippedFile[] = [];
+    let processed = 0;
+
+    const analyzeFile = async (file: string) => {
+      const filePath = join(projectPath, file);
+      const { analyzer, language, group } = analyzerByExtension.get(extname(file))!;
+      const limits = rules.limits(file);
+      const skip = (reason: SkipReason, message: string) => {
+        console.warn(`Skipping file /${file}: ${message}`);
+        skipped.push({ file: `/${file}`, reason, message });
+        return null;
+      };
+
+      let content: string | null;
+      try {
+        content = await readSource(filePath, maxFileBytes);
+      } catch (error) {
+        return skip('unreadable', error instanceof Error ? error.message : String(error));
+      }
+      if (content === null) {
+        return skip('too-large', `larger than ${maxFileBytes} bytes`);
+      }
+      scanner.scan(file, content);
+
+      let metrics = options.cache?.lookup(file, content, limits) ?? null;
+      if (!metrics) {
+        try {
+          metrics = pool
+            ? (await pool.run({ fileName: `/${file}`, extension: extname(file), content, limits })).metrics
+            : analyzer.analyze(`/${file}`, content, limits);
+        } catch (error) {
+          // Files that do not parse or take too long are left out rather than failing the whole run
+          const message = error instanceof Error ? error.message : String(error);
+          return skip(error instanceof TaskTimeoutError ? 'timeout' : 'analysis-error', message);
+        }
+        options.cache?.store(file, content, limits, metrics);
+      }
 
-    // Basic analysis
-    const fileAnalyses = files.map(file => {
-      const content = readFileSync(file, 'utf-8');
-      const lines = content.split('\n');
-      const complexity = calculateBasicComplexity(content);
-      const maintainability = calculateBasicMaintainability(content);
-      
       return {
-        file: file.replace(projectPath, ''),
-        complexity,
-        maintainability,
-        lines: lines.length
+        file: `/${file}`,
+        language,
+        category: rules.category(file, content),
+        group,
+        content,
+        tokens: metrics.tokens,
+        complexity: metrics.complexity.rating,
+        fileComplexity: metrics.complexity,
+        maintainability: metrics.maintainability.score,
+        fileMaintainability: metrics.maintainability,
+        lines: content.split('\n').length
       };
-    });
+    };
+
+    let results;
+    try {
+      results = await mapConcurrently(files, pool ? threads * READS_PER_THREAD : 1, async file => {
+        const result = await analyzeFile(file);
+        options.onProgress?.({ stage: 'metrics', processed: ++processed, total: files.length });
+        return result;
+      });
+    } finally {
+      await pool?.close();
+    }
+    const analyzedFiles = results.filter(result => result !== null);
+    // Skips are recorded as files finish, which on threads is out of order
+    const order = new Map(files.map((file, index) => [`/${file}`, index]));
+
+    const fileAnalyses = analyzedFiles.filter(f => f.category === 'source');
+    if (fileAnalyses.length === 0) {
+      throw new Error('No supported source files found');
+    }
+
+    const duplication = findDuplicates(fileAnalyses);
 
     // Calculate scores
     const complexityScore = calculateOverallScore(fileAnalyses.map(f => f.complexity));
     const maintainabilityScore = calculateOverallScore(fileAnalyses.map(f => f.maintainability));
 
+    const complexity = {
+      score: complexityScore,
+      details: fileAnalyses.map(({ file, language, complexity, fileComplexity, maintainability }) => ({
+        file,
+        language,
+        complexity,
+        maintainability,
+        cyclomatic: fileComplexity.cyclomatic,
+        cognitive: fileComplexity.cognitive,
+        maxNestingDepth: fileComplexity.maxNestingDepth,
+        functions: fileComplexity.functions
+      }))
+    };
+    const maintainability = {
+      score: maintainabilityScore,
+      details: fileAnalyses.map(({ file, language, fileMaintainability }) => ({
+        file,
+        language,
+        ...fileMaintainability
+      }))
+    };
+    const remediation = estimateRemediation({ complexity, duplication, maintainability });
+    const security = scanner.report();
+
     return {
-      complexity: {
-        score: complexityScore,
-        details: fileAnalyses.map(({ file, complexity, maintainability }) => ({
-          file,
-          complexity,
-          maintainability
-        }))
+      overview: {
+        totalFiles: fileAnalyses.length,
+        totalLines: fileAnalyses.reduce((sum, f) => sum + f.lines, 0),
+        totalFunctions: fileAnalyses.reduce((sum, f) => sum + f.fileComplexity.functions.length, 0),
+        technicalDebtRatio: remediation.debtRatio,
+        languages: summarizeLanguages(fileAnalyses, duplication),
+        categories: {
+          test: summarizeCategory(analyzedFiles.filter(f => f.category === 'test')),
+          generated: summarizeCategory(analyzedFiles.filter(f => f.category === 'generated'))
+        }
       },
-      duplication: {
-        percentage: 0, // Basic implementation
-        instances: []
+      complexity,
+      duplication,
+      maintainability,
+      remediation,
+      dependencies: analyzeDependencies(projectPath, config, options.dependencyDatabase ?? loadDependencyDatabase()),
+      security: {
+        ...security,
+        vulnerabilities: security.vulnerabilities.sort((a, b) => order.get(a.file)! - order.get(b.file)! || a.line - b.line)
       },
-      maintainability: {
-        score: maintainabilityScore,
-        details: fileAnalyses.map(({ file, maintainability }) => ({
-          file,
-          score: maintainability,
-          issues: []
-        }))
-      }
+      importedIssues: [],
+      history: options.history ? buildHistoryReport(options.history, complexity.details) : null,
+      ownership: null,
+      pullRequest: null,
+      skipped: skipped.sort((a, b) => order.get(a.file)! - order.get(b.file)!)
     };
   } catch (error) {
     console.error('Analysis failed:', error);
@@ -83,48 +318,74 @@ export async function analyzeCode(projectPath: string): Promise<AnalysisResult>
   }
 }
 
-function getAllFiles(dir: string, extensions: string[]): string[] {
-  const files: string[] = [];
-  
-  try {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      
-      if (entry.isDirectory() && !entry.name.startsWith('.')) {
-        files.push(...getAllFiles(fullPath, extensions));
-      } else if (entry.isFile() && extensions.includes(extname(entry.name))) {
-        files.push(fullPath);
-      }
-    }
-  } catch (error) {
-    console.error('Error reading directory:', error);
+function defaultThreadCount(fileCount: number): number {
+  if (fileCount < FILES_PER_THREAD) return 0;
+  return Math.min(MAX_THREADS, Math.max(1, availableParallelism() - 1), Math.ceil(fileCount / FILES_PER_THREAD));
+}
+
+// Reads a file in chunks, giving up as soon as it passes maxBytes; null when it is too large
+async function readSource(filePath: string, maxBytes: number): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of createReadStream(filePath)) {
+    size += chunk.length;
+    if (size > maxBytes) return null;
+    chunks.push(chunk);
   }
-  
-  return files;
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+type AnalyzedFile = {
+  file: string;
+  language: Language;
+  content: string;
+  lines: number;
+  tokens: CloneToken[];
+  group: string;
+  complexity: number;
+  maintainability: number;
+  fileComplexity: FileComplexity;
+};
+
+// Clones are searched for across every parsed file handled by the same analyzer
+function findDuplicates(files: AnalyzedFile[]): DuplicationResult {
+  return detectDuplicates(files.map(({ file, content, lines, tokens, group }) => ({
+    file,
+    text: content,
+    totalLines: lines,
+    tokens,
+    group
+  })));
+}
+
+function summarizeLanguages(files: AnalyzedFile[], duplication: DuplicationResult): LanguageSummary[] {
+  const languages = [...new Set(files.map(f => f.language))];
+
+  return languages
+    .map(language => ({ language, ...summarizeFiles(files.filter(f => f.language === language), duplication) }))
+    .sort((a, b) => b.lines - a.lines);
 }
 
-function calculateBasicComplexity(content: string): number {
-  const lines = content.split('\n');
-  const ifCount = (content.match(/if\s*\(/g) || []).length;
-  const forCount = (content.match(/for\s*\(/g) || []).length;
-  const whileCount = (content.match(/while\s*\(/g) || []).length;
-  const switchCount = (content.match(/switch\s*\(/g) || []).length;
-  
-  // Basic complexity calculation
-  const complexity = 1 + ifCount + forCount + whileCount + switchCount;
-  return Math.min(100, (complexity / lines.length) * 100);
+// Duplication within a category is measured among its own files only
+function summarizeCategory(files: AnalyzedFile[]): FileSetSummary {
+  return summarizeFiles(files, findDuplicates(files));
 }
 
-function calculateBasicMaintainability(content: string): number {
-  const lines = content.split('\n');
-  const commentCount = (content.match(/\/\//g) || []).length + (content.match(/\/\*[\s\S]*?\*\//g) || []).length;
-  const functionCount = (content.match(/function\s+\w+\s*\(/g) || []).length;
-  
-  // Basic maintainability calculation
-  const ratio = (commentCount + functionCount) / lines.length;
-  return Math.min(100, ratio * 100);
+function summarizeFiles(files: AnalyzedFile[], duplication: DuplicationResult): FileSetSummary {
+  const duplicatedLines = new Map(duplication.details.map(detail => [detail.file, detail.duplicatedLines]));
+  const lines = files.reduce((sum, f) => sum + f.lines, 0);
+  const duplicated = files.reduce((sum, f) => sum + (duplicatedLines.get(f.file) || 0), 0);
+
+  return {
+    files: files.length,
+    lines,
+    functions: files.reduce((sum, f) => sum + f.fileComplexity.functions.length, 0),
+    complexity: calculateOverallScore(files.map(f => f.complexity)),
+    maintainability: calculateOverallScore(files.map(f => f.maintainability)),
+    duplication: lines > 0 ? Math.round((duplicated / lines) * 10000) / 100 : 0
+  };
 }
 
 function calculateOverallScore(scores: number[]): number {
@@ -0,0 +1,199 @@
+import ts from 'typescript';
+import { getFunctionName, getLine, isFunctionNode } from '@/lib/ast';
+
+export type FunctionComplexity = {
+  name: string;
+  startLine: number;
+  endLine: number;
+  cyclomatic: number;
+  cognitive: number;
+  nestingDepth: number;
+  // Line of the first structure reaching nestingDepth, 0 when nothing is nested
+  deepestNestingLine: number;
+};
+
+export type FileComplexity = {
+  // Aggregate cyclomatic complexity: 1 + every decision point in the file
+  cyclomatic: number;
+  cognitive: number;
+  maxCyclomatic: number;
+  maxNestingDepth: number;
+  // 0-100, higher means harder to follow; driven by the worst function in the file
+  rating: number;
+  functions: FunctionComplexity[];
+};
+
+// Values at which a function is rated as fully complex (100)
+const CYCLOMATIC_CEILING = 10;
+const COGNITIVE_CEILING = 15;
+
+type Scope = {
+  metrics: FunctionComplexity;
+};
+
+export function calculateComplexity(sourceFile: ts.SourceFile): FileComplexity {
+  const functions: FunctionComplexity[] = [];
+  // Code outside of any function is tracked as the module scope
+  const moduleScope: Scope = {
+    metrics: {
+      name: '<module>',
+      startLine: 1,
+      endLine: getLine(sourceFile, sourceFile.end),
+      cyclomatic: 1,
+      cognitive: 0,
+      nestingDepth: 0,
+      deepestNestingLine: 0
+    }
+  };
+
+  function trackNesting(node: ts.Node, scope: Scope, nesting: number) {
+    if (nesting + 1 > scope.metrics.nestingDepth) {
+      scope.metrics.nestingDepth = nesting + 1;
+      scope.metrics.deepestNestingLine = getLine(sourceFile, node.getStart(sourceFile));
+    }
+  }
+
+  function enterStructure(node: ts.Node, scope: Scope, nesting: number) {
+    scope.metrics.cyclomatic++;
+    scope.metrics.cognitive += 1 + nesting;
+    trackNesting(node, scope, nesting);
+  }
+
+  function visitChildren(node: ts.Node, scope: Scope, nesting: number) {
+    ts.forEachChild(node, child => visit(child, scope, nesting));
+  }
+
+  function visitIf(node: ts.IfStatement, scope: Scope, nesting: number, isElseIf: boolean) {
+    if (isElseIf) {
+      // else-if chains add a branch but no extra nesting penalty
+      scope.metrics.cyclomatic++;
+      scope.metrics.cognitive++;
+      trackNesting(node, scope, nesting);
+    } else {
+      enterStructure(node, scope, nesting);
+    }
+
+    visit(node.expression, scope, nesting);
+    visit(node.thenStatement, scope, nesting + 1);
+
+    if (node.elseStatement) {
+      if (ts.isIfStatement(node.elseStatement)) {
+        visitIf(node.elseStatement, scope, nesting, true);
+      } else {
+        scope.metrics.cognitive++;
+        visit(node.elseStatement, scope, nesting + 1);
+      }
+    }
+  }
+
+  function visit(node: ts.Node, scope: Scope, nesting: number) {
+    if (isFunctionNode(node)) {
+      const fnScope: Scope = {
+        metrics: {
+          name: getFunctionName(node),
+          startLine: getLine(sourceFile, node.getStart(sourceFile)),
+          endLine: getLine(sourceFile, node.end),
+          cyclomatic: 1,
+          cognitive: 0,
+          nestingDepth: 0,
+          deepestNestingLine: 0
+        }
+      };
+      functions.push(fnScope.metrics);
+      visitChildren(node, fnScope, 0);
+      return;
+    }
+
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+        visitIf(node as ts.IfStatement, scope, nesting, false);
+        return;
+
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.CatchClause:
+        enterStructure(node, scope, nesting);
+        visitChildren(node, scope, nesting + 1);
+        return;
+
+      case ts.SyntaxKind.SwitchStatement:
+        // A switch counts once for cognitive complexity, each case counts for cyclomatic
+        scope.metrics.cognitive += 1 + nesting;
+        trackNesting(node, scope, nesting);
+        visitChildren(node, scope, nesting + 1);
+        return;
+
+      case ts.SyntaxKind.CaseClause:
+        scope.metrics.cyclomatic++;
+        break;
+
+      case ts.SyntaxKind.BreakStatement:
+      case ts.SyntaxKind.ContinueStatement:
+        if ((node as ts.BreakOrContinueStatement).label) {
+          scope.metrics.cognitive++;
+        }
+        break;
+
+      case ts.SyntaxKind.BinaryExpression:
+        visitLogical(node as ts.BinaryExpression, scope);
+        break;
+    }
+
+    visitChildren(node, scope, nesting);
+  }
+
+  function visitLogical(node: ts.BinaryExpression, scope: Scope) {
+    const operator = node.operatorToken.kind;
+    if (!isLogicalOperator(operator)) return;
+
+    scope.metrics.cyclomatic++;
+
+    // Cognitive complexity counts each run of identical operators once: a && b && c is +1
+    let parent = node.parent;
+    while (ts.isParenthesizedExpression(parent)) {
+      parent = parent.parent;
+    }
+    if (!ts.isBinaryExpression(parent) || parent.operatorToken.kind !== operator) {
+      scope.metrics.cognitive++;
+    }
+  }
+
+  visitChildren(sourceFile, moduleScope, 0);
+
+  return summarizeComplexity(moduleScope.metrics, functions);
+}
+
+// Rolls per-scope metrics up into a file result; shared by every language analyzer
+export function summarizeComplexity(moduleScope: FunctionComplexity, functions: FunctionComplexity[]): FileComplexity {
+  const scopes = [moduleScope, ...functions];
+  const decisionPoints = scopes.reduce((sum, fn) => sum + fn.cyclomatic - 1, 0);
+
+  return {
+    cyclomatic: 1 + decisionPoints,
+    cognitive: scopes.reduce((sum, fn) => sum + fn.cognitive, 0),
+    maxCyclomatic: Math.max(...scopes.map(fn => fn.cyclomatic)),
+    maxNestingDepth: Math.max(...scopes.map(fn => fn.nestingDepth)),
+    rating: Math.max(...scopes.map(rateFunction)),
+    functions
+  };
+}
+
+function isLogicalOperator(kind: ts.SyntaxKind): boolean {
+  return kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+    kind === ts.SyntaxKind.BarBarToken ||
+    kind === ts.SyntaxKind.QuestionQuestionToken ||
+    kind === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+    kind === ts.SyntaxKind.BarBarEqualsToken ||
+    kind === ts.SyntaxKind.QuestionQuestionEqualsToken;
+}
+
+// Log scale so the first few branches move the rating more than the twentieth
+function rateFunction(fn: FunctionComplexity): number {
+  const cyclomaticRating = Math.log(fn.cyclomatic) / Math.log(CYCLOMATIC_CEILING);
+  const cognitiveRating = Math.log(1 + fn.cognitive) / Math.log(1 + COGNITIVE_CEILING);
+  return Math.round(Math.min(1, Math.max(cyclomaticRating, cognitiveRating)) * 100);
+}
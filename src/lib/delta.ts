@@ -0,0 +1,279 @@
+import type { AnalysisResult } from '@/lib/codeAnalysis';
+import type { CloneInstance } from '@/lib/duplication';
+import type { AnalysisReport } from '@/lib/scoring';
+import type { SecurityFinding } from '@/lib/security';
+
+export type MetricDelta = {
+  base: number;
+  head: number;
+  delta: number;
+};
+
+export type FileDiff = {
+  file: string;
+  status: 'added' | 'removed' | 'changed';
+  complexity?: MetricDelta;
+  maintainability?: MetricDelta;
+  duplication?: MetricDelta;
+  issues?: MetricDelta;
+};
+
+// Limits a pull request is held to; null turns a rule off
+export type QualityGate = {
+  // Cognitive complexity no new function, or function made more complex, may exceed
+  maxFunctionComplexity: number | null;
+  // Points the overall score may fall by
+  maxScoreDrop: number | null;
+  maxNewDuplicates: number | null;
+  maxNewSecurityFindings: number | null;
+  maxWorsenedFiles: number | null;
+};
+
+export const DEFAULT_QUALITY_GATE: QualityGate = {
+  // Where remediation starts charging for excess complexity
+  maxFunctionComplexity: 15,
+  maxScoreDrop: 2,
+  maxNewDuplicates: null,
+  maxNewSecurityFindings: 0,
+  maxWorsenedFiles: null
+};
+
+export const QUALITY_GATE_RULES = Object.keys(DEFAULT_QUALITY_GATE) as Array<keyof QualityGate>;
+
+export type ComplexFunction = {
+  file: string;
+  name: string;
+  line: number;
+  cognitive: number;
+  // Null for functions the base does not have
+  baseCognitive: number | null;
+};
+
+export type GateCheck = {
+  rule: keyof QualityGate;
+  limit: number;
+  actual: number;
+  passed: boolean;
+  message: string;
+};
+
+export type PullRequestDelta = {
+  // The merge base of the pull request, not the tip of the target branch
+  base: { ref: string; commitSha: string };
+  head: { ref: string | null; commitSha: string | null };
+  overallScore: MetricDelta;
+  technicalDebtRatio: MetricDelta;
+  // Changed files whose complexity or duplication went up or maintainability went down
+  worsenedFiles: FileDiff[];
+  complexFunctions: ComplexFunction[];
+  newDuplicates: CloneInstance[];
+  newSecurityFindings: SecurityFinding[];
+  gate: GateResult;
+};
+
+export type GateResult = {
+  passed: boolean;
+  checks: GateCheck[];
+};
+
+// What a gate was checked on, with or without a base
+export type GateFindings = Pick<PullRequestDelta, 'complexFunctions' | 'newDuplicates' | 'newSecurityFindings' | 'gate'>;
+
+type DiffInput = Pick<AnalysisResult, 'complexity' | 'duplication' | 'maintainability'>;
+
+// What the gate measures; null where there is no base to compare with, which skips the rule
+type GateCounts = {
+  complexFunctions: number;
+  // Cognitive complexity of the most complex new or changed function, 0 when there is none
+  worstComplexity: number;
+  scoreDelta: number | null;
+  newDuplicates: number;
+  newSecurityFindings: number;
+  worsenedFiles: number | null;
+};
+
+type FileMetrics = {
+  complexity: number;
+  maintainability: number;
+  duplication: number;
+  issues: number;
+};
+
+export function metricDelta(base: number, head: number): MetricDelta {
+  return { base, head, delta: Math.round((head - base) * 100) / 100 };
+}
+
+// Added, removed and changed files; unchanged files are left out
+export function diffFiles(base: DiffInput, head: DiffInput): FileDiff[] {
+  const baseFiles = indexFiles(base);
+  const headFiles = indexFiles(head);
+  const files: FileDiff[] = [];
+
+  headFiles.forEach((headFile, file) => {
+    const baseFile = baseFiles.get(file);
+    if (!baseFile) {
+      files.push({ file, status: 'added' });
+      return;
+    }
+
+    const changes = {
+      complexity: metricDelta(baseFile.complexity, headFile.complexity),
+      maintainability: metricDelta(baseFile.maintainability, headFile.maintainability),
+      duplication: metricDelta(baseFile.duplication, headFile.duplication),
+      issues: metricDelta(baseFile.issues, headFile.issues)
+    };
+
+    if (Object.values(changes).some(change => change.delta !== 0)) {
+      files.push({ file, status: 'changed', ...changes });
+    }
+  });
+
+  baseFiles.forEach((_, file) => {
+    if (!headFiles.has(file)) {
+      files.push({ file, status: 'removed' });
+    }
+  });
+
+  return files.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+// Compares a pull request's head with its merge base and checks the result against the gate
+export function buildPullRequestDelta(
+  base: AnalysisReport,
+  head: AnalysisReport,
+  gate: QualityGate,
+  refs: Pick<PullRequestDelta, 'base' | 'head'>
+): PullRequestDelta {
+  const worsenedFiles = diffFiles(base, head).filter(file => file.status === 'changed' && (
+    file.complexity!.delta > 0 || file.maintainability!.delta < 0 || file.duplication!.delta > 0
+  ));
+  const complexFunctions = findComplexFunctions(base, head, gate.maxFunctionComplexity ?? DEFAULT_QUALITY_GATE.maxFunctionComplexity!);
+  // Line numbers move with every edit above them, so clones and findings are matched without them
+  const newDuplicates = subtract(
+    head.duplication.instances,
+    base.duplication.instances,
+    instance => `${instance.first.file}\0${instance.second.file}\0${instance.lines}`
+  );
+  const newSecurityFindings = subtract(
+    head.security?.vulnerabilities || [],
+    base.security?.vulnerabilities || [],
+    finding => `${finding.rule}\0${finding.file}\0${finding.snippet}`
+  );
+  const overallScore = metricDelta(base.overallScore, head.overallScore);
+
+  return {
+    ...refs,
+    overallScore,
+    technicalDebtRatio: metricDelta(base.overview.technicalDebtRatio, head.overview.technicalDebtRatio),
+    worsenedFiles,
+    complexFunctions,
+    newDuplicates,
+    newSecurityFindings,
+    gate: evaluateGate(gate, {
+      complexFunctions: complexFunctions.length,
+      worstComplexity: worstComplexity(base, head),
+      scoreDelta: overallScore.delta,
+      newDuplicates: newDuplicates.length,
+      newSecurityFindings: newSecurityFindings.length,
+      worsenedFiles: worsenedFiles.length
+    })
+  };
+}
+
+// Checks a single analysis without a base, as for a branch's first run: everything in it counts as new,
+// and the rules that compare with a base are skipped
+export function checkQualityGate(report: AnalysisReport, gate: QualityGate): GateFindings {
+  const complexFunctions = findComplexFunctions(null, report, gate.maxFunctionComplexity ?? DEFAULT_QUALITY_GATE.maxFunctionComplexity!);
+  const newDuplicates = report.duplication.instances;
+  const newSecurityFindings = report.security?.vulnerabilities || [];
+
+  return {
+    complexFunctions,
+    newDuplicates,
+    newSecurityFindings,
+    gate: evaluateGate(gate, {
+      complexFunctions: complexFunctions.length,
+      worstComplexity: worstComplexity(null, report),
+      scoreDelta: null,
+      newDuplicates: newDuplicates.length,
+      newSecurityFindings: newSecurityFindings.length,
+      worsenedFiles: null
+    })
+  };
+}
+
+function evaluateGate(gate: QualityGate, counts: GateCounts): GateResult {
+  const checks: GateCheck[] = [];
+  const check = (rule: keyof QualityGate, actual: number | null, message: (limit: number) => string, passes = (limit: number, value: number) => value <= limit) => {
+    const limit = gate[rule];
+    if (limit === null || actual === null) return;
+    checks.push({ rule, limit, actual, passed: passes(limit, actual), message: message(limit) });
+  };
+
+  check('maxFunctionComplexity', counts.worstComplexity,
+    limit => `${counts.complexFunctions} new or more complex functions above cognitive complexity ${limit}, the worst at ${counts.worstComplexity}`);
+  check('maxScoreDrop', counts.scoreDelta === null ? null : Math.max(0, -counts.scoreDelta),
+    limit => `Overall score changed by ${counts.scoreDelta} points (at most ${limit} down allowed)`);
+  check('maxNewDuplicates', counts.newDuplicates,
+    limit => `${counts.newDuplicates} new duplicated blocks (at most ${limit} allowed)`);
+  check('maxNewSecurityFindings', counts.newSecurityFindings,
+    limit => `${counts.newSecurityFindings} new security findings (at most ${limit} allowed)`);
+  check('maxWorsenedFiles', counts.worsenedFiles,
+    limit => `${counts.worsenedFiles} files got worse (at most ${limit} allowed)`);
+
+  return { passed: checks.every(entry => entry.passed), checks };
+}
+
+function indexFiles(results: DiffInput): Map<string, FileMetrics> {
+  const files = new Map<string, FileMetrics>();
+  const duplication = new Map((results.duplication.details || []).map(detail => [detail.file, detail.percentage]));
+  const issues = new Map(results.maintainability.details.map(detail => [detail.file, detail.issues.length]));
+
+  results.complexity.details.forEach(detail => {
+    files.set(detail.file, {
+      complexity: detail.complexity,
+      maintainability: detail.maintainability,
+      duplication: duplication.get(detail.file) || 0,
+      issues: issues.get(detail.file) || 0
+    });
+  });
+
+  return files;
+}
+
+// Functions are matched by file and name, so a renamed function counts as new; without a base, all of them are
+function findComplexFunctions(base: DiffInput | null, head: DiffInput, limit: number): ComplexFunction[] {
+  const baseFunctions = new Map<string, number>();
+  base?.complexity.details.forEach(detail => detail.functions.forEach(fn => {
+    const key = `${detail.file}\0${fn.name}`;
+    if (!baseFunctions.has(key)) baseFunctions.set(key, fn.cognitive);
+  }));
+
+  return head.complexity.details.flatMap(detail => detail.functions
+    .filter(fn => fn.cognitive > limit)
+    .map(fn => ({
+      file: detail.file,
+      name: fn.name,
+      line: fn.startLine,
+      cognitive: fn.cognitive,
+      baseCognitive: baseFunctions.get(`${detail.file}\0${fn.name}`) ?? null
+    }))
+    .filter(fn => fn.baseCognitive === null || fn.baseCognitive < fn.cognitive));
+}
+
+function worstComplexity(base: DiffInput | null, head: DiffInput): number {
+  return Math.max(0, ...findComplexFunctions(base, head, 0).map(fn => fn.cognitive));
+}
+
+// Items of head without a counterpart in base, counting repeated keys
+function subtract<T>(head: T[], base: T[], key: (item: T) => string): T[] {
+  const remaining = new Map<string, number>();
+  base.forEach(item => remaining.set(key(item), (remaining.get(key(item)) || 0) + 1));
+
+  return head.filter(item => {
+    const count = remaining.get(key(item)) || 0;
+    if (count === 0) return true;
+    remaining.set(key(item), count - 1);
+    return false;
+  });
+}
@@ -0,0 +1,403 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AnalysisConfig, collectFiles } from '@/lib/analysisConfig';
+
+export type Severity = 'low' | 'moderate' | 'high' | 'critical';
+
+export type PackageMetadata = {
+  latest: string;
+  // SPDX expression, e.g. "MIT" or "(MIT OR GPL-3.0)"
+  license?: string;
+  // Set when the whole package is deprecated
+  deprecated?: string;
+  deprecatedVersions?: Record<string, string>;
+};
+
+// Affects versions from introduced (inclusive) up to fixed (exclusive), as in OSV records
+export type Advisory = {
+  id: string;
+  package: string;
+  severity: Severity;
+  title: string;
+  introduced?: string;
+  fixed?: string;
+};
+
+// Offline stand-in for the npm registry and advisory feeds, refreshed out of band
+export type DependencyDatabase = {
+  packages: Record<string, PackageMetadata>;
+  advisories: Advisory[];
+  // SPDX identifiers that count as a license problem; prefixes, so GPL-3.0 also covers GPL-3.0-only
+  deniedLicenses?: string[];
+};
+
+export type VersionLag = {
+  majors: number;
+  minors: number;
+  patches: number;
+};
+
+export type DirectDependency = {
+  name: string;
+  range: string;
+  dev: boolean;
+  // From the lockfile, or the lowest version the range allows when there is none
+  installed: string | null;
+  latest: string | null;
+  // Counted at the most significant part that differs; null when either version is unknown
+  lag: VersionLag | null;
+  license: string | null;
+};
+
+export type DependencyFindingKind = 'vulnerable' | 'deprecated' | 'license' | 'unpinned' | 'duplicate' | 'outdated';
+
+export type DependencyFinding = {
+  kind: DependencyFindingKind;
+  package: string;
+  version: string | null;
+  severity: Severity;
+  message: string;
+};
+
+export type DependencyReport = {
+  // 0-100, higher is healthier
+  score: number;
+  manifests: string[];
+  lockfiles: string[];
+  direct: number;
+  // Installed packages that are not direct dependencies; null without a lockfile
+  transitive: number | null;
+  duplicates: Array<{ name: string; versions: string[] }>;
+  packages: DirectDependency[];
+  findings: DependencyFinding[];
+};
+
+export const EMPTY_DEPENDENCY_DATABASE: DependencyDatabase = { packages: {}, advisories: [] };
+
+export const DEFAULT_DENIED_LICENSES = ['AGPL-1.0', 'AGPL-3.0', 'GPL-2.0', 'GPL-3.0', 'SSPL-1.0', 'UNLICENSED'];
+
+// Points taken off the dependency score per finding
+export const SEVERITY_PENALTIES: Record<Severity, number> = {
+  critical: 25,
+  high: 10,
+  moderate: 5,
+  low: 1
+};
+
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+const DEPENDENCY_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies', 'devDependencies'] as const;
+
+// Ranges resolved inside the repository rather than from the registry
+const LOCAL_RANGE = /^(workspace|file|link|portal):/;
+
+// Path from DEPENDENCY_DB_PATH; without it, only what the manifests and lockfiles show is reported
+export function loadDependencyDatabase(filePath = process.env.DEPENDENCY_DB_PATH): DependencyDatabase {
+  if (!filePath) return EMPTY_DEPENDENCY_DATABASE;
+
+  let database: Partial<DependencyDatabase>;
+  try {
+    database = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read dependency database ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!database || typeof database.packages !== 'object' || !Array.isArray(database.advisories)) {
+    throw new Error(`Dependency database ${filePath} needs a packages object and an advisories list`);
+  }
+
+  return database as DependencyDatabase;
+}
+
+// Reads every package.json outside excluded paths, with the lockfile next to it; null when there are none
+export function analyzeDependencies(
+  root: string,
+  config: AnalysisConfig,
+  database: DependencyDatabase = EMPTY_DEPENDENCY_DATABASE
+): DependencyReport | null {
+  // Include patterns narrow the code that is measured, not the manifests describing it
+  const manifests = collectFiles(root, { ...config, include: [] }, ['.json']).filter(file => basename(file) === 'package.json');
+  if (manifests.length === 0) return null;
+
+  const lockfiles: string[] = [];
+  const installed = new Map<string, Set<string>>();
+  const declared = new Map<string, { range: string; dev: boolean }>();
+  const workspaceNames = new Set<string>();
+
+  for (const manifest of manifests) {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(readFileSync(join(root, manifest), 'utf-8'));
+    } catch (error) {
+      console.warn(`Skipping unreadable manifest /${manifest}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    if (typeof body.name === 'string') workspaceNames.add(body.name);
+
+    for (const field of DEPENDENCY_FIELDS) {
+      const entries = body[field];
+      if (!entries || typeof entries !== 'object') continue;
+      for (const [name, range] of Object.entries(entries as Record<string, unknown>)) {
+        if (typeof range !== 'string' || LOCAL_RANGE.test(range)) continue;
+        const dev = field === 'devDependencies';
+        // A runtime declaration anywhere wins over a dev one elsewhere
+        if (!declared.has(name) || (declared.get(name)!.dev && !dev)) {
+          declared.set(name, { range, dev });
+        }
+      }
+    }
+
+    const directory = dirname(manifest) === '.' ? '' : `${dirname(manifest)}/`;
+    for (const lockfile of LOCKFILES) {
+      const lockPath = join(root, directory, lockfile);
+      if (!existsSync(lockPath)) continue;
+      try {
+        readLockfile(lockfile, readFileSync(lockPath, 'utf-8'), (name, version) => {
+          if (!installed.has(name)) installed.set(name, new Set());
+          installed.get(name)!.add(version);
+        });
+        lockfiles.push(`/${directory}${lockfile}`);
+      } catch (error) {
+        console.warn(`Skipping unreadable lockfile /${directory}${lockfile}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  workspaceNames.forEach(name => {
+    declared.delete(name);
+    installed.delete(name);
+  });
+
+  const deniedLicenses = database.deniedLicenses ?? DEFAULT_DENIED_LICENSES;
+  const findings: DependencyFinding[] = [];
+  const hasLockfile = lockfiles.length > 0;
+
+  const packages = [...declared.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, { range, dev }]): DirectDependency => {
+      const metadata = database.packages[name];
+      const version = hasLockfile ? pickInstalled(range, [...(installed.get(name) ?? [])]) : rangeFloor(range);
+      const lag = version && metadata ? versionLag(version, metadata.latest) : null;
+
+      if (isUnpinned(range)) {
+        findings.push({ kind: 'unpinned', package: name, version: null, severity: 'low', message: `${name} accepts any future version (${range})` });
+      }
+      if (lag && lag.majors > 0) {
+        findings.push({
+          kind: 'outdated',
+          package: name,
+          version,
+          severity: lag.majors > 1 ? 'moderate' : 'low',
+          message: `${name} ${version} is ${lag.majors} major version${lag.majors > 1 ? 's' : ''} behind ${metadata.latest}`
+        });
+      }
+
+      return { name, range, dev, installed: version, latest: metadata?.latest ?? null, lag, license: metadata?.license ?? null };
+    });
+
+  // Without a lockfile only the direct dependencies are known, some without a version
+  const resolved = hasLockfile
+    ? installed
+    : new Map(packages.map(pkg => [pkg.name, new Set(pkg.installed ? [pkg.installed] : [])]));
+
+  const duplicates = [...installed.entries()]
+    .filter(([, versions]) => versions.size > 1)
+    .map(([name, versions]) => ({ name, versions: [...versions].sort(compareVersions) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  duplicates.forEach(({ name, versions }) => {
+    findings.push({ kind: 'duplicate', package: name, version: null, severity: 'low', message: `${name} is installed in ${versions.length} versions: ${versions.join(', ')}` });
+  });
+
+  for (const [name, versions] of resolved) {
+    const metadata = database.packages[name];
+    const advisories = database.advisories.filter(advisory => advisory.package === name);
+
+    for (const version of versions) {
+      advisories.filter(advisory => isAffected(version, advisory)).forEach(advisory => {
+        findings.push({
+          kind: 'vulnerable',
+          package: name,
+          version,
+          severity: advisory.severity,
+          message: `${advisory.id}: ${advisory.title}${advisory.fixed ? ` (fixed in ${advisory.fixed})` : ''}`
+        });
+      });
+
+      const deprecation = metadata?.deprecated ? null : metadata?.deprecatedVersions?.[version];
+      if (deprecation) {
+        findings.push({ kind: 'deprecated', package: name, version, severity: 'moderate', message: `${name}@${version} is deprecated: ${deprecation}` });
+      }
+    }
+
+    if (metadata?.deprecated) {
+      findings.push({ kind: 'deprecated', package: name, version: null, severity: 'moderate', message: `${name} is deprecated: ${metadata.deprecated}` });
+    }
+
+    if (metadata?.license && isDeniedLicense(metadata.license, deniedLicenses)) {
+      findings.push({ kind: 'license', package: name, version: null, severity: 'high', message: `${name} is licensed under ${metadata.license}` });
+    }
+  }
+
+  const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTIES[finding.severity], 0);
+  const installedNames = [...installed.keys()];
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    manifests: manifests.map(manifest => `/${manifest}`),
+    lockfiles,
+    direct: declared.size,
+    transitive: hasLockfile ? installedNames.filter(name => !declared.has(name)).length : null,
+    duplicates,
+    packages,
+    findings
+  };
+}
+
+function readLockfile(name: string, text: string, add: (name: string, version: string) => void) {
+  if (name === 'package-lock.json') {
+    readPackageLock(JSON.parse(text), add);
+  } else if (name === 'yarn.lock') {
+    readYarnLock(text, add);
+  } else {
+    readPnpmLock(parseYaml(text), add);
+  }
+}
+
+type PackageLock = {
+  packages?: Record<string, { name?: string; version?: string; link?: boolean }>;
+  dependencies?: Record<string, PackageLockV1Entry>;
+};
+
+type PackageLockV1Entry = { version?: string; dependencies?: Record<string, PackageLockV1Entry> };
+
+// Lockfile v2 and v3 list every installed path under packages; v1 nests dependencies instead
+function readPackageLock(lock: PackageLock, add: (name: string, version: string) => void) {
+  if (lock.packages) {
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      const index = path.lastIndexOf('node_modules/');
+      // The root and workspace folders are not installed packages
+      if (index === -1 || entry.link || !entry.version) continue;
+      add(entry.name ?? path.slice(index + 'node_modules/'.length), entry.version);
+    }
+    return;
+  }
+
+  const walk = (dependencies: Record<string, PackageLockV1Entry>) => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (entry.version && !LOCAL_RANGE.test(entry.version)) add(name, entry.version);
+      if (entry.dependencies) walk(entry.dependencies);
+    }
+  };
+  walk(lock.dependencies ?? {});
+}
+
+// Classic yarn.lock and the YAML-like Berry format share the layout: specifier lines, then an indented version
+function readYarnLock(text: string, add: (name: string, version: string) => void) {
+  let names: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('#') || line.trim() === '') continue;
+
+    if (!line.startsWith(' ')) {
+      names = line.replace(/:\s*$/, '')
+        .split(',')
+        .map(spec => spec.trim().replace(/^"|"$/g, ''))
+        .filter(spec => spec !== '__metadata' && !/@(workspace|link|portal|file):/.test(spec))
+        .map(spec => spec.slice(0, spec.indexOf('@', 1)));
+      continue;
+    }
+
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (version && names.length > 0) {
+      new Set(names).forEach(name => add(name, version[1]));
+      names = [];
+    }
+  }
+}
+
+// Keys are /name/1.0.0 (v5), /name@1.0.0 (v6) or name@1.0.0 (v9), with peer suffixes in parentheses or after _
+function readPnpmLock(lock: { packages?: Record<string, unknown> } | null, add: (name: string, version: string) => void) {
+  for (const key of Object.keys(lock?.packages ?? {})) {
+    const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+    const at = id.lastIndexOf('@');
+    if (at > 0) {
+      add(id.slice(0, at), id.slice(at + 1).replace(/_.*$/, ''));
+    } else {
+      const slash = id.lastIndexOf('/');
+      if (slash > 0) add(id.slice(0, slash), id.slice(slash + 1).replace(/_.*$/, ''));
+    }
+  }
+}
+
+type ParsedVersion = { parts: [number, number, number]; prerelease: string };
+
+function parseVersion(version: string): ParsedVersion | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([\w.]+))?/);
+  if (!match) return null;
+  return { parts: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)], prerelease: match[4] ?? '' };
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return a.localeCompare(b);
+
+  for (let i = 0; i < 3; i++) {
+    if (left.parts[i] !== right.parts[i]) return left.parts[i] - right.parts[i];
+  }
+  // A prerelease sorts before the release it leads up to
+  if (left.prerelease === right.prerelease) return 0;
+  if (!left.prerelease) return 1;
+  if (!right.prerelease) return -1;
+  return left.prerelease.localeCompare(right.prerelease, undefined, { numeric: true });
+}
+
+function versionLag(installed: string, latest: string): VersionLag | null {
+  const current = parseVersion(installed);
+  const target = parseVersion(latest);
+  if (!current || !target) return null;
+
+  const [major, minor, patch] = target.parts.map((part, i) => Math.max(0, part - current.parts[i]));
+  if (target.parts[0] !== current.parts[0]) return { majors: major, minors: 0, patches: 0 };
+  if (target.parts[1] !== current.parts[1]) return { majors: 0, minors: minor, patches: 0 };
+  return { majors: 0, minors: 0, patches: patch };
+}
+
+function isAffected(version: string, advisory: Advisory): boolean {
+  if (advisory.introduced && compareVersions(version, advisory.introduced) < 0) return false;
+  return !advisory.fixed || compareVersions(version, advisory.fixed) < 0;
+}
+
+// Of several installed versions, the newest one on the range's major line is taken to be the direct one
+function pickInstalled(range: string, versions: string[]): string | null {
+  if (versions.length === 0) return null;
+  const sorted = [...versions].sort(compareVersions).reverse();
+  const floor = rangeFloor(range);
+  const major = floor ? parseVersion(floor)!.parts[0] : null;
+  return sorted.find(version => parseVersion(version)?.parts[0] === major) ?? sorted[0];
+}
+
+function rangeFloor(range: string): string | null {
+  const match = range.replace(/^npm:.*@/, '').match(/\d+(?:\.\d+){0,2}(?:-[\w.]+)?/);
+  if (!match) return null;
+  const { parts, prerelease } = parseVersion(match[0])!;
+  return parts.join('.') + (prerelease ? `-${prerelease}` : '');
+}
+
+// Open-ended ranges and unpinned git references; caret and tilde ranges are bounded by the lockfile
+function isUnpinned(range: string): boolean {
+  if (/^(git(\+\w+)?|https?|github):|^[\w-]+\/[\w.-]+(#.*)?$/.test(range)) {
+    return !/#[0-9a-f]{7,40}$/.test(range);
+  }
+  return range.replace(/^npm:.*@/, '').split('||').some(part => {
+    const alternative = part.trim();
+    return /^(\*|x|X|latest|next|)$/.test(alternative) || (alternative.startsWith('>') && !alternative.includes('<'));
+  });
+}
+
+// Every alternative of an OR expression has to be denied; within an AND, one denied identifier is enough
+function isDeniedLicense(license: string, denied: string[]): boolean {
+  return license.replace(/[()]/g, '').split(/\s+OR\s+/i).every(alternative =>
+    alternative.split(/\s+AND\s+/i).some(id => denied.some(prefix => id.trim().toUpperCase().startsWith(prefix.toUpperCase())))
+  );
+}
@@ -0,0 +1,302 @@
+import ts from 'typescript';
+import { getLine } from '@/lib/ast';
+
+export type DuplicationOptions = {
+  // Smallest token run reported as a clone
+  minTokens: number;
+  // Smallest number of source lines a clone must span
+  minLines: number;
+};
+
+export type CloneLocation = {
+  file: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type CloneInstance = {
+  files: string[];
+  first: CloneLocation;
+  second: CloneLocation;
+  lines: number;
+  tokens: number;
+  fragment: string;
+};
+
+export type FileDuplication = {
+  file: string;
+  duplicatedLines: number;
+  totalLines: number;
+  percentage: number;
+};
+
+export type DuplicationResult = {
+  percentage: number;
+  instances: CloneInstance[];
+  details: FileDuplication[];
+};
+
+// A normalized token; identifiers are already replaced so renamed copies still match
+export type CloneToken = {
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  // Clones only start where a statement does, not inside case label runs, type members or expressions
+  statementStart: boolean;
+};
+
+// Pre-tokenized source for languages that are not parsed by the TypeScript compiler
+export type TokenStream = {
+  file: string;
+  text: string;
+  totalLines: number;
+  tokens: CloneToken[];
+  // Tokens only match within the same group, so clones never span two languages
+  group?: string;
+};
+
+export type DuplicationInput = { file: string; sourceFile: ts.SourceFile } | TokenStream;
+
+// The defaults of jscpd
+export const DEFAULT_DUPLICATION_OPTIONS: DuplicationOptions = {
+  minTokens: 50,
+  minLines: 5
+};
+
+type Token = {
+  id: number;
+  start: number;
+  end: number;
+  line: number;
+  statementStart: boolean;
+};
+
+type TokenizedFile = {
+  file: string;
+  text: string;
+  totalLines: number;
+  tokens: Token[];
+  // prefixHashes[i] is the hash of tokens[0..i)
+  prefixHashes: Uint32Array;
+};
+
+const HASH_BASE = 1000003;
+
+export function detectDuplicates(
+  inputs: DuplicationInput[],
+  options: DuplicationOptions = DEFAULT_DUPLICATION_OPTIONS
+): DuplicationResult {
+  const tokenIds = new Map<string, number>();
+  const files = inputs.map(input => tokenize(input, tokenIds));
+  const windowPower = power(HASH_BASE, options.minTokens);
+
+  // First occurrence of every window hash seen so far
+  const seen = new Map<number, { fileIndex: number; index: number }>();
+  const instances: CloneInstance[] = [];
+  // Offset in the first file's text where each instance's fragment begins
+  const fragmentStarts: number[] = [];
+  const duplicatedLines = files.map(() => new Set<number>());
+
+  files.forEach((current, fileIndex) => {
+    const { tokens } = current;
+    let i = 0;
+
+    while (i + options.minTokens <= tokens.length) {
+      if (!tokens[i].statementStart) {
+        i++;
+        continue;
+      }
+
+      const hash = windowHash(current, i, options.minTokens, windowPower);
+      const match = seen.get(hash);
+
+      if (match) {
+        const original = files[match.fileIndex];
+        const length = matchLength(original, match.index, current, i, match.fileIndex === fileIndex);
+
+        if (length >= options.minTokens) {
+          const first = toLocation(original, match.index, length);
+          const second = toLocation(current, i, length);
+
+          const fragmentEnd = original.tokens[match.index + length - 1].end;
+          const continued = instances.findIndex(instance => continues(instance, first, second));
+
+          if (continued !== -1 || second.endLine - second.startLine + 1 >= options.minLines) {
+            if (continued !== -1) {
+              // The copies differ in a token or two, after which the reported clone goes on; it is extended instead
+              const instance = instances[continued];
+              instance.first = { ...instance.first, endLine: Math.max(instance.first.endLine, first.endLine) };
+              instance.second = { ...instance.second, endLine: Math.max(instance.second.endLine, second.endLine) };
+              instance.lines = instance.second.endLine - instance.second.startLine + 1;
+              instance.tokens += length;
+              instance.fragment = original.text.slice(fragmentStarts[continued], fragmentEnd);
+            } else {
+              fragmentStarts.push(original.tokens[match.index].start);
+              instances.push({
+                files: [first.file, second.file],
+                first,
+                second,
+                lines: second.endLine - second.startLine + 1,
+                tokens: length,
+                fragment: original.text.slice(original.tokens[match.index].start, fragmentEnd)
+              });
+            }
+            markLines(duplicatedLines[match.fileIndex], first);
+            markLines(duplicatedLines[fileIndex], second);
+            i += length;
+            continue;
+          }
+        }
+      } else {
+        seen.set(hash, { fileIndex, index: i });
+      }
+
+      i++;
+    }
+  });
+
+  const details = files.map((file, index) => ({
+    file: file.file,
+    duplicatedLines: duplicatedLines[index].size,
+    totalLines: file.totalLines,
+    percentage: toPercentage(duplicatedLines[index].size, file.totalLines)
+  }));
+
+  const totalDuplicated = details.reduce((sum, detail) => sum + detail.duplicatedLines, 0);
+  const totalLines = details.reduce((sum, detail) => sum + detail.totalLines, 0);
+
+  return {
+    percentage: toPercentage(totalDuplicated, totalLines),
+    instances,
+    details
+  };
+}
+
+function tokenize(input: DuplicationInput, tokenIds: Map<string, number>): TokenizedFile {
+  const stream = 'sourceFile' in input
+    ? {
+      file: input.file,
+      text: input.sourceFile.text,
+      totalLines: getLine(input.sourceFile, input.sourceFile.end),
+      tokens: tokenizeSourceFile(input.sourceFile)
+    }
+    : input;
+  const group = 'group' in input && input.group ? `${input.group}:` : '';
+
+  const tokens = stream.tokens.map(({ value, start, end, line, statementStart }) => {
+    let id = tokenIds.get(group + value);
+    if (id === undefined) {
+      id = tokenIds.size + 1;
+      tokenIds.set(group + value, id);
+    }
+    return { id, start, end, line, statementStart };
+  });
+
+  const prefixHashes = new Uint32Array(tokens.length + 1);
+  tokens.forEach((token, index) => {
+    prefixHashes[index + 1] = (Math.imul(prefixHashes[index], HASH_BASE) + token.id) >>> 0;
+  });
+
+  return { file: stream.file, text: stream.text, totalLines: stream.totalLines, tokens, prefixHashes };
+}
+
+export function tokenizeSourceFile(sourceFile: ts.SourceFile): CloneToken[] {
+  const tokens: CloneToken[] = [];
+  const statementStarts = new Set<number>();
+
+  // Walks the syntax tree down to its leaf tokens so JSX text and templates tokenize correctly
+  function collect(node: ts.Node) {
+    // Import lists repeat across most files and are not meaningful clones
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) return;
+
+    // Clones start at statements, except interfaces and type aliases, which list members rather than logic
+    if (ts.isSourceFile(node) || ts.isBlock(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      node.statements
+        .filter(statement => !ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement))
+        .forEach(statement => statementStarts.add(statement.getStart(sourceFile)));
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(collect);
+      return;
+    }
+
+    if (node.kind === ts.SyntaxKind.EndOfFileToken) return;
+    if (ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces) return;
+
+    // Identifiers are normalized so copies with renamed variables still match
+    const value = ts.isIdentifier(node) || ts.isPrivateIdentifier(node) ? '$id' : node.getText(sourceFile);
+
+    const start = node.getStart(sourceFile);
+    tokens.push({ value, start, end: node.end, line: getLine(sourceFile, start), statementStart: statementStarts.has(start) });
+  }
+
+  collect(sourceFile);
+  return tokens;
+}
+
+function windowHash(file: TokenizedFile, index: number, size: number, windowPower: number): number {
+  const end = file.prefixHashes[index + size];
+  const start = Math.imul(file.prefixHashes[index], windowPower);
+  return (end - start) >>> 0;
+}
+
+function power(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = Math.imul(result, base) >>> 0;
+  }
+  return result;
+}
+
+// Length of the identical token run starting at both positions (0 on a hash collision)
+function matchLength(
+  original: TokenizedFile,
+  originalIndex: number,
+  current: TokenizedFile,
+  currentIndex: number,
+  sameFile: boolean
+): number {
+  let length = 0;
+  while (
+    originalIndex + length < original.tokens.length &&
+    currentIndex + length < current.tokens.length &&
+    original.tokens[originalIndex + length].id === current.tokens[currentIndex + length].id &&
+    // A clone inside one file must not overlap itself
+    (!sameFile || originalIndex + length < currentIndex)
+  ) {
+    length++;
+  }
+  return length;
+}
+
+function toLocation(file: TokenizedFile, index: number, length: number): CloneLocation {
+  return {
+    file: file.file,
+    startLine: file.tokens[index].line,
+    endLine: file.tokens[index + length - 1].line
+  };
+}
+
+// Whether a match picks up in both copies on the last lines of a reported clone, the same distance into each
+function continues(instance: CloneInstance, first: CloneLocation, second: CloneLocation): boolean {
+  return instance.first.file === first.file &&
+    instance.second.file === second.file &&
+    first.startLine > instance.first.startLine &&
+    first.startLine <= instance.first.endLine &&
+    first.startLine - instance.first.startLine === second.startLine - instance.second.startLine;
+}
+
+function markLines(lines: Set<number>, location: CloneLocation) {
+  for (let line = location.startLine; line <= location.endLine; line++) {
+    lines.add(line);
+  }
+}
+
+function toPercentage(part: number, total: number): number {
+  if (total === 0) return 0;
+  return Math.round((part / total) * 10000) / 100;
+}
@@ -0,0 +1,189 @@
+import { listFileComplexityHistory, listRunMetrics, RunFileComplexity, RunMetrics } from '@/lib/runs';
+import { TREND_METRICS, TrendMetric } from '@/lib/trends';
+
+export type ForecastPoint = {
+  days: number;
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+};
+
+export type MetricForecast = {
+  metric: TrendMetric;
+  current: number;
+  slopePerDay: number;
+  projections: ForecastPoint[];
+};
+
+export type FileGrowth = {
+  file: string;
+  current: number;
+  slopePerDay: number;
+  projected: number;
+  runs: number;
+};
+
+export type ProjectForecast = {
+  generatedAt: string;
+  runs: number;
+  horizons: number[];
+  metrics: Record<TrendMetric, MetricForecast | null>;
+  growingFiles: FileGrowth[];
+};
+
+type LinearFit = {
+  slope: number;
+  intercept: number;
+  meanX: number;
+  sxx: number;
+  standardError: number;
+  n: number;
+};
+
+export const FORECAST_HORIZONS = [30, 60, 90];
+
+// Fewer runs than this give a line through noise rather than a trend
+export const MIN_FORECAST_RUNS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Two-sided 95% prediction interval
+const CONFIDENCE_Z = 1.96;
+
+export async function getProjectForecast(projectId: string): Promise<ProjectForecast> {
+  const [metrics, fileHistory] = await Promise.all([
+    listRunMetrics(projectId),
+    listFileComplexityHistory(projectId)
+  ]);
+  return buildForecast(metrics, fileHistory);
+}
+
+export function buildForecast(
+  points: RunMetrics[],
+  fileHistory: RunFileComplexity[],
+  now = new Date(),
+  horizons = FORECAST_HORIZONS
+): ProjectForecast {
+  const metrics = {} as Record<TrendMetric, MetricForecast | null>;
+  (Object.keys(TREND_METRICS) as TrendMetric[]).forEach(metric => {
+    metrics[metric] = forecastMetric(points, metric, now, horizons);
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    runs: points.length,
+    horizons,
+    metrics,
+    growingFiles: findGrowingFiles(fileHistory, now, Math.max(...horizons))
+  };
+}
+
+// Projects a metric `horizons` days past `now`, with a 95% band that widens away from the data
+export function forecastMetric(
+  points: RunMetrics[],
+  metric: TrendMetric,
+  now = new Date(),
+  horizons = FORECAST_HORIZONS
+): MetricForecast | null {
+  if (points.length < MIN_FORECAST_RUNS) return null;
+
+  const origin = new Date(points[0].created_at).getTime();
+  const fit = fitLine(points.map(point => ({
+    x: (new Date(point.created_at).getTime() - origin) / DAY_MS,
+    y: point[metric]
+  })));
+  if (!fit) return null;
+
+  const projections = horizons.map(days => {
+    const x = (now.getTime() - origin) / DAY_MS + days;
+    const value = fit.intercept + fit.slope * x;
+    const spread = CONFIDENCE_Z * fit.standardError *
+      Math.sqrt(1 + 1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx);
+
+    return {
+      days,
+      date: new Date(now.getTime() + days * DAY_MS).toISOString(),
+      value: round(clamp(value)),
+      lower: round(clamp(value - spread)),
+      upper: round(clamp(value + spread))
+    };
+  });
+
+  return {
+    metric,
+    current: points[points.length - 1][metric],
+    slopePerDay: round(fit.slope, 4),
+    projections
+  };
+}
+
+// Files in the latest run whose complexity rating is rising, steepest first
+export function findGrowingFiles(history: RunFileComplexity[], now = new Date(), horizon = 90, limit = 10): FileGrowth[] {
+  if (history.length < MIN_FORECAST_RUNS) return [];
+
+  const origin = new Date(history[0].created_at).getTime();
+  const series = new Map<string, Array<{ x: number; y: number }>>();
+
+  history.forEach(run => {
+    const x = (new Date(run.created_at).getTime() - origin) / DAY_MS;
+    run.files.forEach(({ file, complexity }) => {
+      series.set(file, [...(series.get(file) || []), { x, y: complexity }]);
+    });
+  });
+
+  const latest = history[history.length - 1];
+  const growth: FileGrowth[] = [];
+
+  latest.files.forEach(({ file, complexity }) => {
+    const samples = series.get(file) || [];
+    if (samples.length < MIN_FORECAST_RUNS) return;
+
+    const fit = fitLine(samples);
+    if (!fit || fit.slope <= 0) return;
+
+    const x = (now.getTime() - origin) / DAY_MS + horizon;
+    growth.push({
+      file,
+      current: complexity,
+      slopePerDay: round(fit.slope, 4),
+      projected: round(clamp(fit.intercept + fit.slope * x)),
+      runs: samples.length
+    });
+  });
+
+  return growth
+    .sort((a, b) => b.slopePerDay - a.slopePerDay || a.file.localeCompare(b.file))
+    .slice(0, limit);
+}
+
+// Ordinary least squares; null when every sample shares the same x
+function fitLine(samples: Array<{ x: number; y: number }>): LinearFit | null {
+  const n = samples.length;
+  const meanX = samples.reduce((sum, s) => sum + s.x, 0) / n;
+  const meanY = samples.reduce((sum, s) => sum + s.y, 0) / n;
+  const sxx = samples.reduce((sum, s) => sum + (s.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const sxy = samples.reduce((sum, s) => sum + (s.x - meanX) * (s.y - meanY), 0);
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residuals = samples.reduce((sum, s) => sum + (s.y - (intercept + slope * s.x)) ** 2, 0);
+
+  return {
+    slope,
+    intercept,
+    meanX,
+    sxx,
+    standardError: n > 2 ? Math.sqrt(residuals / (n - 2)) : 0,
+    n
+  };
+}
+
+function clamp(value: number) {
+  return Math.max(0, Math.min(100, value));
+}
+
+function round(value: number, decimals = 2) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
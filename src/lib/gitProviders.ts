@@ -0,0 +1,518 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export type ProviderType = 'github' | 'gitlab' | 'git';
+
+export const PROVIDER_TYPES: ProviderType[] = ['github', 'gitlab', 'git'];
+
+export type ProviderConnection = {
+  provider: ProviderType;
+  // OAuth or personal access token; for plain Git an HTTPS password/token or an SSH deploy key
+  accessToken: string | null;
+  // API root of a self-hosted instance, e.g. https://gitlab.example.com
+  baseUrl?: string;
+};
+
+export type ProviderRepository = {
+  id: string;
+  name: string;
+  fullName: string;
+  description: string | null;
+  cloneUrl: string;
+  webUrl: string | null;
+  defaultBranch: string | null;
+  private: boolean;
+};
+
+export type RepositoryQuery = {
+  page?: number;
+  perPage?: number;
+  search?: string;
+};
+
+export type RepositoryPage = {
+  repositories: ProviderRepository[];
+  page: number;
+  perPage: number;
+  hasNextPage: boolean;
+};
+
+export type BranchList = {
+  branches: string[];
+  defaultBranch: string | null;
+};
+
+export type GitProvider = {
+  type: ProviderType;
+  listRepositories: (query?: RepositoryQuery) => Promise<RepositoryPage>;
+  listBranches: (repoUrl: string) => Promise<BranchList>;
+  // ref is a branch, tag or full commit SHA; the default branch when omitted.
+  // commitSha pins the checkout to a commit of that branch, such as the one a push event named
+  clone: (repoUrl: string, destination: string, ref?: string | null, commitSha?: string | null) => Promise<void>;
+  // Paths that differ between a full commit SHA and the checkout's HEAD
+  listChangedFiles: (repoUrl: string, checkout: string, baseSha: string) => Promise<string[]>;
+  // Deepens the checkout to every commit of HEAD since the date, or to its whole history
+  fetchHistory: (repoUrl: string, checkout: string, since?: Date | null) => Promise<void>;
+  // Checks out the merge base of the checkout's HEAD and a branch, tag or commit into destination; returns its SHA
+  checkoutMergeBase: (repoUrl: string, checkout: string, baseRef: string, destination: string) => Promise<string>;
+};
+
+// Raised when a provider API rejects a request; status is the HTTP status to pass on
+export class ProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Raised when the repository cannot be reached with the supplied credentials
+export class RepositoryAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RepositoryAccessError';
+  }
+}
+
+export const DEFAULT_PER_PAGE = 30;
+const MAX_PER_PAGE = 100;
+
+// GitHub has no server-side search over the user's repositories, so at most this many API pages are filtered
+const MAX_SEARCH_PAGES = 10;
+
+// Protocols git may use unless GIT_ALLOW_PROTOCOL says otherwise; keeps clones off the server's own disk
+const DEFAULT_ALLOWED_PROTOCOLS = 'https:ssh';
+
+// SHA-1 or SHA-256 object names; abbreviated ones are refused because they may become ambiguous
+const FULL_SHA = /^([0-9a-f]{40}|[0-9a-f]{64})$/i;
+
+// Basic auth user names each host expects alongside a token
+const TOKEN_USERNAMES: Record<ProviderType, string> = {
+  github: 'x-access-token',
+  gitlab: 'oauth2',
+  git: 'git'
+};
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return PROVIDER_TYPES.includes(value as ProviderType);
+}
+
+// Branch and tag names as git accepts them, or a full commit SHA
+export function isValidRef(ref: string): boolean {
+  return ref.length <= 255
+    && !ref.startsWith('-')
+    && !ref.includes('..')
+    && !/[\s~^:?*[\\\x00-\x1f\x7f]/.test(ref)
+    && !/(^\/|\/$|\.lock$|@\{)/.test(ref);
+}
+
+export function createGitProvider(connection: ProviderConnection): GitProvider {
+  const listRepositories = connection.provider === 'github'
+    ? (query: RepositoryQuery = {}) => listGithubRepositories(connection, query)
+    : connection.provider === 'gitlab'
+      ? (query: RepositoryQuery = {}) => listGitlabRepositories(connection, query)
+      : async () => {
+        throw new ProviderError('Plain Git remotes cannot be listed; enter the repository URL instead', 400);
+      };
+
+  return {
+    type: connection.provider,
+    listRepositories,
+    listBranches: repoUrl => listRemoteBranches(connection, repoUrl),
+    clone: (repoUrl, destination, ref, commitSha) => cloneRepository(connection, repoUrl, destination, ref, commitSha),
+    listChangedFiles: (repoUrl, checkout, baseSha) => listChangedFiles(connection, repoUrl, checkout, baseSha),
+    fetchHistory: (repoUrl, checkout, since) => fetchHistory(connection, repoUrl, checkout, since),
+    checkoutMergeBase: (repoUrl, checkout, baseRef, destination) => checkoutMergeBase(connection, repoUrl, checkout, baseRef, destination)
+  };
+}
+
+async function listGithubRepositories(connection: ProviderConnection, query: RepositoryQuery): Promise<RepositoryPage> {
+  const { page, perPage, search } = normalizeQuery(query);
+  const apiUrl = connection.baseUrl ? `${trimSlash(connection.baseUrl)}/api/v3` : 'https://api.github.com';
+  const headers = {
+    'Authorization': `Bearer ${requireToken(connection)}`,
+    'Accept': 'application/vnd.github.v3+json'
+  };
+
+  if (!search) {
+    const response = await requestJson(`${apiUrl}/user/repos?per_page=${perPage}&page=${page}&sort=updated`, headers);
+    return {
+      repositories: (response.body as GithubRepository[]).map(toGithubRepository),
+      page,
+      perPage,
+      hasNextPage: /rel="next"/.test(response.headers.get('link') || '')
+    };
+  }
+
+  // Filter page by page until there is one match past the requested page
+  const needle = search.toLowerCase();
+  const matches: GithubRepository[] = [];
+  let apiPage = 1;
+  while (matches.length <= page * perPage && apiPage <= MAX_SEARCH_PAGES) {
+    const response = await requestJson(`${apiUrl}/user/repos?per_page=${MAX_PER_PAGE}&page=${apiPage}&sort=updated`, headers);
+    const repositories = response.body as GithubRepository[];
+    matches.push(...repositories.filter(repo => repo.full_name.toLowerCase().includes(needle)));
+    if (!/rel="next"/.test(response.headers.get('link') || '')) break;
+    apiPage++;
+  }
+
+  const start = (page - 1) * perPage;
+  return {
+    repositories: matches.slice(start, start + perPage).map(toGithubRepository),
+    page,
+    perPage,
+    hasNextPage: matches.length > start + perPage
+  };
+}
+
+async function listGitlabRepositories(connection: ProviderConnection, query: RepositoryQuery): Promise<RepositoryPage> {
+  const { page, perPage, search } = normalizeQuery(query);
+  const apiUrl = `${trimSlash(connection.baseUrl || 'https://gitlab.com')}/api/v4`;
+  const params = new URLSearchParams({
+    membership: 'true',
+    simple: 'true',
+    order_by: 'last_activity_at',
+    per_page: String(perPage),
+    page: String(page)
+  });
+  if (search) params.set('search', search);
+
+  const response = await requestJson(`${apiUrl}/projects?${params}`, {
+    'Authorization': `Bearer ${requireToken(connection)}`
+  });
+
+  return {
+    repositories: (response.body as GitlabProject[]).map(project => ({
+      id: String(project.id),
+      name: project.name,
+      fullName: project.path_with_namespace,
+      description: project.description || null,
+      cloneUrl: project.http_url_to_repo,
+      webUrl: project.web_url || null,
+      defaultBranch: project.default_branch || null,
+      private: project.visibility !== 'public'
+    })),
+    page,
+    perPage,
+    // GitLab leaves X-Next-Page empty on the last page
+    hasNextPage: Boolean(response.headers.get('x-next-page'))
+  };
+}
+
+type GithubRepository = {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  clone_url: string;
+  html_url: string;
+  default_branch: string;
+  private: boolean;
+};
+
+type GitlabProject = {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  http_url_to_repo: string;
+  web_url: string;
+  default_branch?: string;
+  visibility?: string;
+};
+
+function toGithubRepository(repo: GithubRepository): ProviderRepository {
+  return {
+    id: String(repo.id),
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    cloneUrl: repo.clone_url,
+    webUrl: repo.html_url,
+    defaultBranch: repo.default_branch || null,
+    private: repo.private
+  };
+}
+
+function normalizeQuery(query: RepositoryQuery): Required<RepositoryQuery> {
+  return {
+    page: Math.max(1, Math.floor(query.page || 1)),
+    perPage: Math.min(MAX_PER_PAGE, Math.max(1, Math.floor(query.perPage || DEFAULT_PER_PAGE))),
+    search: query.search?.trim() || ''
+  };
+}
+
+function requireToken(connection: ProviderConnection): string {
+  if (!connection.accessToken) {
+    throw new ProviderError(`A ${connection.provider} access token is required`, 401);
+  }
+  return connection.accessToken;
+}
+
+async function requestJson(url: string, headers: Record<string, string>): Promise<{ body: unknown; headers: Headers }> {
+  const response = await fetch(url, { headers });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = (body as { message?: string; error?: string } | null)?.message
+      || (body as { error?: string } | null)?.error
+      || response.statusText;
+    throw new ProviderError(`Failed to fetch repositories: ${message}`, response.status);
+  }
+
+  return { body, headers: response.headers };
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// Branch names from the remote itself, so every provider and plain Git host is handled alike
+async function listRemoteBranches(connection: ProviderConnection, repoUrl: string): Promise<BranchList> {
+  const stdout = await withGitAuth(connection, repoUrl, async env => {
+    try {
+      const { stdout } = await execFileAsync('git', ['ls-remote', '--symref', repoUrl, 'HEAD', 'refs/heads/*'], { env });
+      return stdout;
+    } catch (error) {
+      throw new RepositoryAccessError(`Failed to access repository: ${describeGitError(error)}`);
+    }
+  });
+
+  let defaultBranch: string | null = null;
+  const branches: string[] = [];
+  stdout.split('\n').forEach(line => {
+    const symref = line.match(/^ref: refs\/heads\/(.+)\tHEAD$/);
+    if (symref) {
+      defaultBranch = symref[1];
+      return;
+    }
+    const head = line.match(/^[0-9a-f]+\trefs\/heads\/(.+)$/);
+    if (head) branches.push(head[1]);
+  });
+
+  return { branches: branches.sort((a, b) => a.localeCompare(b)), defaultBranch };
+}
+
+// Fetches only the requested ref at depth 1; without a ref, the remote's default branch
+async function cloneRepository(
+  connection: ProviderConnection,
+  repoUrl: string,
+  destination: string,
+  ref?: string | null,
+  commitSha?: string | null
+) {
+  if (ref && !isValidRef(ref)) {
+    throw new Error(`Invalid branch, tag or commit ${JSON.stringify(ref)}`);
+  }
+  if (commitSha && !FULL_SHA.test(commitSha)) {
+    throw new Error(`Commit ${commitSha} must be given as a full SHA`);
+  }
+
+  await withGitAuth(connection, repoUrl, async env => {
+    // Test access first so authentication problems are reported as such
+    let remoteRefs: string;
+    try {
+      console.log('Testing repository access with git ls-remote...');
+      const patterns = ref ? [`refs/heads/${ref}`, `refs/tags/${ref}`] : [];
+      const { stdout, stderr } = await execFileAsync('git', ['ls-remote', '--symref', repoUrl, 'HEAD', ...patterns], { env });
+      if (stderr) {
+        console.warn('Git ls-remote warnings:', stderr);
+      }
+      if (!stdout) {
+        throw new Error('Repository is not accessible');
+      }
+      remoteRefs = stdout;
+    } catch (gitError) {
+      throw new RepositoryAccessError(`Failed to access repository: ${describeGitError(gitError)}`);
+    }
+
+    const target = resolveRef(remoteRefs, ref);
+    // The branch may have moved on since the pinned commit; it is still checked out under the branch's name
+    const fetchRef = commitSha ? commitSha.toLowerCase() : target.fetchRef;
+    const git = (...args: string[]) => execFileAsync('git', args, { cwd: destination, env });
+
+    console.log(`Fetching ${fetchRef} into:`, destination);
+    fs.mkdirSync(destination, { recursive: true });
+    await git('init', '-q');
+    await git('remote', 'add', 'origin', repoUrl);
+    const { stderr } = await git('fetch', '-q', '--depth', '1', '--no-tags', 'origin', fetchRef);
+    if (stderr) {
+      console.warn('Fetch warnings:', stderr);
+    }
+    // Branches get a local branch so the run records it; tags and commits stay detached
+    await git('checkout', '-q', ...(target.branch ? ['-B', target.branch] : ['--detach']), 'FETCH_HEAD');
+  });
+
+  if (!fs.existsSync(path.join(destination, '.git'))) {
+    throw new Error('Repository was not cloned properly - .git directory missing');
+  }
+}
+
+// Checkouts are shallow, so the base commit is fetched on its own before diffing; renames count as delete plus add
+async function listChangedFiles(connection: ProviderConnection, repoUrl: string, checkout: string, baseSha: string) {
+  if (!/^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(baseSha)) {
+    throw new Error(`Commit ${baseSha} must be given as a full SHA`);
+  }
+
+  return withGitAuth(connection, repoUrl, async env => {
+    const git = (...args: string[]) => execFileAsync('git', args, { cwd: checkout, env, maxBuffer: 64 * 1024 * 1024 });
+
+    try {
+      await git('cat-file', '-e', `${baseSha}^{commit}`);
+    } catch {
+      await git('fetch', '-q', '--depth', '1', '--no-tags', 'origin', baseSha);
+    }
+
+    const { stdout } = await git('diff', '--name-only', '--no-renames', '-z', baseSha, 'HEAD');
+    return stdout.split('\0').filter(Boolean);
+  });
+}
+
+// Without a date the whole history is fetched, which blame needs to credit lines to their real authors;
+// with one, a commit past the date comes along so the oldest commit in range diffs against its real parent
+async function fetchHistory(connection: ProviderConnection, repoUrl: string, checkout: string, since?: Date | null) {
+  await withGitAuth(connection, repoUrl, async env => {
+    const git = (...args: string[]) => execFileAsync('git', args, { cwd: checkout, env });
+    const isShallow = () => fs.existsSync(path.join(checkout, '.git', 'shallow'));
+    const head = (await git('rev-parse', 'HEAD')).stdout.trim();
+
+    if (!since) {
+      if (isShallow()) {
+        await git('fetch', '-q', '--unshallow', '--no-tags', 'origin', head);
+      }
+      return;
+    }
+
+    try {
+      await git('fetch', '-q', `--shallow-since=${since.toISOString()}`, '--no-tags', 'origin', head);
+    } catch (error) {
+      // Nothing was committed since the date, which leaves no history to read
+      if (/no commits selected/.test(describeGitError(error))) return;
+      throw error;
+    }
+    if (isShallow()) {
+      await git('fetch', '-q', '--deepen', '1', '--no-tags', 'origin', head);
+    }
+  });
+}
+
+// Both sides need their full history for git to find where they diverged; the base is a worktree of the checkout
+async function checkoutMergeBase(connection: ProviderConnection, repoUrl: string, checkout: string, baseRef: string, destination: string) {
+  if (!isValidRef(baseRef)) {
+    throw new Error(`Invalid branch, tag or commit ${JSON.stringify(baseRef)}`);
+  }
+
+  return withGitAuth(connection, repoUrl, async env => {
+    const git = (...args: string[]) => execFileAsync('git', args, { cwd: checkout, env });
+    const head = (await git('rev-parse', 'HEAD')).stdout.trim();
+
+    const { stdout: remoteRefs } = await git('ls-remote', 'origin', `refs/heads/${baseRef}`, `refs/tags/${baseRef}`);
+    const target = resolveRef(remoteRefs, baseRef);
+
+    if (fs.existsSync(path.join(checkout, '.git', 'shallow'))) {
+      await git('fetch', '-q', '--unshallow', '--no-tags', 'origin', head);
+    }
+    await git('fetch', '-q', '--no-tags', 'origin', target.fetchRef);
+
+    let mergeBase: string;
+    try {
+      mergeBase = (await git('merge-base', 'HEAD', 'FETCH_HEAD')).stdout.trim();
+    } catch {
+      throw new Error(`${baseRef} has no history in common with the analyzed commit`);
+    }
+
+    await git('worktree', 'add', '-q', '--detach', destination, mergeBase);
+    return mergeBase;
+  });
+}
+
+// Works out what to fetch from ls-remote output: a branch, a tag or a full commit SHA
+function resolveRef(remoteRefs: string, ref?: string | null): { fetchRef: string; branch: string | null } {
+  const lines = remoteRefs.split('\n');
+
+  if (!ref) {
+    const symref = lines.map(line => line.match(/^ref: refs\/heads\/(.+)\tHEAD$/)).find(Boolean);
+    return { fetchRef: 'HEAD', branch: symref ? symref[1] : null };
+  }
+
+  if (lines.some(line => line.endsWith(`\trefs/heads/${ref}`))) {
+    return { fetchRef: `refs/heads/${ref}`, branch: ref };
+  }
+  if (lines.some(line => line.endsWith(`\trefs/tags/${ref}`))) {
+    return { fetchRef: `refs/tags/${ref}`, branch: null };
+  }
+  if (FULL_SHA.test(ref)) {
+    return { fetchRef: ref.toLowerCase(), branch: null };
+  }
+  if (/^[0-9a-f]{4,39}$/i.test(ref)) {
+    throw new Error(`Commit ${ref} must be given as a full SHA`);
+  }
+
+  throw new Error(`No branch or tag named ${ref} in the repository`);
+}
+
+// Runs git with the connection's credentials supplied through the environment, never the URL or argv
+async function withGitAuth<T>(
+  connection: ProviderConnection,
+  repoUrl: string,
+  run: (env: NodeJS.ProcessEnv) => Promise<T>
+): Promise<T> {
+  if (repoUrl.startsWith('-')) {
+    throw new RepositoryAccessError(`Invalid repository URL ${repoUrl}`);
+  }
+
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_ALLOW_PROTOCOL: process.env.GIT_ALLOW_PROTOCOL || DEFAULT_ALLOWED_PROTOCOLS
+  };
+  const secret = connection.accessToken;
+
+  if (secret && isSshUrl(repoUrl)) {
+    // Deploy keys are written to a private temporary directory for the lifetime of the command
+    const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-key-'));
+    const keyPath = path.join(keyDir, 'id');
+    fs.writeFileSync(keyPath, secret.endsWith('\n') ? secret : `${secret}\n`, { mode: 0o600 });
+    env.GIT_SSH_COMMAND = [
+      'ssh',
+      `-i "${keyPath}"`,
+      '-o IdentitiesOnly=yes',
+      '-o BatchMode=yes',
+      '-o StrictHostKeyChecking=accept-new',
+      `-o UserKnownHostsFile="${path.join(keyDir, 'known_hosts')}"`
+    ].join(' ');
+
+    try {
+      return await run(env);
+    } finally {
+      fs.rmSync(keyDir, { recursive: true, force: true });
+    }
+  }
+
+  if (secret && /^https?:\/\//.test(repoUrl)) {
+    const username = new URL(repoUrl).username || TOKEN_USERNAMES[connection.provider];
+    const credentials = Buffer.from(`${decodeURIComponent(username)}:${secret}`).toString('base64');
+    // Config from the environment keeps the token out of the process list (git 2.31+)
+    env.GIT_CONFIG_COUNT = '1';
+    env.GIT_CONFIG_KEY_0 = 'http.extraHeader';
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${credentials}`;
+  }
+
+  return run(env);
+}
+
+function isSshUrl(repoUrl: string): boolean {
+  // ssh://host/path or the scp-like user@host:path form
+  return repoUrl.startsWith('ssh://') || /^[\w.-]+@[\w.-]+:(?!\/\/)/.test(repoUrl);
+}
+
+function describeGitError(error: unknown): string {
+  if (error && typeof error === 'object' && 'stderr' in error && (error as { stderr: string }).stderr) {
+    return (error as { stderr: string }).stderr.trim();
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
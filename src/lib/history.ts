@@ -0,0 +1,189 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import { mapConcurrently } from '@/lib/concurrency';
+import { CODEOWNERS_PATHS, FileOwnership, matchCodeowners, parseCodeowners, RepositoryOwnership } from '@/lib/ownership';
+
+const execFileAsync = promisify(execFile);
+
+// How far back churn is counted; older changes say little about where work happens now
+export const HISTORY_DAYS = 365;
+
+const MAX_HOTSPOTS = 25;
+
+// Blame reads a file's whole history, so large repositories are bounded in files, time per file and processes
+export const MAX_BLAME_FILES = 2000;
+const BLAME_TIMEOUT_MS = 30 * 1000;
+const BLAME_CONCURRENCY = 4;
+
+export type OwnershipOptions = {
+  // Files past this many are not blamed; callers list the files that matter most first
+  maxFiles?: number;
+  // A file whose blame runs longer is left out
+  timeoutMs?: number;
+  concurrency?: number;
+  onProgress?: (processed: number, total: number) => void;
+};
+
+export type FileHistory = {
+  file: string;
+  // Commits that touched the file, i.e. how often it changes
+  commits: number;
+  // Lines added plus lines deleted
+  churn: number;
+  authors: number;
+  lastChanged: string;
+};
+
+export type CommitHistory = {
+  since: string;
+  commits: number;
+  authors: number;
+  // Most frequently changed first
+  files: FileHistory[];
+};
+
+export type Hotspot = FileHistory & {
+  // Cognitive complexity of the whole file
+  complexity: number;
+  // 0-100, relative to the most changed and most complex files of the run
+  score: number;
+};
+
+export type HistoryReport = CommitHistory & {
+  // Files that are both complex and frequently changed, highest score first
+  hotspots: Hotspot[];
+};
+
+export function historyStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Reads every non-merge commit since the date from a checkout; paths are root-relative with a leading slash
+export async function readHistory(checkout: string, since: Date): Promise<CommitHistory> {
+  const git = (...args: string[]) => execFileAsync('git', args, { cwd: checkout, maxBuffer: 256 * 1024 * 1024 });
+
+  const { stdout } = await git(
+    'log', '--no-merges', '--no-renames', '--numstat', '-z', `--since=${since.toISOString()}`,
+    '--format=%x1e%P%x1f%aN%x1f%aE%x1f%aI'
+  );
+
+  const files = new Map<string, { commits: number; churn: number; authors: Set<string>; lastChanged: string }>();
+  const authors = new Set<string>();
+  let commits = 0;
+
+  for (const record of stdout.split('\x1e').slice(1)) {
+    const [header, ...entries] = record.split('\0');
+    const [parents, name, email, authoredAt] = header.split('\x1f');
+    // Without a parent, as for the first commit or the oldest of a shallow clone, the diff is the whole tree
+    if (!parents) continue;
+
+    const author = email ? email.toLowerCase() : name;
+    // git keeps the author's offset; UTC makes the dates comparable as strings
+    const date = new Date(authoredAt).toISOString();
+    authors.add(author);
+    commits++;
+
+    for (const entry of entries) {
+      const match = entry.replace(/^\n/, '').match(/^(-|\d+)\t(-|\d+)\t(.+)$/);
+      if (!match) continue;
+
+      const file = `/${match[3]}`;
+      const stats = files.get(file) ?? { commits: 0, churn: 0, authors: new Set<string>(), lastChanged: date };
+      // Binary files are listed with - in place of line counts
+      stats.churn += (Number(match[1]) || 0) + (Number(match[2]) || 0);
+      stats.commits++;
+      stats.authors.add(author);
+      if (date > stats.lastChanged) stats.lastChanged = date;
+      files.set(file, stats);
+    }
+  }
+
+  return {
+    since: since.toISOString(),
+    commits,
+    authors: authors.size,
+    files: [...files.entries()]
+      .map(([file, stats]) => ({ file, commits: stats.commits, churn: stats.churn, authors: stats.authors.size, lastChanged: stats.lastChanged }))
+      .sort((a, b) => b.commits - a.commits || b.churn - a.churn || a.file.localeCompare(b.file))
+  };
+}
+
+// Keeps the analyzed source files and ranks them by change frequency times complexity
+export function buildHistoryReport(history: CommitHistory, complexity: Array<{ file: string; cognitive: number }>): HistoryReport {
+  const cognitive = new Map(complexity.map(detail => [detail.file, detail.cognitive]));
+  const files = history.files.filter(file => cognitive.has(file.file));
+
+  const maxCommits = Math.max(0, ...files.map(file => file.commits));
+  const maxComplexity = Math.max(0, ...files.map(file => cognitive.get(file.file)!));
+
+  const hotspots = files
+    .filter(file => cognitive.get(file.file)! > 0)
+    .map(file => {
+      const fileComplexity = cognitive.get(file.file)!;
+      return {
+        ...file,
+        complexity: fileComplexity,
+        score: Math.round(100 * (file.commits / maxCommits) * (fileComplexity / maxComplexity))
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.churn - a.churn || a.file.localeCompare(b.file))
+    .slice(0, MAX_HOTSPOTS);
+
+  return { ...history, files, hotspots };
+}
+
+// Blames files at HEAD and matches them against CODEOWNERS; files are root-relative with a leading slash.
+// Files left out by the limits are missing from the result rather than failing it
+export async function readOwnership(checkout: string, files: string[], options: OwnershipOptions = {}): Promise<RepositoryOwnership> {
+  const { maxFiles = MAX_BLAME_FILES, timeoutMs = BLAME_TIMEOUT_MS, concurrency = BLAME_CONCURRENCY, onProgress } = options;
+  const codeowners = CODEOWNERS_PATHS.find(candidate => fs.existsSync(path.join(checkout, candidate))) ?? null;
+  const rules = codeowners ? parseCodeowners(fs.readFileSync(path.join(checkout, codeowners), 'utf-8')) : [];
+  // Formatting commits listed there would otherwise take credit for every line they touched
+  const ignoreRevs = fs.existsSync(path.join(checkout, '.git-blame-ignore-revs')) ? ['--ignore-revs-file', '.git-blame-ignore-revs'] : [];
+
+  const blamed = files.slice(0, maxFiles);
+  if (blamed.length < files.length) {
+    console.warn(`Blaming the first ${blamed.length} of ${files.length} files`);
+  }
+
+  let processed = 0;
+  const ownership = await mapConcurrently(blamed, concurrency, async (file): Promise<FileOwnership | null> => {
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        'git', ['blame', '--line-porcelain', '-w', ...ignoreRevs, 'HEAD', '--', file.slice(1)],
+        { cwd: checkout, maxBuffer: 256 * 1024 * 1024, timeout: timeoutMs }
+      ));
+    } catch (error) {
+      if (!(error as { killed?: boolean }).killed) throw error;
+      console.warn(`Blame of ${file} took longer than ${timeoutMs} ms and was left out`);
+      return null;
+    } finally {
+      onProgress?.(++processed, blamed.length);
+    }
+
+    const lines = new Map<string, number>();
+    let name = '';
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('author ')) {
+        name = line.slice('author '.length);
+      } else if (line.startsWith('author-mail ')) {
+        const email = line.slice('author-mail '.length).replace(/^<|>$/g, '').toLowerCase();
+        const author = email || name;
+        lines.set(author, (lines.get(author) || 0) + 1);
+      }
+    }
+
+    return {
+      file,
+      owners: matchCodeowners(rules, file),
+      authors: [...lines.entries()]
+        .map(([author, count]) => ({ author, lines: count }))
+        .sort((a, b) => b.lines - a.lines || a.author.localeCompare(b.author))
+    };
+  });
+
+  return { codeowners: codeowners && `/${codeowners}`, files: ownership.filter((entry): entry is FileOwnership => entry !== null) };
+}
@@ -0,0 +1,250 @@
+import type { Severity } from '@/lib/dependencies';
+import { AnalysisReport, buildAnalysisReport, ScoringModel } from '@/lib/scoring';
+import { estimateRemediation } from '@/lib/remediation';
+
+export type ImportFormat = 'eslint' | 'sarif' | 'sonarqube';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['eslint', 'sarif', 'sonarqube'];
+
+export type ImportedIssue = {
+  rule: string;
+  severity: Severity;
+  file: string;
+  line: number;
+  message: string;
+  // Tool that reported the issue, e.g. ESLint or CodeQL
+  tool: string;
+  format: ImportFormat;
+  // Fix effort reported by the tool; estimated from the severity when absent
+  minutes?: number;
+};
+
+export type ImportedReport = {
+  // Every tool in the report, including ones that found nothing, so a clean report clears older issues
+  tools: string[];
+  issues: ImportedIssue[];
+};
+
+export class IssueImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IssueImportError';
+  }
+}
+
+// SonarQube counts a day of effort as 8 hours
+const EFFORT_UNITS: Record<string, number> = { d: 8 * 60, h: 60, min: 1 };
+
+const SONAR_SEVERITIES: Record<string, Severity> = {
+  BLOCKER: 'critical',
+  CRITICAL: 'high',
+  MAJOR: 'moderate',
+  MINOR: 'low',
+  INFO: 'low',
+  // Clean Code impact severities from SonarQube 10
+  HIGH: 'high',
+  MEDIUM: 'moderate',
+  LOW: 'low'
+};
+
+const SARIF_LEVELS: Record<string, Severity> = {
+  error: 'high',
+  warning: 'moderate',
+  note: 'low',
+  none: 'low'
+};
+
+// knownFiles are the analyzed files of the run; tools report absolute or differently rooted paths, which are mapped onto them
+export function parseIssueReport(format: ImportFormat, report: unknown, knownFiles: string[]): ImportedReport {
+  const parsed = format === 'eslint' ? parseEslint(report) : format === 'sarif' ? parseSarif(report) : parseSonarQube(report);
+  const resolveFile = createFileResolver(parsed.issues.map(issue => issue.file), knownFiles);
+
+  return {
+    tools: parsed.tools,
+    issues: parsed.issues.map(issue => ({ ...issue, file: resolveFile(issue.file) }))
+  };
+}
+
+// Replaces the issues earlier imports left from the same tools, prices the result into the remediation estimate
+// and re-scores the run with `model`, since imported issues lower the maintainability metric
+export function mergeImportedIssues(results: AnalysisReport, imported: ImportedReport, model: ScoringModel): AnalysisReport {
+  const tools = new Set(imported.tools);
+  const importedIssues = [...(results.importedIssues || []).filter(issue => !tools.has(issue.tool)), ...imported.issues];
+  const remediation = estimateRemediation({ ...results, importedIssues });
+
+  return buildAnalysisReport({
+    ...results,
+    overview: { ...results.overview, technicalDebtRatio: remediation.debtRatio },
+    remediation,
+    importedIssues
+  }, model);
+}
+
+type ParsedIssue = Omit<ImportedIssue, 'format'>;
+
+// Output of `eslint --format json`: one entry per file with its messages
+function parseEslint(report: unknown): ImportedReport {
+  if (!Array.isArray(report)) {
+    throw new IssueImportError('ESLint report must be the array written by --format json');
+  }
+
+  const issues = report.flatMap((file, index) => {
+    if (!file || typeof file.filePath !== 'string' || !Array.isArray(file.messages)) {
+      throw new IssueImportError(`ESLint report entry ${index} needs a filePath and messages`);
+    }
+
+    return (file.messages as Array<Record<string, unknown>>).map((message): ParsedIssue => ({
+      // Messages without a rule are parse errors
+      rule: typeof message.ruleId === 'string' ? message.ruleId : 'parse-error',
+      severity: message.fatal ? 'high' : message.severity === 2 ? 'moderate' : 'low',
+      file: file.filePath,
+      line: readLine(message.line),
+      message: String(message.message ?? ''),
+      tool: 'ESLint'
+    }));
+  });
+
+  return withFormat('eslint', ['ESLint'], issues);
+}
+
+type SarifRule = { id?: string; defaultConfiguration?: { level?: string }; properties?: Record<string, unknown> };
+
+type SarifResult = {
+  ruleId?: string;
+  ruleIndex?: number;
+  level?: string;
+  message?: { text?: string };
+  locations?: Array<{ physicalLocation?: { artifactLocation?: { uri?: string }; region?: { startLine?: number } } }>;
+};
+
+type SarifRun = { tool?: { driver?: { name?: string; rules?: SarifRule[] } }; results?: SarifResult[] };
+
+// SARIF 2.1.0, as written by CodeQL, Semgrep and most other scanners
+function parseSarif(report: unknown): ImportedReport {
+  const runs = (report as { runs?: unknown })?.runs;
+  if (!Array.isArray(runs)) {
+    throw new IssueImportError('SARIF report needs a runs array');
+  }
+
+  const tools: string[] = [];
+  const issues = (runs as SarifRun[]).flatMap((run, index) => {
+    const driver = run?.tool?.driver;
+    if (!driver || typeof driver.name !== 'string') {
+      throw new IssueImportError(`SARIF run ${index} needs tool.driver.name`);
+    }
+    const tool = driver.name;
+    tools.push(tool);
+
+    const rules = Array.isArray(driver.rules) ? driver.rules : [];
+    const results = Array.isArray(run.results) ? run.results : [];
+
+    return results.map((result): ParsedIssue => {
+      const rule = typeof result.ruleIndex === 'number' ? rules[result.ruleIndex] : rules.find(candidate => candidate.id === result.ruleId);
+      const location = result.locations?.[0]?.physicalLocation;
+
+      return {
+        rule: result.ruleId ?? rule?.id ?? 'unknown',
+        severity: readSarifSeverity(result.level ?? rule?.defaultConfiguration?.level, rule?.properties?.['security-severity']),
+        file: location?.artifactLocation?.uri ?? '',
+        line: readLine(location?.region?.startLine),
+        message: String(result.message?.text ?? ''),
+        tool
+      };
+    });
+  });
+
+  return withFormat('sarif', tools, issues);
+}
+
+type SonarIssue = {
+  rule?: string;
+  severity?: string;
+  impacts?: Array<{ severity?: string }>;
+  component?: string;
+  line?: number;
+  textRange?: { startLine?: number };
+  message?: string;
+  effort?: string;
+  debt?: string;
+};
+
+// The issues export of SonarQube's api/issues/search; components are "projectKey:path"
+function parseSonarQube(report: unknown): ImportedReport {
+  const issues = (report as { issues?: unknown })?.issues;
+  if (!Array.isArray(issues)) {
+    throw new IssueImportError('SonarQube report needs an issues array');
+  }
+
+  return withFormat('sonarqube', ['SonarQube'], (issues as SonarIssue[]).map((issue): ParsedIssue => {
+    const minutes = readEffort(issue.effort ?? issue.debt);
+
+    return {
+      rule: String(issue.rule ?? 'unknown'),
+      severity: SONAR_SEVERITIES[issue.severity ?? issue.impacts?.[0]?.severity ?? ''] ?? 'moderate',
+      file: String(issue.component ?? '').replace(/^[^:]*:/, ''),
+      line: readLine(issue.line ?? issue.textRange?.startLine),
+      message: String(issue.message ?? ''),
+      tool: 'SonarQube',
+      ...(minutes === null ? {} : { minutes })
+    };
+  }));
+}
+
+function withFormat(format: ImportFormat, tools: string[], issues: ParsedIssue[]): ImportedReport {
+  return { tools: [...new Set(tools)], issues: issues.map(issue => ({ ...issue, format })) };
+}
+
+// CodeQL's security-severity is a CVSS-like score and says more than the level
+function readSarifSeverity(level: unknown, securitySeverity: unknown): Severity {
+  const score = Number(securitySeverity);
+  if (securitySeverity !== undefined && Number.isFinite(score)) {
+    if (score >= 9) return 'critical';
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'moderate';
+    return 'low';
+  }
+  return SARIF_LEVELS[String(level ?? 'warning')] ?? 'moderate';
+}
+
+// Issues on a whole file are reported without a line
+function readLine(line: unknown): number {
+  return typeof line === 'number' && line > 0 ? line : 1;
+}
+
+// "2d 1h 30min" style efforts, in minutes
+function readEffort(effort: unknown): number | null {
+  if (typeof effort !== 'string') return null;
+  const parts = [...effort.matchAll(/(\d+)\s*(d|h|min)/g)];
+  if (parts.length === 0) return null;
+  return parts.reduce((sum, [, amount, unit]) => sum + Number(amount) * EFFORT_UNITS[unit], 0);
+}
+
+// Learns the directory the tool ran in from paths that end in a known file, and strips it from the rest
+function createFileResolver(reported: string[], knownFiles: string[]) {
+  const known = new Set(knownFiles);
+  const normalize = (file: string) => {
+    const path = file.replace(/^file:\/\//, '').replace(/\\/g, '/').replace(/^\.\//, '');
+    try {
+      return decodeURIComponent(path);
+    } catch {
+      return path;
+    }
+  };
+
+  const roots = new Map<string, number>();
+  reported.map(normalize).forEach(path => {
+    const match = knownFiles.filter(file => path.endsWith(file)).sort((a, b) => b.length - a.length)[0];
+    if (match) {
+      const root = path.slice(0, -match.length);
+      roots.set(root, (roots.get(root) || 0) + 1);
+    }
+  });
+  const root = [...roots.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return (file: string) => {
+    const path = normalize(file);
+    if (known.has(`/${path}`)) return `/${path}`;
+    if (root && path.startsWith(`${root}/`)) return path.slice(root.length);
+    return path.startsWith('/') ? path : `/${path}`;
+  };
+}
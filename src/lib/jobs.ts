@@ -0,0 +1,250 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { PipelineStage } from '@/lib/analysisPipeline';
+
+// The queue belongs to the server: the worker has no user session, so every query here uses the service role,
+// and routes check that the caller owns a job's project before enqueuing, reading, cancelling or retrying it
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobStage = 'queued' | PipelineStage | 'done';
+
+export type AnalysisJob = {
+  id: string;
+  project_id: string;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  attempts: number;
+  repo_url: string;
+  provider: string;
+  // Branch, tag or commit to analyze; null for the default branch
+  ref: string | null;
+  // Target branch of a pull request; its merge base with ref is analyzed too
+  base_ref: string | null;
+  // Commit of ref to analyze, when the job was queued for a particular push
+  commit_sha: string | null;
+  cancel_requested: boolean;
+  error_message: string | null;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type NewAnalysisJob = {
+  projectId: string;
+  // Clone URL, or the archive's storage path for uploads
+  repoUrl: string;
+  provider: string;
+  accessToken: string | null;
+  ref?: string | null;
+  baseRef?: string | null;
+  commitSha?: string | null;
+};
+
+// Raised from a progress update once a cancel has been requested for the running job
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Analysis job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Every column except the stored access token, which never leaves the server
+const JOB_COLUMNS = 'id, project_id, status, stage, progress, attempts, repo_url, provider, ref, base_ref, commit_sha, cancel_requested, error_message, heartbeat_at, started_at, finished_at, created_at, updated_at';
+
+// Provider of jobs that analyze an uploaded archive rather than a repository
+export const UPLOAD_PROVIDER = 'upload';
+
+// A running job without a heartbeat for this long is assumed to have lost its worker
+export const STALE_JOB_MS = 5 * 60 * 1000;
+
+// How often a running job refreshes its heartbeat, so a long stage between progress updates does not look stale
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export async function enqueueAnalysisJob(job: NewAnalysisJob): Promise<AnalysisJob> {
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .insert({
+      project_id: job.projectId,
+      repo_url: job.repoUrl,
+      provider: job.provider,
+      ref: job.ref || null,
+      base_ref: job.baseRef || null,
+      commit_sha: job.commitSha || null,
+      access_token: job.accessToken
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue analysis job: ${error?.message || 'No data returned'}`);
+  }
+
+  return data as AnalysisJob;
+}
+
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .select(JOB_COLUMNS)
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load analysis job: ${error.message}`);
+  }
+
+  return data as AnalysisJob | null;
+}
+
+// Queued jobs are cancelled right away, running jobs stop at their next progress update
+export async function cancelAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  const job = await getAnalysisJob(jobId);
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    return updateJob(jobId, {
+      status: 'cancelled',
+      cancel_requested: true,
+      access_token: null,
+      finished_at: new Date().toISOString()
+    });
+  }
+
+  if (job.status === 'running') {
+    return updateJob(jobId, { cancel_requested: true });
+  }
+
+  return job;
+}
+
+// Failed and cancelled jobs go back to the queue; repository jobs need a fresh access token
+export async function retryAnalysisJob(jobId: string, accessToken: string | null): Promise<AnalysisJob | null> {
+  const job = await getAnalysisJob(jobId);
+  if (!job) return null;
+
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new Error(`Only failed or cancelled jobs can be retried (job is ${job.status})`);
+  }
+
+  return updateJob(jobId, {
+    status: 'queued',
+    stage: 'queued',
+    progress: 0,
+    access_token: accessToken,
+    cancel_requested: false,
+    error_message: null,
+    started_at: null,
+    finished_at: null
+  });
+}
+
+// Atomically moves the oldest queued job to running; returns null when the queue is empty
+export async function claimNextJob(): Promise<(AnalysisJob & { access_token: string | null }) | null> {
+  const { data: candidates, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .select('id, attempts')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(5);
+
+  if (error) {
+    throw new Error(`Failed to read the job queue: ${error.message}`);
+  }
+
+  for (const candidate of candidates || []) {
+    const now = new Date().toISOString();
+    // The status filter makes the update a no-op if another worker claimed the job first
+    const { data: claimed } = await supabaseAdmin
+      .from('analysis_jobs')
+      .update({ status: 'running', started_at: now, heartbeat_at: now, attempts: candidate.attempts + 1 })
+      .eq('id', candidate.id)
+      .eq('status', 'queued')
+      .select(`${JOB_COLUMNS}, access_token` as const)
+      .maybeSingle();
+
+    if (claimed) {
+      return claimed as AnalysisJob & { access_token: string | null };
+    }
+  }
+
+  return null;
+}
+
+// Records progress and doubles as the heartbeat; throws once a cancel has been requested
+export async function updateJobProgress(jobId: string, stage: JobStage, progress: number) {
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .update({ stage, progress, heartbeat_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select('cancel_requested')
+    .single();
+
+  if (error) {
+    console.error('Failed to update job progress:', error);
+    return;
+  }
+
+  if (data?.cancel_requested) {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+// Refreshes only the heartbeat, for the timer that runs alongside a job
+export async function touchJobHeartbeat(jobId: string) {
+  const { error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('Failed to refresh job heartbeat:', error);
+  }
+}
+
+export async function finishJob(jobId: string, status: 'completed' | 'failed' | 'cancelled', errorMessage?: string) {
+  await updateJob(jobId, {
+    status,
+    stage: status === 'completed' ? 'done' : undefined,
+    progress: status === 'completed' ? 100 : undefined,
+    error_message: errorMessage || null,
+    access_token: null,
+    finished_at: new Date().toISOString()
+  });
+}
+
+// Puts jobs orphaned by a crashed or restarted worker back in the queue
+export async function requeueStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .update({ status: 'queued', stage: 'queued', progress: 0 })
+    .eq('status', 'running')
+    .lt('heartbeat_at', cutoff)
+    .select('id');
+
+  if (error) {
+    console.error('Failed to requeue stale jobs:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
+
+async function updateJob(jobId: string, changes: Record<string, unknown>): Promise<AnalysisJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .update(changes)
+    .eq('id', jobId)
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update analysis job: ${error.message}`);
+  }
+
+  return data as AnalysisJob | null;
+}
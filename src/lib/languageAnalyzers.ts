@@ -0,0 +1,297 @@
+import { parseSource } from '@/lib/ast';
+import { calculateComplexity } from '@/lib/complexity';
+import { tokenizeSourceFile } from '@/lib/duplication';
+import { calculateMaintainability } from '@/lib/maintainability';
+import {
+  analyzeBlocks,
+  BlockHeader,
+  BlockLanguage,
+  findBodyOpen,
+  LexToken,
+  listItems,
+  matchingClose,
+  virtualToken
+} from '@/lib/tokenAnalysis';
+import type { LanguageAnalyzer } from '@/lib/codeAnalysis';
+
+export const typescriptAnalyzer: LanguageAnalyzer = {
+  extensions: { '.ts': 'typescript', '.tsx': 'typescript', '.js': 'javascript', '.jsx': 'javascript' },
+  analyze(fileName, content, limits) {
+    const sourceFile = parseSource(fileName, content);
+    const complexity = calculateComplexity(sourceFile);
+    return {
+      complexity,
+      maintainability: calculateMaintainability(sourceFile, complexity, limits),
+      tokens: tokenizeSourceFile(sourceFile)
+    };
+  }
+};
+
+const PYTHON: BlockLanguage = {
+  syntax: {
+    keywords: new Set([
+      'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+      'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+      'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+    ]),
+    lineComment: '#',
+    quotes: ['"', "'"],
+    tripleQuotes: true,
+    stringPrefix: /[rRbBuUfF]{1,2}(?=['"])/y,
+    operators: [
+      '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '==', '!=', '<=', '>=', '<<', '>>',
+      '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@='
+    ]
+  },
+  normalize: normalizePython,
+  literals: new Set(['True', 'False', 'None']),
+  importKeywords: new Set(['import', 'from']),
+  softKeywords: new Set(['match', 'case']),
+  matchHeader(tokens, index, enclosingClass) {
+    const token = tokens[index];
+    const name = tokens[index + 1];
+    if (token.kind !== 'keyword' || (token.text !== 'def' && token.text !== 'class') || name?.kind !== 'identifier') {
+      return null;
+    }
+
+    const open = findBodyOpen(tokens, index + 2);
+    if (open === -1) return null;
+    if (token.text === 'class') {
+      return { kind: 'class', name: name.text, parameters: 0, open };
+    }
+
+    const close = matchingClose(tokens, index + 2);
+    // Bare * and / only mark where keyword-only and positional-only parameters start
+    const parameters = listItems(tokens, index + 2, close)
+      .filter(item => item.length > 1 || (item[0].text !== '*' && item[0].text !== '/'));
+    if (enclosingClass && ['self', 'cls'].includes(parameters[0]?.[0].text)) {
+      parameters.shift();
+    }
+
+    return {
+      kind: 'function',
+      name: enclosingClass ? `${enclosingClass}.${name.text}` : name.text,
+      parameters: parameters.length,
+      open
+    };
+  }
+};
+
+// Turns Python's indentation into the { } ; tokens of a brace language, like the INDENT and DEDENT of its tokenizer
+function normalizePython(tokens: LexToken[], content: string, fileName: string): LexToken[] {
+  const result: LexToken[] = [];
+  const indents = [0];
+  let depth = 0;
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const gap = previous ? content.slice(previous.end, token.start) : '';
+
+    // Lines inside brackets or after a backslash continue the logical line
+    if (previous && depth === 0 && token.line > previous.endLine && !/^[ \t]*\\\r?\n/.test(gap)) {
+      // A block header's colon is followed by the block itself
+      if (previous.text !== ':') result.push(virtualToken(';', previous));
+
+      const column = indentation(content, token.start);
+      if (column > indents[indents.length - 1]) {
+        indents.push(column);
+        result.push(virtualToken('{', previous));
+      }
+      while (column < indents[indents.length - 1]) {
+        indents.pop();
+        result.push(virtualToken('}', previous));
+      }
+      if (column !== indents[indents.length - 1]) {
+        throw new Error(`Syntax error in ${fileName} at line ${token.line}: unindent does not match any outer indentation level`);
+      }
+    }
+
+    result.push(token);
+    if (['(', '[', '{'].includes(token.text)) depth++;
+    if ([')', ']', '}'].includes(token.text)) depth = Math.max(0, depth - 1);
+  });
+
+  const last = tokens[tokens.length - 1];
+  if (last) {
+    if (last.text !== ':') result.push(virtualToken(';', last));
+    indents.slice(1).forEach(() => result.push(virtualToken('}', last)));
+  }
+
+  return result;
+}
+
+function indentation(content: string, position: number): number {
+  let column = 0;
+  for (let i = content.lastIndexOf('\n', position - 1) + 1; i < position; i++) {
+    // Tabs advance to the next multiple of 8, as in CPython
+    column = content[i] === '\t' ? column - (column % 8) + 8 : column + 1;
+  }
+  return column;
+}
+
+// Tokens after which a line break ends the statement, per the Go spec
+const GO_STATEMENT_ENDS = new Set(['break', 'continue', 'fallthrough', 'return', '++', '--', ')', ']', '}']);
+
+const GO: BlockLanguage = {
+  syntax: {
+    keywords: new Set([
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go',
+      'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'
+    ]),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    rawQuotes: ['`'],
+    operators: [
+      '<<=', '>>=', '&^=', '...', '&&', '||', '<-', '++', '--', '==', '!=', '<=', '>=', ':=', '<<', '>>', '&^',
+      '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^='
+    ]
+  },
+  normalize(tokens) {
+    return tokens.flatMap((token, index) => {
+      const next = tokens[index + 1];
+      const endsLine = !next || next.line > token.endLine;
+      const endsStatement = ['identifier', 'number', 'string'].includes(token.kind) || GO_STATEMENT_ENDS.has(token.text);
+      return endsLine && endsStatement ? [token, virtualToken(';', token)] : [token];
+    });
+  },
+  // true, false, nil and iota are predeclared identifiers, so they already count as operands
+  literals: new Set(),
+  importKeywords: new Set(['import', 'package']),
+  matchHeader(tokens, index) {
+    if (tokens[index].text !== 'func' || tokens[index].kind !== 'keyword') return null;
+
+    let position = index + 1;
+    let name: string;
+
+    if (tokens[position]?.text === '(') {
+      const receiverClose = matchingClose(tokens, position);
+      const method = tokens[receiverClose + 1];
+      if (receiverClose !== -1 && method?.kind === 'identifier' && ['(', '['].includes(tokens[receiverClose + 2]?.text)) {
+        // The receiver's type names the method, as in (s *Server) Start
+        const typeTokens = tokens.slice(position + 1, receiverClose);
+        const genericStart = typeTokens.findIndex(token => token.text === '[');
+        const receiver = (genericStart === -1 ? typeTokens : typeTokens.slice(0, genericStart))
+          .filter(token => token.kind === 'identifier')
+          .pop();
+        name = receiver ? `${receiver.text}.${method.text}` : method.text;
+        position = receiverClose + 2;
+      } else {
+        name = literalName(tokens, index);
+      }
+    } else if (tokens[position]?.kind === 'identifier') {
+      name = tokens[position].text;
+      position++;
+    } else {
+      return null;
+    }
+
+    // Type parameters, as in func Map[T any](
+    if (tokens[position]?.text === '[') {
+      position = matchingClose(tokens, position) + 1;
+    }
+    if (position === 0 || tokens[position]?.text !== '(') return null;
+
+    const close = matchingClose(tokens, position);
+    const open = close === -1 ? -1 : findBodyOpen(tokens, close + 1);
+    if (open === -1) return null;
+
+    return { kind: 'function', name, parameters: listItems(tokens, position, close).length, open };
+  }
+};
+
+// Function literals take the name of whatever they are assigned to
+function literalName(tokens: LexToken[], index: number): string {
+  const assignment = tokens[index - 1];
+  const target = tokens[index - 2];
+  if (assignment && [':=', '=', ':'].includes(assignment.text) && target?.kind === 'identifier') {
+    return target.text;
+  }
+  return '<anonymous>';
+}
+
+// Keywords that can not come right before a method name in a declaration
+const JAVA_NON_DECLARATION = new Set(['new', 'return', 'throw', 'case', 'assert', 'instanceof', 'else']);
+
+const JAVA: BlockLanguage = {
+  syntax: {
+    keywords: new Set([
+      'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+      'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+      'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+      'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+      'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null'
+    ]),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    tripleQuotes: true,
+    operators: [
+      '>>>=', '<<=', '>>=', '>>>', '...', '->', '::', '&&', '||', '++', '--', '==', '!=', '<=', '>=', '<<', '>>',
+      '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^='
+    ]
+  },
+  literals: new Set(['true', 'false', 'null', 'this']),
+  importKeywords: new Set(['import', 'package']),
+  matchHeader: matchJavaHeader
+};
+
+function matchJavaHeader(tokens: LexToken[], index: number, enclosingClass: string | null): BlockHeader | null {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  const isTypeDeclaration = (token.kind === 'keyword' && ['class', 'interface', 'enum'].includes(token.text) && previous?.text !== '.') ||
+    (token.text === 'record' && next?.kind === 'identifier' && ['(', '<'].includes(tokens[index + 2]?.text));
+  if (isTypeDeclaration) {
+    const open = next?.kind === 'identifier' ? findBodyOpen(tokens, index + 2) : -1;
+    return open === -1 ? null : { kind: 'class', name: next.text, parameters: 0, open };
+  }
+
+  // Anonymous classes, as in new Runnable() {
+  if (token.text === 'new' && next?.kind === 'identifier') {
+    let position = index + 1;
+    while (tokens[position] && (tokens[position].kind === 'identifier' || ['.', '<', '>', '>>', ',', '?'].includes(tokens[position].text))) {
+      position++;
+    }
+    if (tokens[position]?.text !== '(') return null;
+    const close = matchingClose(tokens, position);
+    return close !== -1 && tokens[close + 1]?.text === '{'
+      ? { kind: 'class', name: next.text, parameters: 0, open: close + 1 }
+      : null;
+  }
+
+  // Methods and constructors are only declared directly in a class body
+  if (!enclosingClass || token.kind !== 'identifier' || next?.text !== '(' || !previous) return null;
+  const declares = previous.kind === 'identifier' ||
+    (previous.kind === 'keyword' && !JAVA_NON_DECLARATION.has(previous.text)) ||
+    ['>', '>>', '>>>', ']', '{', '}', ';'].includes(previous.text);
+  if (!declares) return null;
+
+  const close = matchingClose(tokens, index + 1);
+  // Abstract and interface methods end with ; and have no body
+  const open = close === -1 ? -1 : findBodyOpen(tokens, close + 1);
+  if (open === -1) return null;
+
+  return {
+    kind: 'function',
+    name: `${enclosingClass}.${token.text === enclosingClass ? 'constructor' : token.text}`,
+    parameters: listItems(tokens, index + 1, close, true).length,
+    open
+  };
+}
+
+export const pythonAnalyzer: LanguageAnalyzer = {
+  extensions: { '.py': 'python' },
+  analyze: (fileName, content, limits) => analyzeBlocks(fileName, content, PYTHON, limits)
+};
+
+export const goAnalyzer: LanguageAnalyzer = {
+  extensions: { '.go': 'go' },
+  analyze: (fileName, content, limits) => analyzeBlocks(fileName, content, GO, limits)
+};
+
+export const javaAnalyzer: LanguageAnalyzer = {
+  extensions: { '.java': 'java' },
+  analyze: (fileName, content, limits) => analyzeBlocks(fileName, content, JAVA, limits)
+};
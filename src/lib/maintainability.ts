@@ -0,0 +1,292 @@
+import ts from 'typescript';
+import { getFunctionName, getLine, isFunctionNode } from '@/lib/ast';
+import { FileComplexity } from '@/lib/complexity';
+
+export type HalsteadMetrics = {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+};
+
+export type MaintainabilityIssue = {
+  rule: 'parameter-count' | 'nesting-depth' | 'function-length' | 'function-complexity' | 'file-length';
+  message: string;
+  line: number;
+};
+
+export type FileMaintainability = {
+  // Maintainability Index normalized to 0-100, higher is easier to maintain
+  score: number;
+  logicalLines: number;
+  halstead: HalsteadMetrics;
+  issues: MaintainabilityIssue[];
+};
+
+export type MaintainabilityLimits = {
+  parameters: number;
+  nestingDepth: number;
+  functionLogicalLines: number;
+  functionCyclomatic: number;
+  fileLogicalLines: number;
+};
+
+// Limits above which an issue is reported
+export const MAINTAINABILITY_LIMITS: MaintainabilityLimits = {
+  parameters: 5,
+  nestingDepth: 4,
+  functionLogicalLines: 60,
+  functionCyclomatic: 15,
+  fileLogicalLines: 800
+};
+
+export type ScopeCounts = {
+  name: string;
+  startLine: number;
+  parameters: number;
+  logicalLines: number;
+  operators: Map<string, number>;
+  operands: Map<string, number>;
+};
+
+// Closing tokens pair with an opening token that is already counted
+const IGNORED_TOKENS = new Set([
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.SemicolonToken,
+  ts.SyntaxKind.EndOfFileToken
+]);
+
+const OPERAND_TOKENS = new Set([
+  ts.SyntaxKind.Identifier,
+  ts.SyntaxKind.PrivateIdentifier,
+  ts.SyntaxKind.NumericLiteral,
+  ts.SyntaxKind.BigIntLiteral,
+  ts.SyntaxKind.StringLiteral,
+  ts.SyntaxKind.RegularExpressionLiteral,
+  ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+  ts.SyntaxKind.TemplateHead,
+  ts.SyntaxKind.TemplateMiddle,
+  ts.SyntaxKind.TemplateTail,
+  ts.SyntaxKind.JsxText,
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+  ts.SyntaxKind.ThisKeyword
+]);
+
+export function calculateMaintainability(
+  sourceFile: ts.SourceFile,
+  complexity: FileComplexity,
+  limits = MAINTAINABILITY_LIMITS
+): FileMaintainability {
+  const moduleScope = createScope('<module>', 1, 0);
+  // Pre-order like calculateComplexity, so functions[i] lines up with complexity.functions[i]
+  const functions: ScopeCounts[] = [];
+
+  function visit(node: ts.Node, scope: ScopeCounts) {
+    // Type annotations are erased at runtime and would make TS look worse than the equivalent JS
+    if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) return;
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) return;
+
+    if (isLogicalLine(node)) {
+      scope.logicalLines++;
+    }
+
+    let current = scope;
+    if (isFunctionNode(node)) {
+      current = createScope(
+        getFunctionName(node),
+        getLine(sourceFile, node.getStart(sourceFile)),
+        node.parameters.length
+      );
+      functions.push(current);
+      // Concise arrow bodies are a single logical line
+      if (node.body && !ts.isBlock(node.body)) {
+        current.logicalLines++;
+      }
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length === 0) {
+      countToken(node, current);
+      return;
+    }
+    children.forEach(child => visit(child, current));
+  }
+
+  visit(sourceFile, moduleScope);
+
+  return summarizeMaintainability(moduleScope, functions, complexity, limits);
+}
+
+// functions must be in the same order as complexity.functions
+export function summarizeMaintainability(
+  moduleScope: ScopeCounts,
+  functions: ScopeCounts[],
+  complexity: FileComplexity,
+  limits = MAINTAINABILITY_LIMITS
+): FileMaintainability {
+  const scopes = [moduleScope, ...functions];
+  const functionCyclomatic = complexity.functions.map(fn => fn.cyclomatic);
+  const moduleCyclomatic = complexity.cyclomatic - functionCyclomatic.reduce((sum, value) => sum + value - 1, 0);
+  const cyclomatic = [moduleCyclomatic, ...functionCyclomatic];
+
+  // Averages per scope keep one large file from scoring worse than the same code split up
+  const measured = scopes
+    .map((scope, index) => ({ scope, cyclomatic: cyclomatic[index] }))
+    .filter(({ scope }) => scope.logicalLines > 0);
+  const averageVolume = average(measured.map(({ scope }) => calculateHalstead([scope]).volume));
+  const averageCyclomatic = average(measured.map(({ cyclomatic }) => cyclomatic));
+  const averageLines = average(measured.map(({ scope }) => scope.logicalLines));
+
+  const logicalLines = scopes.reduce((sum, scope) => sum + scope.logicalLines, 0);
+
+  return {
+    score: maintainabilityIndex(averageVolume, averageCyclomatic, averageLines),
+    logicalLines,
+    halstead: calculateHalstead(scopes),
+    issues: findIssues(functions, complexity, logicalLines, limits)
+  };
+}
+
+// Maintainability Index (Oman & Hagemeister), rescaled to 0-100 as in Visual Studio
+export function maintainabilityIndex(volume: number, cyclomatic: number, logicalLines: number): number {
+  const index = 171 -
+    5.2 * Math.log(Math.max(volume, 1)) -
+    0.23 * cyclomatic -
+    16.2 * Math.log(Math.max(logicalLines, 1));
+  return Math.round(Math.max(0, Math.min(100, (index * 100) / 171)) * 100) / 100;
+}
+
+export function createScope(name: string, startLine: number, parameters: number): ScopeCounts {
+  return {
+    name,
+    startLine,
+    parameters,
+    logicalLines: 0,
+    operators: new Map(),
+    operands: new Map()
+  };
+}
+
+function countToken(node: ts.Node, scope: ScopeCounts) {
+  if (IGNORED_TOKENS.has(node.kind)) return;
+  if (ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces) return;
+
+  const bucket = OPERAND_TOKENS.has(node.kind) ? scope.operands : scope.operators;
+  const text = node.getText();
+  bucket.set(text, (bucket.get(text) || 0) + 1);
+}
+
+function isLogicalLine(node: ts.Node): boolean {
+  if (ts.isBlock(node) || ts.isEmptyStatement(node)) return false;
+  if (node.kind >= ts.SyntaxKind.FirstStatement && node.kind <= ts.SyntaxKind.LastStatement) return true;
+  return ts.isFunctionDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isEnumDeclaration(node) ||
+    ts.isImportDeclaration(node) ||
+    ts.isExportDeclaration(node) ||
+    ts.isExportAssignment(node) ||
+    ts.isPropertyDeclaration(node);
+}
+
+function calculateHalstead(scopes: ScopeCounts[]): HalsteadMetrics {
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+  scopes.forEach(scope => {
+    scope.operators.forEach((count, key) => operators.set(key, (operators.get(key) || 0) + count));
+    scope.operands.forEach((count, key) => operands.set(key, (operands.get(key) || 0) + count));
+  });
+
+  const distinctOperators = operators.size;
+  const distinctOperands = operands.size;
+  const totalOperators = sum([...operators.values()]);
+  const totalOperands = sum([...operands.values()]);
+
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = totalOperators + totalOperands;
+  const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+  const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+
+  return {
+    distinctOperators,
+    distinctOperands,
+    totalOperators,
+    totalOperands,
+    volume: round(volume),
+    difficulty: round(difficulty),
+    effort: round(volume * difficulty)
+  };
+}
+
+function findIssues(
+  functions: ScopeCounts[],
+  complexity: FileComplexity,
+  logicalLines: number,
+  limits: MaintainabilityLimits
+): MaintainabilityIssue[] {
+  const issues: MaintainabilityIssue[] = [];
+
+  if (logicalLines > limits.fileLogicalLines) {
+    issues.push({
+      rule: 'file-length',
+      message: `file exceeds ${limits.fileLogicalLines} logical lines (${logicalLines})`,
+      line: 1
+    });
+  }
+
+  functions.forEach((fn, index) => {
+    const metrics = complexity.functions[index];
+
+    if (fn.parameters > limits.parameters) {
+      issues.push({
+        rule: 'parameter-count',
+        message: `function ${fn.name} has ${fn.parameters} parameters`,
+        line: fn.startLine
+      });
+    }
+
+    if (fn.logicalLines > limits.functionLogicalLines) {
+      issues.push({
+        rule: 'function-length',
+        message: `function ${fn.name} has ${fn.logicalLines} logical lines`,
+        line: fn.startLine
+      });
+    }
+
+    if (metrics && metrics.cyclomatic > limits.functionCyclomatic) {
+      issues.push({
+        rule: 'function-complexity',
+        message: `function ${fn.name} has cyclomatic complexity ${metrics.cyclomatic}`,
+        line: fn.startLine
+      });
+    }
+
+    if (metrics && metrics.nestingDepth > limits.nestingDepth) {
+      issues.push({
+        rule: 'nesting-depth',
+        message: `nesting depth ${metrics.nestingDepth} at line ${metrics.deepestNestingLine} in function ${fn.name}`,
+        line: metrics.deepestNestingLine
+      });
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
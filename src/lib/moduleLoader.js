@@ -0,0 +1,55 @@
+// Loads server modules outside the Next.js bundle, for analysis threads and the command-line analyzer.
+// `@/` resolves to the CommonJS build of `npm run build:threads`, or in development and tests to the TypeScript
+// sources, transpiled as they are required. Paths are taken from this file, never from the working directory
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const { isMainThread, Worker, workerData } = require('worker_threads');
+
+// The same two levels below the project root in src/ and in the build
+const projectRoot = path.join(__dirname, '..', '..');
+const compiledRoot = path.join(projectRoot, 'dist');
+const sourceRoot = path.join(projectRoot, 'src');
+
+let moduleRoot = null;
+
+function register() {
+  if (moduleRoot) return moduleRoot;
+
+  const development = ['development', 'test'].includes(process.env.NODE_ENV);
+  moduleRoot = !development && fs.existsSync(path.join(compiledRoot, 'lib', 'analysisThread.js')) ? compiledRoot : sourceRoot;
+
+  const resolveFilename = Module._resolveFilename;
+  Module._resolveFilename = function (request, ...rest) {
+    const aliased = request.startsWith('@/') ? path.join(moduleRoot, request.slice(2)) : request;
+    return resolveFilename.call(this, aliased, ...rest);
+  };
+
+  if (moduleRoot === sourceRoot) {
+    const ts = require('typescript');
+    require.extensions['.ts'] = (module, fileName) => {
+      const { outputText } = ts.transpileModule(fs.readFileSync(fileName, 'utf-8'), {
+        fileName,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true }
+      });
+      module._compile(outputText, fileName);
+    };
+  }
+  return moduleRoot;
+}
+
+// Requires a module by its path under src/ without an extension, e.g. 'lib/cli'
+function loadModule(entry) {
+  return require(path.join(register(), entry));
+}
+
+// Starts a thread that runs such a module
+function createModuleWorker(entry) {
+  return new Worker(__filename, { workerData: { moduleEntry: entry } });
+}
+
+if (!isMainThread && workerData && workerData.moduleEntry) {
+  loadModule(workerData.moduleEntry);
+}
+
+module.exports = { loadModule, createModuleWorker };
@@ -0,0 +1,227 @@
+import ignore from 'ignore';
+import type { AnalysisResult } from '@/lib/codeAnalysis';
+
+// Places GitHub and GitLab look for the file, in the order they check them
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+export type CodeownersRule = {
+  pattern: string;
+  // Empty when the rule explicitly leaves matching files without an owner
+  owners: string[];
+};
+
+export type AuthorLines = {
+  // Email of the author, or the name when git has no email
+  author: string;
+  lines: number;
+};
+
+export type FileOwnership = {
+  file: string;
+  // Teams or users from CODEOWNERS
+  owners: string[];
+  // Lines of the file by who last changed them, most lines first
+  authors: AuthorLines[];
+};
+
+export type RepositoryOwnership = {
+  codeowners: string | null;
+  files: FileOwnership[];
+};
+
+export type OwnerSource = 'codeowners' | 'blame';
+
+export type OwnershipFilter = {
+  owner?: string;
+  // Directory or file prefix, e.g. /src/lib
+  path?: string;
+};
+
+export type FileOwnershipSummary = {
+  file: string;
+  // CODEOWNERS owners, or the author of most lines when no rule names one
+  owners: string[];
+  source: OwnerSource;
+  lines: number;
+  busFactor: number;
+  remediationMinutes: number;
+};
+
+export type DirectoryOwnership = {
+  path: string;
+  files: number;
+  lines: number;
+  busFactor: number;
+  // Authors with the largest share of the directory's lines, most first
+  topAuthors: Array<{ author: string; share: number }>;
+};
+
+export type OwnerDebt = {
+  owner: string;
+  source: OwnerSource;
+  files: number;
+  logicalLines: number;
+  remediationMinutes: number;
+  debtRatio: number;
+  complexity: number;
+  maintainability: number;
+};
+
+export type OwnershipReport = {
+  codeowners: string | null;
+  owners: OwnerDebt[];
+  directories: DirectoryOwnership[];
+  files: FileOwnershipSummary[];
+};
+
+type OwnershipInput = Pick<AnalysisResult, 'complexity' | 'maintainability' | 'remediation'> & {
+  ownership?: RepositoryOwnership | null;
+};
+
+const TOP_AUTHORS = 3;
+
+// Comments and GitLab section headers are skipped; owners are @users, @org/teams or emails
+export function parseCodeowners(content: string): CodeownersRule[] {
+  return content.split('\n').flatMap(line => {
+    const text = line.replace(/(^|\s)#.*$/, '').trim();
+    if (!text || /^\^?\[[^\]]+\]/.test(text)) return [];
+    const [pattern, ...owners] = text.split(/\s+/);
+    return [{ pattern, owners }];
+  });
+}
+
+// The last matching rule wins, as on GitHub and GitLab
+export function matchCodeowners(rules: CodeownersRule[], file: string): string[] {
+  const relative = file.replace(/^\//, '');
+  for (let index = rules.length - 1; index >= 0; index--) {
+    if (ignore().add(rules[index].pattern).ignores(relative)) {
+      return rules[index].owners;
+    }
+  }
+  return [];
+}
+
+// Fewest authors who together last changed more than half of the lines
+export function calculateBusFactor(authors: AuthorLines[]): number {
+  const total = authors.reduce((sum, author) => sum + author.lines, 0);
+  let covered = 0;
+  let count = 0;
+  for (const { lines } of [...authors].sort((a, b) => b.lines - a.lines)) {
+    if (covered * 2 > total) break;
+    covered += lines;
+    count++;
+  }
+  return count;
+}
+
+// Rolls debt up from the stored run each time, so imports into the run are counted; null when the run has no ownership
+export function buildOwnershipReport(results: OwnershipInput, filter: OwnershipFilter = {}): OwnershipReport | null {
+  if (!results.ownership) return null;
+
+  const minutesByFile = new Map(results.remediation.byFile.map(entry => [entry.file, entry.minutes]));
+  const complexityByFile = new Map(results.complexity.details.map(detail => [detail.file, detail.complexity]));
+  const maintainabilityByFile = new Map(results.maintainability.details.map(detail => [detail.file, detail]));
+  const totalLogicalLines = results.maintainability.details.reduce((sum, detail) => sum + detail.logicalLines, 0);
+  const minutesPerLine = totalLogicalLines > 0 ? results.remediation.developmentMinutes / totalLogicalLines : 0;
+
+  const files = results.ownership.files
+    .map(entry => {
+      const source: OwnerSource = entry.owners.length > 0 ? 'codeowners' : 'blame';
+      return {
+        entry,
+        summary: {
+          file: entry.file,
+          owners: source === 'codeowners' ? entry.owners : entry.authors.slice(0, 1).map(author => author.author),
+          source,
+          lines: entry.authors.reduce((sum, author) => sum + author.lines, 0),
+          busFactor: calculateBusFactor(entry.authors),
+          remediationMinutes: minutesByFile.get(entry.file) || 0
+        }
+      };
+    })
+    .filter(({ summary }) => !filter.owner || summary.owners.includes(filter.owner))
+    .filter(({ summary }) => !filter.path || isWithin(summary.file, filter.path));
+
+  // A file with several owners counts in full for each of them
+  const owners = new Map<string, OwnerDebt & { complexityTotal: number; maintainabilityTotal: number }>();
+  files.forEach(({ summary }) => {
+    const logicalLines = maintainabilityByFile.get(summary.file)?.logicalLines || 0;
+    summary.owners.forEach(owner => {
+      const debt = owners.get(owner) ?? {
+        owner,
+        source: summary.source,
+        files: 0,
+        logicalLines: 0,
+        remediationMinutes: 0,
+        debtRatio: 0,
+        complexity: 0,
+        maintainability: 0,
+        complexityTotal: 0,
+        maintainabilityTotal: 0
+      };
+      debt.files++;
+      debt.logicalLines += logicalLines;
+      debt.remediationMinutes += summary.remediationMinutes;
+      debt.complexityTotal += complexityByFile.get(summary.file) || 0;
+      debt.maintainabilityTotal += maintainabilityByFile.get(summary.file)?.score || 0;
+      owners.set(owner, debt);
+    });
+  });
+
+  return {
+    codeowners: results.ownership.codeowners,
+    owners: [...owners.values()]
+      .map(({ complexityTotal, maintainabilityTotal, ...debt }) => {
+        const developmentMinutes = debt.logicalLines * minutesPerLine;
+        return {
+          ...debt,
+          debtRatio: developmentMinutes > 0 ? Math.round((debt.remediationMinutes / developmentMinutes) * 10000) / 100 : 0,
+          complexity: Math.round(complexityTotal / debt.files),
+          maintainability: Math.round(maintainabilityTotal / debt.files)
+        };
+      })
+      .sort((a, b) => b.remediationMinutes - a.remediationMinutes || a.owner.localeCompare(b.owner)),
+    directories: summarizeDirectories(files.map(({ entry }) => entry)),
+    files: files.map(({ summary }) => summary)
+  };
+}
+
+// Every directory above an analyzed file, the root included
+function summarizeDirectories(files: FileOwnership[]): DirectoryOwnership[] {
+  const directories = new Map<string, { files: number; authors: Map<string, number> }>();
+
+  files.forEach(({ file, authors }) => {
+    const parts = file.split('/').slice(1, -1);
+    for (let depth = 0; depth <= parts.length; depth++) {
+      const directory = `/${parts.slice(0, depth).join('/')}`;
+      const entry = directories.get(directory) ?? { files: 0, authors: new Map<string, number>() };
+      entry.files++;
+      authors.forEach(({ author, lines }) => entry.authors.set(author, (entry.authors.get(author) || 0) + lines));
+      directories.set(directory, entry);
+    }
+  });
+
+  return [...directories.entries()]
+    .map(([path, entry]) => {
+      const authors = [...entry.authors.entries()]
+        .map(([author, lines]) => ({ author, lines }))
+        .sort((a, b) => b.lines - a.lines || a.author.localeCompare(b.author));
+      const lines = authors.reduce((sum, author) => sum + author.lines, 0);
+      return {
+        path,
+        files: entry.files,
+        lines,
+        busFactor: calculateBusFactor(authors),
+        topAuthors: authors.slice(0, TOP_AUTHORS).map(author => ({
+          author: author.author,
+          share: lines > 0 ? Math.round((author.lines / lines) * 100) : 0
+        }))
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function isWithin(file: string, prefix: string): boolean {
+  const normalized = `/${prefix.replace(/^\/+|\/+$/g, '')}`;
+  return normalized === '/' || file === normalized || file.startsWith(`${normalized}/`);
+}
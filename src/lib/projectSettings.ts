@@ -0,0 +1,226 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_RUN_RETENTION, pruneAnalysisRuns } from '@/lib/runs';
+import { ScoringModel } from '@/lib/scoring';
+import { getScoringModel, parseScoringModel, saveScoringModel } from '@/lib/scoringModels';
+import { AnalysisConfigInput, parseAnalysisConfig } from '@/lib/analysisConfig';
+import {
+  getProjectWebhookStatus,
+  MIN_WEBHOOK_SECRET_LENGTH,
+  ProjectWebhookStatus,
+  ProjectWebhookUpdate,
+  saveProjectWebhook
+} from '@/lib/webhooks';
+
+export type ProjectSettings = {
+  runRetention: number;
+  scoringModel: ScoringModel;
+  hourlyRate: number;
+  currency: string;
+  analysisConfig: AnalysisConfigInput;
+  webhook: ProjectWebhookStatus;
+};
+
+export type ProjectSettingsUpdate = {
+  runRetention?: number;
+  scoringModel?: Omit<ScoringModel, 'version'>;
+  hourlyRate?: number;
+  currency?: string;
+  analysisConfig?: AnalysisConfigInput;
+  webhook?: ProjectWebhookUpdate | null;
+};
+
+export const MAX_RUN_RETENTION = 1000;
+
+export const DEFAULT_HOURLY_RATE = 50;
+export const DEFAULT_CURRENCY = 'USD';
+
+// Columns backing the plain (non-model) settings
+const SETTINGS_COLUMNS = 'run_retention, hourly_rate, currency, analysis_config';
+
+export async function getProjectSettings(projectId: string, client: SupabaseClient = supabase): Promise<ProjectSettings | null> {
+  const { data, error } = await client
+    .from('projects')
+    .select(SETTINGS_COLUMNS)
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project settings: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  return {
+    runRetention: data.run_retention || DEFAULT_RUN_RETENTION,
+    scoringModel: await getScoringModel(projectId, client),
+    hourlyRate: data.hourly_rate ?? DEFAULT_HOURLY_RATE,
+    currency: data.currency || DEFAULT_CURRENCY,
+    analysisConfig: data.analysis_config || {},
+    webhook: await getProjectWebhookStatus(projectId, client)
+  };
+}
+
+// The scope and thresholds set in the UI, applied underneath the repository's own config file
+export async function getAnalysisConfig(projectId: string, client: SupabaseClient = supabase): Promise<AnalysisConfigInput | null> {
+  const { data, error } = await client
+    .from('projects')
+    .select('analysis_config')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load analysis config: ${error.message}`);
+  }
+
+  return data?.analysis_config || null;
+}
+
+export async function updateProjectSettings(
+  projectId: string,
+  changes: ProjectSettingsUpdate,
+  client: SupabaseClient = supabase
+): Promise<ProjectSettings | null> {
+  const update: Record<string, unknown> = {};
+  if (changes.runRetention !== undefined) {
+    update.run_retention = changes.runRetention;
+  }
+  if (changes.hourlyRate !== undefined) {
+    update.hourly_rate = changes.hourlyRate;
+  }
+  if (changes.currency !== undefined) {
+    update.currency = changes.currency;
+  }
+  if (changes.analysisConfig !== undefined) {
+    update.analysis_config = changes.analysisConfig;
+  }
+
+  if (Object.keys(update).length === 0) {
+    const settings = await getProjectSettings(projectId, client);
+    if (!settings) return null;
+
+    if (changes.webhook !== undefined) {
+      await saveProjectWebhook(projectId, changes.webhook, client);
+    }
+    if (changes.scoringModel) {
+      // Stored runs keep their old scores until a re-score is requested
+      await saveScoringModel(projectId, changes.scoringModel, client);
+    }
+    return changes.webhook !== undefined || changes.scoringModel ? getProjectSettings(projectId, client) : settings;
+  }
+
+  const { data, error } = await client
+    .from('projects')
+    .update(update)
+    .eq('id', projectId)
+    .select(SETTINGS_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update project settings: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  // A lower retention applies to the history that already exists
+  if (changes.runRetention !== undefined) {
+    await pruneAnalysisRuns(projectId, changes.runRetention, client);
+  }
+
+  if (changes.scoringModel) {
+    await saveScoringModel(projectId, changes.scoringModel, client);
+  }
+
+  if (changes.webhook !== undefined) {
+    await saveProjectWebhook(projectId, changes.webhook, client);
+  }
+
+  return getProjectSettings(projectId, client);
+}
+
+// Returns the recognised settings from a request body, or the reasons it was rejected
+export function parseProjectSettings(body: unknown): { settings: ProjectSettingsUpdate; errors: string[] } {
+  const settings: ProjectSettingsUpdate = {};
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { settings, errors: ['Request body must be an object'] };
+  }
+
+  const input = body as Record<string, unknown>;
+
+  if (input.runRetention !== undefined) {
+    const value = input.runRetention;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_RUN_RETENTION) {
+      errors.push(`runRetention must be an integer between 1 and ${MAX_RUN_RETENTION}`);
+    } else {
+      settings.runRetention = value;
+    }
+  }
+
+  if (input.hourlyRate !== undefined) {
+    const value = input.hourlyRate;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push('hourlyRate must be a non-negative number');
+    } else {
+      settings.hourlyRate = value;
+    }
+  }
+
+  if (input.currency !== undefined) {
+    const value = input.currency;
+    if (typeof value !== 'string' || !/^[A-Za-z]{3}$/.test(value)) {
+      errors.push('currency must be a three-letter ISO 4217 code');
+    } else {
+      settings.currency = value.toUpperCase();
+    }
+  }
+
+  if (input.analysisConfig !== undefined) {
+    const { config, errors: configErrors } = parseAnalysisConfig(input.analysisConfig);
+    if (configErrors.length > 0) {
+      errors.push(...configErrors);
+    } else {
+      settings.analysisConfig = config;
+    }
+  }
+
+  if (input.webhook !== undefined) {
+    const webhook = readWebhook(input.webhook, errors);
+    if (webhook !== undefined) {
+      settings.webhook = webhook;
+    }
+  }
+
+  if (input.scoringModel !== undefined) {
+    const { model, errors: modelErrors } = parseScoringModel(input.scoringModel);
+    if (model) {
+      settings.scoringModel = model;
+    } else {
+      errors.push(...modelErrors);
+    }
+  }
+
+  return { settings, errors };
+}
+
+// null removes the webhook; undefined means the value was rejected
+function readWebhook(input: unknown, errors: string[]): ProjectWebhookUpdate | null | undefined {
+  if (input === null) return null;
+  if (typeof input !== 'object') {
+    errors.push('webhook must be an object, or null to remove it');
+    return undefined;
+  }
+
+  const { secret, accessToken } = input as Record<string, unknown>;
+  const startingErrors = errors.length;
+  if (typeof secret !== 'string' || secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    errors.push(`webhook.secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`);
+  }
+  if (accessToken !== undefined && accessToken !== null && (typeof accessToken !== 'string' || !accessToken.trim())) {
+    errors.push('webhook.accessToken must be a token, or null to clone without one');
+  }
+  if (errors.length > startingErrors) return undefined;
+
+  return { secret: secret as string, accessToken: typeof accessToken === 'string' ? accessToken.trim() : null };
+}
@@ -0,0 +1,132 @@
+import { AnalysisResult } from '@/lib/codeAnalysis';
+import { MaintainabilityIssue } from '@/lib/maintainability';
+import type { Severity } from '@/lib/dependencies';
+
+export type RemediationKind = 'function-complexity' | 'duplicate-block' | 'maintainability-issue' | 'imported-issue';
+
+export type RemediationItem = {
+  kind: RemediationKind;
+  file: string;
+  line: number;
+  minutes: number;
+  description: string;
+};
+
+export type RemediationEstimate = {
+  totalMinutes: number;
+  developmentMinutes: number;
+  // Remediation time as a percentage of the estimated time to write the code
+  debtRatio: number;
+  byKind: Record<RemediationKind, number>;
+  byFile: Array<{ file: string; minutes: number }>;
+  items: RemediationItem[];
+};
+
+// Effort per finding, loosely following SonarQube's defaults for the equivalent rules
+export const REMEDIATION_COSTS = {
+  // Cognitive complexity above this is excess; each point costs perExcessPoint on top of base
+  complexityThreshold: 15,
+  complexityBaseMinutes: 5,
+  complexityPerExcessPointMinutes: 1,
+  duplicateBlockMinutes: 10,
+  duplicateLineMinutes: 0.5,
+  issueMinutes: {
+    'parameter-count': 20,
+    'nesting-depth': 10,
+    'function-length': 20,
+    // Already paid for by the excess complexity of the same function
+    'function-complexity': 0,
+    'file-length': 60
+  } as Record<MaintainabilityIssue['rule'], number>,
+  // For findings imported from other tools that do not report their own effort
+  importedIssueMinutes: {
+    critical: 60,
+    high: 30,
+    moderate: 10,
+    low: 5
+  } as Record<Severity, number>,
+  // SQALE's default of 0.06 days per line at 8 hours a day
+  developmentMinutesPerLine: 30
+};
+
+type RemediationInput = Pick<AnalysisResult, 'complexity' | 'duplication' | 'maintainability'> &
+  Partial<Pick<AnalysisResult, 'importedIssues'>>;
+
+export function estimateRemediation(results: RemediationInput, costs = REMEDIATION_COSTS): RemediationEstimate {
+  const items: RemediationItem[] = [];
+
+  results.complexity.details.forEach(detail => {
+    detail.functions.forEach(fn => {
+      const excess = fn.cognitive - costs.complexityThreshold;
+      if (excess <= 0) return;
+      items.push({
+        kind: 'function-complexity',
+        file: detail.file,
+        line: fn.startLine,
+        minutes: costs.complexityBaseMinutes + excess * costs.complexityPerExcessPointMinutes,
+        description: `Reduce cognitive complexity of ${fn.name} from ${fn.cognitive} to ${costs.complexityThreshold}`
+      });
+    });
+  });
+
+  results.duplication.instances.forEach(instance => {
+    // The second occurrence is the one to replace with a shared implementation
+    items.push({
+      kind: 'duplicate-block',
+      file: instance.second.file,
+      line: instance.second.startLine,
+      minutes: costs.duplicateBlockMinutes + instance.lines * costs.duplicateLineMinutes,
+      description: `Remove ${instance.lines} duplicated lines also found in ${instance.first.file}:${instance.first.startLine}`
+    });
+  });
+
+  results.maintainability.details.forEach(detail => {
+    detail.issues.forEach(issue => {
+      const minutes = costs.issueMinutes[issue.rule] || 0;
+      if (minutes === 0) return;
+      items.push({
+        kind: 'maintainability-issue',
+        file: detail.file,
+        line: issue.line,
+        minutes,
+        description: issue.message
+      });
+    });
+  });
+
+  (results.importedIssues || []).forEach(issue => {
+    items.push({
+      kind: 'imported-issue',
+      file: issue.file,
+      line: issue.line,
+      minutes: issue.minutes ?? costs.importedIssueMinutes[issue.severity],
+      description: `${issue.tool} ${issue.rule}: ${issue.message}`
+    });
+  });
+
+  const byKind: Record<RemediationKind, number> = {
+    'function-complexity': 0,
+    'duplicate-block': 0,
+    'maintainability-issue': 0,
+    'imported-issue': 0
+  };
+  const fileMinutes = new Map<string, number>();
+  items.forEach(item => {
+    byKind[item.kind] += item.minutes;
+    fileMinutes.set(item.file, (fileMinutes.get(item.file) || 0) + item.minutes);
+  });
+
+  const totalMinutes = items.reduce((sum, item) => sum + item.minutes, 0);
+  const logicalLines = results.maintainability.details.reduce((sum, detail) => sum + detail.logicalLines, 0);
+  const developmentMinutes = logicalLines * costs.developmentMinutesPerLine;
+
+  return {
+    totalMinutes,
+    developmentMinutes,
+    debtRatio: developmentMinutes > 0 ? Math.round((totalMinutes / developmentMinutes) * 10000) / 100 : 0,
+    byKind,
+    byFile: Array.from(fileMinutes, ([file, minutes]) => ({ file, minutes }))
+      .sort((a, b) => b.minutes - a.minutes || a.file.localeCompare(b.file)),
+    items: items.sort((a, b) => b.minutes - a.minutes)
+  };
+}
@@ -0,0 +1,133 @@
+import { ANALYZER_VERSION } from '@/lib/codeAnalysis';
+import type { Severity } from '@/lib/dependencies';
+import type { GateResult, QualityGate } from '@/lib/delta';
+import type { AnalysisReport } from '@/lib/scoring';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+type SarifLocation = {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number; endLine?: number };
+  };
+};
+
+type SarifResult = {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+};
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  moderate: 'warning',
+  low: 'note'
+};
+
+// Security findings, maintainability issues, duplicated blocks and dependency findings as SARIF 2.1.0,
+// which code scanning in GitHub and GitLab reads; paths are relative to the analyzed directory
+export function buildSarifLog(report: AnalysisReport) {
+  const results: SarifResult[] = [];
+
+  report.security.vulnerabilities.forEach(finding => results.push({
+    ruleId: `security/${finding.rule}`,
+    level: SARIF_LEVELS[finding.severity],
+    message: { text: finding.message },
+    locations: [sarifLocation(finding.file, finding.line)]
+  }));
+
+  report.maintainability.details.forEach(detail => detail.issues.forEach(issue => results.push({
+    ruleId: `maintainability/${issue.rule}`,
+    level: 'warning',
+    message: { text: issue.message },
+    locations: [sarifLocation(detail.file, issue.line)]
+  })));
+
+  report.duplication.instances.forEach(instance => results.push({
+    ruleId: 'duplication',
+    level: 'note',
+    message: { text: `${instance.lines} lines are duplicated in ${relativePath(instance.second.file)} at line ${instance.second.startLine}` },
+    locations: [sarifLocation(instance.first.file, instance.first.startLine, instance.first.endLine)],
+    relatedLocations: [sarifLocation(instance.second.file, instance.second.startLine, instance.second.endLine)]
+  }));
+
+  // Dependency findings belong to the manifest rather than a line of it
+  const manifest = report.dependencies?.manifests[0];
+  if (manifest) {
+    report.dependencies!.findings.forEach(finding => results.push({
+      ruleId: `dependencies/${finding.kind}`,
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: `${finding.package}${finding.version ? `@${finding.version}` : ''}: ${finding.message}` },
+      locations: [sarifLocation(manifest)]
+    }));
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 't3kdet',
+          version: ANALYZER_VERSION,
+          rules: [...new Set(results.map(result => result.ruleId))].sort().map(id => ({ id }))
+        }
+      },
+      results
+    }]
+  };
+}
+
+// One test case per gate rule, so CI test views show which limits a change broke;
+// details are listed in the failure of their rule
+export function buildJunitReport(gate: GateResult, details: Partial<Record<keyof QualityGate, string[]>> = {}): string {
+  const failures = gate.checks.filter(check => !check.passed).length;
+  const cases = gate.checks.map(check => {
+    const name = `    <testcase classname="t3kdet.gate" name="${escapeXml(check.rule)}">`;
+    if (check.passed) return `${name}</testcase>`;
+    return [
+      name,
+      `      <failure message="${escapeXml(check.message)}">${escapeXml((details[check.rule] || []).join('\n'))}</failure>`,
+      '    </testcase>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="t3kdet" tests="${gate.checks.length}" failures="${failures}">`,
+    `  <testsuite name="Quality gate" tests="${gate.checks.length}" failures="${failures}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+function sarifLocation(file: string, startLine?: number, endLine?: number): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: relativePath(file), uriBaseId: '%SRCROOT%' },
+      ...(startLine ? { region: { startLine, ...(endLine && endLine > startLine ? { endLine } : {}) } } : {})
+    }
+  };
+}
+
+// Analyzed paths start with a slash at the analyzed directory
+function relativePath(file: string): string {
+  return file.replace(/^\/+/, '');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
@@ -0,0 +1,484 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { AnalysisResult } from '@/lib/codeAnalysis';
+import { AnalysisReport, buildAnalysisReport, ScoringModel } from '@/lib/scoring';
+import { CacheStats } from '@/lib/analysisCache';
+import { diffFiles, FileDiff, MetricDelta, metricDelta } from '@/lib/delta';
+
+export type { FileDiff, MetricDelta };
+
+export type RunTimings = {
+  cloneMs: number;
+  analysisMs: number;
+};
+
+export type AnalysisRun = {
+  id: string;
+  project_id: string;
+  user_id: string;
+  job_id: string | null;
+  // Branch, tag or commit that was requested; null for the default branch and uploads
+  ref: string | null;
+  commit_sha: string | null;
+  branch: string | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  timings: RunTimings;
+  tool_versions: Record<string, string>;
+  // Files whose metrics were reused from an earlier run, and files analyzed afresh; null before caching existed
+  cache_hits: number | null;
+  cache_misses: number | null;
+  overall_score: number;
+  scoring_model_version: number;
+  results: AnalysisReport;
+  created_at: string;
+};
+
+export type AnalysisRunSummary = Omit<AnalysisRun, 'results'>;
+
+// Headline numbers of a run, read straight out of the stored results
+export type RunMetrics = {
+  id: string;
+  commit_sha: string | null;
+  branch: string | null;
+  created_at: string;
+  overall_score: number;
+  complexity: number;
+  maintainability: number;
+  duplication: number;
+};
+
+// Per-file complexity ratings of one run
+export type RunFileComplexity = {
+  id: string;
+  created_at: string;
+  files: Array<{ file: string; complexity: number }>;
+};
+
+export type NewAnalysisRun = {
+  projectId: string;
+  jobId?: string;
+  ref?: string | null;
+  commitSha: string | null;
+  branch: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+  timings: RunTimings;
+  toolVersions: Record<string, string>;
+  cacheStats?: CacheStats;
+  results: AnalysisReport;
+};
+
+// A run analyzed outside the pipeline, such as by the command-line analyzer in CI; it is scored when saved
+export type RunUpload = Omit<NewAnalysisRun, 'projectId' | 'jobId' | 'cacheStats' | 'results'> & {
+  results: AnalysisResult;
+};
+
+export type RunDiff = {
+  base: Pick<AnalysisRunSummary, 'id' | 'commit_sha' | 'branch' | 'created_at'>;
+  head: Pick<AnalysisRunSummary, 'id' | 'commit_sha' | 'branch' | 'created_at'>;
+  overallScore: MetricDelta;
+  complexity: MetricDelta;
+  maintainability: MetricDelta;
+  duplication: MetricDelta;
+  clones: MetricDelta;
+  files: FileDiff[];
+};
+
+// Everything except the full results, for listings
+const RUN_SUMMARY_COLUMNS = 'id, project_id, user_id, job_id, ref, commit_sha, branch, started_at, finished_at, duration_ms, timings, tool_versions, cache_hits, cache_misses, overall_score, scoring_model_version, created_at';
+
+export const DEFAULT_RUN_RETENTION = 50;
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+
+// Numbers that scoring and the dashboard compute and format with; anything else in the results is only displayed
+const RESULT_NUMBERS = {
+  overview: ['totalFiles', 'totalLines', 'totalFunctions', 'technicalDebtRatio'],
+  complexity: ['score'],
+  duplication: ['percentage'],
+  maintainability: ['score'],
+  remediation: ['totalMinutes', 'developmentMinutes', 'debtRatio'],
+  security: ['suppressed']
+} as const;
+
+type ListShape = {
+  section: keyof typeof RESULT_NUMBERS;
+  list: string;
+  strings: string[];
+  numbers: string[];
+  arrays: string[];
+};
+
+const RESULT_LISTS: ListShape[] = [
+  {
+    section: 'complexity',
+    list: 'details',
+    strings: ['file'],
+    numbers: ['complexity', 'maintainability', 'cyclomatic', 'cognitive', 'maxNestingDepth'],
+    arrays: ['functions']
+  },
+  { section: 'duplication', list: 'instances', strings: [], numbers: ['lines', 'tokens'], arrays: ['files'] },
+  { section: 'duplication', list: 'details', strings: ['file'], numbers: ['duplicatedLines', 'totalLines', 'percentage'], arrays: [] },
+  { section: 'maintainability', list: 'details', strings: ['file'], numbers: ['score', 'logicalLines'], arrays: ['issues'] },
+  { section: 'security', list: 'vulnerabilities', strings: ['rule', 'file', 'message'], numbers: ['line'], arrays: [] }
+];
+
+const MAX_TOOL_VERSIONS = 20;
+const MAX_VERSION_LENGTH = 100;
+
+// Parts the pipeline adds after analysis, absent from analyzer output of older versions
+const UPLOAD_DEFAULTS: Pick<AnalysisResult, 'dependencies' | 'importedIssues' | 'history' | 'ownership' | 'pullRequest' | 'skipped'> = {
+  dependencies: null,
+  importedIssues: [],
+  history: null,
+  ownership: null,
+  pullRequest: null,
+  skipped: []
+};
+
+// Uploads authorized with a project API token have no user session and save with the service-role client
+export async function saveAnalysisRun(run: NewAnalysisRun, client: SupabaseClient = supabase): Promise<AnalysisRunSummary> {
+  const { data: project, error: projectError } = await client
+    .from('projects')
+    .select('user_id, run_retention')
+    .eq('id', run.projectId)
+    .single();
+
+  if (projectError || !project) {
+    throw new Error(`Failed to load project for analysis run: ${projectError?.message || 'Project not found'}`);
+  }
+
+  const { data, error } = await client
+    .from('analysis_runs')
+    .insert({
+      project_id: run.projectId,
+      user_id: project.user_id,
+      job_id: run.jobId || null,
+      ref: run.ref || null,
+      commit_sha: run.commitSha,
+      branch: run.branch,
+      started_at: run.startedAt.toISOString(),
+      finished_at: run.finishedAt.toISOString(),
+      duration_ms: run.finishedAt.getTime() - run.startedAt.getTime(),
+      timings: run.timings,
+      tool_versions: run.toolVersions,
+      cache_hits: run.cacheStats?.hits ?? null,
+      cache_misses: run.cacheStats?.misses ?? null,
+      overall_score: run.results.overallScore,
+      scoring_model_version: run.results.scoringModelVersion,
+      results: run.results
+    })
+    .select(RUN_SUMMARY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save analysis run: ${error?.message || 'No data returned'}`);
+  }
+
+  await pruneAnalysisRuns(run.projectId, project.run_retention || DEFAULT_RUN_RETENTION, client);
+
+  return data as AnalysisRunSummary;
+}
+
+// Newest first
+export async function listAnalysisRuns(
+  projectId: string,
+  limit = DEFAULT_RUN_RETENTION,
+  client: SupabaseClient = supabase
+): Promise<AnalysisRunSummary[]> {
+  const { data, error } = await client
+    .from('analysis_runs')
+    .select(RUN_SUMMARY_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list analysis runs: ${error.message}`);
+  }
+
+  return (data || []) as AnalysisRunSummary[];
+}
+
+// Oldest first, optionally limited to runs created within [from, to]
+export async function listRunMetrics(projectId: string, range: { from?: string; to?: string } = {}): Promise<RunMetrics[]> {
+  let query = supabase
+    .from('analysis_runs')
+    .select('id, commit_sha, branch, created_at, overall_score, complexity:results->complexity->score, maintainability:results->maintainability->score, duplication:results->duplication->percentage')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (range.from) query = query.gte('created_at', range.from);
+  if (range.to) query = query.lte('created_at', range.to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load run metrics: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    commit_sha: row.commit_sha,
+    branch: row.branch,
+    created_at: row.created_at,
+    overall_score: Number(row.overall_score),
+    complexity: Number(row.complexity),
+    maintainability: Number(row.maintainability),
+    duplication: Number(row.duplication)
+  }));
+}
+
+// Oldest first
+export async function listFileComplexityHistory(projectId: string): Promise<RunFileComplexity[]> {
+  const { data, error } = await supabase
+    .from('analysis_runs')
+    .select('id, created_at, details:results->complexity->details')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load file complexity history: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    created_at: row.created_at,
+    files: ((row.details || []) as Array<{ file: string; complexity: number }>)
+      .map(detail => ({ file: detail.file, complexity: detail.complexity }))
+  }));
+}
+
+export async function getLatestAnalysisRun(projectId: string): Promise<AnalysisRun | null> {
+  const { data, error } = await supabase
+    .from('analysis_runs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load latest analysis run: ${error.message}`);
+  }
+
+  return data as AnalysisRun | null;
+}
+
+export async function getAnalysisRun(projectId: string, runId: string, client: SupabaseClient = supabase): Promise<AnalysisRun | null> {
+  const { data, error } = await client
+    .from('analysis_runs')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load analysis run: ${error.message}`);
+  }
+
+  return data as AnalysisRun | null;
+}
+
+// Replaces a stored run's results, e.g. after importing findings of other tools, along with the score columns
+export async function updateAnalysisRunResults(runId: string, results: AnalysisReport): Promise<void> {
+  const { error } = await supabase
+    .from('analysis_runs')
+    .update({
+      results,
+      overall_score: results.overallScore,
+      scoring_model_version: results.scoringModelVersion
+    })
+    .eq('id', runId);
+
+  if (error) {
+    throw new Error(`Failed to update analysis run ${runId}: ${error.message}`);
+  }
+}
+
+// Recomputes the score of every stored run not already produced by `model`; returns the number updated
+export async function rescoreAnalysisRuns(projectId: string, model: ScoringModel, client: SupabaseClient = supabase): Promise<number> {
+  const { data: runs, error } = await client
+    .from('analysis_runs')
+    .select('id, results')
+    .eq('project_id', projectId)
+    .neq('scoring_model_version', model.version);
+
+  if (error) {
+    throw new Error(`Failed to load analysis runs for re-scoring: ${error.message}`);
+  }
+
+  for (const run of runs || []) {
+    const results = buildAnalysisReport(run.results as AnalysisReport, model);
+    const { error: updateError } = await client
+      .from('analysis_runs')
+      .update({
+        results,
+        overall_score: results.overallScore,
+        scoring_model_version: model.version
+      })
+      .eq('id', run.id);
+
+    if (updateError) {
+      throw new Error(`Failed to re-score analysis run ${run.id}: ${updateError.message}`);
+    }
+  }
+
+  console.log(`Re-scored ${runs?.length || 0} analysis run(s) for project ${projectId} with model v${model.version}`);
+  return runs?.length || 0;
+}
+
+// Deletes all but the newest `keep` runs of a project
+export async function pruneAnalysisRuns(projectId: string, keep: number, client: SupabaseClient = supabase): Promise<number> {
+  const { data: expired, error } = await client
+    .from('analysis_runs')
+    .select('id')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .range(keep, keep + 999);
+
+  if (error) {
+    console.error('Failed to find expired analysis runs:', error);
+    return 0;
+  }
+
+  if (!expired || expired.length === 0) return 0;
+
+  const { error: deleteError } = await client
+    .from('analysis_runs')
+    .delete()
+    .in('id', expired.map(run => run.id));
+
+  if (deleteError) {
+    console.error('Failed to prune analysis runs:', deleteError);
+    return 0;
+  }
+
+  console.log(`Pruned ${expired.length} analysis run(s) for project ${projectId}`);
+  return expired.length;
+}
+
+export function diffAnalysisRuns(base: AnalysisRun, head: AnalysisRun): RunDiff {
+  return {
+    base: { id: base.id, commit_sha: base.commit_sha, branch: base.branch, created_at: base.created_at },
+    head: { id: head.id, commit_sha: head.commit_sha, branch: head.branch, created_at: head.created_at },
+    overallScore: metricDelta(base.results.overallScore, head.results.overallScore),
+    complexity: metricDelta(base.results.complexity.score, head.results.complexity.score),
+    maintainability: metricDelta(base.results.maintainability.score, head.results.maintainability.score),
+    duplication: metricDelta(base.results.duplication.percentage, head.results.duplication.percentage),
+    clones: metricDelta(base.results.duplication.instances.length, head.results.duplication.instances.length),
+    files: diffFiles(base.results, head.results)
+  };
+}
+
+// Checks an uploaded run; results must be the analyzer's JSON output, which is scored with the project's model when saved
+export function parseRunUpload(body: unknown): { upload: RunUpload | null; errors: string[] } {
+  const input = isObject(body) ? body : {};
+  const errors: string[] = [];
+
+  const results = input.results;
+  if (!isObject(results) || !isObject(results.overview) || !isObject(results.remediation)) {
+    errors.push('results must be the JSON output of the analyzer');
+  } else {
+    errors.push(...checkResults(results));
+  }
+
+  const commitSha = input.commitSha ?? null;
+  if (commitSha !== null && (typeof commitSha !== 'string' || !COMMIT_SHA.test(commitSha))) {
+    errors.push('commitSha must be a full commit SHA, or null');
+  }
+
+  const refs = { branch: input.branch ?? null, ref: input.ref ?? null };
+  Object.entries(refs).forEach(([field, value]) => {
+    if (value !== null && (typeof value !== 'string' || value.length === 0 || value.length > 255)) {
+      errors.push(`${field} must be a branch or tag name, or null`);
+    }
+  });
+
+  const startedAt = new Date(String(input.startedAt));
+  const finishedAt = new Date(String(input.finishedAt));
+  if (isNaN(startedAt.getTime()) || isNaN(finishedAt.getTime()) || finishedAt < startedAt) {
+    errors.push('startedAt and finishedAt must be ISO dates, with finishedAt not before startedAt');
+  }
+
+  const toolVersions = input.toolVersions ?? {};
+  if (
+    !isObject(toolVersions)
+    || Object.keys(toolVersions).length > MAX_TOOL_VERSIONS
+    || Object.values(toolVersions).some(version => typeof version !== 'string' || version.length === 0 || version.length > MAX_VERSION_LENGTH)
+  ) {
+    errors.push(`toolVersions must map at most ${MAX_TOOL_VERSIONS} tool names to version strings of up to ${MAX_VERSION_LENGTH} characters`);
+  } else if (typeof toolVersions.analyzer !== 'string') {
+    errors.push('toolVersions.analyzer must be the version of the analyzer that produced the results');
+  }
+
+  if (errors.length > 0) {
+    return { upload: null, errors };
+  }
+
+  return {
+    upload: {
+      ref: refs.ref as string | null,
+      commitSha: commitSha as string | null,
+      branch: refs.branch as string | null,
+      startedAt,
+      finishedAt,
+      // Nothing is cloned; the CI job checked the code out itself
+      timings: { cloneMs: 0, analysisMs: finishedAt.getTime() - startedAt.getTime() },
+      toolVersions: toolVersions as Record<string, string>,
+      results: { ...UPLOAD_DEFAULTS, ...(results as Record<string, unknown>) } as AnalysisResult
+    },
+    errors
+  };
+}
+
+// Reports the first malformed entry of each list, which is enough to find what produced a bad upload
+function checkResults(results: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  Object.entries(RESULT_NUMBERS).forEach(([section, fields]) => {
+    const value = results[section];
+    if (!isObject(value)) {
+      errors.push(`results.${section} must be an object`);
+      return;
+    }
+    fields.filter(field => !isFiniteNumber(value[field])).forEach(field => {
+      errors.push(`results.${section}.${field} must be a number`);
+    });
+  });
+
+  const dependencies = results.dependencies ?? null;
+  if (dependencies !== null && (!isObject(dependencies) || !isFiniteNumber(dependencies.score))) {
+    errors.push('results.dependencies must be null or have a numeric score');
+  }
+
+  RESULT_LISTS.forEach(({ section, list, strings, numbers, arrays }) => {
+    const value = results[section];
+    if (!isObject(value)) return;
+    const entries = value[list];
+    if (!Array.isArray(entries)) {
+      errors.push(`results.${section}.${list} must be an array`);
+      return;
+    }
+    const index = entries.findIndex(entry => !isObject(entry)
+      || strings.some(field => typeof entry[field] !== 'string')
+      || numbers.some(field => !isFiniteNumber(entry[field]))
+      || arrays.some(field => !Array.isArray(entry[field])));
+    if (index !== -1) {
+      const fields = [...strings.map(field => `${field} text`), ...numbers.map(field => `${field} number`), ...arrays.map(field => `${field} array`)];
+      errors.push(`results.${section}.${list}[${index}] must have ${fields.join(', ')}`);
+    }
+  });
+
+  return errors;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
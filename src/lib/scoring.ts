@@ -0,0 +1,228 @@
+import { AnalysisResult } from '@/lib/codeAnalysis';
+import type { Severity } from '@/lib/dependencies';
+
+// Band labels come from the project's scoring model
+export type HealthStatus = string;
+
+export type ScoreMetric = 'complexity' | 'maintainability' | 'duplication' | 'dependencies';
+
+export type NormalizationCurve = 'linear' | 'logarithmic' | 'exponential';
+
+// Maps a raw metric onto 0-100: `best` scores 100, `worst` scores 0, the curve shapes the path between
+export type MetricNormalization = {
+  curve: NormalizationCurve;
+  best: number;
+  worst: number;
+};
+
+export type HealthBand = {
+  min: number;
+  label: string;
+};
+
+export type ScoringModel = {
+  version: number;
+  // Set on the models that ship with the analyzer, whose versions a project's first saved model may share
+  builtIn?: boolean;
+  weights: Record<ScoreMetric, number>;
+  normalization: Record<ScoreMetric, MetricNormalization>;
+  // Raw metric values past which a recommendation is made
+  thresholds: Record<ScoreMetric, number>;
+  // Highest band first; a score falls in the first band whose minimum it reaches
+  bands: HealthBand[];
+};
+
+export type AnalysisSummary = {
+  totalFiles: number;
+  averageComplexity: string;
+  maintainabilityIndex: string;
+  codeduplication: string;
+  criticalIssues: number;
+  healthStatus: HealthStatus;
+};
+
+export type AnalysisReport = AnalysisResult & {
+  overallScore: number;
+  summary: AnalysisSummary;
+  recommendations: string[];
+  scoringModelVersion: number;
+};
+
+export const SCORE_METRICS: ScoreMetric[] = ['complexity', 'maintainability', 'duplication', 'dependencies'];
+
+// Maintainability points an issue imported from another tool takes off its file's index
+export const IMPORTED_ISSUE_PENALTIES: Record<Severity, number> = {
+  critical: 20,
+  high: 10,
+  moderate: 5,
+  low: 1
+};
+
+// The built-in model that runs were scored with before dependencies were analyzed, so it gives them no weight
+const LEGACY_SCORING_MODEL: ScoringModel = {
+  version: 0,
+  builtIn: true,
+  weights: {
+    complexity: 0.3,
+    maintainability: 0.4,
+    duplication: 0.3,
+    dependencies: 0
+  },
+  // Complexity and duplication measure how bad things are, so both are inverted
+  normalization: {
+    complexity: { curve: 'linear', best: 0, worst: 100 },
+    maintainability: { curve: 'linear', best: 100, worst: 0 },
+    duplication: { curve: 'linear', best: 0, worst: 100 },
+    dependencies: { curve: 'linear', best: 100, worst: 0 }
+  },
+  thresholds: {
+    complexity: 70,
+    maintainability: 65,
+    duplication: 15,
+    dependencies: 70
+  },
+  bands: [
+    { min: 80, label: 'Excellent' },
+    { min: 70, label: 'Good' },
+    { min: 50, label: 'Fair' },
+    { min: 0, label: 'Needs Improvement' }
+  ]
+};
+
+// Built-in models are never changed once runs were scored with them, so a new weighting ships as a new version;
+// a project's saved models are numbered on from the newest
+export const BUILT_IN_SCORING_MODELS: ScoringModel[] = [
+  LEGACY_SCORING_MODEL,
+  { ...LEGACY_SCORING_MODEL, version: 1, weights: { ...LEGACY_SCORING_MODEL.weights, dependencies: 0.2 } }
+];
+
+export const DEFAULT_SCORING_MODEL = BUILT_IN_SCORING_MODELS[BUILT_IN_SCORING_MODELS.length - 1];
+
+// Also re-scores a stored report, since the derived fields are recomputed from the raw results
+export function buildAnalysisReport(results: AnalysisResult, model = DEFAULT_SCORING_MODEL): AnalysisReport {
+  return {
+    ...results,
+    overallScore: calculateOverallScore(results, model),
+    summary: generateAnalysisSummary(results, model),
+    recommendations: generateRecommendations(results, model),
+    scoringModelVersion: model.version
+  };
+}
+
+// Null for metrics the results have no data for, such as dependencies in a repository without a package.json
+export function getMetricValues(results: AnalysisResult): Record<ScoreMetric, number | null> {
+  return {
+    complexity: results.complexity.score,
+    maintainability: getMaintainabilityScore(results),
+    duplication: results.duplication.percentage,
+    // Reports stored before dependency analysis have no dependencies field
+    dependencies: results.dependencies?.score ?? null
+  };
+}
+
+// The analyzed maintainability lowered by imported issues, file by file; a file's index does not drop below 0,
+// and issues in files that were not analyzed only count towards the remediation estimate
+export function getMaintainabilityScore(results: AnalysisResult): number {
+  const { score, details } = results.maintainability;
+  const issues = results.importedIssues || [];
+  if (issues.length === 0 || details.length === 0) return score;
+
+  const penalties = new Map<string, number>();
+  issues.forEach(issue => penalties.set(issue.file, (penalties.get(issue.file) || 0) + IMPORTED_ISSUE_PENALTIES[issue.severity]));
+  const lost = details.reduce((sum, detail) => sum + Math.min(detail.score, penalties.get(detail.file) || 0), 0);
+
+  return Math.round(Math.max(0, score - lost / details.length) * 100) / 100;
+}
+
+export function normalizeMetric(value: number, { curve, best, worst }: MetricNormalization): number {
+  if (best === worst) return value === best ? 100 : 0;
+
+  const position = Math.max(0, Math.min(1, (value - worst) / (best - worst)));
+  switch (curve) {
+    // Forgiving: most of the score is earned early on the way from worst to best
+    case 'logarithmic':
+      return (Math.log(1 + 9 * position) / Math.log(10)) * 100;
+    // Strict: the score only climbs steeply close to best
+    case 'exponential':
+      return ((Math.pow(10, position) - 1) / 9) * 100;
+    default:
+      return position * 100;
+  }
+}
+
+// Weighted mean of the normalized metrics; weights need not sum to 1, and metrics without data are left out
+export function calculateOverallScore(results: AnalysisResult, model = DEFAULT_SCORING_MODEL): number {
+  const values = getMetricValues(results);
+  const metrics = SCORE_METRICS.filter(metric => values[metric] !== null);
+  const totalWeight = metrics.reduce((sum, metric) => sum + model.weights[metric], 0);
+  if (totalWeight <= 0) return 0;
+
+  const weighted = metrics.reduce((sum, metric) => {
+    return sum + normalizeMetric(values[metric]!, model.normalization[metric]) * model.weights[metric];
+  }, 0);
+
+  return Math.round(weighted / totalWeight);
+}
+
+export function generateAnalysisSummary(results: AnalysisResult, model = DEFAULT_SCORING_MODEL): AnalysisSummary {
+  return {
+    totalFiles: results.complexity.details.length,
+    averageComplexity: results.complexity.score.toFixed(2),
+    maintainabilityIndex: getMaintainabilityScore(results).toFixed(2),
+    codeduplication: `${results.duplication.percentage.toFixed(2)}%`,
+    criticalIssues: countCriticalIssues(results),
+    healthStatus: getHealthStatus(calculateOverallScore(results, model), model)
+  };
+}
+
+// Number of files with at least one maintainability issue
+export function countCriticalIssues(results: AnalysisResult): number {
+  return results.maintainability.details.reduce((count, detail) => {
+    return count + (detail.issues.length > 0 ? 1 : 0);
+  }, 0);
+}
+
+export function getHealthStatus(score: number, model = DEFAULT_SCORING_MODEL): HealthStatus {
+  const bands = [...model.bands].sort((a, b) => b.min - a.min);
+  const band = bands.find(b => score >= b.min) || bands[bands.length - 1];
+  return band ? band.label : '';
+}
+
+// True when a raw value lies beyond the threshold on the `worst` side of the metric
+function exceedsThreshold(metric: ScoreMetric, value: number | null, model: ScoringModel): boolean {
+  if (value === null) return false;
+  const { best, worst } = model.normalization[metric];
+  return worst > best ? value > model.thresholds[metric] : value < model.thresholds[metric];
+}
+
+export function generateRecommendations(results: AnalysisResult, model = DEFAULT_SCORING_MODEL): string[] {
+  const recommendations: string[] = [];
+  const values = getMetricValues(results);
+
+  if (exceedsThreshold('complexity', values.complexity, model)) {
+    recommendations.push('Consider breaking down complex functions into smaller, more manageable pieces');
+  }
+
+  if (exceedsThreshold('maintainability', values.maintainability, model)) {
+    recommendations.push('Focus on improving code maintainability through better documentation and simpler code structures');
+  }
+
+  if (exceedsThreshold('duplication', values.duplication, model)) {
+    recommendations.push('Reduce code duplication by extracting common functionality into shared components or utilities');
+  }
+
+  if (exceedsThreshold('dependencies', values.dependencies, model)) {
+    recommendations.push('Upgrade or replace vulnerable, deprecated and outdated dependencies, and pin open-ended version ranges');
+  }
+
+  // Add specific file recommendations
+  results.maintainability.details
+    .filter(detail => detail.issues.length > 0)
+    .slice(0, 3) // Top 3 issues
+    .forEach(detail => {
+      const [issue] = detail.issues;
+      recommendations.push(`Improve maintainability in ${detail.file}:${issue.line}: ${issue.message}`);
+    });
+
+  return recommendations;
+}
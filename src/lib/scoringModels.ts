@@ -0,0 +1,212 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import {
+  BUILT_IN_SCORING_MODELS,
+  DEFAULT_SCORING_MODEL,
+  HealthBand,
+  MetricNormalization,
+  NormalizationCurve,
+  SCORE_METRICS,
+  ScoreMetric,
+  ScoringModel
+} from '@/lib/scoring';
+
+const NORMALIZATION_CURVES: NormalizationCurve[] = ['linear', 'logarithmic', 'exponential'];
+
+// Metrics added after models were first saved. Models that leave one out give it no weight,
+// so their scores stay as they were, and take the built-in normalization and threshold
+const ADDED_METRICS: ScoreMetric[] = ['dependencies'];
+
+// The project's newest saved model, or the built-in one when none was saved
+export async function getScoringModel(projectId: string, client: SupabaseClient = supabase): Promise<ScoringModel> {
+  const { data, error } = await client
+    .from('scoring_models')
+    .select('version, model')
+    .eq('project_id', projectId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load scoring model: ${error.message}`);
+  }
+
+  if (!data) return DEFAULT_SCORING_MODEL;
+
+  return { ...withAddedMetrics(data.model as Omit<ScoringModel, 'version'>), version: data.version };
+}
+
+// The model a stored run was scored with, so changing its results does not move it to a newer model.
+// Projects that saved a model before the newest built-in one shipped may have a saved model of the same version,
+// and their runs were scored with that one
+export async function getScoringModelVersion(
+  projectId: string,
+  version: number,
+  client: SupabaseClient = supabase
+): Promise<ScoringModel> {
+  const builtIn = BUILT_IN_SCORING_MODELS.find(model => model.version === version);
+  // Saved models are numbered from 1, so version 0 is always built in
+  if (builtIn && version === 0) return builtIn;
+
+  const { data, error } = await client
+    .from('scoring_models')
+    .select('version, model')
+    .eq('project_id', projectId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load scoring model v${version}: ${error.message}`);
+  }
+  if (data) {
+    return { ...withAddedMetrics(data.model as Omit<ScoringModel, 'version'>), version: data.version };
+  }
+  if (builtIn) return builtIn;
+
+  throw new Error(`Failed to load scoring model v${version}: Model not found`);
+}
+
+// Models are never edited in place, so every stored score keeps pointing at the model that produced it
+export async function saveScoringModel(
+  projectId: string,
+  model: Omit<ScoringModel, 'version'>,
+  client: SupabaseClient = supabase
+): Promise<ScoringModel> {
+  const current = await getScoringModel(projectId, client);
+  const version = current.version + 1;
+  const { weights, normalization, thresholds, bands } = model;
+
+  const { error } = await client
+    .from('scoring_models')
+    .insert({
+      project_id: projectId,
+      version,
+      model: { weights, normalization, thresholds, bands }
+    });
+
+  if (error) {
+    throw new Error(`Failed to save scoring model: ${error.message}`);
+  }
+
+  console.log(`Saved scoring model v${version} for project ${projectId}`);
+  return { version, weights, normalization, thresholds, bands };
+}
+
+// Returns the model described by a request body, or the reasons it was rejected
+export function parseScoringModel(input: unknown): { model: Omit<ScoringModel, 'version'> | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { model: null, errors: ['scoringModel must be an object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const weights = readMetricRecord(body.weights, 'weights', errors, value => value >= 0, 0);
+  const thresholds = readMetricRecord(body.thresholds, 'thresholds', errors, () => true, metric => DEFAULT_SCORING_MODEL.thresholds[metric]);
+  const normalization = readNormalization(body.normalization, errors);
+  const bands = readBands(body.bands, errors);
+
+  if (weights && SCORE_METRICS.every(metric => weights[metric] === 0)) {
+    errors.push('weights must not all be zero');
+  }
+
+  if (errors.length > 0 || !weights || !thresholds || !normalization || !bands) {
+    return { model: null, errors };
+  }
+
+  return { model: { weights, normalization, thresholds, bands }, errors };
+}
+
+function readMetricRecord(
+  input: unknown,
+  field: string,
+  errors: string[],
+  isValid: (value: number) => boolean,
+  fallback: number | ((metric: ScoreMetric) => number)
+): Record<ScoreMetric, number> | null {
+  if (!input || typeof input !== 'object') {
+    errors.push(`${field} must be an object with ${SCORE_METRICS.join(', ')}`);
+    return null;
+  }
+
+  const values = input as Record<string, unknown>;
+  const record = {} as Record<ScoreMetric, number>;
+  let valid = true;
+
+  SCORE_METRICS.forEach(metric => {
+    const value = values[metric] === undefined && ADDED_METRICS.includes(metric)
+      ? (typeof fallback === 'number' ? fallback : fallback(metric))
+      : values[metric];
+    if (typeof value !== 'number' || !Number.isFinite(value) || !isValid(value)) {
+      errors.push(`${field}.${metric} is invalid`);
+      valid = false;
+    } else {
+      record[metric] = value;
+    }
+  });
+
+  return valid ? record : null;
+}
+
+function readNormalization(input: unknown, errors: string[]): ScoringModel['normalization'] | null {
+  if (!input || typeof input !== 'object') {
+    errors.push(`normalization must be an object with ${SCORE_METRICS.join(', ')}`);
+    return null;
+  }
+
+  const values = input as Record<string, Partial<MetricNormalization> | undefined>;
+  const normalization = {} as ScoringModel['normalization'];
+  let valid = true;
+
+  SCORE_METRICS.forEach(metric => {
+    const entry = values[metric] === undefined && ADDED_METRICS.includes(metric)
+      ? DEFAULT_SCORING_MODEL.normalization[metric]
+      : values[metric];
+    if (
+      !entry ||
+      !NORMALIZATION_CURVES.includes(entry.curve as NormalizationCurve) ||
+      typeof entry.best !== 'number' ||
+      typeof entry.worst !== 'number' ||
+      entry.best === entry.worst
+    ) {
+      errors.push(`normalization.${metric} needs a curve (${NORMALIZATION_CURVES.join(', ')}) and distinct best and worst values`);
+      valid = false;
+    } else {
+      normalization[metric] = { curve: entry.curve as NormalizationCurve, best: entry.best, worst: entry.worst };
+    }
+  });
+
+  return valid ? normalization : null;
+}
+
+function readBands(input: unknown, errors: string[]): HealthBand[] | null {
+  if (!Array.isArray(input) || input.length === 0) {
+    errors.push('bands must be a non-empty array');
+    return null;
+  }
+
+  const bands: HealthBand[] = [];
+  for (const band of input) {
+    if (!band || typeof band.min !== 'number' || typeof band.label !== 'string' || !band.label.trim()) {
+      errors.push('each band needs a numeric min and a label');
+      return null;
+    }
+    bands.push({ min: band.min, label: band.label.trim() });
+  }
+
+  return bands.sort((a, b) => b.min - a.min);
+}
+
+function withAddedMetrics(model: Omit<ScoringModel, 'version'>): Omit<ScoringModel, 'version'> {
+  const weights = { ...model.weights };
+  const normalization = { ...model.normalization };
+  const thresholds = { ...model.thresholds };
+
+  ADDED_METRICS.filter(metric => weights[metric] === undefined).forEach(metric => {
+    weights[metric] = 0;
+    normalization[metric] = DEFAULT_SCORING_MODEL.normalization[metric];
+    thresholds[metric] = DEFAULT_SCORING_MODEL.thresholds[metric];
+  });
+
+  return { ...model, weights, normalization, thresholds };
+}
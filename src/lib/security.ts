@@ -0,0 +1,230 @@
+import ignore from 'ignore';
+import type { Severity } from '@/lib/dependencies';
+
+export type SecurityRule = {
+  id: string;
+  severity: Severity;
+  message: string;
+  pattern: RegExp;
+  // File extensions the pattern is written for; every scanned file when omitted
+  extensions?: string[];
+  // The matched text, or its first capture group, is masked in the stored snippet
+  redact?: boolean;
+};
+
+export type SecurityFinding = {
+  rule: string;
+  severity: Severity;
+  file: string;
+  line: number;
+  snippet: string;
+  message: string;
+};
+
+// Silences a rule, or every rule with '*', for files matching a gitignore-style path (all files when omitted)
+export type SecuritySuppression = {
+  rule: string;
+  path?: string;
+};
+
+export type SecurityReport = {
+  vulnerabilities: SecurityFinding[];
+  // Findings silenced by an inline comment or a configured suppression
+  suppressed: number;
+};
+
+export type SecurityScanner = {
+  scan: (file: string, content: string) => void;
+  report: () => SecurityReport;
+};
+
+const SCRIPT = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
+const PYTHON = ['.py'];
+const GO = ['.go'];
+const JAVA = ['.java'];
+
+// One entry per language where the same problem looks different, so rule ids repeat
+export const SECURITY_RULES: SecurityRule[] = [
+  {
+    id: 'private-key',
+    severity: 'critical',
+    message: 'Private key committed to the repository',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----/
+  },
+  {
+    id: 'hardcoded-token',
+    severity: 'critical',
+    message: 'Access token in source code',
+    // AWS, GitHub, GitLab, Slack, Stripe and Google key formats
+    pattern: /\b(?:AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,}|glpat-[A-Za-z0-9_-]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk_live_[A-Za-z0-9]{20,}|AIza[0-9A-Za-z_-]{35})/,
+    redact: true
+  },
+  {
+    id: 'hardcoded-secret',
+    severity: 'high',
+    message: 'Password or secret assigned a literal value',
+    // Values starting with $, < or { are template placeholders rather than secrets
+    pattern: /[\w-]*(?:password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|private[_-]?key)[\w-]*["']?\s*(?::=|[:=])\s*["'](?![$<{%])([^"'\s]{8,})["']/i,
+    redact: true
+  },
+  {
+    id: 'dynamic-code',
+    severity: 'high',
+    message: 'Code built from strings at runtime',
+    pattern: /(?<![\w.$])eval\s*\(|\bnew\s+Function\s*\(|\bset(?:Timeout|Interval)\s*\(\s*["'`]/,
+    extensions: SCRIPT
+  },
+  {
+    id: 'dynamic-code',
+    severity: 'high',
+    message: 'Code built from strings at runtime',
+    pattern: /(?<![\w.])(?:eval|exec)\s*\(/,
+    extensions: PYTHON
+  },
+  {
+    id: 'shell-injection',
+    severity: 'high',
+    message: 'Shell command built by string concatenation',
+    pattern: /\b(?:exec|execSync|spawn|spawnSync|execFile|execFileSync)\s*\(\s*(?:["'][^"']*["']\s*\+|`[^`]*\$\{)/,
+    extensions: SCRIPT
+  },
+  {
+    id: 'shell-injection',
+    severity: 'high',
+    message: 'Shell command built by string concatenation',
+    pattern: /\b(?:os\.system|os\.popen|subprocess\.\w+)\s*\(\s*(?:f["']|["'][^"']*["']\s*(?:\+|%|\.format\b))/,
+    extensions: PYTHON
+  },
+  {
+    id: 'shell-injection',
+    severity: 'high',
+    message: 'Shell command built by string concatenation',
+    pattern: /exec\.Command\(\s*"(?:sh|bash)"\s*,\s*"-c"\s*,\s*(?:fmt\.Sprintf|"[^"]*"\s*\+)/,
+    extensions: GO
+  },
+  {
+    id: 'shell-injection',
+    severity: 'high',
+    message: 'Shell command built by string concatenation',
+    pattern: /\.exec\(\s*"[^"]*"\s*\+/,
+    extensions: JAVA
+  },
+  {
+    id: 'weak-crypto',
+    severity: 'moderate',
+    message: 'Broken hash or cipher',
+    pattern: /\bcreateHash\(\s*["'](?:md5|sha1)["']|\bcreateCipher\(|\bcreateCipheriv\(\s*["'](?:des|rc4|bf|aes-\d+-ecb)/i,
+    extensions: SCRIPT
+  },
+  {
+    id: 'weak-crypto',
+    severity: 'moderate',
+    message: 'Broken hash or cipher',
+    pattern: /\bhashlib\.(?:md5|sha1)\(|\b(?:DES|ARC4|Blowfish)\.new\(/,
+    extensions: PYTHON
+  },
+  {
+    id: 'weak-crypto',
+    severity: 'moderate',
+    message: 'Broken hash or cipher',
+    pattern: /"crypto\/(?:md5|sha1|des|rc4)"/,
+    extensions: GO
+  },
+  {
+    id: 'weak-crypto',
+    severity: 'moderate',
+    message: 'Broken hash or cipher',
+    pattern: /getInstance\(\s*"(?:MD5|SHA-?1|DES|RC4|AES\/ECB[^"]*)"/i,
+    extensions: JAVA
+  },
+  {
+    id: 'dangerous-html',
+    severity: 'moderate',
+    message: 'HTML injected with dangerouslySetInnerHTML',
+    pattern: /\bdangerouslySetInnerHTML\b/,
+    extensions: SCRIPT
+  }
+];
+
+export const SECURITY_RULE_IDS = [...new Set(SECURITY_RULES.map(rule => rule.id))];
+
+// `t3kdet-ignore` silences its own line and `t3kdet-ignore-next-line` the one below; rule ids may follow, otherwise all rules
+const INLINE_SUPPRESSION = /t3kdet-ignore(-next-line)?((?:[\s,]+[\w-]+)*)/;
+
+const MAX_SNIPPET_LENGTH = 200;
+
+export function createSecurityScanner(suppressions: SecuritySuppression[] = []): SecurityScanner {
+  const matchers = suppressions.map(({ rule, path }) => ({ rule, matcher: path ? ignore().add(path) : null }));
+  const vulnerabilities: SecurityFinding[] = [];
+  let suppressed = 0;
+
+  const isSuppressed = (file: string, rule: string, inline: Map<number, string[] | null>, line: number) => {
+    const ids = inline.has(line) ? inline.get(line) : undefined;
+    if (ids !== undefined && (ids === null || ids.includes(rule))) return true;
+    return matchers.some(entry => (entry.rule === '*' || entry.rule === rule) && (!entry.matcher || entry.matcher.ignores(file)));
+  };
+
+  return {
+    // file is root-relative, as in the analysis config
+    scan(file, content) {
+      // Not path.extname: the rule list is also read by the settings page in the browser
+      const extension = file.slice(file.lastIndexOf('.'));
+      const rules = SECURITY_RULES.filter(rule => !rule.extensions || rule.extensions.includes(extension));
+      if (rules.length === 0) return;
+
+      const lines = content.split('\n');
+      const inline = readInlineSuppressions(lines);
+
+      lines.forEach((text, index) => {
+        const line = index + 1;
+
+        for (const rule of rules) {
+          const match = rule.pattern.exec(text);
+          if (!match) continue;
+
+          if (isSuppressed(file, rule.id, inline, line)) {
+            suppressed++;
+            continue;
+          }
+
+          vulnerabilities.push({
+            rule: rule.id,
+            severity: rule.severity,
+            file: `/${file}`,
+            line,
+            snippet: toSnippet(rule.redact ? text.replace(match[1] ?? match[0], redact(match[1] ?? match[0])) : text),
+            message: rule.message
+          });
+        }
+      });
+    },
+    report: () => ({ vulnerabilities: [...vulnerabilities], suppressed })
+  };
+}
+
+// Maps line numbers to the rule ids silenced there, or null for all rules
+function readInlineSuppressions(lines: string[]): Map<number, string[] | null> {
+  const suppressions = new Map<number, string[] | null>();
+
+  lines.forEach((text, index) => {
+    const match = INLINE_SUPPRESSION.exec(text);
+    if (!match) return;
+
+    // Words after the marker that are not rule ids are taken as a reason
+    const ids = match[2].split(/[\s,]+/).filter(id => SECURITY_RULE_IDS.includes(id));
+    suppressions.set(match[1] ? index + 2 : index + 1, ids.length > 0 ? ids : null);
+  });
+
+  return suppressions;
+}
+
+// Keeps enough of a secret to recognise it without storing it
+function redact(secret: string): string {
+  const visible = Math.min(4, Math.floor(secret.length / 4));
+  return `${secret.slice(0, visible)}${'*'.repeat(Math.max(4, secret.length - visible))}`;
+}
+
+function toSnippet(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_SNIPPET_LENGTH ? `${trimmed.slice(0, MAX_SNIPPET_LENGTH)}…` : trimmed;
+}
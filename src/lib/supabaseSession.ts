@@ -0,0 +1,57 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+
+export type RequestSession = {
+  // Queries run as the signed-in user, under row level security
+  client: SupabaseClient;
+  user: User;
+};
+
+// The session of the user calling an API route, read from the auth cookies the browser client keeps
+export async function getRequestSession(): Promise<RequestSession | null> {
+  const client = createRouteHandlerClient({ cookies });
+  const { data, error } = await client.auth.getUser();
+
+  if (error || !data.user) return null;
+
+  return { client, user: data.user };
+}
+
+// Checks the owner explicitly rather than relying on the projects read policy alone
+export async function ownsProject({ client, user }: RequestSession, projectId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+
+  return Boolean(data);
+}
+
+// The caller's session when they own the project, otherwise the response to send instead
+export async function requireProjectOwner(projectId: string): Promise<RequestSession | NextResponse> {
+  const session = await getRequestSession();
+  if (!session) {
+    return unauthorized();
+  }
+
+  if (!(await ownsProject(session, projectId))) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  return session;
+}
+
+export function unauthorized() {
+  return NextResponse.json({
+    error: 'Not signed in',
+    details: 'Sign in to access this project'
+  }, { status: 401 });
+}
@@ -0,0 +1,446 @@
+import { FunctionComplexity, summarizeComplexity } from '@/lib/complexity';
+import { CloneToken } from '@/lib/duplication';
+import { createScope, MAINTAINABILITY_LIMITS, ScopeCounts, summarizeMaintainability } from '@/lib/maintainability';
+import type { FileMetrics } from '@/lib/codeAnalysis';
+
+export type TokenKind = 'identifier' | 'keyword' | 'number' | 'string' | 'operator';
+
+export type LexToken = {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+  endLine: number;
+  // Inserted for indentation and implicit statement ends; has no source text of its own
+  virtual?: boolean;
+};
+
+export type LexicalSyntax = {
+  keywords: Set<string>;
+  lineComment: string;
+  blockComment?: [string, string];
+  // Quotes that open an escaped, single-line literal
+  quotes: string[];
+  // Python '''...''' and Java """...""" literals
+  tripleQuotes?: boolean;
+  // Quotes whose content has no escapes and may span lines, like Go `...`
+  rawQuotes?: string[];
+  // Sticky pattern for letters that may prefix a string, like Python's r, b and f
+  stringPrefix?: RegExp;
+  // Longest first, so >>= wins over >>
+  operators: string[];
+};
+
+// Body of a function or class, found by a language's header matcher
+export type BlockHeader = {
+  kind: 'function' | 'class';
+  name: string;
+  parameters: number;
+  // Index of the { token that opens the body
+  open: number;
+};
+
+// A language whose functions and control structures are delimited by { } blocks
+export type BlockLanguage = {
+  syntax: LexicalSyntax;
+  // Makes indentation blocks and implicit statement ends explicit as { } and ; tokens
+  normalize?: (tokens: LexToken[], content: string, fileName: string) => LexToken[];
+  // Keywords counted as operands, like true or null
+  literals: Set<string>;
+  // Statements starting with these are left out of clone detection
+  importKeywords: Set<string>;
+  // Words that are only keywords at the start of a block statement, like Python's match
+  softKeywords?: Set<string>;
+  matchHeader: (tokens: LexToken[], index: number, enclosingClass: string | null) => BlockHeader | null;
+};
+
+type Scope = {
+  metrics: FunctionComplexity;
+  counts: ScopeCounts;
+};
+
+type Frame = {
+  kind: 'function' | 'class' | 'control' | 'block' | 'literal';
+  name: string;
+  // Keyword that introduced a control frame, so do-while conditions are not counted twice
+  opener: string;
+  scope: Scope;
+  nesting: number;
+};
+
+const LOOPS = new Set(['for', 'while', 'do']);
+const CATCHES = new Set(['catch', 'except']);
+const SWITCHES = new Set(['switch', 'select', 'match']);
+const LOGICAL_OPERATORS = new Set(['&&', '||', 'and', 'or']);
+const JUMPS = new Set(['break', 'continue']);
+// Clauses that continue a statement instead of starting a logical line
+const CLAUSES = new Set(['else', 'elif', 'except', 'finally', 'catch', 'case', 'default']);
+// Keywords directly followed by a statement block rather than a literal
+const BLOCK_KEYWORDS = new Set(['else', 'try', 'finally', 'do', 'static']);
+const IGNORED_TOKENS = new Set([')', ']', '}', ';']);
+const OPERAND_KINDS = new Set<TokenKind>(['identifier', 'number', 'string']);
+
+const NUMBER = /\.?\d(?:[eEpP][+-]|[\w.])*/y;
+const IDENTIFIER = /[A-Za-z_$\u00C0-\uFFFF][\w$\u00C0-\uFFFF]*/y;
+
+export function lex(fileName: string, content: string, syntax: LexicalSyntax): LexToken[] {
+  const tokens: LexToken[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`Syntax error in ${fileName} at line ${line}: ${message}`);
+  };
+
+  const advance = (end: number) => {
+    for (let i = pos; i < end; i++) {
+      if (content.charCodeAt(i) === 10) line++;
+    }
+    pos = end;
+  };
+
+  const match = (pattern: RegExp, at: number): number => {
+    pattern.lastIndex = at;
+    return pattern.test(content) ? pattern.lastIndex : -1;
+  };
+
+  const readString = (quoteStart: number): number => {
+    const quote = content[quoteStart];
+    const triple = syntax.tripleQuotes && content.startsWith(quote.repeat(3), quoteStart);
+    const delimiter = triple ? quote.repeat(3) : quote;
+
+    let i = quoteStart + delimiter.length;
+    while (i < content.length) {
+      if (content[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (content.startsWith(delimiter, i)) return i + delimiter.length;
+      if (content[i] === '\n' && !triple) break;
+      i++;
+    }
+    return fail('unterminated string literal');
+  };
+
+  while (pos < content.length) {
+    const char = content[pos];
+
+    if (/\s/.test(char)) {
+      advance(pos + 1);
+      continue;
+    }
+    if (content.startsWith(syntax.lineComment, pos)) {
+      const end = content.indexOf('\n', pos);
+      advance(end === -1 ? content.length : end);
+      continue;
+    }
+    if (syntax.blockComment && content.startsWith(syntax.blockComment[0], pos)) {
+      const end = content.indexOf(syntax.blockComment[1], pos + syntax.blockComment[0].length);
+      if (end === -1) fail('unterminated comment');
+      advance(end + syntax.blockComment[1].length);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const prefixEnd = syntax.stringPrefix ? match(syntax.stringPrefix, pos) : -1;
+    const quoteStart = prefixEnd === -1 ? pos : prefixEnd;
+    let kind: TokenKind;
+    let end: number;
+
+    if (syntax.quotes.includes(content[quoteStart])) {
+      kind = 'string';
+      end = readString(quoteStart);
+    } else if (syntax.rawQuotes?.includes(char)) {
+      kind = 'string';
+      end = content.indexOf(char, pos + 1) + 1;
+      if (end === 0) fail('unterminated string literal');
+    } else if ((end = match(NUMBER, pos)) !== -1) {
+      kind = 'number';
+    } else if ((end = match(IDENTIFIER, pos)) !== -1) {
+      kind = syntax.keywords.has(content.slice(pos, end)) ? 'keyword' : 'identifier';
+    } else {
+      kind = 'operator';
+      const operator = syntax.operators.find(op => content.startsWith(op, pos));
+      end = pos + (operator ? operator.length : 1);
+    }
+
+    advance(end);
+    tokens.push({ kind, text: content.slice(start, end), start, end, line: startLine, endLine: line });
+  }
+
+  return tokens;
+}
+
+// A zero-width token placed right after `after`
+export function virtualToken(text: string, after: LexToken): LexToken {
+  return { kind: 'operator', text, start: after.end, end: after.end, line: after.endLine, endLine: after.endLine, virtual: true };
+}
+
+// Index of the ) or ] closing the bracket at `open`, or -1
+export function matchingClose(tokens: LexToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '(' || tokens[i].text === '[') depth++;
+    if (tokens[i].text === ')' || tokens[i].text === ']') depth--;
+    if (depth === 0) return i;
+  }
+  return -1;
+}
+
+// The { that opens a body after a header, or -1 when the statement ends first
+export function findBodyOpen(tokens: LexToken[], from: number): number {
+  let depth = 0;
+  for (let i = from; i < tokens.length; i++) {
+    const { text } = tokens[i];
+    if (text === '(' || text === '[') depth++;
+    if (text === ')' || text === ']') depth--;
+    if (depth < 0) return -1;
+    if (depth === 0 && text === '{') return i;
+    if (depth === 0 && (text === ';' || text === '}')) return -1;
+  }
+  return -1;
+}
+
+// Comma-separated items between the brackets at open and close, ignoring empty trailing items
+export function listItems(tokens: LexToken[], open: number, close: number, angleBrackets = false): LexToken[][] {
+  const items: LexToken[][] = [[]];
+  let depth = 0;
+
+  for (let i = open + 1; i < close; i++) {
+    const token = tokens[i];
+    if (['(', '[', '{'].includes(token.text) || (angleBrackets && token.text === '<')) depth++;
+    if ([')', ']', '}'].includes(token.text)) depth--;
+    if (angleBrackets && /^>+$/.test(token.text)) depth -= token.text.length;
+
+    if (depth === 0 && token.text === ',') {
+      items.push([]);
+    } else {
+      items[items.length - 1].push(token);
+    }
+  }
+
+  return items.filter(item => item.length > 0);
+}
+
+export function analyzeBlocks(
+  fileName: string,
+  content: string,
+  language: BlockLanguage,
+  limits = MAINTAINABILITY_LIMITS
+): FileMetrics {
+  const lexed = lex(fileName, content, language.syntax);
+  const tokens = language.normalize ? language.normalize(lexed, content, fileName) : lexed;
+  const totalLines = content.split('\n').length;
+
+  const createScopeFor = (name: string, startLine: number, endLine: number, parameters: number): Scope => ({
+    metrics: { name, startLine, endLine, cyclomatic: 1, cognitive: 0, nestingDepth: 0, deepestNestingLine: 0 },
+    counts: createScope(name, startLine, parameters)
+  });
+
+  const moduleScope = createScopeFor('<module>', 1, totalLines, 0);
+  const functions: Scope[] = [];
+  const stack: Frame[] = [{ kind: 'block', name: '<module>', opener: '', scope: moduleScope, nesting: 0 }];
+  const headers = new Map<number, BlockHeader & { line: number }>();
+  const cloneTokens: CloneToken[] = [];
+
+  let parenDepth = 0;
+  // Control keyword still waiting for its block, with the paren depth it appeared at
+  let pendingControl: { depth: number; opener: string; clause: boolean } | null = null;
+  let lastClosed: Frame | null = null;
+  let lastLogical: string | null = null;
+  let atStatementStart = true;
+  let statementHead = '';
+  let skipClonesUntil: number | null = null;
+
+  const fail = (token: LexToken, message: string): never => {
+    throw new Error(`Syntax error in ${fileName} at line ${token.line}: ${message}`);
+  };
+
+  const opensBlock = (from: number) => findBodyOpen(tokens, from + 1) !== -1;
+
+  tokens.forEach((token, index) => {
+    const frame = stack[stack.length - 1];
+    const { metrics, counts } = frame.scope;
+    const { nesting } = frame;
+    const { text } = token;
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    const isWord = token.kind === 'keyword' ||
+      (token.kind === 'identifier' && !!language.softKeywords?.has(text) && atStatementStart && opensBlock(index));
+
+    const trackNesting = (level: number) => {
+      if (level + 1 > metrics.nestingDepth) {
+        metrics.nestingDepth = level + 1;
+        metrics.deepestNestingLine = token.line;
+      }
+    };
+    const enterStructure = () => {
+      metrics.cyclomatic++;
+      metrics.cognitive += 1 + nesting;
+      trackNesting(nesting);
+    };
+    const awaitBlock = () => {
+      // Go headers are not parenthesized and may hold their own ; as in for i := 0; i < n; i++ {
+      const clause = ['for', 'if', 'switch'].includes(text) && next?.text !== '(';
+      pendingControl = { depth: parenDepth, opener: text, clause };
+    };
+
+    if (!token.virtual && token.kind !== 'operator') {
+      const header = language.matchHeader(tokens, index, frame.kind === 'class' ? frame.name : null);
+      if (header && !headers.has(header.open)) {
+        headers.set(header.open, { ...header, line: token.line });
+      }
+    }
+
+    if (atStatementStart && !token.virtual && !IGNORED_TOKENS.has(text) && text !== '{' && text !== 'async' && !CLAUSES.has(text)) {
+      counts.logicalLines++;
+    }
+    if (atStatementStart && language.importKeywords.has(text)) {
+      skipClonesUntil = parenDepth;
+    }
+    if (atStatementStart && text !== 'async') {
+      statementHead = text;
+    }
+
+    if (isWord) {
+      if (text === 'if' && previous?.text === 'else') {
+        // else-if chains add a branch but no extra nesting penalty
+        metrics.cyclomatic++;
+        metrics.cognitive++;
+        trackNesting(nesting);
+        awaitBlock();
+      } else if (text === 'if') {
+        enterStructure();
+        awaitBlock();
+      } else if (text === 'elif') {
+        metrics.cyclomatic++;
+        metrics.cognitive++;
+        trackNesting(nesting);
+        awaitBlock();
+      } else if (text === 'else') {
+        // A mid-statement else belongs to a conditional expression, which is already counted
+        if (next?.text !== 'if' && atStatementStart) {
+          metrics.cognitive++;
+          awaitBlock();
+        }
+      } else if (LOOPS.has(text)) {
+        if (!(text === 'while' && previous?.text === '}' && lastClosed?.opener === 'do')) {
+          enterStructure();
+          awaitBlock();
+        }
+      } else if (CATCHES.has(text)) {
+        enterStructure();
+        awaitBlock();
+      } else if (SWITCHES.has(text)) {
+        // A switch counts once for cognitive complexity, each case counts for cyclomatic
+        metrics.cognitive += 1 + nesting;
+        trackNesting(nesting);
+        awaitBlock();
+      } else if (text === 'case') {
+        if (next?.text !== '_' || tokens[index + 2]?.text !== ':') metrics.cyclomatic++;
+      } else if (JUMPS.has(text)) {
+        if (next && next.kind === 'identifier' && next.line === token.line) metrics.cognitive++;
+      } else if (text === 'goto') {
+        metrics.cognitive++;
+      }
+    }
+
+    if (LOGICAL_OPERATORS.has(text) && token.kind !== 'identifier' && token.kind !== 'string') {
+      metrics.cyclomatic++;
+      // Cognitive complexity counts each run of identical operators once: a && b && c is +1
+      if (lastLogical !== text) metrics.cognitive++;
+      lastLogical = text;
+    }
+
+    // Java's conditional operator; a ? inside type arguments is a wildcard
+    if (text === '?' && token.kind === 'operator' && previous?.text !== '<' &&
+      next && !/^>+$/.test(next.text) && ![',', 'extends', 'super'].includes(next.text)) {
+      enterStructure();
+    }
+
+    let current = frame;
+    let boundary = text === ';' || (text === ':' && (statementHead === 'case' || statementHead === 'default'));
+
+    if (text === '(' || text === '[') {
+      parenDepth++;
+    } else if (text === ')' || text === ']') {
+      parenDepth--;
+      if (parenDepth < 0) fail(token, `unexpected '${text}'`);
+      if (pendingControl && parenDepth < pendingControl.depth) pendingControl = null;
+    } else if (text === '{') {
+      const header = headers.get(index);
+      const isBlock = token.virtual || !!header || pendingControl?.depth === parenDepth || !previous ||
+        [')', '->', ';', '{', '}'].includes(previous.text) ||
+        (previous.kind === 'keyword' && BLOCK_KEYWORDS.has(previous.text));
+
+      if (header?.kind === 'function') {
+        const scope = createScopeFor(header.name, header.line, header.line, header.parameters);
+        functions.push(scope);
+        current = { kind: 'function', name: header.name, opener: '', scope, nesting: 0 };
+      } else if (header?.kind === 'class') {
+        current = { kind: 'class', name: header.name, opener: '', scope: frame.scope, nesting };
+      } else if (isBlock && pendingControl?.depth === parenDepth) {
+        current = { kind: 'control', name: frame.name, opener: pendingControl.opener, scope: frame.scope, nesting: nesting + 1 };
+      } else {
+        current = { kind: isBlock ? 'block' : 'literal', name: frame.name, opener: '', scope: frame.scope, nesting };
+      }
+
+      if (isBlock) pendingControl = null;
+      boundary = current.kind !== 'literal';
+      stack.push(current);
+    } else if (text === '}') {
+      if (stack.length === 1) fail(token, "unexpected '}'");
+      const closed = stack.pop()!;
+      if (closed.kind === 'function') closed.scope.metrics.endLine = token.line;
+      lastClosed = closed;
+      boundary = closed.kind !== 'literal';
+      current = stack[stack.length - 1];
+    }
+
+    if (boundary) {
+      lastLogical = null;
+      if (text === ';' && pendingControl && parenDepth <= pendingControl.depth && (token.virtual || !pendingControl.clause)) {
+        pendingControl = null;
+      }
+    }
+
+    if (!token.virtual && !IGNORED_TOKENS.has(text)) {
+      const operand = OPERAND_KINDS.has(token.kind) || language.literals.has(text);
+      const bucket = operand ? current.scope.counts.operands : current.scope.counts.operators;
+      bucket.set(text, (bucket.get(text) || 0) + 1);
+    }
+
+    if (skipClonesUntil === null && !token.virtual) {
+      // Identifiers are normalized so copies with renamed variables still match
+      const value = token.kind === 'identifier' ? '$id' : text;
+      cloneTokens.push({
+        value,
+        start: token.start,
+        end: token.end,
+        line: token.line,
+        statementStart: atStatementStart && !IGNORED_TOKENS.has(text) && !CLAUSES.has(text)
+      });
+    }
+    if (skipClonesUntil !== null && boundary && parenDepth <= skipClonesUntil) {
+      skipClonesUntil = null;
+    }
+
+    atStatementStart = boundary || (atStatementStart && text === 'async');
+  });
+
+  if (stack.length > 1 || parenDepth > 0) {
+    fail(tokens[tokens.length - 1], 'unexpected end of file');
+  }
+
+  const complexity = summarizeComplexity(moduleScope.metrics, functions.map(scope => scope.metrics));
+  const maintainability = summarizeMaintainability(
+    moduleScope.counts,
+    functions.map(scope => scope.counts),
+    complexity,
+    limits
+  );
+
+  return { complexity, maintainability, tokens: cloneTokens };
+}
@@ -0,0 +1,65 @@
+import { RunMetrics } from '@/lib/runs';
+
+export type TrendMetric = 'overall_score' | 'complexity' | 'maintainability' | 'duplication';
+
+export type TrendAnnotation = {
+  runId: string;
+  date: string;
+  commitSha: string | null;
+  metric: TrendMetric;
+  previous: number;
+  value: number;
+  delta: number;
+};
+
+export const TREND_METRICS: Record<TrendMetric, { label: string; color: string }> = {
+  overall_score: { label: 'Overall Score', color: '#00FF94' },
+  complexity: { label: 'Complexity', color: '#F97316' },
+  maintainability: { label: 'Maintainability', color: '#00B3FF' },
+  duplication: { label: 'Duplication %', color: '#A855F7' }
+};
+
+export const DEFAULT_JUMP_THRESHOLD = 10;
+
+// Keeps runs whose date falls within [from, to]; both bounds are ISO dates and inclusive
+export function filterByDateRange(points: RunMetrics[], from?: string, to?: string): RunMetrics[] {
+  const start = from ? new Date(from).getTime() : -Infinity;
+  // A bare date as the upper bound covers that whole day
+  const end = to ? new Date(to).getTime() + (to.length === 10 ? 24 * 60 * 60 * 1000 - 1 : 0) : Infinity;
+
+  return points.filter(point => {
+    const time = new Date(point.created_at).getTime();
+    return time >= start && time <= end;
+  });
+}
+
+// Runs where a metric moved by more than `threshold` points since the previous run
+export function findMetricJumps(
+  points: RunMetrics[],
+  threshold = DEFAULT_JUMP_THRESHOLD,
+  metrics: TrendMetric[] = Object.keys(TREND_METRICS) as TrendMetric[]
+): TrendAnnotation[] {
+  const annotations: TrendAnnotation[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+
+    metrics.forEach(metric => {
+      const delta = Math.round((current[metric] - previous[metric]) * 100) / 100;
+      if (Math.abs(delta) > threshold) {
+        annotations.push({
+          runId: current.id,
+          date: current.created_at,
+          commitSha: current.commit_sha,
+          metric,
+          previous: previous[metric],
+          value: current[metric],
+          delta
+        });
+      }
+    });
+  }
+
+  return annotations;
+}
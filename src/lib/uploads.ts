@@ -0,0 +1,106 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { ArchiveFormat, detectArchiveFormat } from '@/lib/archive';
+
+// Private bucket holding uploaded project archives until they are analyzed. The upload route checks ownership
+// and the worker has no session, so the archives are stored, read and deleted with the service role
+export const ARCHIVE_BUCKET = 'project-archives';
+
+const CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip'
+};
+
+// Enough of the body to recognize the archive format
+const HEADER_BYTES = 4;
+
+// An upload body on its way to storage; exceeded() tells whether it was cut off at the byte limit
+export type ArchiveUpload = {
+  format: ArchiveFormat | null;
+  stream: ReadableStream<Uint8Array>;
+  exceeded: () => boolean;
+};
+
+// Reads just the first bytes of the body to detect the format and counts the rest as it passes through,
+// erroring the stream as soon as it goes over maxBytes
+export async function openArchiveUpload(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<ArchiveUpload> {
+  const reader = body.getReader();
+  const head: Uint8Array[] = [];
+  let received = 0;
+  let exceeded = false;
+
+  while (received < HEADER_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    head.push(value);
+    received += value.length;
+  }
+
+  const stop = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    exceeded = true;
+    await reader.cancel();
+    controller.error(new Error(`Archive is larger than ${maxBytes} bytes`));
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (received > maxBytes) return stop(controller);
+      head.forEach(chunk => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      received += value.length;
+      if (received > maxBytes) return stop(controller);
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return {
+    format: detectArchiveFormat(Buffer.concat(head).subarray(0, HEADER_BYTES)),
+    stream,
+    exceeded: () => exceeded
+  };
+}
+
+// Streams the upload into storage; returns the object path used by the analysis job
+export async function storeProjectArchive(projectId: string, archive: ReadableStream<Uint8Array>, format: ArchiveFormat): Promise<string> {
+  const objectPath = `${projectId}/${Date.now()}.${format}`;
+
+  const { error } = await supabaseAdmin.storage
+    .from(ARCHIVE_BUCKET)
+    .upload(objectPath, archive, { contentType: CONTENT_TYPES[format], upsert: false, duplex: 'half' });
+
+  if (error) {
+    throw new Error(`Failed to store archive: ${error.message}`);
+  }
+
+  return objectPath;
+}
+
+export async function downloadProjectArchive(objectPath: string): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage.from(ARCHIVE_BUCKET).download(objectPath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download archive: ${error?.message || 'No data returned'}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+export async function deleteProjectArchive(objectPath: string): Promise<void> {
+  const { data, error } = await supabaseAdmin.storage.from(ARCHIVE_BUCKET).remove([objectPath]);
+
+  if (error) {
+    throw new Error(`Failed to delete archive: ${error.message}`);
+  }
+  // Storage reports success when nothing was removed, e.g. when a policy hides the object
+  if (!data?.length) {
+    throw new Error(`Failed to delete archive: ${objectPath} was not removed`);
+  }
+}
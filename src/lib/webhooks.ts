@@ -0,0 +1,326 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { isValidRef } from '@/lib/gitProviders';
+
+export type WebhookProvider = 'github' | 'gitlab';
+
+export const WEBHOOK_PROVIDERS: WebhookProvider[] = ['github', 'gitlab'];
+
+export type WebhookEvent = {
+  kind: 'push' | 'pull_request';
+  // Every URL the payload gives for the repository; projects are matched on their clone URL
+  repoUrls: string[];
+  commitSha: string;
+  // Branch pushed to, or the source branch of the pull request
+  branch: string;
+  // Target branch of a pull request; null for pushes
+  baseRef: string | null;
+};
+
+// An event that is not analyzed: ignored when it does not change code, rejected when its payload is malformed.
+// The URLs are kept so the delivery can still be verified against the projects it was sent for
+export type SkippedWebhookEvent = ({ ignored: string } | { rejected: string }) & { repoUrls: string[] };
+
+export type WebhookDeliveryStatus = 'processing' | 'queued' | 'ignored' | 'rejected' | 'duplicate' | 'failed';
+
+export type WebhookDelivery = {
+  provider: WebhookProvider;
+  // Stays the same when the sender retries, which is what duplicates are recognised by
+  deliveryId: string;
+  event: string;
+  repoUrl: string;
+  status: WebhookDeliveryStatus;
+  message: string | null;
+  projectIds: string[];
+  jobIds: string[];
+};
+
+// A project set up to receive webhooks; the token is optional because public repositories clone without one
+export type WebhookProject = {
+  id: string;
+  provider: string;
+  git_url: string;
+  secret: string;
+  access_token: string | null;
+};
+
+// What the settings show; secrets and tokens never leave the server
+export type ProjectWebhookStatus = {
+  enabled: boolean;
+  hasAccessToken: boolean;
+};
+
+export type ProjectWebhookUpdate = {
+  secret: string;
+  accessToken: string | null;
+};
+
+// GitHub allows any secret; short ones are easy to guess
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+// The parts of the payloads that are read; everything is checked, as senders vary between versions
+type GithubPayload = {
+  action?: string;
+  ref?: string;
+  after?: string;
+  deleted?: boolean;
+  repository?: { clone_url?: string; html_url?: string; ssh_url?: string };
+  pull_request?: { head?: { sha?: string; ref?: string }; base?: { ref?: string } };
+};
+
+type GitlabPayload = {
+  ref?: string;
+  after?: string;
+  checkout_sha?: string | null;
+  project?: { git_http_url?: string; web_url?: string; git_ssh_url?: string };
+  object_attributes?: {
+    action?: string;
+    oldrev?: string;
+    source_branch?: string;
+    target_branch?: string;
+    last_commit?: { id?: string };
+  };
+};
+
+const GITHUB_PULL_REQUEST_ACTIONS = ['opened', 'reopened', 'synchronize'];
+const GITLAB_MERGE_REQUEST_ACTIONS = ['open', 'reopen', 'update'];
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+const DELETED_SHA = /^0+$/;
+
+export function isWebhookProvider(value: unknown): value is WebhookProvider {
+  return WEBHOOK_PROVIDERS.includes(value as WebhookProvider);
+}
+
+// GitLab keeps the Idempotency-Key across retries; older versions only send the event UUID
+export function readDeliveryHeaders(provider: WebhookProvider, headers: Headers): { deliveryId: string | null; event: string | null } {
+  if (provider === 'github') {
+    return { deliveryId: headers.get('X-GitHub-Delivery'), event: headers.get('X-GitHub-Event') };
+  }
+  return {
+    deliveryId: headers.get('Idempotency-Key') || headers.get('X-Gitlab-Event-UUID'),
+    event: headers.get('X-Gitlab-Event')
+  };
+}
+
+// GitHub signs the raw body with HMAC-SHA256; GitLab sends the secret itself as a token
+export function verifyWebhookSignature(provider: WebhookProvider, headers: Headers, body: string, secret: string): boolean {
+  if (provider === 'github') {
+    const signature = headers.get('X-Hub-Signature-256');
+    const expected = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    return !!signature && safeEqual(signature, expected);
+  }
+
+  const token = headers.get('X-Gitlab-Token');
+  return !!token && safeEqual(token, secret);
+}
+
+// The commit to analyze, or the reason the event is not analyzed
+export function parseWebhookEvent(provider: WebhookProvider, event: string, payload: unknown): WebhookEvent | SkippedWebhookEvent {
+  const body = payload && typeof payload === 'object' ? payload : {};
+  const parsed = provider === 'github' ? parseGithubEvent(event, body as GithubPayload) : parseGitlabEvent(event, body as GitlabPayload);
+  if (!('kind' in parsed)) return parsed;
+
+  const { repoUrls } = parsed;
+  if (!COMMIT_SHA.test(parsed.commitSha)) {
+    return { rejected: `Payload has no commit SHA (${parsed.commitSha || 'missing'})`, repoUrls };
+  }
+  if (!isValidRef(parsed.branch) || (parsed.baseRef !== null && !isValidRef(parsed.baseRef))) {
+    return { rejected: 'Payload names a branch git does not accept', repoUrls };
+  }
+  if (repoUrls.length === 0) {
+    return { rejected: 'Payload has no repository URL', repoUrls };
+  }
+  return parsed;
+}
+
+// Projects whose clone URL is one of the payload's URLs, with or without .git, that have a webhook secret.
+// Deliveries carry no user session, so they are matched and logged with the service role rather than under RLS
+export async function findWebhookProjects(repoUrls: string[]): Promise<WebhookProject[]> {
+  const candidates = [...new Set(repoUrls.flatMap(url => {
+    const bare = url.replace(/\/+$/, '').replace(/\.git$/, '');
+    return [bare, `${bare}.git`];
+  }))];
+
+  const { data: projects, error } = await supabaseAdmin
+    .from('projects')
+    .select('id, provider, git_url')
+    .in('git_url', candidates);
+
+  if (error) {
+    throw new Error(`Failed to find projects for webhook: ${error.message}`);
+  }
+  if (!projects || projects.length === 0) return [];
+
+  const { data: webhooks, error: webhookError } = await supabaseAdmin
+    .from('project_webhooks')
+    .select('project_id, secret, access_token')
+    .in('project_id', projects.map(project => project.id));
+
+  if (webhookError) {
+    throw new Error(`Failed to load webhook secrets: ${webhookError.message}`);
+  }
+
+  const byProject = new Map((webhooks || []).map(webhook => [webhook.project_id, webhook]));
+  return projects.flatMap(project => {
+    const webhook = byProject.get(project.id);
+    return webhook ? [{ ...project, secret: webhook.secret, access_token: webhook.access_token }] : [];
+  });
+}
+
+export async function getProjectWebhookStatus(projectId: string, client: SupabaseClient = supabase): Promise<ProjectWebhookStatus> {
+  const { data, error } = await client
+    .from('project_webhooks')
+    .select('access_token')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project webhook: ${error.message}`);
+  }
+
+  return { enabled: !!data, hasAccessToken: !!data?.access_token };
+}
+
+// Replaces the secret and token together; null turns the webhook off
+export async function saveProjectWebhook(projectId: string, webhook: ProjectWebhookUpdate | null, client: SupabaseClient = supabase) {
+  const { error } = webhook
+    ? await client
+      .from('project_webhooks')
+      .upsert({ project_id: projectId, secret: webhook.secret, access_token: webhook.accessToken }, { onConflict: 'project_id' })
+    : await client.from('project_webhooks').delete().eq('project_id', projectId);
+
+  if (error) {
+    throw new Error(`Failed to save project webhook: ${error.message}`);
+  }
+}
+
+// Records a delivery as accepted and returns its log id, or null when the same delivery was accepted before
+export async function claimWebhookDelivery(delivery: WebhookDelivery): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({ ...toRow(delivery), accepted: true })
+    .select('id')
+    .single();
+
+  if (error?.code === '23505') return null;
+  if (error || !data) {
+    throw new Error(`Failed to record webhook delivery: ${error?.message || 'No data returned'}`);
+  }
+  return data.id;
+}
+
+export async function updateWebhookDelivery(id: string, changes: Pick<WebhookDelivery, 'status' | 'message' | 'jobIds'>) {
+  const { error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({
+      status: changes.status,
+      message: changes.message,
+      job_ids: changes.jobIds,
+      // A failed delivery no longer counts as seen, so the sender's retry is processed
+      accepted: changes.status !== 'failed'
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to update webhook delivery:', error);
+  }
+}
+
+// Verified deliveries that were not accepted, such as retries, are logged for debugging only; a failed write does not change the response
+export async function logWebhookDelivery(delivery: WebhookDelivery) {
+  const { error } = await supabaseAdmin.from('webhook_deliveries').insert({ ...toRow(delivery), accepted: false });
+  if (error) {
+    console.error('Failed to log webhook delivery:', error);
+  }
+}
+
+function parseGithubEvent(event: string, body: GithubPayload): WebhookEvent | SkippedWebhookEvent {
+  const repository = body.repository || {};
+  const repoUrls = [repository.clone_url, repository.html_url, repository.ssh_url].filter(isString);
+
+  if (event === 'push') {
+    if (body.deleted || DELETED_SHA.test(body.after || '')) {
+      return { ignored: 'Branch was deleted', repoUrls };
+    }
+    if (!isString(body.ref) || !body.ref.startsWith('refs/heads/')) {
+      return { ignored: 'Only pushes to branches are analyzed', repoUrls };
+    }
+    return { kind: 'push', repoUrls, commitSha: body.after || '', branch: body.ref.slice('refs/heads/'.length), baseRef: null };
+  }
+
+  if (event === 'pull_request') {
+    if (!GITHUB_PULL_REQUEST_ACTIONS.includes(body.action || '')) {
+      return { ignored: `Pull request ${body.action || 'event'} does not change its code`, repoUrls };
+    }
+    const pullRequest = body.pull_request || {};
+    return {
+      kind: 'pull_request',
+      repoUrls,
+      commitSha: pullRequest.head?.sha || '',
+      branch: pullRequest.head?.ref || '',
+      baseRef: pullRequest.base?.ref || ''
+    };
+  }
+
+  return { ignored: `Unsupported event ${event}`, repoUrls };
+}
+
+function parseGitlabEvent(event: string, body: GitlabPayload): WebhookEvent | SkippedWebhookEvent {
+  // For merge requests, project is the target project the merge request is opened against
+  const project = body.project || {};
+  const repoUrls = [project.git_http_url, project.web_url, project.git_ssh_url].filter(isString);
+
+  if (event === 'Push Hook') {
+    // checkout_sha is null when the branch was deleted
+    if (!body.checkout_sha || DELETED_SHA.test(body.after || '')) {
+      return { ignored: 'Branch was deleted', repoUrls };
+    }
+    if (!isString(body.ref) || !body.ref.startsWith('refs/heads/')) {
+      return { ignored: 'Only pushes to branches are analyzed', repoUrls };
+    }
+    return { kind: 'push', repoUrls, commitSha: body.checkout_sha, branch: body.ref.slice('refs/heads/'.length), baseRef: null };
+  }
+
+  if (event === 'Merge Request Hook') {
+    const attributes = body.object_attributes || {};
+    // Updates without oldrev changed the title, labels or assignees rather than the commits
+    if (!GITLAB_MERGE_REQUEST_ACTIONS.includes(attributes.action || '') || (attributes.action === 'update' && !attributes.oldrev)) {
+      return { ignored: `Merge request ${attributes.action || 'event'} does not change its code`, repoUrls };
+    }
+    return {
+      kind: 'pull_request',
+      repoUrls,
+      commitSha: attributes.last_commit?.id || '',
+      branch: attributes.source_branch || '',
+      baseRef: attributes.target_branch || ''
+    };
+  }
+
+  return { ignored: `Unsupported event ${event}`, repoUrls };
+}
+
+function toRow(delivery: WebhookDelivery) {
+  return {
+    provider: delivery.provider,
+    delivery_id: delivery.deliveryId,
+    event: delivery.event,
+    repo_url: delivery.repoUrl,
+    status: delivery.status,
+    message: delivery.message,
+    project_ids: delivery.projectIds,
+    job_ids: delivery.jobIds
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
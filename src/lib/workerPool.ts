@@ -0,0 +1,111 @@
+import { Worker } from 'worker_threads';
+
+export type WorkerPool<TTask, TResult> = {
+  // Resolves with the worker's reply; rejects when the task fails, times out or its worker dies
+  run: (task: TTask) => Promise<TResult>;
+  close: () => Promise<void>;
+};
+
+// Messages exchanged with a pool thread
+export type WorkerRequest<TTask> = { id: number; task: TTask };
+export type WorkerReply<TResult> = { id: number; result: TResult } | { id: number; error: string };
+
+export class TaskTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs} ms`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+type Slot = {
+  worker: Worker;
+  busy: boolean;
+};
+
+type PendingTask<TTask, TResult> = {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+};
+
+// Each thread handles one task at a time; a thread that times out or crashes is replaced rather than reused
+export function createWorkerPool<TTask, TResult>(
+  createWorker: () => Worker,
+  size: number,
+  timeoutMs: number
+): WorkerPool<TTask, TResult> {
+  const slots: Slot[] = [];
+  const queue: Array<PendingTask<TTask, TResult>> = [];
+  let nextId = 0;
+  let closed = false;
+
+  const dispatch = () => {
+    while (queue.length > 0 && !closed) {
+      let slot = slots.find(candidate => !candidate.busy);
+      if (!slot && slots.length < size) {
+        slot = { worker: createWorker(), busy: false };
+        slots.push(slot);
+      }
+      if (!slot) return;
+      execute(slot, queue.shift()!);
+    }
+  };
+
+  const execute = (slot: Slot, pending: PendingTask<TTask, TResult>) => {
+    slot.busy = true;
+    const { worker } = slot;
+
+    const finish = (settle: () => void, replace: boolean) => {
+      clearTimeout(timer);
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+      if (replace) {
+        // Already gone when the pool was closed under a running task
+        if (slots.includes(slot)) slots.splice(slots.indexOf(slot), 1);
+        worker.terminate().catch(() => {});
+      } else {
+        slot.busy = false;
+      }
+      settle();
+      dispatch();
+    };
+
+    const onMessage = (reply: WorkerReply<TResult>) => {
+      if (reply.id !== pending.id) return;
+      if ('error' in reply) {
+        finish(() => pending.reject(new Error(reply.error)), false);
+      } else {
+        finish(() => pending.resolve(reply.result), false);
+      }
+    };
+    const onError = (error: Error) => finish(() => pending.reject(error), true);
+    const onExit = (code: number) => finish(
+      () => pending.reject(new Error(closed ? 'Worker pool is closed' : `Worker exited with code ${code}`)),
+      true
+    );
+    const timer = setTimeout(() => finish(() => pending.reject(new TaskTimeoutError(timeoutMs)), true), timeoutMs);
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+    worker.postMessage({ id: pending.id, task: pending.task } satisfies WorkerRequest<TTask>);
+  };
+
+  return {
+    run: task => new Promise<TResult>((resolve, reject) => {
+      if (closed) {
+        reject(new Error('Worker pool is closed'));
+        return;
+      }
+      queue.push({ id: nextId++, task, resolve, reject });
+      dispatch();
+    }),
+    close: async () => {
+      closed = true;
+      queue.splice(0).forEach(pending => pending.reject(new Error('Worker pool is closed')));
+      await Promise.all(slots.splice(0).map(slot => slot.worker.terminate()));
+    }
+  };
+}
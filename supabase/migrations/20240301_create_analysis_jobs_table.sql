@@ -0,0 +1,51 @@
+-- Background analysis jobs, one row per requested analysis
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    stage TEXT NOT NULL DEFAULT 'queued'
+        CHECK (stage IN ('queued', 'clone', 'scan', 'metrics', 'persist', 'done')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    repo_url TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    -- Kept so a queued job can still clone after a server restart; cleared once the job finishes
+    access_token TEXT,
+    cancel_requested BOOLEAN NOT NULL DEFAULT false,
+    error_message TEXT,
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for faster queries
+CREATE INDEX idx_analysis_jobs_project_id ON public.analysis_jobs(project_id);
+CREATE INDEX idx_analysis_jobs_status_created_at ON public.analysis_jobs(status, created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are visible to the owner of the project they belong to
+CREATE POLICY "Enable read for project owners" ON public.analysis_jobs
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable insert for project owners" ON public.analysis_jobs
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable update for project owners" ON public.analysis_jobs
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+-- Reuse the updated_at trigger function from the projects migration
+CREATE TRIGGER update_analysis_jobs_updated_at
+    BEFORE UPDATE ON public.analysis_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,41 @@
+-- One row per completed analysis so results can be compared over time
+CREATE TABLE IF NOT EXISTS public.analysis_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    job_id UUID REFERENCES public.analysis_jobs(id) ON DELETE SET NULL,
+    commit_sha TEXT,
+    branch TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    timings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    tool_versions JSONB NOT NULL DEFAULT '{}'::jsonb,
+    overall_score NUMERIC NOT NULL,
+    results JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Number of runs kept per project; older runs are pruned after each new run
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS run_retention INTEGER NOT NULL DEFAULT 50
+    CHECK (run_retention > 0);
+
+-- Create index for faster queries
+CREATE INDEX idx_analysis_runs_project_id_created_at ON public.analysis_runs(project_id, created_at DESC);
+CREATE INDEX idx_analysis_runs_user_id ON public.analysis_runs(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.analysis_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies matching the projects table
+CREATE POLICY "Enable read for users based on user_id" ON public.analysis_runs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for authenticated users only" ON public.analysis_runs
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id" ON public.analysis_runs
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id" ON public.analysis_runs
+    FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- Versioned scoring models; the highest version of a project is the one in use
+CREATE TABLE IF NOT EXISTS public.scoring_models (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    model JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (project_id, version)
+);
+
+-- Version of the model that produced each stored score; 0 is the built-in default
+ALTER TABLE public.analysis_runs ADD COLUMN IF NOT EXISTS scoring_model_version INTEGER NOT NULL DEFAULT 0;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.scoring_models ENABLE ROW LEVEL SECURITY;
+
+-- Models are visible to the owner of the project they belong to
+CREATE POLICY "Enable read for project owners" ON public.scoring_models
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable insert for project owners" ON public.scoring_models
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
@@ -0,0 +1,7 @@
+-- Rate used to turn estimated remediation hours into a cost on the project page
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS hourly_rate NUMERIC NOT NULL DEFAULT 50
+    CHECK (hourly_rate >= 0);
+
+-- ISO 4217 currency code the cost is shown in
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD'
+    CHECK (currency ~ '^[A-Z]{3}$');
@@ -0,0 +1,22 @@
+-- Uploaded archives get their own pipeline stage in place of the clone
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT IF EXISTS analysis_jobs_stage_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_stage_check
+    CHECK (stage IN ('queued', 'clone', 'extract', 'scan', 'metrics', 'persist', 'done'));
+
+-- Private bucket for uploaded project archives, stored as <project_id>/<timestamp>.<format>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-archives', 'project-archives', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Archives are visible to the owner of the project they belong to
+CREATE POLICY "Enable archive read for project owners" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'project-archives' AND
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id::text = (storage.foldername(name))[1] AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable archive upload for project owners" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'project-archives' AND
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id::text = (storage.foldername(name))[1] AND p.user_id = auth.uid())
+    );
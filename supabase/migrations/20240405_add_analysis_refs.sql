@@ -0,0 +1,10 @@
+-- Branch, tag or commit requested for an analysis; NULL analyzes the default branch
+ALTER TABLE public.analysis_jobs ADD COLUMN IF NOT EXISTS ref TEXT;
+ALTER TABLE public.analysis_runs ADD COLUMN IF NOT EXISTS ref TEXT;
+
+-- Remote and default branch of imported repositories, reused when re-analyzing
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS git_url TEXT;
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS default_branch TEXT;
+
+-- Runs are compared per branch
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_project_id_branch ON public.analysis_runs(project_id, branch, created_at DESC);
@@ -0,0 +1,3 @@
+-- Include/exclude globs, test and generated patterns and per-path thresholds edited in the project settings;
+-- a .t3kdet.yml in the repository takes precedence
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS analysis_config JSONB NOT NULL DEFAULT '{}'::jsonb;
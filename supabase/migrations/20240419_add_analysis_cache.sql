@@ -0,0 +1,27 @@
+-- Files reused from the per-file cache and files analyzed afresh; NULL for runs from before the cache
+ALTER TABLE public.analysis_runs ADD COLUMN IF NOT EXISTS cache_hits INTEGER;
+ALTER TABLE public.analysis_runs ADD COLUMN IF NOT EXISTS cache_misses INTEGER;
+
+-- Private bucket for per-file analysis results, stored as <project_id>/files.json.gz and replaced after each run
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('analysis-cache', 'analysis-cache', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- The cache is read and rewritten on behalf of the project owner
+CREATE POLICY "Enable analysis cache read for project owners" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'analysis-cache' AND
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id::text = (storage.foldername(name))[1] AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable analysis cache upload for project owners" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'analysis-cache' AND
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id::text = (storage.foldername(name))[1] AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable analysis cache update for project owners" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'analysis-cache' AND
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id::text = (storage.foldername(name))[1] AND p.user_id = auth.uid())
+    );
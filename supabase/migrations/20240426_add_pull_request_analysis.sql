@@ -0,0 +1,7 @@
+-- Target branch of a pull request; its merge base with ref is analyzed as the baseline
+ALTER TABLE public.analysis_jobs ADD COLUMN IF NOT EXISTS base_ref TEXT;
+
+-- The baseline is analyzed in its own stage after the head commit
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT IF EXISTS analysis_jobs_stage_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_stage_check
+    CHECK (stage IN ('queued', 'clone', 'extract', 'scan', 'metrics', 'baseline', 'persist', 'done'));
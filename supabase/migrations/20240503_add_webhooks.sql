@@ -0,0 +1,72 @@
+-- Secret shared with a project's GitHub or GitLab webhook, and an optional token to clone private repositories with
+CREATE TABLE IF NOT EXISTS public.project_webhooks (
+    project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    access_token TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE public.project_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for project owners" ON public.project_webhooks
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable insert for project owners" ON public.project_webhooks
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable update for project owners" ON public.project_webhooks
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable delete for project owners" ON public.project_webhooks
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_project_webhooks_updated_at
+    BEFORE UPDATE ON public.project_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Every webhook request with its outcome, kept for debugging deliveries
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider TEXT NOT NULL CHECK (provider IN ('github', 'gitlab')),
+    -- X-GitHub-Delivery, or GitLab's Idempotency-Key; the same for every retry of a delivery
+    delivery_id TEXT,
+    event TEXT,
+    repo_url TEXT,
+    status TEXT NOT NULL
+        CHECK (status IN ('processing', 'queued', 'ignored', 'duplicate', 'rejected', 'failed')),
+    message TEXT,
+    -- Set for deliveries with a valid signature that are being or were processed; failures are cleared so retries go through
+    accepted BOOLEAN NOT NULL DEFAULT false,
+    project_ids UUID[] NOT NULL DEFAULT '{}',
+    job_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Retried deliveries are recognised by this index rejecting a second accepted row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_accepted
+    ON public.webhook_deliveries(provider, delivery_id) WHERE accepted;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created_at ON public.webhook_deliveries(created_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are visible to the owners of the projects they were matched to
+CREATE POLICY "Enable read for project owners" ON public.webhook_deliveries
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = ANY(project_ids) AND p.user_id = auth.uid())
+    );
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON public.webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
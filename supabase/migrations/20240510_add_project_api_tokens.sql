@@ -0,0 +1,28 @@
+-- Tokens CI jobs use to upload runs from the command-line analyzer; only a SHA-256 hash of each token is kept
+CREATE TABLE IF NOT EXISTS public.project_api_tokens (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_api_tokens_project_id ON public.project_api_tokens(project_id);
+
+ALTER TABLE public.project_api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for project owners" ON public.project_api_tokens
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable insert for project owners" ON public.project_api_tokens
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
+
+CREATE POLICY "Enable delete for project owners" ON public.project_api_tokens
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    );
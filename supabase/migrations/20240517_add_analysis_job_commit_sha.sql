@@ -0,0 +1,2 @@
+-- Commit a push event named; the branch is cloned at this commit so its run records both
+ALTER TABLE public.analysis_jobs ADD COLUMN IF NOT EXISTS commit_sha TEXT;
@@ -0,0 +1,4 @@
+-- Blame runs in its own stage after the metrics, for projects that turn ownership on
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT IF EXISTS analysis_jobs_stage_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_stage_check
+    CHECK (stage IN ('queued', 'clone', 'extract', 'scan', 'metrics', 'ownership', 'baseline', 'persist', 'done'));